@@ -0,0 +1,217 @@
+/**
+ * Answer Analytics
+ * Records every Q&A attempt in answer_events and aggregates per-question and per-session statistics
+ */
+
+import type Database from 'better-sqlite3'
+import type { AnswerAnalytics, AnswerEvent, QuestionStats } from '../renderer/src/types/analytics'
+import type { OptionType } from '../renderer/src/types/question'
+
+// Days covered by the sessions-per-day chart
+const DAILY_WINDOW_DAYS = 30
+
+/**
+ * Store answer events; events already recorded for the same session/question/attempt are ignored,
+ * so a restored session can safely send its answers again
+ * Returns the number of new rows
+ */
+export function recordAnswerEvents(db: Database.Database, events: AnswerEvent[]): number {
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO answer_events (
+      sessionId, questionId, selectedAnswer, isCorrect, outcome, attempt, timeSpent,
+      pointsEarned, points, answeredAt
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `)
+
+  const record = db.transaction(() => {
+    let inserted = 0
+    for (const event of events) {
+      inserted += insert.run(
+        event.sessionId,
+        event.questionId,
+        event.selectedAnswer === null ? null : JSON.stringify(event.selectedAnswer),
+        event.isCorrect ? 1 : 0,
+        event.outcome,
+        event.attempt,
+        Math.max(0, Math.round(event.timeSpent)),
+        event.pointsEarned,
+        event.points,
+        event.answeredAt
+      ).changes
+    }
+    return inserted
+  })
+
+  return record()
+}
+
+function formatDay(time: number): string {
+  const date = new Date(time)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Count how often each wrong option was picked in wrong answers
+ */
+function countWrongOptions(
+  db: Database.Database,
+  correctAnswers: Map<string, number[]>
+): Map<string, Map<number, number>> {
+  const rows = db
+    .prepare(
+      `SELECT questionId, selectedAnswer FROM answer_events
+        WHERE outcome = 'answered' AND isCorrect = 0 AND selectedAnswer IS NOT NULL`
+    )
+    .all() as { questionId: string; selectedAnswer: string }[]
+
+  const counts = new Map<string, Map<number, number>>()
+  for (const row of rows) {
+    const correct = correctAnswers.get(row.questionId)
+    if (!correct) continue
+    const parsed = JSON.parse(row.selectedAnswer) as number | number[]
+    const selected = Array.isArray(parsed) ? parsed : [parsed]
+    for (const index of selected) {
+      if (correct.includes(index)) continue
+      const optionCounts = counts.get(row.questionId) ?? new Map<number, number>()
+      optionCounts.set(index, (optionCounts.get(index) ?? 0) + 1)
+      counts.set(row.questionId, optionCounts)
+    }
+  }
+  return counts
+}
+
+/**
+ * Aggregate all recorded answer events
+ */
+export function getAnswerAnalytics(db: Database.Database): AnswerAnalytics {
+  // Each question appears once per session with attempt 1 (or 0 when unanswered),
+  // so summing those rows gives the points the session offered
+  const sessions = db
+    .prepare(
+      `SELECT sessionId, MIN(answeredAt) AS startedAt, SUM(pointsEarned) AS score,
+          SUM(CASE WHEN attempt <= 1 THEN points ELSE 0 END) AS maxScore
+        FROM answer_events
+        GROUP BY sessionId`
+    )
+    .all() as { sessionId: string; startedAt: number; score: number; maxScore: number }[]
+
+  const { totalAttempts } = db
+    .prepare(`SELECT COUNT(*) AS totalAttempts FROM answer_events WHERE outcome != 'unanswered'`)
+    .get() as { totalAttempts: number }
+
+  const sessionsByHour = new Array<number>(24).fill(0)
+  const dayCounts = new Map<string, number>()
+  const windowStart = Date.now() - DAILY_WINDOW_DAYS * 24 * 60 * 60 * 1000
+  for (const session of sessions) {
+    sessionsByHour[new Date(session.startedAt).getHours()]++
+    if (session.startedAt >= windowStart) {
+      const day = formatDay(session.startedAt)
+      dayCounts.set(day, (dayCounts.get(day) ?? 0) + 1)
+    }
+  }
+  const sessionsByDay = [...dayCounts.entries()]
+    .map(([day, count]) => ({ day, count }))
+    .sort((a, b) => a.day.localeCompare(b.day))
+
+  const scoredSessions = sessions.filter((s) => s.maxScore > 0)
+  const averageScore =
+    sessions.length > 0 ? sessions.reduce((sum, s) => sum + s.score, 0) / sessions.length : null
+  const averageScoreRate =
+    scoredSessions.length > 0
+      ? scoredSessions.reduce((sum, s) => sum + s.score / s.maxScore, 0) / scoredSessions.length
+      : null
+
+  const questionRows = db
+    .prepare(
+      `SELECT id, text, optionType, options, correctAnswer FROM questions
+        WHERE deletedAt IS NULL ORDER BY createdAt ASC`
+    )
+    .all() as {
+    id: string
+    text: string
+    optionType: string
+    options: string
+    correctAnswer: string
+  }[]
+  const correctAnswers = new Map(
+    questionRows.map((q) => {
+      const parsed = JSON.parse(q.correctAnswer) as number | number[]
+      return [q.id, Array.isArray(parsed) ? parsed : [parsed]]
+    })
+  )
+
+  const aggregates = new Map(
+    (
+      db
+        .prepare(
+          `SELECT questionId,
+              SUM(attempt = 1) AS firstAttempts,
+              SUM(attempt = 1 AND isCorrect = 1) AS firstAttemptCorrect,
+              SUM(outcome = 'timed-out') AS timedOutCount,
+              SUM(outcome = 'unanswered') AS unansweredCount,
+              AVG(CASE WHEN outcome = 'answered' THEN timeSpent END) AS averageTimeSpent
+            FROM answer_events
+            GROUP BY questionId`
+        )
+        .all() as {
+        questionId: string
+        firstAttempts: number
+        firstAttemptCorrect: number
+        timedOutCount: number
+        unansweredCount: number
+        averageTimeSpent: number | null
+      }[]
+    ).map((row) => [row.questionId, row])
+  )
+  const wrongOptions = countWrongOptions(db, correctAnswers)
+
+  const questions: QuestionStats[] = questionRows.map((q) => {
+    const row = aggregates.get(q.id)
+    const firstAttempts = row?.firstAttempts ?? 0
+    const firstAttemptCorrect = row?.firstAttemptCorrect ?? 0
+
+    let topWrongOption: QuestionStats['topWrongOption'] = null
+    for (const [index, count] of wrongOptions.get(q.id) ?? []) {
+      if (!topWrongOption || count > topWrongOption.count) {
+        topWrongOption = { index, count }
+      }
+    }
+
+    return {
+      questionId: q.id,
+      text: q.text,
+      optionType: q.optionType as OptionType,
+      options: JSON.parse(q.options) as string[],
+      firstAttempts,
+      firstAttemptCorrect,
+      correctRate: firstAttempts > 0 ? firstAttemptCorrect / firstAttempts : null,
+      timedOutCount: row?.timedOutCount ?? 0,
+      unansweredCount: row?.unansweredCount ?? 0,
+      averageTimeSpent:
+        row?.averageTimeSpent !== null && row?.averageTimeSpent !== undefined
+          ? Math.round(row.averageTimeSpent)
+          : null,
+      topWrongOption
+    }
+  })
+
+  // Hardest first; questions nobody has answered yet go last
+  questions.sort((a, b) => {
+    if (a.correctRate === null) return b.correctRate === null ? 0 : 1
+    if (b.correctRate === null) return -1
+    return a.correctRate - b.correctRate
+  })
+
+  return {
+    totalSessions: sessions.length,
+    totalAttempts,
+    averageScore,
+    averageScoreRate,
+    questions,
+    sessionsByDay,
+    sessionsByHour
+  }
+}
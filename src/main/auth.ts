@@ -0,0 +1,158 @@
+/**
+ * Admin Authentication
+ * The admin password is kept as a salted scrypt hash in the settings table and sessions
+ * only exist in the main process, keyed by the webContents that logged in, so the
+ * renderer has nothing it could forge. Repeated wrong passwords lock the login with a
+ * growing delay that survives restarts
+ */
+
+import type Database from 'better-sqlite3'
+import type { IpcMainInvokeEvent } from 'electron'
+import { hashPassword, verifyPassword, type PasswordHash } from './passwords'
+import { getSetting, setSetting } from './settings'
+import { getLockedUntil as getLockoutUntil, recordFailedAttempt, resetLockout } from './lockout'
+import type { AuthSessionStatus, LoginResult } from '../renderer/src/types/auth'
+
+const CREDENTIALS_SETTING = 'adminCredentials'
+const LOCKOUT_SETTING = 'adminLoginLockout'
+// Accepted until the first login replaces it
+const DEFAULT_PASSWORD = 'admin123'
+const MIN_PASSWORD_LENGTH = 8
+const SESSION_DURATION = 24 * 60 * 60 * 1000
+// Wrong passwords allowed before the first lockout; each one after doubles the delay
+const FREE_ATTEMPTS = 5
+
+interface StoredCredentials extends PasswordHash {
+  mustChange: boolean
+  changedAt: number
+}
+
+// webContents id -> session expiry
+const sessions = new Map<number, number>()
+
+function getCredentials(db: Database.Database): StoredCredentials | null {
+  return getSetting<StoredCredentials | null>(db, CREDENTIALS_SETTING, null)
+}
+
+function mustChangePassword(db: Database.Database): boolean {
+  return getCredentials(db)?.mustChange ?? true
+}
+
+function checkPassword(db: Database.Database, password: string): boolean {
+  const credentials = getCredentials(db)
+  return credentials ? verifyPassword(password, credentials) : password === DEFAULT_PASSWORD
+}
+
+function getSessionExpiry(senderId: number): number | null {
+  const expiresAt = sessions.get(senderId)
+  if (expiresAt === undefined) return null
+  if (Date.now() > expiresAt) {
+    sessions.delete(senderId)
+    return null
+  }
+  return expiresAt
+}
+
+/**
+ * Whether the webContents has a live admin session
+ */
+export function hasSession(senderId: number): boolean {
+  return getSessionExpiry(senderId) !== null
+}
+
+/**
+ * Reject an IPC call unless its window has a live admin session; the handlers that change
+ * content call this first, so a kiosk page cannot reach them without logging in
+ */
+export function requireSession(event: IpcMainInvokeEvent): void {
+  if (!hasSession(event.sender.id)) {
+    throw new Error('登录已过期，请重新登录')
+  }
+}
+
+export function getSessionStatus(db: Database.Database, senderId: number): AuthSessionStatus {
+  const expiresAt = getSessionExpiry(senderId)
+  return {
+    authenticated: expiresAt !== null,
+    mustChangePassword: expiresAt !== null && mustChangePassword(db),
+    expiresAt
+  }
+}
+
+/**
+ * Time the login stays locked after too many wrong passwords, null if it is not locked
+ */
+export function getLockedUntil(db: Database.Database): number | null {
+  return getLockoutUntil(db, LOCKOUT_SETTING)
+}
+
+export function login(db: Database.Database, senderId: number, password: string): LoginResult {
+  const lockedUntil = getLockedUntil(db)
+  if (lockedUntil !== null) {
+    return { success: false, mustChangePassword: false, lockedUntil, remainingAttempts: 0 }
+  }
+
+  if (checkPassword(db, password)) {
+    resetLockout(db, LOCKOUT_SETTING)
+    sessions.set(senderId, Date.now() + SESSION_DURATION)
+    console.log('[Auth] Admin logged in')
+    return {
+      success: true,
+      mustChangePassword: mustChangePassword(db),
+      lockedUntil: null,
+      remainingAttempts: null
+    }
+  }
+
+  const { lockedUntil: nextLockedUntil, remainingAttempts } = recordFailedAttempt(
+    db,
+    LOCKOUT_SETTING,
+    FREE_ATTEMPTS
+  )
+  console.warn('[Auth] Wrong admin password')
+  return {
+    success: false,
+    mustChangePassword: false,
+    lockedUntil: nextLockedUntil,
+    remainingAttempts
+  }
+}
+
+export function logout(senderId: number): void {
+  sessions.delete(senderId)
+}
+
+/**
+ * Push the session expiry back; called while the admin is active
+ */
+export function extendSession(senderId: number): void {
+  if (getSessionExpiry(senderId) !== null) {
+    sessions.set(senderId, Date.now() + SESSION_DURATION)
+  }
+}
+
+export function changePassword(
+  db: Database.Database,
+  senderId: number,
+  currentPassword: string,
+  newPassword: string
+): void {
+  if (getSessionExpiry(senderId) === null) {
+    throw new Error('登录已过期，请重新登录')
+  }
+  if (!checkPassword(db, currentPassword)) {
+    throw new Error('当前密码不正确')
+  }
+  if (newPassword.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`新密码至少需要 ${MIN_PASSWORD_LENGTH} 个字符`)
+  }
+  if (newPassword === DEFAULT_PASSWORD || newPassword === currentPassword) {
+    throw new Error('新密码不能与当前密码或默认密码相同')
+  }
+  setSetting<StoredCredentials>(db, CREDENTIALS_SETTING, {
+    ...hashPassword(newPassword),
+    mustChange: false,
+    changedAt: Date.now()
+  })
+  console.log('[Auth] Admin password changed')
+}
@@ -0,0 +1,310 @@
+/**
+ * Database Backup Service
+ * Snapshots admin.db with the SQLite online backup API and restores them
+ * The media files a snapshot refers to are copied to a folder shared by all snapshots and put
+ * back on restore; they are named by content hash, so each is kept once
+ */
+
+import Database from 'better-sqlite3'
+import { join } from 'path'
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+  copyFileSync
+} from 'fs'
+import { app } from 'electron'
+import { getDatabase, getDatabasePath, closeDatabase } from './database'
+import { getMediaDirectory } from './media'
+import { migrations, getSchemaVersion } from './migrations'
+import type { BackupInfo, BackupReason } from '../renderer/src/types/admin'
+
+// Automatic snapshots kept before the oldest are rotated out (manual ones are never rotated)
+const MAX_AUTO_BACKUPS = 10
+const BACKUP_ID_PATTERN = /^backup-\d{8}-\d{6}-\d{3}-[a-z-]+$/
+
+interface BackupMetadata {
+  reason: BackupReason
+  label: string | null
+  createdAt: number
+  schemaVersion: number | null
+}
+
+// Serializes backup/restore/delete so a restore never swaps the file under a running backup
+let pending: Promise<unknown> = Promise.resolve()
+
+function runExclusive<T>(task: () => Promise<T>): Promise<T> {
+  const result = pending.then(task, task)
+  pending = result.catch(() => undefined)
+  return result
+}
+
+/**
+ * Get (and create) the backups folder in userData
+ */
+export function getBackupDirectory(): string {
+  const dir = join(app.getPath('userData'), 'backups')
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+  }
+  return dir
+}
+
+function getBackupMediaDirectory(): string {
+  const dir = join(getBackupDirectory(), 'media')
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+  }
+  return dir
+}
+
+/**
+ * Files of the media library a database refers to (none before the media table existed)
+ */
+function readMediaFileNames(db: Database.Database): string[] {
+  const hasMedia = db
+    .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'media'")
+    .get()
+  if (!hasMedia) return []
+  const rows = db.prepare('SELECT fileName FROM media').all() as { fileName: string }[]
+  return rows.map((row) => row.fileName)
+}
+
+/**
+ * Copy media files between folders, skipping those already there
+ * Returns the files found in neither folder
+ */
+function copyMediaFiles(fileNames: string[], from: string, to: string): string[] {
+  const missing: string[] = []
+  for (const fileName of fileNames) {
+    const target = join(to, fileName)
+    if (existsSync(target)) continue
+    const source = join(from, fileName)
+    if (existsSync(source)) {
+      copyFileSync(source, target)
+    } else {
+      missing.push(fileName)
+    }
+  }
+  return missing
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0')
+}
+
+/**
+ * Build a sortable id such as backup-20240101-093000-123-startup
+ */
+function createBackupId(date: Date, reason: BackupReason): string {
+  const day = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`
+  const time = `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  return `backup-${day}-${time}-${pad(date.getMilliseconds(), 3)}-${reason}`
+}
+
+/**
+ * Resolve the snapshot file for an id, rejecting anything that is not one of ours
+ */
+function resolveBackupFile(id: string): string {
+  if (!BACKUP_ID_PATTERN.test(id)) {
+    throw new Error(`Invalid backup id: ${id}`)
+  }
+  const file = join(getBackupDirectory(), `${id}.db`)
+  if (!existsSync(file)) {
+    throw new Error(`Backup not found: ${id}`)
+  }
+  return file
+}
+
+function readBackupInfo(dir: string, id: string): BackupInfo {
+  const file = join(dir, `${id}.db`)
+  const stats = statSync(file)
+  let metadata: Partial<BackupMetadata> = {}
+  try {
+    metadata = JSON.parse(readFileSync(join(dir, `${id}.json`), 'utf-8'))
+  } catch {
+    // Metadata is optional; fall back to file information
+  }
+  return {
+    id,
+    reason: metadata.reason ?? 'manual',
+    label: metadata.label ?? null,
+    createdAt: metadata.createdAt ?? stats.mtimeMs,
+    size: stats.size,
+    schemaVersion: metadata.schemaVersion ?? null
+  }
+}
+
+function removeBackupFiles(id: string): void {
+  const dir = getBackupDirectory()
+  for (const file of [`${id}.db`, `${id}.json`]) {
+    const path = join(dir, file)
+    if (existsSync(path)) {
+      unlinkSync(path)
+    }
+  }
+}
+
+/**
+ * List snapshots, newest first
+ */
+export function listBackups(): BackupInfo[] {
+  const dir = getBackupDirectory()
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.db'))
+    .map((file) => file.slice(0, -3))
+    .filter((id) => BACKUP_ID_PATTERN.test(id))
+    .map((id) => readBackupInfo(dir, id))
+    .sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/**
+ * Delete automatic snapshots beyond MAX_AUTO_BACKUPS
+ */
+function rotateBackups(): void {
+  const automatic = listBackups().filter((backup) => backup.reason !== 'manual')
+  for (const backup of automatic.slice(MAX_AUTO_BACKUPS)) {
+    console.log('[Backup] Rotating out old snapshot:', backup.id)
+    removeBackupFiles(backup.id)
+  }
+}
+
+async function writeBackup(reason: BackupReason, label: string | null): Promise<BackupInfo> {
+  const db = getDatabase()
+  const now = new Date()
+  const id = createBackupId(now, reason)
+  const dir = getBackupDirectory()
+
+  await db.backup(join(dir, `${id}.db`))
+  const missing = copyMediaFiles(
+    readMediaFileNames(db),
+    getMediaDirectory(),
+    getBackupMediaDirectory()
+  )
+  if (missing.length > 0) {
+    console.warn('[Backup] Media files missing from the library:', missing)
+  }
+
+  const metadata: BackupMetadata = {
+    reason,
+    label,
+    createdAt: now.getTime(),
+    schemaVersion: getSchemaVersion(db)
+  }
+  writeFileSync(join(dir, `${id}.json`), JSON.stringify(metadata, null, 2), 'utf-8')
+  console.log('[Backup] Snapshot created:', id)
+  return readBackupInfo(dir, id)
+}
+
+/**
+ * Take a snapshot of the live database
+ */
+export function createBackup(reason: BackupReason, label?: string): Promise<BackupInfo> {
+  return runExclusive(async () => {
+    const backup = await writeBackup(reason, label?.trim() || null)
+    if (reason !== 'manual') {
+      rotateBackups()
+    }
+    return backup
+  })
+}
+
+/**
+ * Check that a snapshot is a readable database this app can open
+ */
+function validateBackup(file: string): void {
+  const source = new Database(file, { readonly: true, fileMustExist: true })
+  try {
+    const check = source.pragma('quick_check', { simple: true })
+    if (check !== 'ok') {
+      throw new Error(`Backup file is corrupted: ${String(check)}`)
+    }
+    const version = getSchemaVersion(source)
+    const latest = migrations[migrations.length - 1].version
+    if (version > latest) {
+      throw new Error(
+        `Backup schema version ${version} is newer than this app supports (${latest})`
+      )
+    }
+  } finally {
+    source.close()
+  }
+}
+
+/**
+ * Put the media files a snapshot refers to back into the media library
+ * Files lost from both the library and the backups are reported, not fatal: the snapshot's
+ * text content is still worth restoring
+ */
+function restoreBackupMedia(file: string): void {
+  const source = new Database(file, { readonly: true, fileMustExist: true })
+  try {
+    const missing = copyMediaFiles(
+      readMediaFileNames(source),
+      getBackupMediaDirectory(),
+      getMediaDirectory()
+    )
+    if (missing.length > 0) {
+      console.warn('[Backup] Snapshot refers to media files that are gone:', missing)
+    }
+  } finally {
+    source.close()
+  }
+}
+
+/**
+ * Replace the database file with a snapshot and reopen it (pending migrations run on reopen)
+ * Runs synchronously so no IPC handler can touch the database mid-swap
+ */
+function replaceDatabaseFile(file: string): void {
+  const dbPath = getDatabasePath()
+  closeDatabase()
+  for (const suffix of ['-journal', '-wal', '-shm']) {
+    if (existsSync(dbPath + suffix)) {
+      unlinkSync(dbPath + suffix)
+    }
+  }
+  copyFileSync(file, dbPath)
+  getDatabase()
+}
+
+/**
+ * Restore a snapshot over the live database
+ * The current state is snapshotted first and put back if the restored file fails to open
+ */
+export function restoreBackup(id: string): Promise<BackupInfo> {
+  return runExclusive(async () => {
+    const file = resolveBackupFile(id)
+    validateBackup(file)
+    restoreBackupMedia(file)
+
+    const safety = await writeBackup('before-restore', null)
+    try {
+      replaceDatabaseFile(file)
+    } catch (error) {
+      console.error('[Backup] Restore failed, rolling back to:', safety.id, error)
+      replaceDatabaseFile(join(getBackupDirectory(), `${safety.id}.db`))
+      throw error
+    }
+    console.log('[Backup] Restored snapshot:', id)
+    // Rotate only now so the snapshot being restored cannot be removed mid-restore
+    rotateBackups()
+    return safety
+  })
+}
+
+/**
+ * Delete a snapshot
+ */
+export function deleteBackup(id: string): Promise<boolean> {
+  return runExclusive(async () => {
+    resolveBackupFile(id)
+    removeBackupFiles(id)
+    console.log('[Backup] Snapshot deleted:', id)
+    return true
+  })
+}
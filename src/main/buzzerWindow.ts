@@ -0,0 +1,133 @@
+/**
+ * Buzzer Window
+ * Second window of the host mode with one big buzzer per team, placed on another display
+ * when there is one. Its key presses and buzzer taps are relayed to the presenter's window,
+ * and the presenter's window keeps its buzzer panel up to date
+ */
+
+import { BrowserWindow, screen, type WebContents } from 'electron'
+import { join } from 'path'
+import { is } from '@electron-toolkit/utils'
+import type { BuzzerPanel } from '../renderer/src/types/host'
+
+let buzzerWindow: BrowserWindow | null = null
+// Presenter's window that opened the buzzer window
+let hostContents: WebContents | null = null
+let lastPanel: BuzzerPanel | null = null
+
+/**
+ * Open the buzzer window for a presenter's window (or bring it to the front)
+ * @returns Whether it went to a display of its own
+ */
+export function openBuzzerWindow(host: WebContents): boolean {
+  const hostWindow = BrowserWindow.fromWebContents(host)
+  const hostDisplay = hostWindow
+    ? screen.getDisplayMatching(hostWindow.getBounds())
+    : screen.getPrimaryDisplay()
+  const otherDisplay = screen.getAllDisplays().find((display) => display.id !== hostDisplay.id)
+
+  if (buzzerWindow && !buzzerWindow.isDestroyed()) {
+    buzzerWindow.focus()
+    return otherDisplay !== undefined
+  }
+
+  hostContents = host
+  const window = new BrowserWindow({
+    width: 1024,
+    height: 768,
+    ...(otherDisplay
+      ? {
+          x: otherDisplay.bounds.x,
+          y: otherDisplay.bounds.y,
+          width: otherDisplay.bounds.width,
+          height: otherDisplay.bounds.height,
+          fullscreen: true
+        }
+      : {}),
+    title: '抢答器',
+    autoHideMenuBar: true,
+    show: false,
+    webPreferences: {
+      preload: join(__dirname, '../preload/index.js'),
+      sandbox: false,
+      devTools: is.dev || process.env.VITE_ENABLE_DEVTOOLS === 'true',
+      nodeIntegration: false,
+      contextIsolation: true
+    }
+  })
+  buzzerWindow = window
+
+  window.once('ready-to-show', () => window.show())
+
+  // Keys pressed on the buzzer window reach the presenter's window like its own key presses
+  window.webContents.on('before-input-event', (_event, input) => {
+    if (input.type === 'keyDown' && hostContents && !hostContents.isDestroyed()) {
+      hostContents.send('keyboard-input', {
+        key: input.key,
+        code: input.code,
+        shift: input.shift,
+        control: input.control,
+        alt: input.alt,
+        meta: input.meta
+      })
+    }
+  })
+
+  window.on('closed', () => {
+    console.log('[Host] Buzzer window closed')
+    buzzerWindow = null
+    host.off('destroyed', closeBuzzerWindow)
+    if (hostContents && !hostContents.isDestroyed()) {
+      hostContents.send('host:buzzerWindowClosed')
+    }
+    hostContents = null
+  })
+
+  // The buzzer window has no use without its presenter
+  host.once('destroyed', closeBuzzerWindow)
+
+  if (is.dev && process.env['ELECTRON_RENDERER_URL']) {
+    window.loadURL(`${process.env['ELECTRON_RENDERER_URL']}#/buzzer`)
+  } else {
+    window.loadFile(join(__dirname, '../renderer/index.html'), { hash: '/buzzer' })
+  }
+
+  console.log('[Host] Buzzer window opened', otherDisplay ? 'on a second display' : 'windowed')
+  return otherDisplay !== undefined
+}
+
+export function closeBuzzerWindow(): void {
+  if (buzzerWindow && !buzzerWindow.isDestroyed()) {
+    buzzerWindow.close()
+  }
+}
+
+export function isBuzzerWindowOpen(): boolean {
+  return buzzerWindow !== null && !buzzerWindow.isDestroyed()
+}
+
+/**
+ * Show the presenter's latest state on the buzzer window
+ */
+export function updateBuzzerPanel(panel: BuzzerPanel): void {
+  lastPanel = panel
+  if (buzzerWindow && !buzzerWindow.isDestroyed()) {
+    buzzerWindow.webContents.send('host:buzzerPanel', panel)
+  }
+}
+
+/**
+ * Panel to show when the buzzer window (re)loads
+ */
+export function getBuzzerPanel(): BuzzerPanel | null {
+  return lastPanel
+}
+
+/**
+ * A buzzer was tapped on the buzzer window
+ */
+export function relayBuzz(team: number): void {
+  if (hostContents && !hostContents.isDestroyed()) {
+    hostContents.send('host:buzz', team)
+  }
+}
@@ -0,0 +1,491 @@
+/**
+ * Content Package (.qapkg)
+ * Gzipped JSON bundle of categories, entries, questions, QA settings and the media they use
+ * (entry images, question images and videos), used to copy authored content from one kiosk
+ * to another
+ */
+
+import type Database from 'better-sqlite3'
+import { createHash } from 'crypto'
+import { readFileSync, writeFileSync } from 'fs'
+import { basename } from 'path'
+import { gunzipSync, gzipSync } from 'zlib'
+import { app } from 'electron'
+import { getSchemaVersion } from './migrations'
+import { MEDIA_URL_PATTERN, readMedia, storeMedia } from './media'
+import { getQuestionCategoryMap, setQuestionCategories } from './questionCategories'
+import { softDeleteAllContent } from './recycleBin'
+import type { Category, Entry } from '../renderer/src/types/admin'
+import type { Question, QuestionMedia } from '../renderer/src/types/question'
+import type {
+  ContentCounts,
+  ContentPackage,
+  ContentPackageManifest,
+  PackageConflict,
+  PackagedImage,
+  PackageImportOptions,
+  PackagePreview
+} from '../renderer/src/types/contentPackage'
+
+export const PACKAGE_EXTENSION = 'qapkg'
+const PACKAGE_VERSION = 1
+
+const DATA_URI_PATTERN = /data:(image\/[a-z0-9.+-]+);base64,([a-z0-9+/=]+)/gi
+const IMAGE_REF_PREFIX = 'qapkg-image:'
+const IMAGE_REF_PATTERN = /qapkg-image:([0-9a-f]{64})/g
+
+interface QuestionRow {
+  id: string
+  text: string
+  questionType: string
+  optionType: string
+  options: string
+  correctAnswer: string
+  acceptedAnswers: string
+  media: string | null
+  optionMedia: string
+  shuffleOptions: number
+  points: number
+  explanation: string
+  entryId: string | null
+  createdAt: number
+  updatedAt: number
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+function checksum(section: unknown): string {
+  return sha256(JSON.stringify(section))
+}
+
+/**
+ * Move media library and inline base64 images out of entry HTML into the shared image table
+ * Media hashes are the SHA-256 of the file, so both kinds map to the same reference
+ */
+function extractImages(
+  db: Database.Database,
+  html: string,
+  images: Record<string, PackagedImage>
+): string {
+  return html
+    .replace(DATA_URI_PATTERN, (_match, mimeType: string, data: string) => {
+      const hash = sha256(Buffer.from(data, 'base64'))
+      images[hash] = { mimeType, data }
+      return `${IMAGE_REF_PREFIX}${hash}`
+    })
+    .replace(MEDIA_URL_PATTERN, (match, hash: string) => {
+      if (!images[hash]) {
+        const media = readMedia(db, hash)
+        if (!media) return match
+        images[hash] = { mimeType: media.mimeType, data: media.data.toString('base64') }
+      }
+      return `${IMAGE_REF_PREFIX}${hash}`
+    })
+}
+
+/**
+ * Store packaged images in the media library and point entry HTML at them
+ */
+function restoreImages(
+  db: Database.Database,
+  html: string,
+  images: Record<string, PackagedImage>
+): string {
+  return html.replace(IMAGE_REF_PATTERN, (match, hash: string) => {
+    const image = images[hash]
+    return image ? storeMedia(db, Buffer.from(image.data, 'base64'), image.mimeType) : match
+  })
+}
+
+/**
+ * Map the media URLs of a question's stem and option attachments
+ */
+function mapQuestionMedia(question: Question, mapUrl: (url: string) => string): Question {
+  const mapMedia = (media: QuestionMedia | null | undefined): QuestionMedia | null =>
+    media ? { ...media, url: mapUrl(media.url) } : null
+  return {
+    ...question,
+    media: mapMedia(question.media),
+    optionMedia: (question.optionMedia ?? []).map(mapMedia)
+  }
+}
+
+/**
+ * Live questions; a link to an entry in the recycle bin is dropped, as that entry is not
+ * exported and the import would fail its foreign key check on a kiosk without it
+ */
+function readQuestions(db: Database.Database): Question[] {
+  const rows = db
+    .prepare(
+      `SELECT q.id, q.text, q.questionType, q.optionType, q.options, q.correctAnswer,
+          q.acceptedAnswers, q.media, q.optionMedia, q.shuffleOptions, q.points, q.explanation,
+          e.id AS entryId, q.createdAt, q.updatedAt
+        FROM questions q
+        LEFT JOIN entries e ON e.id = q.entryId AND e.deletedAt IS NULL
+        WHERE q.deletedAt IS NULL ORDER BY q.createdAt ASC`
+    )
+    .all() as QuestionRow[]
+  const categoryMap = getQuestionCategoryMap(db)
+  return rows.map((q) => ({
+    ...q,
+    options: JSON.parse(q.options) as string[],
+    correctAnswer: JSON.parse(q.correctAnswer) as number | number[],
+    acceptedAnswers: JSON.parse(q.acceptedAnswers) as string[][],
+    media: q.media ? (JSON.parse(q.media) as QuestionMedia) : null,
+    optionMedia: JSON.parse(q.optionMedia) as (QuestionMedia | null)[],
+    shuffleOptions: !!q.shuffleOptions,
+    questionType: q.questionType as Question['questionType'],
+    optionType: q.optionType as Question['optionType'],
+    categoryIds: categoryMap.get(q.id) ?? []
+  }))
+}
+
+/**
+ * Live entries; a child whose parent is in the recycle bin is exported as top-level
+ */
+function readEntries(db: Database.Database): Entry[] {
+  return db
+    .prepare(
+      `SELECT e.id, e.categoryId, e.title, e.content, p.id AS parentEntryId, e.chapterOrder,
+          e.createdAt, e.updatedAt
+        FROM entries e
+        LEFT JOIN entries p ON p.id = e.parentEntryId AND p.deletedAt IS NULL
+        WHERE e.deletedAt IS NULL ORDER BY e.categoryId, e.chapterOrder ASC`
+    )
+    .all() as Entry[]
+}
+
+function readCategories(db: Database.Database): Category[] {
+  return db
+    .prepare(
+      `SELECT id, name, description, "order", createdAt, updatedAt
+        FROM categories WHERE deletedAt IS NULL ORDER BY "order" ASC`
+    )
+    .all() as Category[]
+}
+
+/**
+ * Build a package from the live database
+ */
+export function buildPackage(
+  db: Database.Database,
+  qaSettings: Record<string, unknown> | null
+): ContentPackage {
+  const images: Record<string, PackagedImage> = {}
+  const categories = readCategories(db)
+  const entries = readEntries(db).map((entry) => ({
+    ...entry,
+    content: extractImages(db, entry.content, images)
+  }))
+  const questions = readQuestions(db).map((question) =>
+    mapQuestionMedia(question, (url) => extractImages(db, url, images))
+  )
+
+  const manifest: ContentPackageManifest = {
+    format: 'qapkg',
+    version: PACKAGE_VERSION,
+    appVersion: app.getVersion(),
+    schemaVersion: getSchemaVersion(db),
+    createdAt: Date.now(),
+    counts: {
+      categories: categories.length,
+      entries: entries.length,
+      questions: questions.length,
+      images: Object.keys(images).length
+    },
+    checksums: {
+      categories: checksum(categories),
+      entries: checksum(entries),
+      questions: checksum(questions),
+      qaSettings: checksum(qaSettings),
+      images: Object.keys(images).sort()
+    }
+  }
+
+  return { manifest, categories, entries, questions, qaSettings, images }
+}
+
+export function writePackageFile(filePath: string, pkg: ContentPackage): void {
+  writeFileSync(filePath, gzipSync(JSON.stringify(pkg)))
+}
+
+/**
+ * Read a package and verify its manifest and checksums
+ */
+export function readPackageFile(filePath: string): ContentPackage {
+  let pkg: ContentPackage
+  try {
+    pkg = JSON.parse(gunzipSync(readFileSync(filePath)).toString('utf-8')) as ContentPackage
+  } catch {
+    throw new Error(`${basename(filePath)} is not a valid content package`)
+  }
+
+  const { manifest } = pkg
+  if (manifest?.format !== 'qapkg') {
+    throw new Error(`${basename(filePath)} is not a valid content package`)
+  }
+  if (manifest.version > PACKAGE_VERSION) {
+    throw new Error(
+      `Package format version ${manifest.version} is newer than this app supports (${PACKAGE_VERSION})`
+    )
+  }
+
+  const sections = ['categories', 'entries', 'questions', 'qaSettings'] as const
+  for (const section of sections) {
+    if (checksum(pkg[section]) !== manifest.checksums[section]) {
+      throw new Error(`Package checksum mismatch in ${section}; the file may be damaged`)
+    }
+  }
+
+  const imageHashes = Object.keys(pkg.images ?? {}).sort()
+  if (imageHashes.join() !== [...manifest.checksums.images].sort().join()) {
+    throw new Error('Package image list does not match its manifest')
+  }
+  for (const hash of imageHashes) {
+    if (sha256(Buffer.from(pkg.images[hash].data, 'base64')) !== hash) {
+      throw new Error(`Package image ${hash.slice(0, 12)} is damaged`)
+    }
+  }
+
+  return pkg
+}
+
+function countAll(db: Database.Database): ContentCounts {
+  const count = (table: string): number =>
+    (
+      db.prepare(`SELECT COUNT(*) as count FROM ${table} WHERE deletedAt IS NULL`).get() as {
+        count: number
+      }
+    ).count
+  return {
+    categories: count('categories'),
+    entries: count('entries'),
+    questions: count('questions')
+  }
+}
+
+/**
+ * Compare a package against the live database without changing anything
+ */
+export function previewPackage(
+  db: Database.Database,
+  pkg: ContentPackage,
+  filePath: string
+): PackagePreview {
+  const conflicts: PackageConflict[] = []
+  const newCounts: ContentCounts = { categories: 0, entries: 0, questions: 0 }
+
+  const localCategories = new Map(readCategories(db).map((c) => [c.id, c]))
+  for (const incoming of pkg.categories) {
+    const local = localCategories.get(incoming.id)
+    if (!local) {
+      newCounts.categories++
+      continue
+    }
+    conflicts.push({
+      kind: 'category',
+      id: incoming.id,
+      localTitle: local.name,
+      incomingTitle: incoming.name,
+      identical:
+        local.name === incoming.name &&
+        local.description === incoming.description &&
+        local.order === incoming.order
+    })
+  }
+
+  const localEntries = new Map(readEntries(db).map((e) => [e.id, e]))
+  const localImages: Record<string, PackagedImage> = {}
+  for (const incoming of pkg.entries) {
+    const local = localEntries.get(incoming.id)
+    if (!local) {
+      newCounts.entries++
+      continue
+    }
+    conflicts.push({
+      kind: 'entry',
+      id: incoming.id,
+      localTitle: local.title,
+      incomingTitle: incoming.title,
+      identical:
+        local.categoryId === incoming.categoryId &&
+        local.title === incoming.title &&
+        extractImages(db, local.content, localImages) === incoming.content &&
+        (local.parentEntryId ?? null) === (incoming.parentEntryId ?? null) &&
+        (local.chapterOrder ?? 0) === (incoming.chapterOrder ?? 0)
+    })
+  }
+
+  const localQuestions = new Map(
+    readQuestions(db).map((q) => [
+      q.id,
+      mapQuestionMedia(q, (url) => extractImages(db, url, localImages))
+    ])
+  )
+  for (const incoming of pkg.questions) {
+    const local = localQuestions.get(incoming.id)
+    if (!local) {
+      newCounts.questions++
+      continue
+    }
+    conflicts.push({
+      kind: 'question',
+      id: incoming.id,
+      localTitle: local.text,
+      incomingTitle: incoming.text,
+      identical:
+        local.text === incoming.text &&
+        local.questionType === incoming.questionType &&
+        local.optionType === incoming.optionType &&
+        JSON.stringify(local.options) === JSON.stringify(incoming.options) &&
+        JSON.stringify(local.correctAnswer) === JSON.stringify(incoming.correctAnswer) &&
+        JSON.stringify(local.acceptedAnswers ?? []) ===
+          JSON.stringify(incoming.acceptedAnswers ?? []) &&
+        JSON.stringify(local.media ?? null) === JSON.stringify(incoming.media ?? null) &&
+        JSON.stringify(local.optionMedia ?? []) === JSON.stringify(incoming.optionMedia ?? []) &&
+        !!local.shuffleOptions === !!incoming.shuffleOptions &&
+        (local.points ?? 1) === (incoming.points ?? 1) &&
+        (local.explanation ?? '') === (incoming.explanation ?? '') &&
+        (local.entryId || null) === (incoming.entryId || null) &&
+        [...(local.categoryIds ?? [])].sort().join() ===
+          [...(incoming.categoryIds ?? [])].sort().join()
+    })
+  }
+
+  return {
+    filePath,
+    fileName: basename(filePath),
+    manifest: pkg.manifest,
+    localCounts: countAll(db),
+    newCounts,
+    conflicts,
+    hasQASettings: pkg.qaSettings !== null
+  }
+}
+
+/**
+ * Apply a package in a single transaction
+ * Returns the number of rows written per kind and the number of conflicts left untouched
+ */
+export function applyPackage(
+  db: Database.Database,
+  pkg: ContentPackage,
+  options: PackageImportOptions
+): { imported: ContentCounts; skipped: number } {
+  const replace = options.mode === 'replace'
+  // Rows whose IDs already exist are upserted when overwriting, otherwise left alone;
+  // rows in the recycle bin are not part of the preview and are always replaced and restored
+  const onConflict = (columns: string[]): string => {
+    const set = [...columns.map((c) => `"${c}" = excluded."${c}"`), '"deletedAt" = NULL'].join(', ')
+    return !replace && options.overwriteConflicts
+      ? `ON CONFLICT(id) DO UPDATE SET ${set}`
+      : `ON CONFLICT(id) DO UPDATE SET ${set} WHERE "deletedAt" IS NOT NULL`
+  }
+
+  const insertCategory = db.prepare(`
+    INSERT INTO categories (id, name, description, "order", createdAt, updatedAt)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ${onConflict(['name', 'description', 'order', 'updatedAt'])}
+  `)
+  const insertEntry = db.prepare(`
+    INSERT INTO entries (id, categoryId, title, content, parentEntryId, chapterOrder, createdAt, updatedAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ${onConflict(['categoryId', 'title', 'content', 'parentEntryId', 'chapterOrder', 'updatedAt'])}
+  `)
+  const insertQuestion = db.prepare(`
+    INSERT INTO questions (
+      id, text, questionType, optionType, options, correctAnswer, acceptedAnswers, media,
+      optionMedia, shuffleOptions, points, explanation, entryId, createdAt, updatedAt
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ${onConflict([
+      'text',
+      'questionType',
+      'optionType',
+      'options',
+      'correctAnswer',
+      'acceptedAnswers',
+      'media',
+      'optionMedia',
+      'shuffleOptions',
+      'points',
+      'explanation',
+      'entryId',
+      'updatedAt'
+    ])}
+  `)
+
+  const apply = db.transaction(() => {
+    // Children may arrive before their parents; check references at commit instead
+    db.pragma('defer_foreign_keys = ON')
+
+    // Replaced content goes to the recycle bin; rows the package brings back by ID are
+    // then overwritten and restored by the upserts below
+    if (replace) {
+      softDeleteAllContent(db)
+    }
+
+    const imported: ContentCounts = { categories: 0, entries: 0, questions: 0 }
+    let skipped = 0
+
+    for (const c of pkg.categories) {
+      const { changes } = insertCategory.run(
+        c.id,
+        c.name,
+        c.description,
+        c.order,
+        c.createdAt,
+        c.updatedAt
+      )
+      if (changes > 0) imported.categories++
+      else skipped++
+    }
+
+    for (const e of pkg.entries) {
+      const { changes } = insertEntry.run(
+        e.id,
+        e.categoryId,
+        e.title,
+        restoreImages(db, e.content, pkg.images),
+        e.parentEntryId || null,
+        e.chapterOrder || 0,
+        e.createdAt,
+        e.updatedAt
+      )
+      if (changes > 0) imported.entries++
+      else skipped++
+    }
+
+    for (const packaged of pkg.questions) {
+      const q = mapQuestionMedia(packaged, (url) => restoreImages(db, url, pkg.images))
+      const { changes } = insertQuestion.run(
+        q.id,
+        q.text,
+        q.questionType,
+        q.optionType,
+        JSON.stringify(q.options),
+        JSON.stringify(q.correctAnswer),
+        JSON.stringify(q.acceptedAnswers ?? []),
+        q.media ? JSON.stringify(q.media) : null,
+        JSON.stringify(q.optionMedia),
+        q.shuffleOptions ? 1 : 0,
+        q.points ?? 1,
+        q.explanation ?? '',
+        q.entryId || null,
+        q.createdAt,
+        q.updatedAt
+      )
+      if (changes > 0) {
+        // Packages from before category tags carry no categoryIds; keep the local tags then
+        if (q.categoryIds) setQuestionCategories(db, q.id, q.categoryIds)
+        imported.questions++
+      } else skipped++
+    }
+
+    return { imported, skipped }
+  })
+
+  return apply()
+}
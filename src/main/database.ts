@@ -6,9 +6,18 @@
 import Database from 'better-sqlite3'
 import { join } from 'path'
 import { app } from 'electron'
+import { runMigrations } from './migrations'
+import { registerSearchFunctions } from './search'
 
 let db: Database.Database | null = null
 
+/**
+ * Get the path of the database file
+ */
+export function getDatabasePath(): string {
+  return join(app.getPath('userData'), 'admin.db')
+}
+
 /**
  * Get database instance
  */
@@ -17,7 +26,7 @@ export function getDatabase(): Database.Database {
     return db
   }
 
-  const dbPath = join(app.getPath('userData'), 'admin.db')
+  const dbPath = getDatabasePath()
   console.log('[Database] Initializing database at:', dbPath)
   
   try {
@@ -32,8 +41,19 @@ export function getDatabase(): Database.Database {
   // Enable foreign keys
   db.pragma('foreign_keys = ON')
 
-  // Create tables
-  initializeDatabase(db)
+  // SQL functions used by triggers must exist before any write
+  registerSearchFunctions(db)
+
+  // Create tables / apply migrations
+  try {
+    initializeDatabase(db)
+  } catch (error) {
+    console.error('[Database] Failed to initialize schema:', error)
+    // Do not hand out a partially migrated connection
+    db.close()
+    db = null
+    throw error
+  }
 
   return db
 }
@@ -42,75 +62,9 @@ export function getDatabase(): Database.Database {
  * Initialize database schema
  */
 function initializeDatabase(database: Database.Database): void {
-  // Categories table
-  database.exec(`
-    CREATE TABLE IF NOT EXISTS categories (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      description TEXT NOT NULL,
-      "order" INTEGER NOT NULL,
-      createdAt INTEGER NOT NULL,
-      updatedAt INTEGER NOT NULL
-    )
-  `)
-
-  // Entries table
-  database.exec(`
-    CREATE TABLE IF NOT EXISTS entries (
-      id TEXT PRIMARY KEY,
-      categoryId TEXT NOT NULL,
-      title TEXT NOT NULL,
-      content TEXT NOT NULL,
-      parentEntryId TEXT,
-      chapterOrder INTEGER DEFAULT 0,
-      createdAt INTEGER NOT NULL,
-      updatedAt INTEGER NOT NULL,
-      FOREIGN KEY (categoryId) REFERENCES categories(id) ON DELETE CASCADE,
-      FOREIGN KEY (parentEntryId) REFERENCES entries(id) ON DELETE CASCADE
-    )
-  `)
-  
-  // Migrate existing entries to add parentEntryId field if it doesn't exist
-  try {
-    database.exec(`
-      ALTER TABLE entries ADD COLUMN parentEntryId TEXT;
-    `)
-  } catch (error) {
-    // Column already exists, ignore
-  }
-  
-  try {
-    database.exec(`
-      ALTER TABLE entries ADD COLUMN chapterOrder INTEGER DEFAULT 0;
-    `)
-  } catch (error) {
-    // Column already exists, ignore
-  }
-  
-  // Note: chapter column migration is handled by ALTER TABLE above
-  // If chapter column exists, it will be ignored in queries
-
-  // Questions table
-  database.exec(`
-    CREATE TABLE IF NOT EXISTS questions (
-      id TEXT PRIMARY KEY,
-      text TEXT NOT NULL,
-      questionType TEXT NOT NULL CHECK(questionType IN ('single', 'multiple')),
-      optionType TEXT NOT NULL CHECK(optionType IN ('true-false', 'letter-options')),
-      options TEXT NOT NULL,
-      correctAnswer TEXT NOT NULL,
-      createdAt INTEGER NOT NULL,
-      updatedAt INTEGER NOT NULL
-    )
-  `)
-
-  // Create indexes
-  database.exec(`
-    CREATE INDEX IF NOT EXISTS idx_entries_categoryId ON entries(categoryId);
-    CREATE INDEX IF NOT EXISTS idx_categories_order ON categories("order");
-    CREATE INDEX IF NOT EXISTS idx_questions_questionType ON questions(questionType);
-    CREATE INDEX IF NOT EXISTS idx_questions_optionType ON questions(optionType);
-  `)
+  // Apply pending schema migrations (throws MigrationError on failure)
+  const version = runMigrations(database)
+  console.log('[Database] Schema version:', version)
 
   // Initialize default categories if table is empty
   const count = database.prepare('SELECT COUNT(*) as count FROM categories').get() as { count: number }
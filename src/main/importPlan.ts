@@ -0,0 +1,554 @@
+/**
+ * Spreadsheet Import Planning
+ * Matches imported questions and entries to existing rows by ID or by normalized text,
+ * previews the outcome and applies the chosen insert/update/skip actions in one transaction
+ */
+
+import type Database from 'better-sqlite3'
+import { inlineImagesToMediaUrls, storeInlineImages } from './media'
+import { getQuestionCategoryMap, setQuestionCategories } from './questionCategories'
+import { recordEntryUpdate, recordQuestionUpdate } from './revisions'
+import type { ParsedEntryWithParent } from '../renderer/src/types/admin'
+import type { ParsedQuestion } from '../renderer/src/types/question'
+import type {
+  ImportAction,
+  ImportPreview,
+  ImportRowPreview,
+  ImportRowStatus,
+  ImportSummary
+} from '../renderer/src/types/importPlan'
+
+interface QuestionRow {
+  id: string
+  text: string
+  questionType: string
+  optionType: string
+  options: string
+  correctAnswer: string
+  acceptedAnswers: string
+  media: string | null
+  optionMedia: string
+  shuffleOptions: number
+  points: number
+  explanation: string
+  entryId: string | null
+}
+
+interface EntryRow {
+  id: string
+  title: string
+  content: string
+  parentEntryId: string | null
+  chapterOrder: number
+}
+
+interface Candidate {
+  id?: string
+  title: string
+  key: string
+}
+
+interface LocalCandidate {
+  id: string
+  title: string
+  key: string
+}
+
+interface RowMatch {
+  local: LocalCandidate | null
+  matchedBy: 'id' | 'text' | null
+  conflict: string | null
+}
+
+/**
+ * Key used to match text: full/half width, case and whitespace differences are ignored
+ */
+function normalizeText(text: string): string {
+  return text.normalize('NFKC').replace(/\s+/g, '').toLowerCase()
+}
+
+/**
+ * Visible text of an HTML fragment, so plain text from a spreadsheet compares equal to stored HTML
+ */
+function htmlText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>|<\/p>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Answer in a comparable form; only multiple choice answers are unordered
+ */
+function sortedAnswer(answer: number | number[], questionType: string): number | number[] {
+  return Array.isArray(answer) && questionType === 'multiple'
+    ? [...answer].sort((a, b) => a - b)
+    : answer
+}
+
+/**
+ * Match incoming rows to local rows: by ID first, then by key
+ * A row is a conflict when its ID and its text point at different rows, when its text matches
+ * several rows, or when an earlier row already matched the same local row
+ */
+function matchRows(incoming: Candidate[], local: LocalCandidate[]): RowMatch[] {
+  const localById = new Map(local.map((row) => [row.id, row]))
+  const localByKey = new Map<string, LocalCandidate[]>()
+  for (const row of local) {
+    localByKey.set(row.key, [...(localByKey.get(row.key) ?? []), row])
+  }
+  // Local row ID -> incoming row index that claimed it
+  const claimed = new Map<string, number>()
+  // Key -> first incoming row index with that key
+  const seenKeys = new Map<string, number>()
+
+  return incoming.map((row, index) => {
+    const byId = row.id ? localById.get(row.id) : undefined
+    const byText = localByKey.get(row.key) ?? []
+    let match: RowMatch
+
+    if (byId) {
+      const other = byText.find((candidate) => candidate.id !== byId.id)
+      match =
+        other && !byText.includes(byId)
+          ? {
+              local: byId,
+              matchedBy: 'id',
+              conflict: `ID 对应"${byId.title}"，但内容与已有的"${other.title}"相同`
+            }
+          : { local: byId, matchedBy: 'id', conflict: null }
+    } else if (byText.length > 1) {
+      match = {
+        local: null,
+        matchedBy: null,
+        conflict: `与 ${byText.length} 条已有数据内容相同，无法确定更新哪一条`
+      }
+    } else if (byText.length === 1) {
+      match = { local: byText[0], matchedBy: 'text', conflict: null }
+    } else if (seenKeys.has(row.key)) {
+      match = {
+        local: null,
+        matchedBy: null,
+        conflict: `与文件中第 ${seenKeys.get(row.key)! + 1} 条内容重复`
+      }
+    } else {
+      match = { local: null, matchedBy: null, conflict: null }
+    }
+
+    if (match.local && !match.conflict) {
+      const claimedBy = claimed.get(match.local.id)
+      if (claimedBy !== undefined) {
+        match = {
+          ...match,
+          conflict: `与文件中第 ${claimedBy + 1} 条匹配到同一条已有数据`
+        }
+      } else {
+        claimed.set(match.local.id, index)
+      }
+    }
+    if (!seenKeys.has(row.key)) {
+      seenKeys.set(row.key, index)
+    }
+    return match
+  })
+}
+
+function toRowPreview(
+  index: number,
+  title: string,
+  match: RowMatch,
+  changedFields: string[]
+): ImportRowPreview {
+  let status: ImportRowStatus
+  let defaultAction: ImportAction
+  if (match.conflict) {
+    status = 'conflict'
+    defaultAction = 'skip'
+  } else if (!match.local) {
+    status = 'new'
+    defaultAction = 'insert'
+  } else if (changedFields.length > 0) {
+    status = 'changed'
+    defaultAction = 'update'
+  } else {
+    status = 'unchanged'
+    defaultAction = 'skip'
+  }
+  return {
+    index,
+    status,
+    title,
+    matchedId: match.local?.id ?? null,
+    matchedBy: match.matchedBy,
+    localTitle: match.local?.title ?? null,
+    changedFields: match.local ? changedFields : [],
+    message: match.conflict,
+    defaultAction
+  }
+}
+
+function toPreview(rows: ImportRowPreview[]): ImportPreview {
+  const counts: Record<ImportRowStatus, number> = { new: 0, changed: 0, unchanged: 0, conflict: 0 }
+  for (const row of rows) {
+    counts[row.status]++
+  }
+  return { rows, counts }
+}
+
+/**
+ * Resolve the action for one row, rejecting updates that have nothing to update
+ */
+function resolveAction(row: ImportRowPreview, actions: ImportAction[]): ImportAction {
+  const action = actions[row.index] ?? row.defaultAction
+  if (action === 'update' && !row.matchedId) {
+    throw new Error(`第 ${row.index + 1} 条没有可更新的已有数据`)
+  }
+  return action
+}
+
+function questionChanges(
+  question: ParsedQuestion,
+  local: QuestionRow,
+  localCategoryIds: string[]
+): string[] {
+  const changed: string[] = []
+  if (question.text.trim() !== local.text.trim()) changed.push('text')
+  if (question.questionType !== local.questionType) changed.push('questionType')
+  if (question.optionType !== local.optionType) changed.push('optionType')
+  if (JSON.stringify(question.options) !== local.options) changed.push('options')
+  if (
+    JSON.stringify(sortedAnswer(question.correctAnswer, question.questionType)) !==
+    JSON.stringify(
+      sortedAnswer(JSON.parse(local.correctAnswer) as number | number[], question.questionType)
+    )
+  ) {
+    changed.push('correctAnswer')
+  }
+  // Optional fields missing from the file keep their current value
+  if (
+    question.acceptedAnswers !== undefined &&
+    JSON.stringify(question.acceptedAnswers) !== local.acceptedAnswers
+  ) {
+    changed.push('acceptedAnswers')
+  }
+  if (question.media !== undefined && JSON.stringify(question.media) !== (local.media ?? 'null')) {
+    changed.push('media')
+  }
+  if (
+    question.optionMedia !== undefined &&
+    JSON.stringify(question.optionMedia) !== local.optionMedia
+  ) {
+    changed.push('optionMedia')
+  }
+  if (question.shuffleOptions !== undefined && question.shuffleOptions !== !!local.shuffleOptions) {
+    changed.push('shuffleOptions')
+  }
+  if (question.points !== undefined && question.points !== local.points) changed.push('points')
+  if (
+    question.explanation !== undefined &&
+    htmlText(question.explanation) !== htmlText(local.explanation)
+  ) {
+    changed.push('explanation')
+  }
+  if (question.entryId !== undefined && (question.entryId || null) !== local.entryId) {
+    changed.push('entryId')
+  }
+  if (
+    question.categoryIds !== undefined &&
+    [...question.categoryIds].sort().join() !== [...localCategoryIds].sort().join()
+  ) {
+    changed.push('categoryIds')
+  }
+  return changed
+}
+
+function planQuestions(
+  db: Database.Database,
+  questions: ParsedQuestion[]
+): { rows: ImportRowPreview[]; locals: Map<string, QuestionRow> } {
+  const localRows = db
+    .prepare(
+      `SELECT id, text, questionType, optionType, options, correctAnswer, acceptedAnswers, media,
+         optionMedia, shuffleOptions, points, explanation, entryId
+       FROM questions WHERE deletedAt IS NULL ORDER BY createdAt ASC`
+    )
+    .all() as QuestionRow[]
+  const locals = new Map(localRows.map((row) => [row.id, row]))
+  const categoryMap = getQuestionCategoryMap(db)
+
+  const matches = matchRows(
+    questions.map((q) => ({ id: q.id, title: q.text, key: normalizeText(q.text) })),
+    localRows.map((row) => ({ id: row.id, title: row.text, key: normalizeText(row.text) }))
+  )
+  const rows = questions.map((question, index) => {
+    const match = matches[index]
+    const local = match.local ? locals.get(match.local.id)! : null
+    const changed = local ? questionChanges(question, local, categoryMap.get(local.id) ?? []) : []
+    return toRowPreview(index, question.text, match, changed)
+  })
+  return { rows, locals }
+}
+
+/**
+ * Compare imported questions with the question bank without writing anything
+ */
+export function previewQuestionImport(
+  db: Database.Database,
+  questions: ParsedQuestion[]
+): ImportPreview {
+  return toPreview(planQuestions(db, questions).rows)
+}
+
+/**
+ * Apply an import: actions are indexed like the questions, missing ones use the preview default
+ * Matching is redone inside the transaction so the result never depends on a stale preview
+ */
+export function applyQuestionImport(
+  db: Database.Database,
+  questions: ParsedQuestion[],
+  actions: ImportAction[]
+): ImportSummary {
+  const insert = db.prepare(`
+    INSERT INTO questions (
+      id, text, questionType, optionType, options, correctAnswer, acceptedAnswers, media,
+      optionMedia, shuffleOptions, points, explanation, entryId, createdAt, updatedAt
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `)
+  const update = db.prepare(`
+    UPDATE questions
+    SET text = ?, questionType = ?, optionType = ?, options = ?, correctAnswer = ?,
+      acceptedAnswers = ?, media = ?, optionMedia = ?, shuffleOptions = ?, points = ?,
+      explanation = ?, entryId = ?, updatedAt = ?
+    WHERE id = ?
+  `)
+  const entryExists = db.prepare('SELECT 1 FROM entries WHERE id = ?')
+
+  const apply = db.transaction(() => {
+    const { rows, locals } = planQuestions(db, questions)
+    // IDs of questions in the recycle bin are taken too
+    const usedIds = new Set(
+      (db.prepare('SELECT id FROM questions').all() as { id: string }[]).map((q) => q.id)
+    )
+    const summary: ImportSummary = { inserted: 0, updated: 0, skipped: 0 }
+    const now = Date.now()
+
+    for (const row of rows) {
+      const question = questions[row.index]
+      const action = resolveAction(row, actions)
+      if (action === 'skip') {
+        summary.skipped++
+        continue
+      }
+
+      // Drop references to entries that do not exist instead of failing the whole import
+      let entryId = question.entryId
+      if (entryId && !entryExists.get(entryId)) {
+        console.warn(`[ImportPlan] Question references unknown entry ${entryId}, ignoring`)
+        entryId = null
+      }
+
+      if (action === 'update') {
+        const local = locals.get(row.matchedId!)!
+        recordQuestionUpdate(db, local.id, { ...question, entryId })
+        update.run(
+          question.text,
+          question.questionType,
+          question.optionType,
+          JSON.stringify(question.options),
+          JSON.stringify(question.correctAnswer),
+          question.acceptedAnswers
+            ? JSON.stringify(question.acceptedAnswers)
+            : local.acceptedAnswers,
+          question.media === undefined
+            ? local.media
+            : question.media && JSON.stringify(question.media),
+          question.optionMedia ? JSON.stringify(question.optionMedia) : local.optionMedia,
+          (question.shuffleOptions ?? !!local.shuffleOptions) ? 1 : 0,
+          question.points ?? local.points,
+          question.explanation ?? local.explanation,
+          entryId === undefined ? local.entryId : entryId || null,
+          now,
+          local.id
+        )
+        if (question.categoryIds !== undefined) {
+          setQuestionCategories(db, local.id, question.categoryIds)
+        }
+        summary.updated++
+      } else {
+        // Keep the ID from the file unless it is already taken
+        const id =
+          question.id && !usedIds.has(question.id)
+            ? question.id
+            : `q_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+        usedIds.add(id)
+        insert.run(
+          id,
+          question.text,
+          question.questionType,
+          question.optionType,
+          JSON.stringify(question.options),
+          JSON.stringify(question.correctAnswer),
+          JSON.stringify(question.acceptedAnswers ?? []),
+          question.media ? JSON.stringify(question.media) : null,
+          JSON.stringify(question.optionMedia ?? []),
+          question.shuffleOptions ? 1 : 0,
+          question.points ?? 1,
+          question.explanation ?? '',
+          entryId || null,
+          now,
+          now
+        )
+        setQuestionCategories(db, id, question.categoryIds ?? [])
+        summary.inserted++
+      }
+    }
+    return summary
+  })
+
+  return apply()
+}
+
+/**
+ * Entries match on their title under the same parent title, since chapters often reuse
+ * clause titles such as "第一条"
+ */
+function entryKey(title: string, parentTitle: string | null): string {
+  return `${normalizeText(parentTitle ?? '')}\n${normalizeText(title)}`
+}
+
+function planEntries(
+  db: Database.Database,
+  categoryId: string,
+  entries: ParsedEntryWithParent[]
+): { rows: ImportRowPreview[]; locals: Map<string, EntryRow> } {
+  const localRows = db
+    .prepare(
+      `SELECT id, title, content, parentEntryId, chapterOrder FROM entries
+       WHERE categoryId = ? AND deletedAt IS NULL ORDER BY chapterOrder ASC`
+    )
+    .all(categoryId) as EntryRow[]
+  const locals = new Map(localRows.map((row) => [row.id, row]))
+
+  const matches = matchRows(
+    entries.map((entry) => ({
+      id: entry.id,
+      title: entry.title,
+      key: entryKey(
+        entry.title,
+        entry.parentRowIndex === null ? null : entries[entry.parentRowIndex].title
+      )
+    })),
+    localRows.map((row) => ({
+      id: row.id,
+      title: row.title,
+      key: entryKey(
+        row.title,
+        row.parentEntryId ? (locals.get(row.parentEntryId)?.title ?? null) : null
+      )
+    }))
+  )
+
+  const rows = entries.map((entry, index) => {
+    const match = matches[index]
+    const local = match.local ? locals.get(match.local.id)! : null
+    const changed: string[] = []
+    if (local) {
+      // A parent row that is new in the file can never equal the current parent
+      const parentId =
+        entry.parentRowIndex === null
+          ? null
+          : (matches[entry.parentRowIndex].local?.id ?? `row:${entry.parentRowIndex}`)
+      if (entry.title.trim() !== local.title.trim()) changed.push('title')
+      // Chapter rows carry no content in the file; images from Word are still inline
+      const content = entry.content && inlineImagesToMediaUrls(entry.content).trim()
+      if (content && content !== local.content.trim()) changed.push('content')
+      if (parentId !== (local.parentEntryId || null)) changed.push('parent')
+      if (entry.chapterOrder !== (local.chapterOrder || 0)) changed.push('chapterOrder')
+    }
+    return toRowPreview(index, entry.title, match, changed)
+  })
+  return { rows, locals }
+}
+
+/**
+ * Compare an imported entry tree with a category's entries without writing anything
+ */
+export function previewEntryImport(
+  db: Database.Database,
+  categoryId: string,
+  entries: ParsedEntryWithParent[]
+): ImportPreview {
+  return toPreview(planEntries(db, categoryId, entries).rows)
+}
+
+/**
+ * Apply an entry tree import to a category; see applyQuestionImport for how actions are used
+ * Children of a skipped row stay under the existing entry it matched, or move to the top level
+ */
+export function applyEntryImport(
+  db: Database.Database,
+  categoryId: string,
+  entries: ParsedEntryWithParent[],
+  actions: ImportAction[]
+): ImportSummary {
+  const insert = db.prepare(`
+    INSERT INTO entries (id, categoryId, title, content, parentEntryId, chapterOrder, createdAt, updatedAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `)
+  const update = db.prepare(`
+    UPDATE entries
+    SET title = ?, content = ?, parentEntryId = ?, chapterOrder = ?, updatedAt = ?
+    WHERE id = ?
+  `)
+
+  const apply = db.transaction(() => {
+    const { rows, locals } = planEntries(db, categoryId, entries)
+    const summary: ImportSummary = { inserted: 0, updated: 0, skipped: 0 }
+    const now = Date.now()
+    // Entry ID each row ended up as, so children can point at their parent row
+    const rowIds: (string | null)[] = []
+
+    for (const row of rows) {
+      const entry = entries[row.index]
+      const action = resolveAction(row, actions)
+      const parentEntryId =
+        entry.parentRowIndex === null ? null : (rowIds[entry.parentRowIndex] ?? null)
+
+      if (action === 'skip') {
+        rowIds.push(row.matchedId)
+        summary.skipped++
+      } else if (action === 'update') {
+        const local = locals.get(row.matchedId!)!
+        const content = entry.content ? storeInlineImages(db, entry.content) : local.content
+        recordEntryUpdate(db, local.id, { title: entry.title, content, parentEntryId })
+        update.run(entry.title, content, parentEntryId, entry.chapterOrder, now, local.id)
+        rowIds.push(local.id)
+        summary.updated++
+      } else {
+        const id = `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+        insert.run(
+          id,
+          categoryId,
+          entry.title,
+          entry.content ? storeInlineImages(db, entry.content) : '<p></p>',
+          parentEntryId,
+          entry.chapterOrder,
+          now,
+          now
+        )
+        rowIds.push(id)
+        summary.inserted++
+      }
+    }
+    return summary
+  })
+
+  return apply()
+}
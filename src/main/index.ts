@@ -6,14 +6,93 @@ import {
   globalShortcut,
   screen,
   Menu,
-  MenuItem
+  MenuItem,
+  dialog
 } from 'electron'
 import { join } from 'path'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import icon from '../../resources/icon.png?asset'
 import { getDatabase, closeDatabase } from './database'
-import type { Category, Entry } from '../renderer/src/types/admin'
-import type { Question } from '../renderer/src/types/question'
+import { searchEntries } from './search'
+import {
+  getQuestionCategoryIds,
+  getQuestionCategoryMap,
+  setQuestionCategories
+} from './questionCategories'
+import { createBackup, listBackups, restoreBackup, deleteBackup } from './backup'
+import { getAnswerAnalytics, recordAnswerEvents } from './analytics'
+import { registerMediaProtocol, registerMediaScheme, storeInlineImages, storeMedia } from './media'
+import { importQuestionMediaFiles } from './mediaImport'
+import {
+  getEntryRevisions,
+  getQuestionRevisions,
+  recordEntryUpdate,
+  recordQuestionUpdate,
+  restoreEntryRevision,
+  restoreQuestionRevision
+} from './revisions'
+import {
+  emptyRecycleBin,
+  getRecycleBinItems,
+  getRetentionDays,
+  purgeExpiredItems,
+  purgeRecycleBinItem,
+  restoreRecycleBinItem,
+  setRetentionDays,
+  softDeleteCategory,
+  softDeleteEntry,
+  softDeleteQuestion
+} from './recycleBin'
+import {
+  applyEntryImport,
+  applyQuestionImport,
+  previewEntryImport,
+  previewQuestionImport
+} from './importPlan'
+import {
+  PACKAGE_EXTENSION,
+  buildPackage,
+  writePackageFile,
+  readPackageFile,
+  previewPackage,
+  applyPackage
+} from './contentPackage'
+import { isDefaultOperatorPin, requireOperator, setOperatorPin, unlockOperator } from './operator'
+import {
+  closeBuzzerWindow,
+  getBuzzerPanel,
+  isBuzzerWindowOpen,
+  openBuzzerWindow,
+  relayBuzz,
+  updateBuzzerPanel
+} from './buzzerWindow'
+import {
+  changePassword,
+  extendSession,
+  getLockedUntil,
+  getSessionStatus,
+  hasSession,
+  login,
+  logout,
+  requireSession
+} from './auth'
+import type { Category, Entry, ParsedEntryWithParent } from '../renderer/src/types/admin'
+import type {
+  ParsedQuestion,
+  Question,
+  QuestionMedia,
+  QuestionMediaFiles
+} from '../renderer/src/types/question'
+import type { ImportAction, ImportPreview, ImportSummary } from '../renderer/src/types/importPlan'
+import type { AnswerEvent } from '../renderer/src/types/analytics'
+import type {
+  PackageExportResult,
+  PackageImportOptions,
+  PackageImportResult,
+  PackagePreview
+} from '../renderer/src/types/contentPackage'
+import type { RecycleBinKind } from '../renderer/src/types/recycleBin'
+import type { BuzzerPanel } from '../renderer/src/types/host'
 import {
   validateLicense,
   getLicenseStatus,
@@ -29,7 +108,8 @@ import { getRemainingTime } from './license/trialManager'
  */
 const KIOSK_CONFIG = {
   enabled: !is.dev,
-  operatorExitKeys: 'CommandOrControl+Shift+Alt+Q'
+  // Asks for the operator PIN (the touch screen uses a hidden corner gesture instead)
+  operatorConsoleKeys: 'CommandOrControl+Shift+Alt+Q'
 }
 
 function createWindow(): void {
@@ -352,6 +432,9 @@ function createWindow(): void {
   })
 }
 
+// Custom schemes can only be registered before the app is ready
+registerMediaScheme()
+
 // This method will be called when Electron has finished
 // initialization and is ready to create browser windows.
 // Some APIs can only be used after this event occurs.
@@ -391,6 +474,32 @@ app.whenReady().then(() => {
     console.log('[Main] Development mode - skipping license validation')
   }
 
+  // Open database eagerly so schema migration failures are reported before the UI loads
+  try {
+    getDatabase()
+  } catch (error) {
+    console.error('[Main] Database initialization failed:', error)
+    dialog.showErrorBox(
+      'Database Initialization Failed',
+      error instanceof Error ? error.message : String(error)
+    )
+    app.quit()
+    return
+  }
+
+  registerMediaProtocol(getDatabase)
+
+  try {
+    purgeExpiredItems(getDatabase())
+  } catch (error) {
+    console.error('[Main] Failed to purge expired recycle bin items:', error)
+  }
+
+  // Rotating startup snapshot; failure must not block the kiosk from starting
+  createBackup('startup').catch((error) => {
+    console.error('[Main] Failed to create startup backup:', error)
+  })
+
   console.log('[Main] Registering IPC handlers...')
   // Set app user model id for windows
   electronApp.setAppUserModelId('com.electron')
@@ -647,11 +756,14 @@ app.whenReady().then(() => {
     }
   })
 
-  // Register operator exit shortcut for kiosk mode
+  // Register operator console shortcut for kiosk mode
   if (KIOSK_CONFIG.enabled) {
-    globalShortcut.register(KIOSK_CONFIG.operatorExitKeys, () => {
-      console.log('[Kiosk] Operator exit triggered')
-      app.quit()
+    globalShortcut.register(KIOSK_CONFIG.operatorConsoleKeys, () => {
+      console.log('[Kiosk] Operator console shortcut triggered')
+      const window = BrowserWindow.getFocusedWindow() || BrowserWindow.getAllWindows()[0]
+      if (window && !window.isDestroyed()) {
+        window.webContents.send('operator:open')
+      }
     })
   }
 
@@ -755,12 +867,138 @@ app.whenReady().then(() => {
     return false
   })
 
+  // IPC: Operator console
+  console.log('[Main] Registering operator console handlers')
+  ipcMain.handle('operator:verifyPin', async (event, pin: string) => {
+    try {
+      return unlockOperator(getDatabase(), event.sender.id, pin)
+    } catch (error) {
+      console.error('[Main] Failed to verify operator PIN:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle('operator:isDefaultPin', async () => {
+    try {
+      return isDefaultOperatorPin(getDatabase())
+    } catch (error) {
+      console.error('[Main] Failed to check operator PIN:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle('operator:setPin', async (event, pin: string, currentPin: string | null) => {
+    try {
+      setOperatorPin(getDatabase(), pin, currentPin, hasSession(event.sender.id))
+    } catch (error) {
+      console.error('[Main] Failed to set operator PIN:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle('operator:getAppInfo', async () => {
+    return {
+      name: app.getName(),
+      version: app.getVersion(),
+      kioskMode: KIOSK_CONFIG.enabled
+    }
+  })
+
+  // Kiosk mode blocks Ctrl+R, so the console is the only way to reload on site
+  ipcMain.handle('operator:reloadRenderer', async (event) => {
+    requireOperator(event)
+    console.log('[Kiosk] Operator reloaded the renderer')
+    event.sender.reload()
+  })
+
+  ipcMain.handle('operator:quit', async (event) => {
+    requireOperator(event)
+    console.log('[Kiosk] Operator quit the app')
+    app.quit()
+  })
+
+  // IPC: Host mode buzzer window
+  console.log('[Main] Registering host mode handlers')
+  ipcMain.handle('host:openBuzzerWindow', async (event) => {
+    try {
+      return openBuzzerWindow(event.sender)
+    } catch (error) {
+      console.error('[Main] Failed to open buzzer window:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle('host:closeBuzzerWindow', async () => {
+    closeBuzzerWindow()
+  })
+
+  ipcMain.handle('host:isBuzzerWindowOpen', async () => isBuzzerWindowOpen())
+
+  ipcMain.handle('host:getBuzzerPanel', async () => getBuzzerPanel())
+
+  ipcMain.on('host:updateBuzzerPanel', (_event, panel: BuzzerPanel) => {
+    updateBuzzerPanel(panel)
+  })
+
+  ipcMain.on('host:buzz', (_event, team: number) => {
+    relayBuzz(team)
+  })
+
+  // IPC: Admin authentication
+  console.log('[Main] Registering auth handlers')
+  ipcMain.handle('auth:getSession', async (event) => {
+    try {
+      return getSessionStatus(getDatabase(), event.sender.id)
+    } catch (error) {
+      console.error('[Main] Failed to get auth session:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle('auth:login', async (event, password: string) => {
+    try {
+      return login(getDatabase(), event.sender.id, password)
+    } catch (error) {
+      console.error('[Main] Failed to log in:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle('auth:logout', async (event) => {
+    logout(event.sender.id)
+  })
+
+  ipcMain.handle('auth:extendSession', async (event) => {
+    extendSession(event.sender.id)
+  })
+
+  ipcMain.handle('auth:getLockedUntil', async () => {
+    try {
+      return getLockedUntil(getDatabase())
+    } catch (error) {
+      console.error('[Main] Failed to get login lockout:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle(
+    'auth:changePassword',
+    async (event, currentPassword: string, newPassword: string) => {
+      try {
+        changePassword(getDatabase(), event.sender.id, currentPassword, newPassword)
+      } catch (error) {
+        console.error('[Main] Failed to change password:', error)
+        throw error
+      }
+    }
+  )
+
   // IPC: Database operations - Categories
   ipcMain.handle('db:getCategories', async () => {
     try {
       const db = getDatabase()
       const categories = db
-        .prepare('SELECT * FROM categories ORDER BY "order" ASC')
+        .prepare('SELECT * FROM categories WHERE deletedAt IS NULL ORDER BY "order" ASC')
         .all() as Category[]
       return categories
     } catch (error) {
@@ -771,8 +1009,9 @@ app.whenReady().then(() => {
 
   ipcMain.handle(
     'db:addCategory',
-    async (_event, category: Omit<Category, 'id' | 'createdAt' | 'updatedAt'>) => {
+    async (event, category: Omit<Category, 'id' | 'createdAt' | 'updatedAt'>) => {
       try {
+        requireSession(event)
         const db = getDatabase()
         const id = `cat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
         const now = Date.now()
@@ -792,8 +1031,9 @@ app.whenReady().then(() => {
 
   ipcMain.handle(
     'db:updateCategory',
-    async (_event, id: string, updates: Partial<Omit<Category, 'id' | 'createdAt'>>) => {
+    async (event, id: string, updates: Partial<Omit<Category, 'id' | 'createdAt'>>) => {
       try {
+        requireSession(event)
         const db = getDatabase()
         const setParts: string[] = []
         const values: unknown[] = []
@@ -828,11 +1068,11 @@ app.whenReady().then(() => {
     }
   )
 
-  ipcMain.handle('db:deleteCategory', async (_event, id: string) => {
+  ipcMain.handle('db:deleteCategory', async (event, id: string) => {
     try {
-      const db = getDatabase()
-      const result = db.prepare('DELETE FROM categories WHERE id = ?').run(id)
-      return result.changes > 0
+      requireSession(event)
+      // Entries go to the recycle bin with the category
+      return softDeleteCategory(getDatabase(), id)
     } catch (error) {
       console.error('[Main] Failed to delete category:', error)
       throw error
@@ -850,7 +1090,7 @@ app.whenReady().then(() => {
         .prepare(
           `
         SELECT * FROM entries
-        WHERE categoryId = ?
+        WHERE categoryId = ? AND deletedAt IS NULL
         ORDER BY
           CASE WHEN parentEntryId IS NULL THEN 0 ELSE 1 END,
           chapterOrder ASC,
@@ -878,10 +1118,25 @@ app.whenReady().then(() => {
     }
   })
 
+  console.log('[Main] Registering db:getEntry handler')
+  ipcMain.handle('db:getEntry', async (_event, id: string) => {
+    try {
+      const db = getDatabase()
+      const entry = db
+        .prepare('SELECT * FROM entries WHERE id = ? AND deletedAt IS NULL')
+        .get(id) as Entry | undefined
+      return entry ?? null
+    } catch (error) {
+      console.error('[Main] Failed to get entry:', error)
+      throw error
+    }
+  })
+
   ipcMain.handle(
     'db:addEntry',
-    async (_event, entry: Omit<Entry, 'id' | 'createdAt' | 'updatedAt'>) => {
+    async (event, entry: Omit<Entry, 'id' | 'createdAt' | 'updatedAt'>) => {
       try {
+        requireSession(event)
         const db = getDatabase()
         const id = `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
         const now = Date.now()
@@ -896,7 +1151,7 @@ app.whenReady().then(() => {
           id,
           entry.categoryId,
           entry.title,
-          entry.content,
+          storeInlineImages(db, entry.content),
           parentEntryId,
           chapterOrder,
           now,
@@ -913,23 +1168,26 @@ app.whenReady().then(() => {
   ipcMain.handle(
     'db:updateEntry',
     async (
-      _event,
+      event,
       id: string,
       categoryId: string,
       updates: Partial<Omit<Entry, 'id' | 'categoryId' | 'createdAt'>>
     ) => {
       try {
+        requireSession(event)
         const db = getDatabase()
         const setParts: string[] = []
         const values: unknown[] = []
+        const content =
+          updates.content !== undefined ? storeInlineImages(db, updates.content) : undefined
 
         if (updates.title !== undefined) {
           setParts.push('title = ?')
           values.push(updates.title)
         }
-        if (updates.content !== undefined) {
+        if (content !== undefined) {
           setParts.push('content = ?')
-          values.push(updates.content)
+          values.push(content)
         }
         if (updates.parentEntryId !== undefined) {
           setParts.push('parentEntryId = ?')
@@ -950,9 +1208,13 @@ app.whenReady().then(() => {
         values.push(Date.now())
         values.push(id, categoryId)
 
-        db.prepare(`UPDATE entries SET ${setParts.join(', ')} WHERE id = ? AND categoryId = ?`).run(
-          ...values
-        )
+        const update = db.transaction(() => {
+          recordEntryUpdate(db, id, { ...updates, content })
+          db.prepare(
+            `UPDATE entries SET ${setParts.join(', ')} WHERE id = ? AND categoryId = ?`
+          ).run(...values)
+        })
+        update()
         return db
           .prepare('SELECT * FROM entries WHERE id = ? AND categoryId = ?')
           .get(id, categoryId) as Entry | null
@@ -963,19 +1225,27 @@ app.whenReady().then(() => {
     }
   )
 
-  ipcMain.handle('db:deleteEntry', async (_event, id: string, categoryId: string) => {
+  ipcMain.handle('db:deleteEntry', async (event, id: string, categoryId: string) => {
     try {
-      const db = getDatabase()
-      const result = db
-        .prepare('DELETE FROM entries WHERE id = ? AND categoryId = ?')
-        .run(id, categoryId)
-      return result.changes > 0
+      requireSession(event)
+      // Child entries go to the recycle bin with their parent
+      return softDeleteEntry(getDatabase(), id, categoryId)
     } catch (error) {
       console.error('[Main] Failed to delete entry:', error)
       throw error
     }
   })
 
+  ipcMain.handle('db:searchEntries', async (_event, query: string, limit?: number) => {
+    try {
+      const db = getDatabase()
+      return searchEntries(db, query, limit)
+    } catch (error) {
+      console.error('[Main] Failed to search entries:', error)
+      throw error
+    }
+  })
+
   // IPC: Database operations - Questions
   console.log('[Main] Registering db:getQuestions handler')
   ipcMain.handle('db:getQuestions', async () => {
@@ -983,7 +1253,7 @@ app.whenReady().then(() => {
       console.log('[Main] db:getQuestions handler called')
       const db = getDatabase()
       const questions = db
-        .prepare('SELECT * FROM questions ORDER BY createdAt DESC')
+        .prepare('SELECT * FROM questions WHERE deletedAt IS NULL ORDER BY createdAt DESC')
         .all() as Array<{
         id: string
         text: string
@@ -991,16 +1261,29 @@ app.whenReady().then(() => {
         optionType: string
         options: string
         correctAnswer: string
+        acceptedAnswers: string
+        media: string | null
+        optionMedia: string
+        points: number
+        shuffleOptions: number
+        explanation: string
+        entryId: string | null
         createdAt: number
         updatedAt: number
       }>
+      const categoryMap = getQuestionCategoryMap(db)
       // Parse JSON fields
       return questions.map((q) => ({
         ...q,
         options: JSON.parse(q.options) as string[],
         correctAnswer: JSON.parse(q.correctAnswer) as number | number[],
-        questionType: q.questionType as 'single' | 'multiple',
-        optionType: q.optionType as 'true-false' | 'letter-options'
+        acceptedAnswers: JSON.parse(q.acceptedAnswers) as string[][],
+        media: q.media ? (JSON.parse(q.media) as QuestionMedia) : null,
+        optionMedia: JSON.parse(q.optionMedia) as (QuestionMedia | null)[],
+        shuffleOptions: !!q.shuffleOptions,
+        questionType: q.questionType as Question['questionType'],
+        optionType: q.optionType as 'true-false' | 'letter-options',
+        categoryIds: categoryMap.get(q.id) ?? []
       })) as Question[]
     } catch (error) {
       console.error('[Main] Failed to get questions:', error)
@@ -1011,26 +1294,41 @@ app.whenReady().then(() => {
   console.log('[Main] Registering db:addQuestion handler')
   ipcMain.handle(
     'db:addQuestion',
-    async (_event, question: Omit<Question, 'id' | 'createdAt' | 'updatedAt'>) => {
+    async (event, question: Omit<Question, 'id' | 'createdAt' | 'updatedAt'>) => {
       try {
+        requireSession(event)
         const db = getDatabase()
         const id = `q_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
         const now = Date.now()
-        db.prepare(
-          `
-        INSERT INTO questions (id, text, questionType, optionType, options, correctAnswer, createdAt, updatedAt)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-      `
-        ).run(
-          id,
-          question.text,
-          question.questionType,
-          question.optionType,
-          JSON.stringify(question.options),
-          JSON.stringify(question.correctAnswer),
-          now,
-          now
-        )
+        const insert = db.transaction(() => {
+          db.prepare(
+            `
+          INSERT INTO questions (
+            id, text, questionType, optionType, options, correctAnswer, acceptedAnswers, media,
+            optionMedia, shuffleOptions, points, explanation, entryId, createdAt, updatedAt
+          )
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `
+          ).run(
+            id,
+            question.text,
+            question.questionType,
+            question.optionType,
+            JSON.stringify(question.options),
+            JSON.stringify(question.correctAnswer),
+            JSON.stringify(question.acceptedAnswers ?? []),
+            question.media ? JSON.stringify(question.media) : null,
+            JSON.stringify(question.optionMedia ?? []),
+            question.shuffleOptions ? 1 : 0,
+            question.points ?? 1,
+            question.explanation ?? '',
+            question.entryId || null,
+            now,
+            now
+          )
+          setQuestionCategories(db, id, question.categoryIds ?? [])
+        })
+        insert()
         const saved = db.prepare('SELECT * FROM questions WHERE id = ?').get(id) as {
           id: string
           text: string
@@ -1038,6 +1336,13 @@ app.whenReady().then(() => {
           optionType: string
           options: string
           correctAnswer: string
+          acceptedAnswers: string
+          media: string | null
+          optionMedia: string
+          points: number
+          shuffleOptions: number
+          explanation: string
+          entryId: string | null
           createdAt: number
           updatedAt: number
         }
@@ -1045,8 +1350,13 @@ app.whenReady().then(() => {
           ...saved,
           options: JSON.parse(saved.options) as string[],
           correctAnswer: JSON.parse(saved.correctAnswer) as number | number[],
-          questionType: saved.questionType as 'single' | 'multiple',
-          optionType: saved.optionType as 'true-false' | 'letter-options'
+          acceptedAnswers: JSON.parse(saved.acceptedAnswers) as string[][],
+          media: saved.media ? (JSON.parse(saved.media) as QuestionMedia) : null,
+          optionMedia: JSON.parse(saved.optionMedia) as (QuestionMedia | null)[],
+          shuffleOptions: !!saved.shuffleOptions,
+          questionType: saved.questionType as Question['questionType'],
+          optionType: saved.optionType as 'true-false' | 'letter-options',
+          categoryIds: getQuestionCategoryIds(db, id)
         } as Question
       } catch (error) {
         console.error('[Main] Failed to add question:', error)
@@ -1058,8 +1368,9 @@ app.whenReady().then(() => {
   console.log('[Main] Registering db:updateQuestion handler')
   ipcMain.handle(
     'db:updateQuestion',
-    async (_event, id: string, updates: Partial<Omit<Question, 'id' | 'createdAt'>>) => {
+    async (event, id: string, updates: Partial<Omit<Question, 'id' | 'createdAt'>>) => {
       try {
+        requireSession(event)
         const db = getDatabase()
         const setParts: string[] = []
         const values: unknown[] = []
@@ -1084,8 +1395,36 @@ app.whenReady().then(() => {
           setParts.push('correctAnswer = ?')
           values.push(JSON.stringify(updates.correctAnswer))
         }
+        if (updates.acceptedAnswers !== undefined) {
+          setParts.push('acceptedAnswers = ?')
+          values.push(JSON.stringify(updates.acceptedAnswers))
+        }
+        if (updates.media !== undefined) {
+          setParts.push('media = ?')
+          values.push(updates.media ? JSON.stringify(updates.media) : null)
+        }
+        if (updates.optionMedia !== undefined) {
+          setParts.push('optionMedia = ?')
+          values.push(JSON.stringify(updates.optionMedia))
+        }
+        if (updates.shuffleOptions !== undefined) {
+          setParts.push('shuffleOptions = ?')
+          values.push(updates.shuffleOptions ? 1 : 0)
+        }
+        if (updates.points !== undefined) {
+          setParts.push('points = ?')
+          values.push(updates.points)
+        }
+        if (updates.explanation !== undefined) {
+          setParts.push('explanation = ?')
+          values.push(updates.explanation)
+        }
+        if (updates.entryId !== undefined) {
+          setParts.push('entryId = ?')
+          values.push(updates.entryId || null)
+        }
 
-        if (setParts.length === 0) {
+        if (setParts.length === 0 && updates.categoryIds === undefined) {
           const saved = db.prepare('SELECT * FROM questions WHERE id = ?').get(id) as {
             id: string
             text: string
@@ -1093,6 +1432,13 @@ app.whenReady().then(() => {
             optionType: string
             options: string
             correctAnswer: string
+            acceptedAnswers: string
+            media: string | null
+            optionMedia: string
+            points: number
+            shuffleOptions: number
+            explanation: string
+            entryId: string | null
             createdAt: number
             updatedAt: number
           } | null
@@ -1101,8 +1447,13 @@ app.whenReady().then(() => {
             ...saved,
             options: JSON.parse(saved.options) as string[],
             correctAnswer: JSON.parse(saved.correctAnswer) as number | number[],
-            questionType: saved.questionType as 'single' | 'multiple',
-            optionType: saved.optionType as 'true-false' | 'letter-options'
+            acceptedAnswers: JSON.parse(saved.acceptedAnswers) as string[][],
+            media: saved.media ? (JSON.parse(saved.media) as QuestionMedia) : null,
+            optionMedia: JSON.parse(saved.optionMedia) as (QuestionMedia | null)[],
+            shuffleOptions: !!saved.shuffleOptions,
+            questionType: saved.questionType as Question['questionType'],
+            optionType: saved.optionType as 'true-false' | 'letter-options',
+            categoryIds: getQuestionCategoryIds(db, id)
           } as Question
         }
 
@@ -1110,7 +1461,16 @@ app.whenReady().then(() => {
         values.push(Date.now())
         values.push(id)
 
-        db.prepare(`UPDATE questions SET ${setParts.join(', ')} WHERE id = ?`).run(...values)
+        const update = db.transaction(() => {
+          recordQuestionUpdate(db, id, updates)
+          const { changes } = db
+            .prepare(`UPDATE questions SET ${setParts.join(', ')} WHERE id = ?`)
+            .run(...values)
+          if (changes > 0 && updates.categoryIds !== undefined) {
+            setQuestionCategories(db, id, updates.categoryIds)
+          }
+        })
+        update()
         const saved = db.prepare('SELECT * FROM questions WHERE id = ?').get(id) as {
           id: string
           text: string
@@ -1118,6 +1478,13 @@ app.whenReady().then(() => {
           optionType: string
           options: string
           correctAnswer: string
+          acceptedAnswers: string
+          media: string | null
+          optionMedia: string
+          points: number
+          shuffleOptions: number
+          explanation: string
+          entryId: string | null
           createdAt: number
           updatedAt: number
         } | null
@@ -1126,8 +1493,13 @@ app.whenReady().then(() => {
           ...saved,
           options: JSON.parse(saved.options) as string[],
           correctAnswer: JSON.parse(saved.correctAnswer) as number | number[],
-          questionType: saved.questionType as 'single' | 'multiple',
-          optionType: saved.optionType as 'true-false' | 'letter-options'
+          acceptedAnswers: JSON.parse(saved.acceptedAnswers) as string[][],
+          media: saved.media ? (JSON.parse(saved.media) as QuestionMedia) : null,
+          optionMedia: JSON.parse(saved.optionMedia) as (QuestionMedia | null)[],
+          shuffleOptions: !!saved.shuffleOptions,
+          questionType: saved.questionType as Question['questionType'],
+          optionType: saved.optionType as 'true-false' | 'letter-options',
+          categoryIds: getQuestionCategoryIds(db, id)
         } as Question
       } catch (error) {
         console.error('[Main] Failed to update question:', error)
@@ -1137,87 +1509,369 @@ app.whenReady().then(() => {
   )
 
   console.log('[Main] Registering db:deleteQuestion handler')
-  ipcMain.handle('db:deleteQuestion', async (_event, id: string) => {
+  ipcMain.handle('db:deleteQuestion', async (event, id: string) => {
     try {
-      const db = getDatabase()
-      const result = db.prepare('DELETE FROM questions WHERE id = ?').run(id)
-      return result.changes > 0
+      requireSession(event)
+      return softDeleteQuestion(getDatabase(), id)
     } catch (error) {
       console.error('[Main] Failed to delete question:', error)
       throw error
     }
   })
 
-  console.log('[Main] Registering db:importQuestions handler')
-  ipcMain.handle('db:importQuestions', async (_event, questions: Question[]) => {
+  console.log('[Main] Registering import preview handlers')
+  ipcMain.handle(
+    'db:previewQuestionImport',
+    async (_event, questions: ParsedQuestion[]): Promise<ImportPreview> => {
+      try {
+        return previewQuestionImport(getDatabase(), questions)
+      } catch (error) {
+        console.error('[Main] Failed to preview question import:', error)
+        throw error
+      }
+    }
+  )
+
+  ipcMain.handle(
+    'db:applyQuestionImport',
+    async (event, questions: ParsedQuestion[], actions: ImportAction[]): Promise<ImportSummary> => {
+      try {
+        requireSession(event)
+        await createBackup('before-import-questions')
+        return applyQuestionImport(getDatabase(), questions, actions)
+      } catch (error) {
+        console.error('[Main] Failed to apply question import:', error)
+        throw error
+      }
+    }
+  )
+
+  ipcMain.handle(
+    'db:previewEntryImport',
+    async (
+      _event,
+      categoryId: string,
+      entries: ParsedEntryWithParent[]
+    ): Promise<ImportPreview> => {
+      try {
+        return previewEntryImport(getDatabase(), categoryId, entries)
+      } catch (error) {
+        console.error('[Main] Failed to preview entry import:', error)
+        throw error
+      }
+    }
+  )
+
+  ipcMain.handle(
+    'db:applyEntryImport',
+    async (
+      event,
+      categoryId: string,
+      entries: ParsedEntryWithParent[],
+      actions: ImportAction[]
+    ): Promise<ImportSummary> => {
+      try {
+        requireSession(event)
+        await createBackup('before-import-entries')
+        return applyEntryImport(getDatabase(), categoryId, entries, actions)
+      } catch (error) {
+        console.error('[Main] Failed to apply entry import:', error)
+        throw error
+      }
+    }
+  )
+
+  console.log('[Main] Registering revision history handlers')
+  ipcMain.handle('db:getEntryRevisions', async (_event, entryId: string) => {
+    try {
+      return getEntryRevisions(getDatabase(), entryId)
+    } catch (error) {
+      console.error('[Main] Failed to get entry revisions:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle('db:restoreEntryRevision', async (event, revisionId: number) => {
+    try {
+      requireSession(event)
+      return restoreEntryRevision(getDatabase(), revisionId)
+    } catch (error) {
+      console.error('[Main] Failed to restore entry revision:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle('db:getQuestionRevisions', async (_event, questionId: string) => {
+    try {
+      return getQuestionRevisions(getDatabase(), questionId)
+    } catch (error) {
+      console.error('[Main] Failed to get question revisions:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle('db:restoreQuestionRevision', async (event, revisionId: number) => {
+    try {
+      requireSession(event)
+      return restoreQuestionRevision(getDatabase(), revisionId)
+    } catch (error) {
+      console.error('[Main] Failed to restore question revision:', error)
+      throw error
+    }
+  })
+
+  console.log('[Main] Registering recycle bin handlers')
+  ipcMain.handle('db:getRecycleBin', async () => {
+    try {
+      return getRecycleBinItems(getDatabase())
+    } catch (error) {
+      console.error('[Main] Failed to get recycle bin:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle('db:restoreRecycleBinItem', async (event, kind: RecycleBinKind, id: string) => {
+    try {
+      requireSession(event)
+      restoreRecycleBinItem(getDatabase(), kind, id)
+    } catch (error) {
+      console.error('[Main] Failed to restore recycle bin item:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle('db:purgeRecycleBinItem', async (event, kind: RecycleBinKind, id: string) => {
+    try {
+      requireSession(event)
+      return purgeRecycleBinItem(getDatabase(), kind, id)
+    } catch (error) {
+      console.error('[Main] Failed to purge recycle bin item:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle('db:emptyRecycleBin', async (event) => {
     try {
+      requireSession(event)
+      return emptyRecycleBin(getDatabase())
+    } catch (error) {
+      console.error('[Main] Failed to empty recycle bin:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle('db:getRecycleBinRetention', async () => {
+    try {
+      return getRetentionDays(getDatabase())
+    } catch (error) {
+      console.error('[Main] Failed to get recycle bin retention:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle('db:setRecycleBinRetention', async (event, days: number) => {
+    try {
+      requireSession(event)
       const db = getDatabase()
-      const insert = db.prepare(`
-        INSERT INTO questions (id, text, questionType, optionType, options, correctAnswer, createdAt, updatedAt)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-      `)
-      const now = Date.now()
-      const insertMany = db.transaction((qs: Question[]) => {
-        for (const q of qs) {
-          const id = q.id || `q_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-          insert.run(
-            id,
-            q.text,
-            q.questionType,
-            q.optionType,
-            JSON.stringify(q.options),
-            JSON.stringify(q.correctAnswer),
-            q.createdAt || now,
-            q.updatedAt || now
-          )
+      setRetentionDays(db, days)
+      // Apply a shorter period right away
+      purgeExpiredItems(db)
+    } catch (error) {
+      console.error('[Main] Failed to set recycle bin retention:', error)
+      throw error
+    }
+  })
+
+  console.log('[Main] Registering db:storeMedia handler')
+  ipcMain.handle('db:storeMedia', async (event, data: Uint8Array, mimeType: string) => {
+    try {
+      requireSession(event)
+      return storeMedia(getDatabase(), Buffer.from(data), mimeType)
+    } catch (error) {
+      console.error('[Main] Failed to store media:', error)
+      throw error
+    }
+  })
+
+  console.log('[Main] Registering db:importQuestionMedia handler')
+  ipcMain.handle(
+    'db:importQuestionMedia',
+    async (event, fileNames: string[]): Promise<QuestionMediaFiles | null> => {
+      try {
+        requireSession(event)
+        const window = BrowserWindow.fromWebContents(event.sender)
+        const messageOptions: Electron.MessageBoxOptions = {
+          type: 'question',
+          title: '导入题目图片和视频',
+          message: `题目引用了 ${fileNames.length} 个图片或视频文件`,
+          detail: '请选择存放这些文件的文件夹或 zip 压缩包',
+          buttons: ['选择文件夹', '选择 zip 压缩包', '取消'],
+          defaultId: 0,
+          cancelId: 2
         }
-      })
-      insertMany(questions)
-      return questions.length
+        const { response } = window
+          ? await dialog.showMessageBox(window, messageOptions)
+          : await dialog.showMessageBox(messageOptions)
+        if (response === 2) {
+          return null
+        }
+
+        const isZip = response === 1
+        const openOptions: Electron.OpenDialogOptions = isZip
+          ? {
+              title: '选择 zip 压缩包',
+              properties: ['openFile'],
+              filters: [{ name: 'zip 压缩包', extensions: ['zip'] }]
+            }
+          : { title: '选择图片和视频所在的文件夹', properties: ['openDirectory'] }
+        const { canceled, filePaths } = window
+          ? await dialog.showOpenDialog(window, openOptions)
+          : await dialog.showOpenDialog(openOptions)
+        if (canceled || filePaths.length === 0) {
+          return null
+        }
+
+        return importQuestionMediaFiles(getDatabase(), filePaths[0], isZip, fileNames)
+      } catch (error) {
+        console.error('[Main] Failed to import question media:', error)
+        throw error
+      }
+    }
+  )
+
+  console.log('[Main] Registering answer analytics handlers')
+  ipcMain.handle('db:recordAnswerEvents', async (_event, events: AnswerEvent[]) => {
+    try {
+      return recordAnswerEvents(getDatabase(), events)
+    } catch (error) {
+      console.error('[Main] Failed to record answer events:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle('db:getAnswerAnalytics', async () => {
+    try {
+      return getAnswerAnalytics(getDatabase())
+    } catch (error) {
+      console.error('[Main] Failed to get answer analytics:', error)
+      throw error
+    }
+  })
+
+  console.log('[Main] Registering backup handlers')
+  ipcMain.handle('db:createBackup', async (event, label?: string) => {
+    try {
+      requireSession(event)
+      return await createBackup('manual', label)
+    } catch (error) {
+      console.error('[Main] Failed to create backup:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle('db:listBackups', async () => {
+    try {
+      return listBackups()
+    } catch (error) {
+      console.error('[Main] Failed to list backups:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle('db:restoreBackup', async (event, id: string) => {
+    try {
+      requireSession(event)
+      return await restoreBackup(id)
+    } catch (error) {
+      console.error('[Main] Failed to restore backup:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle('db:deleteBackup', async (event, id: string) => {
+    try {
+      requireSession(event)
+      return await deleteBackup(id)
     } catch (error) {
-      console.error('[Main] Failed to import questions:', error)
+      console.error('[Main] Failed to delete backup:', error)
       throw error
     }
   })
 
-  console.log('[Main] Registering db:importEntries handler')
+  console.log('[Main] Registering content package handlers')
   ipcMain.handle(
-    'db:importEntries',
+    'db:exportPackage',
     async (
-      _event,
-      categoryId: string,
-      entries: Array<Omit<Entry, 'id' | 'categoryId' | 'createdAt' | 'updatedAt'>>
-    ) => {
+      event,
+      qaSettings: Record<string, unknown> | null
+    ): Promise<PackageExportResult | null> => {
       try {
-        const db = getDatabase()
-        const insert = db.prepare(`
-        INSERT INTO entries (id, categoryId, title, content, parentEntryId, chapterOrder, createdAt, updatedAt)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-      `)
-        const now = Date.now()
-        const insertMany = db.transaction(
-          (es: Array<Omit<Entry, 'id' | 'categoryId' | 'createdAt' | 'updatedAt'>>) => {
-            for (const entry of es) {
-              const id = `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-              const parentEntryId = entry.parentEntryId || null
-              const chapterOrder = entry.chapterOrder || 0
-              insert.run(
-                id,
-                categoryId,
-                entry.title,
-                entry.content,
-                parentEntryId,
-                chapterOrder,
-                now,
-                now
-              )
-            }
-          }
-        )
-        insertMany(entries)
-        return entries.length
+        requireSession(event)
+        const today = new Date().toISOString().slice(0, 10).replace(/-/g, '')
+        const window = BrowserWindow.fromWebContents(event.sender)
+        const saveOptions: Electron.SaveDialogOptions = {
+          title: '导出内容包',
+          defaultPath: `content-${today}.${PACKAGE_EXTENSION}`,
+          filters: [{ name: '内容包', extensions: [PACKAGE_EXTENSION] }]
+        }
+        const { canceled, filePath } = window
+          ? await dialog.showSaveDialog(window, saveOptions)
+          : await dialog.showSaveDialog(saveOptions)
+        if (canceled || !filePath) {
+          return null
+        }
+
+        const pkg = buildPackage(getDatabase(), qaSettings)
+        writePackageFile(filePath, pkg)
+        console.log('[Main] Content package exported:', filePath, pkg.manifest.counts)
+        return { filePath, counts: pkg.manifest.counts }
+      } catch (error) {
+        console.error('[Main] Failed to export content package:', error)
+        throw error
+      }
+    }
+  )
+
+  ipcMain.handle('db:previewPackage', async (event): Promise<PackagePreview | null> => {
+    try {
+      const window = BrowserWindow.fromWebContents(event.sender)
+      const openOptions: Electron.OpenDialogOptions = {
+        title: '选择内容包',
+        properties: ['openFile'],
+        filters: [{ name: '内容包', extensions: [PACKAGE_EXTENSION] }]
+      }
+      const { canceled, filePaths } = window
+        ? await dialog.showOpenDialog(window, openOptions)
+        : await dialog.showOpenDialog(openOptions)
+      if (canceled || filePaths.length === 0) {
+        return null
+      }
+
+      const pkg = readPackageFile(filePaths[0])
+      return previewPackage(getDatabase(), pkg, filePaths[0])
+    } catch (error) {
+      console.error('[Main] Failed to preview content package:', error)
+      throw error
+    }
+  })
+
+  ipcMain.handle(
+    'db:importPackage',
+    async (
+      event,
+      filePath: string,
+      options: PackageImportOptions
+    ): Promise<PackageImportResult> => {
+      try {
+        requireSession(event)
+        // Re-read and re-verify: the file may have changed since the preview
+        const pkg = readPackageFile(filePath)
+        const backup = await createBackup('before-import-package')
+        const { imported, skipped } = applyPackage(getDatabase(), pkg, options)
+        console.log('[Main] Content package imported:', filePath, options, imported)
+        return { imported, skipped, backupId: backup.id, qaSettings: pkg.qaSettings }
       } catch (error) {
-        console.error('[Main] Failed to import entries:', error)
+        console.error('[Main] Failed to import content package:', error)
         throw error
       }
     }
@@ -0,0 +1,60 @@
+/**
+ * Attempt Lockout
+ * Repeated wrong secrets (admin password, operator PIN) lock the check with a delay that
+ * doubles with every further failure. The state is kept in the settings table so it
+ * survives restarts
+ */
+
+import type Database from 'better-sqlite3'
+import { getSetting, setSetting } from './settings'
+
+const BASE_LOCKOUT_MS = 30 * 1000
+const MAX_LOCKOUT_MS = 15 * 60 * 1000
+
+interface LockoutState {
+  failedAttempts: number
+  lockedUntil: number | null
+}
+
+export interface FailedAttemptResult {
+  lockedUntil: number | null
+  /** Failed attempts left before the first lockout, null once lockouts have started */
+  remainingAttempts: number | null
+}
+
+function getLockout(db: Database.Database, key: string): LockoutState {
+  return getSetting<LockoutState>(db, key, { failedAttempts: 0, lockedUntil: null })
+}
+
+/**
+ * Time the check stays locked, null if it is not locked
+ */
+export function getLockedUntil(db: Database.Database, key: string): number | null {
+  const { lockedUntil } = getLockout(db, key)
+  return lockedUntil !== null && lockedUntil > Date.now() ? lockedUntil : null
+}
+
+export function resetLockout(db: Database.Database, key: string): void {
+  setSetting<LockoutState>(db, key, { failedAttempts: 0, lockedUntil: null })
+}
+
+/**
+ * Count a wrong attempt; after freeAttempts of them each one locks the check for longer
+ */
+export function recordFailedAttempt(
+  db: Database.Database,
+  key: string,
+  freeAttempts: number
+): FailedAttemptResult {
+  const failedAttempts = getLockout(db, key).failedAttempts + 1
+  const lockouts = failedAttempts - freeAttempts
+  const lockedUntil =
+    lockouts >= 0
+      ? Date.now() + Math.min(MAX_LOCKOUT_MS, BASE_LOCKOUT_MS * 2 ** Math.min(lockouts, 10))
+      : null
+  setSetting<LockoutState>(db, key, { failedAttempts, lockedUntil })
+  return {
+    lockedUntil,
+    remainingAttempts: lockouts >= 0 ? null : freeAttempts - failedAttempts
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Media Library
+ * Images used in entry HTML and the attract loop video or animation, stored once per
+ * content hash in userData/media and served to the renderer through the app-media:// protocol
+ */
+
+import type Database from 'better-sqlite3'
+import { createHash } from 'crypto'
+import { createReadStream, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { stat } from 'fs/promises'
+import { join } from 'path'
+import { Readable } from 'stream'
+import { app, protocol } from 'electron'
+
+export const MEDIA_SCHEME = 'app-media'
+// app-media://media/<sha256 of the file>
+const MEDIA_URL_PREFIX = `${MEDIA_SCHEME}://media/`
+export const MEDIA_URL_PATTERN = /app-media:\/\/media\/([0-9a-f]{64})/g
+const MEDIA_TYPE_PATTERN = /^(image|video)\/[a-z0-9.+-]+$|^application\/json$/
+const DATA_URI_PATTERN = /data:(image\/[a-z0-9.+-]+);base64,([a-z0-9+/=]+)/gi
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/bmp': 'bmp',
+  'image/svg+xml': 'svg',
+  'image/tiff': 'tif',
+  'image/x-emf': 'emf',
+  'image/x-wmf': 'wmf',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/ogg': 'ogv',
+  // Lottie animations
+  'application/json': 'json'
+}
+
+interface MediaRow {
+  hash: string
+  mimeType: string
+  fileName: string
+  size: number
+  createdAt: number
+}
+
+/**
+ * Get (and create) the media folder in userData
+ */
+export function getMediaDirectory(): string {
+  const dir = join(app.getPath('userData'), 'media')
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+  }
+  return dir
+}
+
+export function getMediaUrl(hash: string): string {
+  return `${MEDIA_URL_PREFIX}${hash}`
+}
+
+function getMediaRow(db: Database.Database, hash: string): MediaRow | undefined {
+  return db.prepare('SELECT * FROM media WHERE hash = ?').get(hash) as MediaRow | undefined
+}
+
+/**
+ * Store a file in the media library; identical files are kept only once
+ * Returns the app-media:// URL to put in entry HTML or settings
+ */
+export function storeMedia(db: Database.Database, data: Buffer, mimeType: string): string {
+  const type = mimeType.toLowerCase()
+  if (!MEDIA_TYPE_PATTERN.test(type)) {
+    throw new Error(`Unsupported media type: ${mimeType}`)
+  }
+
+  const hash = createHash('sha256').update(data).digest('hex')
+  const existing = getMediaRow(db, hash)
+  const fileName = existing?.fileName ?? `${hash}.${FILE_EXTENSIONS[type] ?? 'bin'}`
+  const filePath = join(getMediaDirectory(), fileName)
+  // The row may survive a file that was removed by hand; write it again then
+  if (!existsSync(filePath)) {
+    writeFileSync(filePath, data)
+  }
+  if (!existing) {
+    db.prepare(
+      'INSERT INTO media (hash, mimeType, fileName, size, createdAt) VALUES (?, ?, ?, ?, ?)'
+    ).run(hash, type, fileName, data.length, Date.now())
+  }
+  return getMediaUrl(hash)
+}
+
+/**
+ * Read a stored file, null if it is unknown or its file is missing
+ */
+export function readMedia(
+  db: Database.Database,
+  hash: string
+): { mimeType: string; data: Buffer } | null {
+  const row = getMediaRow(db, hash)
+  if (!row) return null
+  const filePath = join(getMediaDirectory(), row.fileName)
+  if (!existsSync(filePath)) return null
+  return { mimeType: row.mimeType, data: readFileSync(filePath) }
+}
+
+/**
+ * HTML with inline base64 images swapped for the URLs they would be stored under, without
+ * storing anything; lets an import preview compare new content with stored content
+ */
+export function inlineImagesToMediaUrls(html: string): string {
+  return html.replace(DATA_URI_PATTERN, (_match, _mimeType: string, data: string) =>
+    getMediaUrl(createHash('sha256').update(Buffer.from(data, 'base64')).digest('hex'))
+  )
+}
+
+/**
+ * Move inline base64 images out of HTML into the media library
+ */
+export function storeInlineImages(db: Database.Database, html: string): string {
+  return html.replace(DATA_URI_PATTERN, (_match, mimeType: string, data: string) =>
+    storeMedia(db, Buffer.from(data, 'base64'), mimeType)
+  )
+}
+
+/**
+ * Must be called before the app is ready so app-media:// URLs load like regular files
+ */
+export function registerMediaScheme(): void {
+  protocol.registerSchemesAsPrivileged([
+    { scheme: MEDIA_SCHEME, privileges: { standard: true, secure: true, supportFetchAPI: true } }
+  ])
+}
+
+/**
+ * Byte range asked for by a Range header ("bytes=start-end", "bytes=start-" or "bytes=-length")
+ * Returns undefined to send the whole file (no header, or a form not supported such as
+ * several ranges) and null when the range lies outside the file
+ */
+function parseRange(
+  header: string | null,
+  size: number
+): { start: number; end: number } | null | undefined {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null
+  if (!match || (!match[1] && !match[2])) return undefined
+
+  const start = match[1] ? Number(match[1]) : Math.max(0, size - Number(match[2]))
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1
+  return start <= end ? { start, end } : null
+}
+
+/**
+ * Serve media library files for app-media:// URLs
+ * Takes the database getter because restoring a backup reopens the connection
+ * Files are streamed and Range requests answered with 206, so videos can seek and loop
+ * without being read into memory whole
+ */
+export function registerMediaProtocol(getDatabase: () => Database.Database): void {
+  protocol.handle(MEDIA_SCHEME, async (request) => {
+    const { host, pathname } = new URL(request.url)
+    const hash = pathname.slice(1)
+    const row =
+      host === 'media' && /^[0-9a-f]{64}$/.test(hash) ? getMediaRow(getDatabase(), hash) : undefined
+    if (!row) {
+      return new Response('Not found', { status: 404 })
+    }
+
+    const filePath = join(getMediaDirectory(), row.fileName)
+    let size: number
+    try {
+      size = (await stat(filePath)).size
+    } catch (error) {
+      console.error('[Media] Failed to read media file:', row.fileName, error)
+      return new Response('Not found', { status: 404 })
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': row.mimeType,
+      // Content never changes for a given hash
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      'Accept-Ranges': 'bytes'
+    }
+    const range = parseRange(request.headers.get('Range'), size)
+    if (range === null) {
+      return new Response(null, {
+        status: 416,
+        headers: { ...headers, 'Content-Range': `bytes */${size}` }
+      })
+    }
+
+    const { start, end } = range ?? { start: 0, end: size - 1 }
+    const body =
+      size === 0
+        ? null
+        : (Readable.toWeb(createReadStream(filePath, { start, end })) as ReadableStream)
+    return new Response(body, {
+      status: range ? 206 : 200,
+      headers: {
+        ...headers,
+        'Content-Length': String(end - start + 1),
+        ...(range && { 'Content-Range': `bytes ${start}-${end}/${size}` })
+      }
+    })
+  })
+}
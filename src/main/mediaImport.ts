@@ -0,0 +1,168 @@
+/**
+ * Question Media Import
+ * Resolves the image and video file names of an Excel question import against a folder or
+ * a zip archive and stores the files in the media library
+ */
+
+import type Database from 'better-sqlite3'
+import { existsSync, readFileSync } from 'fs'
+import { isAbsolute, join, relative } from 'path'
+import { inflateRawSync } from 'zlib'
+import { storeMedia } from './media'
+import type { QuestionMedia, QuestionMediaFiles } from '../renderer/src/types/question'
+
+const QUESTION_MEDIA_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  webm: 'video/webm',
+  ogv: 'video/ogg'
+}
+
+const ZIP_END_SIGNATURE = 0x06054b50
+const ZIP_CENTRAL_SIGNATURE = 0x02014b50
+const ZIP_LOCAL_SIGNATURE = 0x04034b50
+// Name is UTF-8 (otherwise it is in the system code page, GBK on Chinese Windows)
+const ZIP_UTF8_FLAG = 0x800
+
+/**
+ * File name as written in the sheet, in a form that compares across systems
+ */
+function normalizeFileName(fileName: string): string {
+  return fileName.trim().replace(/\\/g, '/').replace(/^\.\//, '').toLowerCase()
+}
+
+function getBaseName(fileName: string): string {
+  return fileName.slice(fileName.lastIndexOf('/') + 1)
+}
+
+function decodeZipName(name: Buffer, flags: number): string {
+  if (flags & ZIP_UTF8_FLAG) return name.toString('utf-8')
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(name)
+  } catch {
+    return new TextDecoder('gbk').decode(name)
+  }
+}
+
+/**
+ * List the files of a zip archive; each file is only decompressed when read
+ * Supports stored and deflated entries, which covers archives made by common zip tools
+ */
+function readZipEntries(filePath: string): Map<string, () => Buffer> {
+  const data = readFileSync(filePath)
+  // The end record is followed by a comment of at most 64 KB
+  let end = -1
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 22 - 0xffff); offset--) {
+    if (data.readUInt32LE(offset) === ZIP_END_SIGNATURE) {
+      end = offset
+      break
+    }
+  }
+  if (end === -1) {
+    throw new Error('不是有效的 zip 压缩包')
+  }
+
+  const entries = new Map<string, () => Buffer>()
+  const count = data.readUInt16LE(end + 10)
+  let offset = data.readUInt32LE(end + 16)
+  for (let i = 0; i < count; i++) {
+    if (data.readUInt32LE(offset) !== ZIP_CENTRAL_SIGNATURE) {
+      throw new Error('zip 压缩包已损坏')
+    }
+    const flags = data.readUInt16LE(offset + 8)
+    const method = data.readUInt16LE(offset + 10)
+    const compressedSize = data.readUInt32LE(offset + 20)
+    const nameLength = data.readUInt16LE(offset + 28)
+    const extraLength = data.readUInt16LE(offset + 30)
+    const commentLength = data.readUInt16LE(offset + 32)
+    const localOffset = data.readUInt32LE(offset + 42)
+    const name = decodeZipName(data.subarray(offset + 46, offset + 46 + nameLength), flags)
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue
+    entries.set(normalizeFileName(name), () => {
+      if (data.readUInt32LE(localOffset) !== ZIP_LOCAL_SIGNATURE) {
+        throw new Error(`zip 压缩包中的 ${name} 已损坏`)
+      }
+      const start =
+        localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28)
+      const compressed = data.subarray(start, start + compressedSize)
+      if (method === 0) return Buffer.from(compressed)
+      if (method === 8) return inflateRawSync(compressed)
+      throw new Error(`zip 压缩包中的 ${name} 使用了不支持的压缩方式`)
+    })
+  }
+  return entries
+}
+
+/**
+ * Find a zip entry by its path, or by its base name when the sheet gives only the name
+ * and exactly one file in the archive has it
+ */
+function findZipEntry(
+  entries: Map<string, () => Buffer>,
+  fileName: string
+): (() => Buffer) | undefined {
+  const exact = entries.get(fileName)
+  if (exact) return exact
+  const baseName = getBaseName(fileName)
+  const matches = [...entries.keys()].filter((name) => getBaseName(name) === baseName)
+  return matches.length === 1 ? entries.get(matches[0]) : undefined
+}
+
+/**
+ * Read a file below a folder; names that point outside it are treated as missing
+ */
+function readFolderFile(folderPath: string, fileName: string): Buffer | undefined {
+  const filePath = join(folderPath, fileName)
+  const inside = relative(folderPath, filePath)
+  if (!inside || inside.startsWith('..') || isAbsolute(inside) || !existsSync(filePath)) {
+    return undefined
+  }
+  return readFileSync(filePath)
+}
+
+/**
+ * Store the referenced files from a folder or zip archive in the media library
+ * @param fileNames File names as written in the sheet, relative to the folder or archive root
+ * @returns The stored attachment for each found name, and the names that could not be used
+ */
+export function importQuestionMediaFiles(
+  db: Database.Database,
+  sourcePath: string,
+  isZip: boolean,
+  fileNames: string[]
+): QuestionMediaFiles {
+  const entries = isZip ? readZipEntries(sourcePath) : null
+  const result: QuestionMediaFiles = { found: {}, missing: [] }
+
+  for (const fileName of new Set(fileNames)) {
+    const normalized = normalizeFileName(fileName)
+    const extension = normalized.slice(normalized.lastIndexOf('.') + 1)
+    const mimeType = QUESTION_MEDIA_TYPES[extension]
+    const data = !mimeType
+      ? undefined
+      : entries
+        ? findZipEntry(entries, normalized)?.()
+        : readFolderFile(sourcePath, fileName.trim())
+    if (!mimeType || !data) {
+      result.missing.push(fileName)
+      continue
+    }
+
+    const media: QuestionMedia = {
+      url: storeMedia(db, data, mimeType),
+      kind: mimeType.startsWith('video/') ? 'video' : 'image'
+    }
+    result.found[fileName] = media
+  }
+
+  return result
+}
@@ -0,0 +1,539 @@
+/**
+ * Schema Migrations
+ * Numbered, versioned migrations for admin.db tracked via PRAGMA user_version
+ */
+
+import type Database from 'better-sqlite3'
+import { storeInlineImages } from './media'
+import type { Entry } from '../renderer/src/types/admin'
+import type { Question } from '../renderer/src/types/question'
+
+/**
+ * A single schema migration
+ * Versions must be unique and strictly increasing; never edit a released migration,
+ * append a new one instead
+ */
+export interface Migration {
+  version: number
+  name: string
+  up: (database: Database.Database) => void
+}
+
+/**
+ * Raised when a migration fails; the failed migration has been rolled back
+ * and the database stays at `fromVersion`
+ */
+export class MigrationError extends Error {
+  constructor(
+    public readonly version: number,
+    public readonly migrationName: string,
+    public readonly fromVersion: number,
+    public readonly cause: unknown
+  ) {
+    const reason = cause instanceof Error ? cause.message : String(cause)
+    super(
+      `Database migration ${version} (${migrationName}) failed: ${reason}. ` +
+        `Schema remains at version ${fromVersion}.`
+    )
+    this.name = 'MigrationError'
+  }
+}
+
+/**
+ * Check whether a table has a given column
+ */
+export function hasColumn(database: Database.Database, table: string, column: string): boolean {
+  const columns = database.prepare(`PRAGMA table_info("${table}")`).all() as { name: string }[]
+  return columns.some((c) => c.name === column)
+}
+
+/**
+ * Migration list, ordered by version
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'initial schema',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS categories (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          description TEXT NOT NULL,
+          "order" INTEGER NOT NULL,
+          createdAt INTEGER NOT NULL,
+          updatedAt INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS entries (
+          id TEXT PRIMARY KEY,
+          categoryId TEXT NOT NULL,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          parentEntryId TEXT,
+          chapterOrder INTEGER DEFAULT 0,
+          createdAt INTEGER NOT NULL,
+          updatedAt INTEGER NOT NULL,
+          FOREIGN KEY (categoryId) REFERENCES categories(id) ON DELETE CASCADE,
+          FOREIGN KEY (parentEntryId) REFERENCES entries(id) ON DELETE CASCADE
+        );
+
+        CREATE TABLE IF NOT EXISTS questions (
+          id TEXT PRIMARY KEY,
+          text TEXT NOT NULL,
+          questionType TEXT NOT NULL CHECK(questionType IN ('single', 'multiple')),
+          optionType TEXT NOT NULL CHECK(optionType IN ('true-false', 'letter-options')),
+          options TEXT NOT NULL,
+          correctAnswer TEXT NOT NULL,
+          createdAt INTEGER NOT NULL,
+          updatedAt INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_entries_categoryId ON entries(categoryId);
+        CREATE INDEX IF NOT EXISTS idx_categories_order ON categories("order");
+        CREATE INDEX IF NOT EXISTS idx_questions_questionType ON questions(questionType);
+        CREATE INDEX IF NOT EXISTS idx_questions_optionType ON questions(optionType);
+      `)
+    }
+  },
+  {
+    version: 2,
+    name: 'rebuild entries without legacy chapter column',
+    up: (database) => {
+      // Databases created before versioning may predate parentEntryId/chapterOrder
+      // and may still carry the old `chapter` column; rebuild to the canonical shape
+      const parentExpr = hasColumn(database, 'entries', 'parentEntryId')
+        ? "NULLIF(parentEntryId, '')"
+        : 'NULL'
+      const orderExpr = hasColumn(database, 'entries', 'chapterOrder')
+        ? 'COALESCE(chapterOrder, 0)'
+        : '0'
+
+      database.exec(`
+        CREATE TABLE entries_new (
+          id TEXT PRIMARY KEY,
+          categoryId TEXT NOT NULL,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          parentEntryId TEXT,
+          chapterOrder INTEGER DEFAULT 0,
+          createdAt INTEGER NOT NULL,
+          updatedAt INTEGER NOT NULL,
+          FOREIGN KEY (categoryId) REFERENCES categories(id) ON DELETE CASCADE,
+          FOREIGN KEY (parentEntryId) REFERENCES entries(id) ON DELETE CASCADE
+        );
+
+        INSERT INTO entries_new (
+          id, categoryId, title, content, parentEntryId, chapterOrder, createdAt, updatedAt
+        )
+        SELECT id, categoryId, title, content, ${parentExpr}, ${orderExpr}, createdAt, updatedAt
+        FROM entries;
+
+        DROP TABLE entries;
+        ALTER TABLE entries_new RENAME TO entries;
+
+        CREATE INDEX IF NOT EXISTS idx_entries_categoryId ON entries(categoryId);
+        CREATE INDEX IF NOT EXISTS idx_entries_parentEntryId ON entries(parentEntryId);
+      `)
+    }
+  },
+  {
+    version: 3,
+    name: 'entries full-text search index',
+    up: (database) => {
+      // Requires strip_html() (registered by registerSearchFunctions) on every connection
+      database.exec(`
+        CREATE VIRTUAL TABLE entries_fts USING fts5(
+          entryId UNINDEXED,
+          title,
+          content,
+          tokenize = 'trigram'
+        );
+
+        INSERT INTO entries_fts (entryId, title, content)
+        SELECT id, title, strip_html(content) FROM entries;
+
+        CREATE TRIGGER entries_fts_ai AFTER INSERT ON entries BEGIN
+          INSERT INTO entries_fts (entryId, title, content)
+          VALUES (new.id, new.title, strip_html(new.content));
+        END;
+
+        CREATE TRIGGER entries_fts_ad AFTER DELETE ON entries BEGIN
+          DELETE FROM entries_fts WHERE entryId = old.id;
+        END;
+
+        CREATE TRIGGER entries_fts_au AFTER UPDATE OF title, content ON entries BEGIN
+          UPDATE entries_fts
+          SET title = new.title, content = strip_html(new.content)
+          WHERE entryId = old.id;
+        END;
+      `)
+    }
+  },
+  {
+    version: 4,
+    name: 'question points',
+    up: (database) => {
+      if (!hasColumn(database, 'questions', 'points')) {
+        database.exec('ALTER TABLE questions ADD COLUMN points INTEGER NOT NULL DEFAULT 1')
+      }
+    }
+  },
+  {
+    version: 5,
+    name: 'question explanations and entry references',
+    up: (database) => {
+      database.exec(`
+        ALTER TABLE questions ADD COLUMN explanation TEXT NOT NULL DEFAULT '';
+        ALTER TABLE questions ADD COLUMN entryId TEXT REFERENCES entries(id) ON DELETE SET NULL;
+
+        CREATE INDEX IF NOT EXISTS idx_questions_entryId ON questions(entryId);
+      `)
+    }
+  },
+  {
+    version: 6,
+    name: 'question category tags',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS question_categories (
+          questionId TEXT NOT NULL,
+          categoryId TEXT NOT NULL,
+          PRIMARY KEY (questionId, categoryId),
+          FOREIGN KEY (questionId) REFERENCES questions(id) ON DELETE CASCADE,
+          FOREIGN KEY (categoryId) REFERENCES categories(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_question_categories_categoryId
+          ON question_categories(categoryId);
+      `)
+    }
+  },
+  {
+    version: 7,
+    name: 'answer events',
+    up: (database) => {
+      // No foreign key on questionId: statistics outlive deleted or replaced questions
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS answer_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          sessionId TEXT NOT NULL,
+          questionId TEXT NOT NULL,
+          selectedAnswer TEXT,
+          isCorrect INTEGER NOT NULL,
+          outcome TEXT NOT NULL CHECK(outcome IN ('answered', 'timed-out', 'unanswered')),
+          attempt INTEGER NOT NULL,
+          timeSpent INTEGER NOT NULL,
+          pointsEarned REAL NOT NULL,
+          points REAL NOT NULL,
+          answeredAt INTEGER NOT NULL,
+          UNIQUE (sessionId, questionId, attempt)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_answer_events_questionId ON answer_events(questionId);
+        CREATE INDEX IF NOT EXISTS idx_answer_events_answeredAt ON answer_events(answeredAt);
+      `)
+    }
+  },
+  {
+    version: 8,
+    name: 'media library',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS media (
+          hash TEXT PRIMARY KEY,
+          mimeType TEXT NOT NULL,
+          fileName TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          createdAt INTEGER NOT NULL
+        );
+      `)
+
+      // Move base64 images embedded by earlier Word imports into the media folder.
+      // Files written before a rollback are reused by hash on the next attempt
+      const entries = database
+        .prepare(`SELECT id, content FROM entries WHERE content LIKE '%data:image/%'`)
+        .all() as { id: string; content: string }[]
+      const update = database.prepare('UPDATE entries SET content = ? WHERE id = ?')
+      for (const entry of entries) {
+        update.run(storeInlineImages(database, entry.content), entry.id)
+      }
+    }
+  },
+  {
+    version: 9,
+    name: 'revision history',
+    up: (database) => {
+      // No foreign keys: revisions must outlive the rows they describe
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS entry_revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          entryId TEXT NOT NULL,
+          categoryId TEXT NOT NULL,
+          action TEXT NOT NULL CHECK(action IN ('update', 'delete')),
+          snapshot TEXT NOT NULL,
+          batchId TEXT,
+          createdAt INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_entry_revisions_entryId ON entry_revisions(entryId);
+        CREATE INDEX IF NOT EXISTS idx_entry_revisions_batchId ON entry_revisions(batchId);
+        CREATE INDEX IF NOT EXISTS idx_entry_revisions_categoryId
+          ON entry_revisions(categoryId, action);
+
+        CREATE TABLE IF NOT EXISTS question_revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          questionId TEXT NOT NULL,
+          action TEXT NOT NULL CHECK(action IN ('update', 'delete')),
+          snapshot TEXT NOT NULL,
+          createdAt INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_question_revisions_questionId
+          ON question_revisions(questionId);
+      `)
+    }
+  },
+  {
+    version: 10,
+    name: 'recycle bin',
+    up: (database) => {
+      database.exec(`
+        ALTER TABLE categories ADD COLUMN deletedAt INTEGER;
+        ALTER TABLE entries ADD COLUMN deletedAt INTEGER;
+        ALTER TABLE questions ADD COLUMN deletedAt INTEGER;
+
+        CREATE INDEX IF NOT EXISTS idx_categories_deletedAt ON categories(deletedAt);
+        CREATE INDEX IF NOT EXISTS idx_entries_deletedAt ON entries(deletedAt);
+        CREATE INDEX IF NOT EXISTS idx_questions_deletedAt ON questions(deletedAt);
+
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `)
+
+      // Rows deleted since version 9 only live on as delete revisions; put them in the recycle bin.
+      // Revisions are in id order, so a parent is back before the children deleted with it
+      const deletedEntries = database
+        .prepare(
+          `SELECT r.snapshot, r.createdAt FROM entry_revisions r
+            WHERE r.action = 'delete'
+              AND r.id = (
+                SELECT MAX(id) FROM entry_revisions x WHERE x.entryId = r.entryId AND x.action = 'delete'
+              )
+              AND NOT EXISTS (SELECT 1 FROM entries e WHERE e.id = r.entryId)
+            ORDER BY r.id`
+        )
+        .all() as { snapshot: string; createdAt: number }[]
+      const exists = (table: string, id: string | null | undefined): boolean =>
+        !!id && !!database.prepare(`SELECT 1 FROM ${table} WHERE id = ?`).get(id)
+      const insertEntry = database.prepare(`
+        INSERT INTO entries (
+          id, categoryId, title, content, parentEntryId, chapterOrder, createdAt, updatedAt, deletedAt
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      for (const row of deletedEntries) {
+        const entry = JSON.parse(row.snapshot) as Entry
+        if (!exists('categories', entry.categoryId)) continue
+        if (entry.parentEntryId && !exists('entries', entry.parentEntryId)) continue
+        insertEntry.run(
+          entry.id,
+          entry.categoryId,
+          entry.title,
+          entry.content,
+          entry.parentEntryId || null,
+          entry.chapterOrder || 0,
+          entry.createdAt,
+          entry.updatedAt,
+          row.createdAt
+        )
+      }
+
+      const deletedQuestions = database
+        .prepare(
+          `SELECT r.snapshot, r.createdAt FROM question_revisions r
+            WHERE r.action = 'delete'
+              AND r.id = (
+                SELECT MAX(id) FROM question_revisions x
+                  WHERE x.questionId = r.questionId AND x.action = 'delete'
+              )
+              AND NOT EXISTS (SELECT 1 FROM questions q WHERE q.id = r.questionId)
+            ORDER BY r.id`
+        )
+        .all() as { snapshot: string; createdAt: number }[]
+      const insertQuestion = database.prepare(`
+        INSERT INTO questions (
+          id, text, questionType, optionType, options, correctAnswer, points, explanation, entryId,
+          createdAt, updatedAt, deletedAt
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      const insertCategoryTag = database.prepare(`
+        INSERT OR IGNORE INTO question_categories (questionId, categoryId)
+        SELECT ?, id FROM categories WHERE id = ?
+      `)
+      for (const row of deletedQuestions) {
+        const question = JSON.parse(row.snapshot) as Question
+        insertQuestion.run(
+          question.id,
+          question.text,
+          question.questionType,
+          question.optionType,
+          JSON.stringify(question.options),
+          JSON.stringify(question.correctAnswer),
+          question.points ?? 1,
+          question.explanation ?? '',
+          exists('entries', question.entryId) ? question.entryId : null,
+          question.createdAt,
+          question.updatedAt,
+          row.createdAt
+        )
+        for (const categoryId of question.categoryIds ?? []) {
+          insertCategoryTag.run(question.id, categoryId)
+        }
+      }
+    }
+  },
+  {
+    version: 11,
+    name: 'question shuffle options',
+    up: (database) => {
+      if (!hasColumn(database, 'questions', 'shuffleOptions')) {
+        database.exec('ALTER TABLE questions ADD COLUMN shuffleOptions INTEGER NOT NULL DEFAULT 0')
+      }
+    }
+  },
+  {
+    version: 12,
+    name: 'fill-blank and ordering question types',
+    up: (database) => {
+      // The questionType CHECK constraint can only change by rebuilding the table
+      database.exec(`
+        CREATE TABLE questions_new (
+          id TEXT PRIMARY KEY,
+          text TEXT NOT NULL,
+          questionType TEXT NOT NULL
+            CHECK(questionType IN ('single', 'multiple', 'fill-blank', 'ordering')),
+          optionType TEXT NOT NULL CHECK(optionType IN ('true-false', 'letter-options')),
+          options TEXT NOT NULL,
+          correctAnswer TEXT NOT NULL,
+          acceptedAnswers TEXT NOT NULL DEFAULT '[]',
+          shuffleOptions INTEGER NOT NULL DEFAULT 0,
+          points INTEGER NOT NULL DEFAULT 1,
+          explanation TEXT NOT NULL DEFAULT '',
+          entryId TEXT REFERENCES entries(id) ON DELETE SET NULL,
+          createdAt INTEGER NOT NULL,
+          updatedAt INTEGER NOT NULL,
+          deletedAt INTEGER
+        );
+
+        INSERT INTO questions_new (
+          id, text, questionType, optionType, options, correctAnswer, shuffleOptions, points,
+          explanation, entryId, createdAt, updatedAt, deletedAt
+        )
+        SELECT id, text, questionType, optionType, options, correctAnswer, shuffleOptions, points,
+          explanation, entryId, createdAt, updatedAt, deletedAt
+        FROM questions;
+
+        DROP TABLE questions;
+        ALTER TABLE questions_new RENAME TO questions;
+
+        CREATE INDEX IF NOT EXISTS idx_questions_questionType ON questions(questionType);
+        CREATE INDEX IF NOT EXISTS idx_questions_optionType ON questions(optionType);
+        CREATE INDEX IF NOT EXISTS idx_questions_entryId ON questions(entryId);
+        CREATE INDEX IF NOT EXISTS idx_questions_deletedAt ON questions(deletedAt);
+      `)
+    }
+  },
+  {
+    version: 13,
+    name: 'question media attachments',
+    up: (database) => {
+      // JSON {url, kind} of the stem image or video, and one such attachment (or null) per option
+      if (!hasColumn(database, 'questions', 'media')) {
+        database.exec('ALTER TABLE questions ADD COLUMN media TEXT')
+      }
+      if (!hasColumn(database, 'questions', 'optionMedia')) {
+        database.exec("ALTER TABLE questions ADD COLUMN optionMedia TEXT NOT NULL DEFAULT '[]'")
+      }
+    }
+  }
+]
+
+/**
+ * Get current schema version
+ */
+export function getSchemaVersion(database: Database.Database): number {
+  return database.pragma('user_version', { simple: true }) as number
+}
+
+/**
+ * Apply all pending migrations, each in its own transaction
+ * Foreign keys are switched off while migrating (required for table rebuilds)
+ * and verified with foreign_key_check before each commit
+ */
+export function runMigrations(database: Database.Database, list: Migration[] = migrations): number {
+  const startVersion = getSchemaVersion(database)
+  const latestVersion = list.reduce((max, m) => Math.max(max, m.version), 0)
+
+  if (startVersion > latestVersion) {
+    throw new Error(
+      `Database schema version ${startVersion} is newer than this application supports ` +
+        `(${latestVersion}). Please upgrade the application.`
+    )
+  }
+
+  const pending = list.filter((m) => m.version > startVersion).sort((a, b) => a.version - b.version)
+  if (pending.length === 0) {
+    return startVersion
+  }
+
+  console.log(
+    `[Database] Migrating schema from version ${startVersion} to ${latestVersion} ` +
+      `(${pending.length} pending)`
+  )
+
+  const foreignKeysEnabled = database.pragma('foreign_keys', { simple: true }) === 1
+  database.pragma('foreign_keys = OFF')
+
+  let currentVersion = startVersion
+  try {
+    for (const migration of pending) {
+      const apply = database.transaction(() => {
+        migration.up(database)
+
+        const violations = database.pragma('foreign_key_check') as unknown[]
+        if (violations.length > 0) {
+          throw new Error(`${violations.length} foreign key violation(s) after migration`)
+        }
+
+        // PRAGMA does not accept bound parameters; version is a trusted integer
+        database.pragma(`user_version = ${migration.version}`)
+      })
+
+      try {
+        apply()
+      } catch (error) {
+        const migrationError = new MigrationError(
+          migration.version,
+          migration.name,
+          currentVersion,
+          error
+        )
+        console.error('[Database]', migrationError.message, error)
+        throw migrationError
+      }
+
+      currentVersion = migration.version
+      console.log(`[Database] Applied migration ${migration.version}: ${migration.name}`)
+    }
+  } finally {
+    if (foreignKeysEnabled) {
+      database.pragma('foreign_keys = ON')
+    }
+  }
+
+  return currentVersion
+}
@@ -0,0 +1,112 @@
+/**
+ * Operator PIN
+ * Guards the operator console opened by the hidden corner gesture or the operator shortcut
+ * Only a salted scrypt hash is kept in the settings table. Wrong PINs lock the check with
+ * the same growing delay as the admin login. A correct PIN unlocks the console actions for
+ * the webContents that entered it, for a limited time, like an admin session
+ */
+
+import type Database from 'better-sqlite3'
+import type { IpcMainInvokeEvent } from 'electron'
+import { hasSession } from './auth'
+import { hashPassword, verifyPassword, type PasswordHash } from './passwords'
+import { getSetting, setSetting } from './settings'
+import { getLockedUntil, recordFailedAttempt, resetLockout } from './lockout'
+import type { OperatorPinResult } from '../renderer/src/types/auth'
+
+const PIN_SETTING = 'operatorPin'
+const LOCKOUT_SETTING = 'operatorPinLockout'
+// Used until an operator sets their own PIN
+const DEFAULT_PIN = '0000'
+const PIN_PATTERN = /^\d{4,8}$/
+// Wrong PINs allowed before the first lockout
+const FREE_ATTEMPTS = 3
+const UNLOCK_DURATION = 15 * 60 * 1000
+
+// webContents id -> operator unlock expiry
+const unlocks = new Map<number, number>()
+
+function checkPin(db: Database.Database, pin: string): boolean {
+  const stored = getSetting<PasswordHash | null>(db, PIN_SETTING, null)
+  return stored ? verifyPassword(pin, stored) : pin === DEFAULT_PIN
+}
+
+/**
+ * Check a PIN entered on the operator keypad
+ */
+export function verifyOperatorPin(db: Database.Database, pin: string): OperatorPinResult {
+  const lockedUntil = getLockedUntil(db, LOCKOUT_SETTING)
+  if (lockedUntil !== null) {
+    return { success: false, lockedUntil, remainingAttempts: 0 }
+  }
+
+  if (checkPin(db, pin)) {
+    resetLockout(db, LOCKOUT_SETTING)
+    return { success: true, lockedUntil: null, remainingAttempts: null }
+  }
+
+  console.warn('[Operator] Wrong operator PIN')
+  return { success: false, ...recordFailedAttempt(db, LOCKOUT_SETTING, FREE_ATTEMPTS) }
+}
+
+/**
+ * Check the PIN and, if it is correct, unlock the console actions for the webContents
+ */
+export function unlockOperator(
+  db: Database.Database,
+  senderId: number,
+  pin: string
+): OperatorPinResult {
+  const result = verifyOperatorPin(db, pin)
+  if (result.success) {
+    unlocks.set(senderId, Date.now() + UNLOCK_DURATION)
+  }
+  return result
+}
+
+/**
+ * Reject an IPC call unless its window entered the operator PIN recently or has an admin session
+ */
+export function requireOperator(event: IpcMainInvokeEvent): void {
+  const senderId = event.sender.id
+  const expiresAt = unlocks.get(senderId)
+  if (expiresAt !== undefined && Date.now() > expiresAt) {
+    unlocks.delete(senderId)
+  }
+  if (!unlocks.has(senderId) && !hasSession(senderId)) {
+    throw new Error('操作台已锁定，请重新输入 PIN')
+  }
+}
+
+/**
+ * Whether the operator PIN is still the factory default
+ */
+export function isDefaultOperatorPin(db: Database.Database): boolean {
+  return getSetting<PasswordHash | null>(db, PIN_SETTING, null) === null
+}
+
+/**
+ * Replace the operator PIN
+ * Needs the current PIN, unless the caller has an admin session (e.g. the PIN was forgotten)
+ */
+export function setOperatorPin(
+  db: Database.Database,
+  pin: string,
+  currentPin: string | null,
+  hasAdminSession: boolean
+): void {
+  if (!hasAdminSession) {
+    const { success, lockedUntil } = verifyOperatorPin(db, currentPin ?? '')
+    if (!success) {
+      throw new Error(
+        lockedUntil !== null
+          ? `PIN 错误次数过多，请 ${Math.ceil((lockedUntil - Date.now()) / 60000)} 分钟后再试`
+          : '当前 PIN 不正确'
+      )
+    }
+  }
+  if (!PIN_PATTERN.test(pin)) {
+    throw new Error('PIN 必须是 4 到 8 位数字')
+  }
+  setSetting(db, PIN_SETTING, hashPassword(pin))
+}
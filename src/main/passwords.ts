@@ -0,0 +1,27 @@
+/**
+ * Password Hashing
+ * Salted scrypt hashes for the admin password and the operator PIN
+ */
+
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto'
+
+const KEY_LENGTH = 32
+
+export interface PasswordHash {
+  salt: string
+  hash: string
+}
+
+export function hashPassword(password: string): PasswordHash {
+  const salt = randomBytes(16).toString('hex')
+  return { salt, hash: scryptSync(password, salt, KEY_LENGTH).toString('hex') }
+}
+
+/**
+ * Compare a password with a stored hash in constant time
+ */
+export function verifyPassword(password: string, stored: PasswordHash): boolean {
+  const expected = Buffer.from(stored.hash, 'hex')
+  const actual = scryptSync(password, stored.salt, KEY_LENGTH)
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
@@ -0,0 +1,55 @@
+/**
+ * Question Category Tags
+ * Many-to-many links between questions and categories (question_categories table)
+ */
+
+import type Database from 'better-sqlite3'
+
+/**
+ * Load every question's category IDs, keyed by question ID
+ */
+export function getQuestionCategoryMap(db: Database.Database): Map<string, string[]> {
+  const rows = db
+    .prepare('SELECT questionId, categoryId FROM question_categories ORDER BY rowid')
+    .all() as { questionId: string; categoryId: string }[]
+  const map = new Map<string, string[]>()
+  for (const row of rows) {
+    const ids = map.get(row.questionId)
+    if (ids) {
+      ids.push(row.categoryId)
+    } else {
+      map.set(row.questionId, [row.categoryId])
+    }
+  }
+  return map
+}
+
+/**
+ * Get the category IDs of a single question
+ */
+export function getQuestionCategoryIds(db: Database.Database, questionId: string): string[] {
+  const rows = db
+    .prepare('SELECT categoryId FROM question_categories WHERE questionId = ? ORDER BY rowid')
+    .all(questionId) as { categoryId: string }[]
+  return rows.map((row) => row.categoryId)
+}
+
+/**
+ * Replace the categories of a question
+ * Unknown category IDs are skipped so stale tags never fail a save or import
+ * Call inside a transaction when used together with other writes
+ */
+export function setQuestionCategories(
+  db: Database.Database,
+  questionId: string,
+  categoryIds: string[]
+): void {
+  db.prepare('DELETE FROM question_categories WHERE questionId = ?').run(questionId)
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO question_categories (questionId, categoryId)
+    SELECT ?, id FROM categories WHERE id = ?
+  `)
+  for (const categoryId of categoryIds) {
+    insert.run(questionId, categoryId)
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Recycle Bin
+ * Categories, entries and questions are soft-deleted by stamping deletedAt; everything deleted
+ * in one go (a category with its entries, an entry with its children) shares the same stamp,
+ * so it is restored together. Deleted rows are purged by hand or after the retention period
+ */
+
+import type Database from 'better-sqlite3'
+import { pruneOrphanRevisions } from './revisions'
+import { getSetting, setSetting } from './settings'
+import type { RecycleBinItem, RecycleBinKind } from '../renderer/src/types/recycleBin'
+
+const RETENTION_SETTING = 'recycleBinRetentionDays'
+const DEFAULT_RETENTION_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const TABLES: Record<RecycleBinKind, string> = {
+  category: 'categories',
+  entry: 'entries',
+  question: 'questions'
+}
+
+/**
+ * Days a deleted item is kept before it is purged automatically; 0 keeps items until purged by hand
+ */
+export function getRetentionDays(db: Database.Database): number {
+  return getSetting(db, RETENTION_SETTING, DEFAULT_RETENTION_DAYS)
+}
+
+export function setRetentionDays(db: Database.Database, days: number): void {
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error('保留天数必须是不小于 0 的整数')
+  }
+  setSetting(db, RETENTION_SETTING, days)
+}
+
+/**
+ * Move a category and its entries to the recycle bin
+ */
+export function softDeleteCategory(db: Database.Database, id: string): boolean {
+  const remove = db.transaction(() => {
+    const now = Date.now()
+    const { changes } = db
+      .prepare('UPDATE categories SET deletedAt = ? WHERE id = ? AND deletedAt IS NULL')
+      .run(now, id)
+    if (changes === 0) return false
+    db.prepare('UPDATE entries SET deletedAt = ? WHERE categoryId = ? AND deletedAt IS NULL').run(
+      now,
+      id
+    )
+    return true
+  })
+  return remove()
+}
+
+/**
+ * Move all categories, entries and questions to the recycle bin under one stamp, so each
+ * category is restored with its entries; used when a content package replaces everything
+ */
+export function softDeleteAllContent(db: Database.Database): number {
+  const remove = db.transaction(() => {
+    const now = Date.now()
+    let deleted = 0
+    for (const table of Object.values(TABLES)) {
+      deleted += db
+        .prepare(`UPDATE ${table} SET deletedAt = ? WHERE deletedAt IS NULL`)
+        .run(now).changes
+    }
+    return deleted
+  })
+  return remove()
+}
+
+/**
+ * Move an entry and its child entries to the recycle bin
+ */
+export function softDeleteEntry(db: Database.Database, id: string, categoryId: string): boolean {
+  const remove = db.transaction(() => {
+    if (
+      !db
+        .prepare('SELECT 1 FROM entries WHERE id = ? AND categoryId = ? AND deletedAt IS NULL')
+        .get(id, categoryId)
+    ) {
+      return false
+    }
+    db.prepare(
+      `WITH RECURSIVE tree(id) AS (
+        SELECT ?
+        UNION ALL
+        SELECT e.id FROM entries e JOIN tree ON e.parentEntryId = tree.id
+          WHERE e.deletedAt IS NULL
+      )
+      UPDATE entries SET deletedAt = ? WHERE id IN (SELECT id FROM tree)`
+    ).run(id, Date.now())
+    return true
+  })
+  return remove()
+}
+
+/**
+ * Move a question to the recycle bin
+ */
+export function softDeleteQuestion(db: Database.Database, id: string): boolean {
+  return (
+    db
+      .prepare('UPDATE questions SET deletedAt = ? WHERE id = ? AND deletedAt IS NULL')
+      .run(Date.now(), id).changes > 0
+  )
+}
+
+/**
+ * Everything in the recycle bin, most recently deleted first
+ */
+export function getRecycleBinItems(db: Database.Database): RecycleBinItem[] {
+  const categories = db
+    .prepare(
+      `SELECT c.id, c.name AS title, c.deletedAt,
+          (SELECT COUNT(*) FROM entries e WHERE e.categoryId = c.id AND e.deletedAt = c.deletedAt)
+            AS childCount
+        FROM categories c
+        WHERE c.deletedAt IS NOT NULL`
+    )
+    .all() as { id: string; title: string; deletedAt: number; childCount: number }[]
+
+  // Only the entry a deletion started from; its category or parent was deleted at another time
+  const entries = db
+    .prepare(
+      `SELECT e.id, e.title, e.deletedAt, c.name AS categoryName
+        FROM entries e
+        JOIN categories c ON c.id = e.categoryId
+        LEFT JOIN entries p ON p.id = e.parentEntryId
+        WHERE e.deletedAt IS NOT NULL
+          AND c.deletedAt IS NOT e.deletedAt
+          AND (p.id IS NULL OR p.deletedAt IS NOT e.deletedAt)`
+    )
+    .all() as { id: string; title: string; deletedAt: number; categoryName: string }[]
+  const countChildren = db.prepare(
+    `WITH RECURSIVE tree(id) AS (
+      SELECT ?
+      UNION ALL
+      SELECT e.id FROM entries e JOIN tree ON e.parentEntryId = tree.id WHERE e.deletedAt = ?
+    )
+    SELECT COUNT(*) - 1 AS count FROM tree`
+  )
+
+  const questions = db
+    .prepare('SELECT id, text AS title, deletedAt FROM questions WHERE deletedAt IS NOT NULL')
+    .all() as { id: string; title: string; deletedAt: number }[]
+
+  const items: RecycleBinItem[] = [
+    ...categories.map((c) => ({ kind: 'category' as const, categoryName: null, ...c })),
+    ...entries.map((e) => ({
+      kind: 'entry' as const,
+      ...e,
+      childCount: (countChildren.get(e.id, e.deletedAt) as { count: number }).count
+    })),
+    ...questions.map((q) => ({
+      kind: 'question' as const,
+      categoryName: null,
+      childCount: 0,
+      ...q
+    }))
+  ]
+  return items.sort((a, b) => b.deletedAt - a.deletedAt)
+}
+
+/**
+ * Take an item out of the recycle bin, together with everything deleted along with it
+ */
+export function restoreRecycleBinItem(
+  db: Database.Database,
+  kind: RecycleBinKind,
+  id: string
+): void {
+  const isDeleted = (table: string, rowId: string): boolean =>
+    !!db.prepare(`SELECT 1 FROM ${table} WHERE id = ? AND deletedAt IS NOT NULL`).get(rowId)
+
+  const restore = db.transaction(() => {
+    const row = db.prepare(`SELECT * FROM ${TABLES[kind]} WHERE id = ?`).get(id) as
+      { deletedAt: number | null; categoryId?: string; parentEntryId?: string | null } | undefined
+    if (!row || row.deletedAt === null) {
+      throw new Error('回收站中找不到该项目，可能已被恢复或永久删除')
+    }
+
+    if (kind === 'category') {
+      db.prepare('UPDATE categories SET deletedAt = NULL WHERE id = ?').run(id)
+      db.prepare('UPDATE entries SET deletedAt = NULL WHERE categoryId = ? AND deletedAt = ?').run(
+        id,
+        row.deletedAt
+      )
+    } else if (kind === 'entry') {
+      if (isDeleted('categories', row.categoryId!)) {
+        throw new Error('条目所属的类别也在回收站中，请先恢复类别')
+      }
+      if (row.parentEntryId && isDeleted('entries', row.parentEntryId)) {
+        throw new Error('上级条目也在回收站中，请先恢复上级条目')
+      }
+      db.prepare(
+        `WITH RECURSIVE tree(id) AS (
+          SELECT ?
+          UNION ALL
+          SELECT e.id FROM entries e JOIN tree ON e.parentEntryId = tree.id WHERE e.deletedAt = ?
+        )
+        UPDATE entries SET deletedAt = NULL WHERE id IN (SELECT id FROM tree)`
+      ).run(id, row.deletedAt)
+    } else {
+      db.prepare('UPDATE questions SET deletedAt = NULL WHERE id = ?').run(id)
+    }
+  })
+  restore()
+}
+
+/**
+ * Delete rows that were in the recycle bin before the cutoff for good
+ * Entries go with their category or parent through ON DELETE CASCADE
+ */
+function purgeDeletedBefore(db: Database.Database, cutoff: number): number {
+  const purge = db.transaction(() => {
+    let purged = 0
+    for (const table of Object.values(TABLES)) {
+      purged += db.prepare(`DELETE FROM ${table} WHERE deletedAt < ?`).run(cutoff).changes
+    }
+    pruneOrphanRevisions(db)
+    return purged
+  })
+  return purge()
+}
+
+/**
+ * Permanently delete one item from the recycle bin
+ */
+export function purgeRecycleBinItem(
+  db: Database.Database,
+  kind: RecycleBinKind,
+  id: string
+): boolean {
+  const purge = db.transaction(() => {
+    const { changes } = db
+      .prepare(`DELETE FROM ${TABLES[kind]} WHERE id = ? AND deletedAt IS NOT NULL`)
+      .run(id)
+    pruneOrphanRevisions(db)
+    return changes > 0
+  })
+  return purge()
+}
+
+/**
+ * Permanently delete everything in the recycle bin
+ */
+export function emptyRecycleBin(db: Database.Database): number {
+  return purgeDeletedBefore(db, Number.MAX_SAFE_INTEGER)
+}
+
+/**
+ * Purge items kept longer than the retention period; runs on startup
+ */
+export function purgeExpiredItems(db: Database.Database): number {
+  const days = getRetentionDays(db)
+  if (days === 0) return 0
+  const purged = purgeDeletedBefore(db, Date.now() - days * DAY_MS)
+  if (purged > 0) {
+    console.log(`[RecycleBin] Purged ${purged} item(s) deleted more than ${days} days ago`)
+  }
+  return purged
+}
@@ -0,0 +1,294 @@
+/**
+ * Revision History
+ * Keeps the previous version of an entry or question on every update and restores kept versions
+ * Deleted rows stay in the table (see recycleBin.ts); delete revisions were only written before that
+ */
+
+import type Database from 'better-sqlite3'
+import { getQuestionCategoryIds, setQuestionCategories } from './questionCategories'
+import type { Entry } from '../renderer/src/types/admin'
+import type { Question, QuestionMedia } from '../renderer/src/types/question'
+import type {
+  EntryRevision,
+  QuestionRevision,
+  RevisionAction
+} from '../renderer/src/types/revision'
+
+// Edit revisions kept per entry/question
+const MAX_UPDATE_REVISIONS = 50
+
+interface EntryRevisionRow {
+  id: number
+  entryId: string
+  action: RevisionAction
+  snapshot: string
+  batchId: string | null
+  createdAt: number
+}
+
+interface QuestionRevisionRow {
+  id: number
+  questionId: string
+  action: RevisionAction
+  snapshot: string
+  createdAt: number
+}
+
+function toEntryRevision(row: EntryRevisionRow): EntryRevision {
+  return { ...row, snapshot: JSON.parse(row.snapshot) as Entry }
+}
+
+function toQuestionRevision(row: QuestionRevisionRow): QuestionRevision {
+  return { ...row, snapshot: JSON.parse(row.snapshot) as Question }
+}
+
+function readEntry(db: Database.Database, id: string): Entry | undefined {
+  return db.prepare('SELECT * FROM entries WHERE id = ?').get(id) as Entry | undefined
+}
+
+function readQuestion(db: Database.Database, id: string): Question | undefined {
+  const row = db.prepare('SELECT * FROM questions WHERE id = ?').get(id) as
+    | (Omit<
+        Question,
+        'options' | 'correctAnswer' | 'acceptedAnswers' | 'media' | 'optionMedia' | 'shuffleOptions'
+      > & {
+        options: string
+        correctAnswer: string
+        acceptedAnswers: string
+        media: string | null
+        optionMedia: string
+        shuffleOptions: number
+      })
+    | undefined
+  if (!row) return undefined
+  return {
+    ...row,
+    options: JSON.parse(row.options) as string[],
+    correctAnswer: JSON.parse(row.correctAnswer) as number | number[],
+    acceptedAnswers: JSON.parse(row.acceptedAnswers) as string[][],
+    media: row.media ? (JSON.parse(row.media) as QuestionMedia) : null,
+    optionMedia: JSON.parse(row.optionMedia) as (QuestionMedia | null)[],
+    shuffleOptions: !!row.shuffleOptions,
+    categoryIds: getQuestionCategoryIds(db, id)
+  }
+}
+
+function recordEntryRevision(db: Database.Database, entry: Entry): void {
+  db.prepare(
+    `INSERT INTO entry_revisions (entryId, categoryId, action, snapshot, createdAt)
+      VALUES (?, ?, 'update', ?, ?)`
+  ).run(entry.id, entry.categoryId, JSON.stringify(entry), Date.now())
+
+  db.prepare(
+    `DELETE FROM entry_revisions
+      WHERE entryId = ? AND action = 'update' AND id NOT IN (
+        SELECT id FROM entry_revisions WHERE entryId = ? AND action = 'update'
+          ORDER BY id DESC LIMIT ?
+      )`
+  ).run(entry.id, entry.id, MAX_UPDATE_REVISIONS)
+}
+
+function recordQuestionRevision(db: Database.Database, question: Question): void {
+  db.prepare(
+    `INSERT INTO question_revisions (questionId, action, snapshot, createdAt)
+      VALUES (?, 'update', ?, ?)`
+  ).run(question.id, JSON.stringify(question), Date.now())
+
+  db.prepare(
+    `DELETE FROM question_revisions
+      WHERE questionId = ? AND action = 'update' AND id NOT IN (
+        SELECT id FROM question_revisions WHERE questionId = ? AND action = 'update'
+          ORDER BY id DESC LIMIT ?
+      )`
+  ).run(question.id, question.id, MAX_UPDATE_REVISIONS)
+}
+
+/**
+ * Keep the current version of an entry before it is updated
+ * Order-only changes (drag and drop) are not recorded
+ */
+export function recordEntryUpdate(
+  db: Database.Database,
+  id: string,
+  updates: Partial<Omit<Entry, 'id' | 'createdAt'>>
+): void {
+  const current = readEntry(db, id)
+  if (!current) return
+  const changed =
+    (updates.title !== undefined && updates.title !== current.title) ||
+    (updates.content !== undefined && updates.content !== current.content) ||
+    (updates.parentEntryId !== undefined &&
+      (updates.parentEntryId || null) !== (current.parentEntryId ?? null))
+  if (changed) {
+    recordEntryRevision(db, current)
+  }
+}
+
+/**
+ * Keep the current version of a question before it is updated
+ */
+export function recordQuestionUpdate(
+  db: Database.Database,
+  id: string,
+  updates: Partial<Omit<Question, 'id' | 'createdAt'>>
+): void {
+  const current = readQuestion(db, id)
+  if (!current) return
+  const differs = <K extends keyof typeof updates>(key: K): boolean =>
+    updates[key] !== undefined && JSON.stringify(updates[key]) !== JSON.stringify(current[key])
+  const changed =
+    differs('text') ||
+    differs('questionType') ||
+    differs('optionType') ||
+    differs('options') ||
+    differs('correctAnswer') ||
+    differs('acceptedAnswers') ||
+    differs('media') ||
+    differs('optionMedia') ||
+    differs('shuffleOptions') ||
+    differs('points') ||
+    differs('explanation') ||
+    (updates.entryId !== undefined && (updates.entryId || null) !== (current.entryId ?? null)) ||
+    (updates.categoryIds !== undefined &&
+      [...updates.categoryIds].sort().join() !== [...(current.categoryIds ?? [])].sort().join())
+  if (changed) {
+    recordQuestionRevision(db, current)
+  }
+}
+
+/**
+ * Revisions of one entry, newest first
+ */
+export function getEntryRevisions(db: Database.Database, entryId: string): EntryRevision[] {
+  const rows = db
+    .prepare('SELECT * FROM entry_revisions WHERE entryId = ? ORDER BY id DESC')
+    .all(entryId) as EntryRevisionRow[]
+  return rows.map(toEntryRevision)
+}
+
+/**
+ * Whether an entry sits somewhere below another one (or is that entry)
+ */
+function isDescendant(db: Database.Database, ancestorId: string, entryId: string): boolean {
+  return !!db
+    .prepare(
+      `WITH RECURSIVE tree(id) AS (
+        SELECT ?
+        UNION ALL
+        SELECT e.id FROM entries e JOIN tree ON e.parentEntryId = tree.id
+      )
+      SELECT 1 FROM tree WHERE id = ?`
+    )
+    .get(ancestorId, entryId)
+}
+
+/**
+ * Bring an entry back to a kept version
+ * Its current version is kept first, so the restore can be undone
+ */
+export function restoreEntryRevision(db: Database.Database, revisionId: number): Entry {
+  const row = db.prepare('SELECT * FROM entry_revisions WHERE id = ?').get(revisionId) as
+    EntryRevisionRow | undefined
+  if (!row) {
+    throw new Error('找不到该历史版本')
+  }
+  const { entryId, snapshot } = toEntryRevision(row)
+
+  const restore = db.transaction(() => {
+    if (!readEntry(db, entryId)) {
+      throw new Error('该条目已被永久删除，无法恢复')
+    }
+    // The old parent comes back only if it is still there; otherwise the entry is top-level
+    const parentEntryId =
+      snapshot.parentEntryId &&
+      db
+        .prepare('SELECT 1 FROM entries WHERE id = ? AND categoryId = ? AND deletedAt IS NULL')
+        .get(snapshot.parentEntryId, snapshot.categoryId)
+        ? snapshot.parentEntryId
+        : null
+    if (parentEntryId && isDescendant(db, entryId, parentEntryId)) {
+      throw new Error('该版本的上级条目现在是此条目的下级，无法恢复')
+    }
+    const chapterOrder = snapshot.chapterOrder || 0
+    recordEntryUpdate(db, entryId, { ...snapshot, parentEntryId, chapterOrder })
+    db.prepare(
+      `UPDATE entries
+        SET title = ?, content = ?, parentEntryId = ?, chapterOrder = ?, updatedAt = ?
+        WHERE id = ?`
+    ).run(snapshot.title, snapshot.content, parentEntryId, chapterOrder, Date.now(), entryId)
+    return readEntry(db, entryId)!
+  })
+  return restore()
+}
+
+/**
+ * Revisions of one question, newest first
+ */
+export function getQuestionRevisions(
+  db: Database.Database,
+  questionId: string
+): QuestionRevision[] {
+  const rows = db
+    .prepare('SELECT * FROM question_revisions WHERE questionId = ? ORDER BY id DESC')
+    .all(questionId) as QuestionRevisionRow[]
+  return rows.map(toQuestionRevision)
+}
+
+/**
+ * Bring a question back to a kept version
+ * References to entries that no longer exist are dropped
+ */
+export function restoreQuestionRevision(db: Database.Database, revisionId: number): Question {
+  const row = db.prepare('SELECT * FROM question_revisions WHERE id = ?').get(revisionId) as
+    QuestionRevisionRow | undefined
+  if (!row) {
+    throw new Error('找不到该历史版本')
+  }
+  const { questionId, snapshot } = toQuestionRevision(row)
+
+  const restore = db.transaction(() => {
+    if (!readQuestion(db, questionId)) {
+      throw new Error('该题目已被永久删除，无法恢复')
+    }
+    const entryId =
+      snapshot.entryId && db.prepare('SELECT 1 FROM entries WHERE id = ?').get(snapshot.entryId)
+        ? snapshot.entryId
+        : null
+    recordQuestionUpdate(db, questionId, { ...snapshot, entryId })
+    db.prepare(
+      `UPDATE questions
+        SET text = ?, questionType = ?, optionType = ?, options = ?, correctAnswer = ?,
+          acceptedAnswers = ?, media = ?, optionMedia = ?, shuffleOptions = ?, points = ?,
+          explanation = ?, entryId = ?, updatedAt = ?
+        WHERE id = ?`
+    ).run(
+      snapshot.text,
+      snapshot.questionType,
+      snapshot.optionType,
+      JSON.stringify(snapshot.options),
+      JSON.stringify(snapshot.correctAnswer),
+      JSON.stringify(snapshot.acceptedAnswers ?? []),
+      snapshot.media ? JSON.stringify(snapshot.media) : null,
+      JSON.stringify(snapshot.optionMedia ?? []),
+      snapshot.shuffleOptions ? 1 : 0,
+      snapshot.points ?? 1,
+      snapshot.explanation ?? '',
+      entryId,
+      Date.now(),
+      questionId
+    )
+    setQuestionCategories(db, questionId, snapshot.categoryIds ?? [])
+    return readQuestion(db, questionId)!
+  })
+  return restore()
+}
+
+/**
+ * Drop the revisions of rows that have been purged for good
+ */
+export function pruneOrphanRevisions(db: Database.Database): void {
+  db.prepare('DELETE FROM entry_revisions WHERE entryId NOT IN (SELECT id FROM entries)').run()
+  db.prepare(
+    'DELETE FROM question_revisions WHERE questionId NOT IN (SELECT id FROM questions)'
+  ).run()
+}
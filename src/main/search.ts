@@ -0,0 +1,176 @@
+/**
+ * Entry Full-Text Search
+ * FTS5 (trigram) index over entry titles and HTML-stripped content
+ */
+
+import type Database from 'better-sqlite3'
+import type { EntrySearchResult } from '../renderer/src/types/admin'
+
+/**
+ * Markers wrapped around matched text in titles/snippets
+ * Control characters are used so that no HTML ever reaches the renderer
+ */
+export const HIGHLIGHT_START = '\u0002'
+export const HIGHLIGHT_END = '\u0003'
+
+const SNIPPET_RADIUS = 40
+const DEFAULT_LIMIT = 50
+// trigram tokenizer can only MATCH terms of at least 3 characters
+const MIN_MATCH_TERM_LENGTH = 3
+
+const HTML_ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  ldquo: '“',
+  rdquo: '”',
+  lsquo: '‘',
+  rsquo: '’',
+  hellip: '…',
+  mdash: '—'
+}
+
+/**
+ * Convert entry HTML to plain text for indexing
+ */
+export function stripHtml(html: string | null): string {
+  if (!html) return ''
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+      if (code[0] === '#') {
+        const value =
+          code[1] === 'x' || code[1] === 'X'
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1), 10)
+        return Number.isNaN(value) ? match : String.fromCodePoint(value)
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? match
+    })
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Register SQL functions used by the search index triggers
+ * Must run on every connection before the schema is touched
+ */
+export function registerSearchFunctions(database: Database.Database): void {
+  database.function('strip_html', { deterministic: true }, (html: unknown) =>
+    stripHtml(typeof html === 'string' ? html : null)
+  )
+}
+
+/**
+ * Split a user query into distinct search terms
+ */
+function splitTerms(query: string): string[] {
+  return Array.from(new Set(query.trim().split(/\s+/).filter(Boolean))).slice(0, 8)
+}
+
+/**
+ * Build an FTS5 MATCH expression: every term quoted, all terms required
+ */
+function buildMatchExpression(terms: string[]): string {
+  return terms.map((term) => `"${term.replace(/"/g, '""')}"`).join(' AND ')
+}
+
+/**
+ * Wrap every occurrence of the terms with highlight markers
+ */
+function highlightTerms(text: string, terms: string[]): string {
+  const pattern = terms
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .sort((a, b) => b.length - a.length)
+    .join('|')
+  return text.replace(new RegExp(pattern, 'gi'), (m) => `${HIGHLIGHT_START}${m}${HIGHLIGHT_END}`)
+}
+
+/**
+ * Build a highlighted excerpt around the first matched term
+ */
+function buildSnippet(text: string, terms: string[]): string {
+  const lower = text.toLowerCase()
+  const first = terms
+    .map((term) => lower.indexOf(term.toLowerCase()))
+    .filter((index) => index >= 0)
+    .sort((a, b) => a - b)[0]
+  const center = first ?? 0
+  const start = Math.max(0, center - SNIPPET_RADIUS)
+  const end = Math.min(text.length, center + SNIPPET_RADIUS * 2)
+  const excerpt = text.slice(start, end)
+  return `${start > 0 ? '…' : ''}${highlightTerms(excerpt, terms)}${end < text.length ? '…' : ''}`
+}
+
+interface SearchRow {
+  entryId: string
+  categoryId: string
+  categoryName: string
+  parentEntryId: string | null
+  parentTitle: string | null
+  title: string
+  content: string
+}
+
+/**
+ * Search entries across all categories, best matches first
+ */
+export function searchEntries(
+  database: Database.Database,
+  query: string,
+  limit = DEFAULT_LIMIT
+): EntrySearchResult[] {
+  const terms = splitTerms(query)
+  if (terms.length === 0) return []
+
+  const select = `
+    SELECT f.entryId, e.categoryId, c.name AS categoryName, e.parentEntryId,
+           p.title AS parentTitle, f.title, f.content
+    FROM entries_fts f
+    JOIN entries e ON e.id = f.entryId AND e.deletedAt IS NULL
+    JOIN categories c ON c.id = e.categoryId AND c.deletedAt IS NULL
+    LEFT JOIN entries p ON p.id = e.parentEntryId
+  `
+
+  let rows: SearchRow[]
+  if (terms.every((term) => [...term].length >= MIN_MATCH_TERM_LENGTH)) {
+    // bm25 weights: title matches count ten times as much as content matches
+    rows = database
+      .prepare(
+        `${select} WHERE entries_fts MATCH ? ORDER BY bm25(entries_fts, 0, 10.0, 1.0) LIMIT ?`
+      )
+      .all(buildMatchExpression(terms), limit) as SearchRow[]
+  } else {
+    // Short (1-2 character) terms cannot use the trigram index; fall back to a LIKE scan
+    const conditions = terms.map(
+      () => `(f.title LIKE ? ESCAPE '\\' OR f.content LIKE ? ESCAPE '\\')`
+    )
+    const params = terms.flatMap((term) => {
+      const pattern = `%${term.replace(/[\\%_]/g, '\\$&')}%`
+      return [pattern, pattern]
+    })
+    const titleHits = terms.map(() => `(f.title LIKE ? ESCAPE '\\')`).join(' + ')
+    const titleParams = terms.map((term) => `%${term.replace(/[\\%_]/g, '\\$&')}%`)
+    rows = database
+      .prepare(
+        `${select} WHERE ${conditions.join(' AND ')}
+         ORDER BY (${titleHits}) DESC, length(f.content) ASC LIMIT ?`
+      )
+      .all(...params, ...titleParams, limit) as SearchRow[]
+  }
+
+  return rows.map((row) => ({
+    entryId: row.entryId,
+    categoryId: row.categoryId,
+    categoryName: row.categoryName,
+    parentEntryId: row.parentEntryId,
+    parentTitle: row.parentTitle,
+    title: row.title,
+    titleHighlight: highlightTerms(row.title, terms),
+    snippet: buildSnippet(row.content, terms)
+  }))
+}
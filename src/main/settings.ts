@@ -0,0 +1,25 @@
+/**
+ * App Settings
+ * Key-value settings kept in admin.db (settings table) so the main process can read them
+ */
+
+import type Database from 'better-sqlite3'
+
+/**
+ * Read a setting, or the fallback if it has never been saved
+ */
+export function getSetting<T>(db: Database.Database, key: string, fallback: T): T {
+  const row = db.prepare('SELECT value FROM settings WHERE key = ?').get(key) as
+    { value: string } | undefined
+  return row ? (JSON.parse(row.value) as T) : fallback
+}
+
+/**
+ * Save a setting
+ */
+export function setSetting<T>(db: Database.Database, key: string, value: T): void {
+  db.prepare(
+    `INSERT INTO settings (key, value) VALUES (?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value`
+  ).run(key, JSON.stringify(value))
+}
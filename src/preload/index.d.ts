@@ -1,6 +1,24 @@
 import { ElectronAPI } from '@electron-toolkit/preload'
-import type { Category, Entry } from '../renderer/src/types/admin'
-import type { Question } from '../renderer/src/types/question'
+import type {
+  Category,
+  Entry,
+  EntrySearchResult,
+  BackupInfo,
+  ParsedEntryWithParent
+} from '../renderer/src/types/admin'
+import type { ParsedQuestion, Question, QuestionMediaFiles } from '../renderer/src/types/question'
+import type { ImportAction, ImportPreview, ImportSummary } from '../renderer/src/types/importPlan'
+import type { AnswerAnalytics, AnswerEvent } from '../renderer/src/types/analytics'
+import type { EntryRevision, QuestionRevision } from '../renderer/src/types/revision'
+import type { RecycleBinItem, RecycleBinKind } from '../renderer/src/types/recycleBin'
+import type { AuthSessionStatus, LoginResult, OperatorPinResult } from '../renderer/src/types/auth'
+import type {
+  PackageExportResult,
+  PackageImportOptions,
+  PackageImportResult,
+  PackagePreview
+} from '../renderer/src/types/contentPackage'
+import type { BuzzerPanel } from '../renderer/src/types/host'
 import type { LicenseStatus } from '../main/license/licenseValidator'
 
 declare global {
@@ -22,6 +40,7 @@ declare global {
         ) => Promise<Category | null>
         deleteCategory: (id: string) => Promise<boolean>
         getEntriesByCategory: (categoryId: string) => Promise<Entry[]>
+        getEntry: (id: string) => Promise<Entry | null>
         addEntry: (entry: Omit<Entry, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Entry>
         updateEntry: (
           id: string,
@@ -29,10 +48,21 @@ declare global {
           updates: Partial<Omit<Entry, 'id' | 'categoryId' | 'createdAt'>>
         ) => Promise<Entry | null>
         deleteEntry: (id: string, categoryId: string) => Promise<boolean>
-        importEntries: (
+        searchEntries: (query: string, limit?: number) => Promise<EntrySearchResult[]>
+        previewQuestionImport: (questions: ParsedQuestion[]) => Promise<ImportPreview>
+        applyQuestionImport: (
+          questions: ParsedQuestion[],
+          actions: ImportAction[]
+        ) => Promise<ImportSummary>
+        previewEntryImport: (
           categoryId: string,
-          entries: Array<Omit<Entry, 'id' | 'categoryId' | 'createdAt' | 'updatedAt'>>
-        ) => Promise<number>
+          entries: ParsedEntryWithParent[]
+        ) => Promise<ImportPreview>
+        applyEntryImport: (
+          categoryId: string,
+          entries: ParsedEntryWithParent[],
+          actions: ImportAction[]
+        ) => Promise<ImportSummary>
         getQuestions: () => Promise<Question[]>
         addQuestion: (
           question: Omit<Question, 'id' | 'createdAt' | 'updatedAt'>
@@ -42,7 +72,58 @@ declare global {
           updates: Partial<Omit<Question, 'id' | 'createdAt'>>
         ) => Promise<Question | null>
         deleteQuestion: (id: string) => Promise<boolean>
-        importQuestions: (questions: Question[]) => Promise<number>
+        getEntryRevisions: (entryId: string) => Promise<EntryRevision[]>
+        restoreEntryRevision: (revisionId: number) => Promise<Entry>
+        getQuestionRevisions: (questionId: string) => Promise<QuestionRevision[]>
+        restoreQuestionRevision: (revisionId: number) => Promise<Question>
+        getRecycleBin: () => Promise<RecycleBinItem[]>
+        restoreRecycleBinItem: (kind: RecycleBinKind, id: string) => Promise<void>
+        purgeRecycleBinItem: (kind: RecycleBinKind, id: string) => Promise<boolean>
+        emptyRecycleBin: () => Promise<number>
+        getRecycleBinRetention: () => Promise<number>
+        setRecycleBinRetention: (days: number) => Promise<void>
+        storeMedia: (data: Uint8Array, mimeType: string) => Promise<string>
+        importQuestionMedia: (fileNames: string[]) => Promise<QuestionMediaFiles | null>
+        recordAnswerEvents: (events: AnswerEvent[]) => Promise<number>
+        getAnswerAnalytics: () => Promise<AnswerAnalytics>
+        createBackup: (label?: string) => Promise<BackupInfo>
+        listBackups: () => Promise<BackupInfo[]>
+        restoreBackup: (id: string) => Promise<BackupInfo>
+        deleteBackup: (id: string) => Promise<boolean>
+        exportPackage: (
+          qaSettings: Record<string, unknown> | null
+        ) => Promise<PackageExportResult | null>
+        previewPackage: () => Promise<PackagePreview | null>
+        importPackage: (
+          filePath: string,
+          options: PackageImportOptions
+        ) => Promise<PackageImportResult>
+      }
+      auth: {
+        getSession: () => Promise<AuthSessionStatus>
+        login: (password: string) => Promise<LoginResult>
+        logout: () => Promise<void>
+        extendSession: () => Promise<void>
+        getLockedUntil: () => Promise<number | null>
+        changePassword: (currentPassword: string, newPassword: string) => Promise<void>
+      }
+      host: {
+        /** Resolves to whether the buzzer window went to a display of its own */
+        openBuzzerWindow: () => Promise<boolean>
+        closeBuzzerWindow: () => Promise<void>
+        isBuzzerWindowOpen: () => Promise<boolean>
+        getBuzzerPanel: () => Promise<BuzzerPanel | null>
+        updateBuzzerPanel: (panel: BuzzerPanel) => void
+        buzz: (team: number) => void
+      }
+      operator: {
+        verifyPin: (pin: string) => Promise<OperatorPinResult>
+        isDefaultPin: () => Promise<boolean>
+        /** currentPin may be null when this window has an admin session */
+        setPin: (pin: string, currentPin: string | null) => Promise<void>
+        getAppInfo: () => Promise<{ name: string; version: string; kioskMode: boolean }>
+        reloadRenderer: () => Promise<void>
+        quit: () => Promise<void>
       }
       license: {
         getStatus: () => Promise<LicenseStatus>
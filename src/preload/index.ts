@@ -16,19 +16,85 @@ const api = {
     deleteCategory: (id: string) => ipcRenderer.invoke('db:deleteCategory', id),
     getEntriesByCategory: (categoryId: string) =>
       ipcRenderer.invoke('db:getEntriesByCategory', categoryId),
+    getEntry: (id: string) => ipcRenderer.invoke('db:getEntry', id),
     addEntry: (entry: unknown) => ipcRenderer.invoke('db:addEntry', entry),
     updateEntry: (id: string, categoryId: string, updates: unknown) =>
       ipcRenderer.invoke('db:updateEntry', id, categoryId, updates),
     deleteEntry: (id: string, categoryId: string) =>
       ipcRenderer.invoke('db:deleteEntry', id, categoryId),
+    searchEntries: (query: string, limit?: number) =>
+      ipcRenderer.invoke('db:searchEntries', query, limit),
     getQuestions: () => ipcRenderer.invoke('db:getQuestions'),
     addQuestion: (question: unknown) => ipcRenderer.invoke('db:addQuestion', question),
     updateQuestion: (id: string, updates: unknown) =>
       ipcRenderer.invoke('db:updateQuestion', id, updates),
     deleteQuestion: (id: string) => ipcRenderer.invoke('db:deleteQuestion', id),
-    importQuestions: (questions: unknown[]) => ipcRenderer.invoke('db:importQuestions', questions),
-    importEntries: (categoryId: string, entries: unknown[]) =>
-      ipcRenderer.invoke('db:importEntries', categoryId, entries)
+    previewQuestionImport: (questions: unknown[]) =>
+      ipcRenderer.invoke('db:previewQuestionImport', questions),
+    applyQuestionImport: (questions: unknown[], actions: string[]) =>
+      ipcRenderer.invoke('db:applyQuestionImport', questions, actions),
+    previewEntryImport: (categoryId: string, entries: unknown[]) =>
+      ipcRenderer.invoke('db:previewEntryImport', categoryId, entries),
+    applyEntryImport: (categoryId: string, entries: unknown[], actions: string[]) =>
+      ipcRenderer.invoke('db:applyEntryImport', categoryId, entries, actions),
+    getEntryRevisions: (entryId: string) => ipcRenderer.invoke('db:getEntryRevisions', entryId),
+    restoreEntryRevision: (revisionId: number) =>
+      ipcRenderer.invoke('db:restoreEntryRevision', revisionId),
+    getQuestionRevisions: (questionId: string) =>
+      ipcRenderer.invoke('db:getQuestionRevisions', questionId),
+    restoreQuestionRevision: (revisionId: number) =>
+      ipcRenderer.invoke('db:restoreQuestionRevision', revisionId),
+    getRecycleBin: () => ipcRenderer.invoke('db:getRecycleBin'),
+    restoreRecycleBinItem: (kind: string, id: string) =>
+      ipcRenderer.invoke('db:restoreRecycleBinItem', kind, id),
+    purgeRecycleBinItem: (kind: string, id: string) =>
+      ipcRenderer.invoke('db:purgeRecycleBinItem', kind, id),
+    emptyRecycleBin: () => ipcRenderer.invoke('db:emptyRecycleBin'),
+    getRecycleBinRetention: () => ipcRenderer.invoke('db:getRecycleBinRetention'),
+    setRecycleBinRetention: (days: number) => ipcRenderer.invoke('db:setRecycleBinRetention', days),
+    storeMedia: (data: Uint8Array, mimeType: string) =>
+      ipcRenderer.invoke('db:storeMedia', data, mimeType),
+    importQuestionMedia: (fileNames: string[]) =>
+      ipcRenderer.invoke('db:importQuestionMedia', fileNames),
+    recordAnswerEvents: (events: unknown[]) => ipcRenderer.invoke('db:recordAnswerEvents', events),
+    getAnswerAnalytics: () => ipcRenderer.invoke('db:getAnswerAnalytics'),
+    createBackup: (label?: string) => ipcRenderer.invoke('db:createBackup', label),
+    listBackups: () => ipcRenderer.invoke('db:listBackups'),
+    restoreBackup: (id: string) => ipcRenderer.invoke('db:restoreBackup', id),
+    deleteBackup: (id: string) => ipcRenderer.invoke('db:deleteBackup', id),
+    exportPackage: (qaSettings: unknown) => ipcRenderer.invoke('db:exportPackage', qaSettings),
+    previewPackage: () => ipcRenderer.invoke('db:previewPackage'),
+    importPackage: (filePath: string, options: unknown) =>
+      ipcRenderer.invoke('db:importPackage', filePath, options)
+  },
+  // Admin authentication APIs
+  auth: {
+    getSession: () => ipcRenderer.invoke('auth:getSession'),
+    login: (password: string) => ipcRenderer.invoke('auth:login', password),
+    logout: () => ipcRenderer.invoke('auth:logout'),
+    extendSession: () => ipcRenderer.invoke('auth:extendSession'),
+    getLockedUntil: () => ipcRenderer.invoke('auth:getLockedUntil'),
+    changePassword: (currentPassword: string, newPassword: string) =>
+      ipcRenderer.invoke('auth:changePassword', currentPassword, newPassword)
+  },
+  // Host mode buzzer window APIs
+  host: {
+    openBuzzerWindow: () => ipcRenderer.invoke('host:openBuzzerWindow'),
+    closeBuzzerWindow: () => ipcRenderer.invoke('host:closeBuzzerWindow'),
+    isBuzzerWindowOpen: () => ipcRenderer.invoke('host:isBuzzerWindowOpen'),
+    getBuzzerPanel: () => ipcRenderer.invoke('host:getBuzzerPanel'),
+    updateBuzzerPanel: (panel: unknown) => ipcRenderer.send('host:updateBuzzerPanel', panel),
+    buzz: (team: number) => ipcRenderer.send('host:buzz', team)
+  },
+  // Operator console APIs
+  operator: {
+    verifyPin: (pin: string) => ipcRenderer.invoke('operator:verifyPin', pin),
+    isDefaultPin: () => ipcRenderer.invoke('operator:isDefaultPin'),
+    setPin: (pin: string, currentPin: string | null) =>
+      ipcRenderer.invoke('operator:setPin', pin, currentPin),
+    getAppInfo: () => ipcRenderer.invoke('operator:getAppInfo'),
+    reloadRenderer: () => ipcRenderer.invoke('operator:reloadRenderer'),
+    quit: () => ipcRenderer.invoke('operator:quit')
   },
   // License APIs
   license: {
@@ -9,9 +9,13 @@ import { Routes, Route, useLocation, Navigate, useNavigate } from 'react-router'
 import { QAProvider } from './contexts/QAContext'
 import { AuthProvider } from './contexts/AuthContext'
 import { QAScreen } from './components/QAScreen'
+import { MatchScreen } from './components/MatchScreen'
+import { HostScreen } from './components/HostScreen'
+import { BuzzerScreen } from './components/BuzzerScreen'
 import { HomePage } from './components/HomePage'
 import { QueryScreen } from './components/QueryScreen'
 import { CategoryViewer } from './components/CategoryViewer'
+import { SearchScreen } from './components/SearchScreen'
 import { AdminScreen } from './components/AdminScreen'
 import { LoginScreen } from './components/LoginScreen'
 import { ActivationScreen } from './components/ActivationScreen'
@@ -22,9 +26,18 @@ import { EntryEditor } from './components/EntryEditor'
 import { QuestionManagement } from './components/QuestionManagement'
 import { QuestionEditor } from './components/QuestionEditor'
 import { QASettings } from './components/QASettings'
+import { BackupManagement } from './components/BackupManagement'
+import { ContentPackageManagement } from './components/ContentPackageManagement'
+import { QAAnalytics } from './components/QAAnalytics'
+import { RecycleBin } from './components/RecycleBin'
+import { KioskSettings } from './components/KioskSettings'
+import { ChangePasswordScreen } from './components/ChangePasswordScreen'
 import { GlobalFullscreenButton } from './components/GlobalFullscreenButton'
 import { GlobalBackToHomeButton } from './components/GlobalBackToHomeButton'
 import { DebugPanel } from './components/DebugPanel'
+import { OnScreenKeyboard } from './components/OnScreenKeyboard'
+import { IdleWatcher } from './components/IdleWatcher'
+import { OperatorConsole } from './components/OperatorConsole'
 import bg02Image from './assets/bg-02.png'
 
 function App(): React.JSX.Element {
@@ -73,6 +86,24 @@ function App(): React.JSX.Element {
     console.log('[App] Route key:', location.key)
   }, [location.pathname, location.state, location.key])
 
+  // The host mode's buzzer window shows its buzzers and nothing else: no quiz session
+  // (which would overwrite the kiosk's saved one), no overlays and no way to the home page
+  if (location.pathname === '/buzzer') {
+    return (
+      <>
+        <div className="fixed inset-0 w-full h-full -z-10">
+          <img
+            src={bg02Image}
+            alt=""
+            className="w-full h-full object-cover"
+            style={{ pointerEvents: 'none' }}
+          />
+        </div>
+        <BuzzerScreen />
+      </>
+    )
+  }
+
   // Show activation screen if needed
   if (needsActivation === null) {
     return (
@@ -108,6 +139,15 @@ function App(): React.JSX.Element {
         {/* Global Back to Home Button - Visible on all pages (except home) */}
         <GlobalBackToHomeButton />
 
+        {/* Global On-Screen Keyboard - Attaches to focused text fields */}
+        <OnScreenKeyboard />
+
+        {/* Global Idle Watcher - Returns to home and plays the attract loop when idle */}
+        <IdleWatcher />
+
+        {/* Global Operator Console - Hidden corner gesture or operator shortcut */}
+        <OperatorConsole />
+
         {/* Page Content - React Router Routes */}
         <Routes>
           <Route path="/" element={<HomePage />} />
@@ -116,8 +156,10 @@ function App(): React.JSX.Element {
           {/* Catch-all route: redirect any unmatched paths to home */}
           <Route path="*" element={<Navigate to="/" replace />} />
           <Route path="/qa" element={<QAScreen />} />
+          <Route path="/match" element={<MatchScreen />} />
           <Route path="/query" element={<QueryScreen />} />
           <Route path="/category/:id" element={<CategoryViewer />} />
+          <Route path="/search" element={<SearchScreen />} />
           {/* Admin routes - protected by authentication */}
           <Route path="/admin/login" element={<LoginScreen />} />
           <Route
@@ -176,6 +218,62 @@ function App(): React.JSX.Element {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/admin/backups"
+            element={
+              <ProtectedRoute>
+                <BackupManagement />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/package"
+            element={
+              <ProtectedRoute>
+                <ContentPackageManagement />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/analytics"
+            element={
+              <ProtectedRoute>
+                <QAAnalytics />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/recycle-bin"
+            element={
+              <ProtectedRoute>
+                <RecycleBin />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/change-password"
+            element={
+              <ProtectedRoute>
+                <ChangePasswordScreen />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/host"
+            element={
+              <ProtectedRoute>
+                <HostScreen />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/kiosk-settings"
+            element={
+              <ProtectedRoute>
+                <KioskSettings />
+              </ProtectedRoute>
+            }
+          />
         </Routes>
       </AuthProvider>
     </QAProvider>
@@ -6,6 +6,7 @@
 import { useNavigate } from 'react-router'
 import { Icon } from '@iconify/react'
 import logoutIcon from '@iconify-icons/mdi/logout'
+import lockResetIcon from '@iconify-icons/mdi/lock-reset'
 import { useAuth } from '../contexts/AuthContext'
 import { PillButton } from './PillButton'
 
@@ -25,6 +26,34 @@ export function AdminScreen(): React.JSX.Element {
     navigate('/admin/qa-settings')
   }
 
+  const handleKioskSettings = (): void => {
+    navigate('/admin/kiosk-settings')
+  }
+
+  const handleBackups = (): void => {
+    navigate('/admin/backups')
+  }
+
+  const handleContentPackage = (): void => {
+    navigate('/admin/package')
+  }
+
+  const handleAnalytics = (): void => {
+    navigate('/admin/analytics')
+  }
+
+  const handleRecycleBin = (): void => {
+    navigate('/admin/recycle-bin')
+  }
+
+  const handleHostMode = (): void => {
+    navigate('/admin/host')
+  }
+
+  const handleChangePassword = (): void => {
+    navigate('/admin/change-password')
+  }
+
   const handleLogout = (): void => {
     // CRITICAL FIX: Do NOT use window.confirm() in Electron!
     // window.confirm() and window.alert() break input focus on Windows
@@ -35,6 +64,15 @@ export function AdminScreen(): React.JSX.Element {
 
   return (
     <div className="flex flex-col items-center min-h-screen w-full relative z-10 px-8 py-12">
+      <PillButton
+        size="sm"
+        floating
+        className="fixed top-6 right-52"
+        onClick={handleChangePassword}
+      >
+        <Icon icon={lockResetIcon} className="text-xl text-red-600" />
+        <span className="text-lg font-bold text-red-600">修改密码</span>
+      </PillButton>
       <PillButton size="sm" floating className="fixed top-6 right-6" onClick={handleLogout}>
         <Icon icon={logoutIcon} className="text-xl text-red-600" />
         <span className="text-lg font-bold text-red-600">退出登录</span>
@@ -90,6 +128,96 @@ export function AdminScreen(): React.JSX.Element {
             </div>
           </div>
         </button>
+
+        <button
+          onClick={handleKioskSettings}
+          className="group relative py-12 px-8 rounded-2xl shadow-xl hover:shadow-2xl transition-all duration-300 transform hover:scale-105 active:scale-100 border-2 border-yellow-300 hover:border-yellow-400"
+          style={{ backgroundColor: '#fbfdba' }}
+        >
+          <div className="flex flex-col items-center justify-center gap-4">
+            <div className="text-4xl md:text-5xl font-bold text-gray-800 group-hover:text-red-600 transition-colors duration-300">
+              待机设置
+            </div>
+            <div className="text-lg text-gray-600 group-hover:text-red-700 transition-colors duration-300">
+              配置无人操作时返回首页和屏保
+            </div>
+          </div>
+        </button>
+
+        <button
+          onClick={handleBackups}
+          className="group relative py-12 px-8 rounded-2xl shadow-xl hover:shadow-2xl transition-all duration-300 transform hover:scale-105 active:scale-100 border-2 border-yellow-300 hover:border-yellow-400"
+          style={{ backgroundColor: '#fbfdba' }}
+        >
+          <div className="flex flex-col items-center justify-center gap-4">
+            <div className="text-4xl md:text-5xl font-bold text-gray-800 group-hover:text-red-600 transition-colors duration-300">
+              数据备份
+            </div>
+            <div className="text-lg text-gray-600 group-hover:text-red-700 transition-colors duration-300">
+              备份与恢复管理数据
+            </div>
+          </div>
+        </button>
+
+        <button
+          onClick={handleContentPackage}
+          className="group relative py-12 px-8 rounded-2xl shadow-xl hover:shadow-2xl transition-all duration-300 transform hover:scale-105 active:scale-100 border-2 border-yellow-300 hover:border-yellow-400"
+          style={{ backgroundColor: '#fbfdba' }}
+        >
+          <div className="flex flex-col items-center justify-center gap-4">
+            <div className="text-4xl md:text-5xl font-bold text-gray-800 group-hover:text-red-600 transition-colors duration-300">
+              内容包
+            </div>
+            <div className="text-lg text-gray-600 group-hover:text-red-700 transition-colors duration-300">
+              在设备间导出和导入内容
+            </div>
+          </div>
+        </button>
+
+        <button
+          onClick={handleAnalytics}
+          className="group relative py-12 px-8 rounded-2xl shadow-xl hover:shadow-2xl transition-all duration-300 transform hover:scale-105 active:scale-100 border-2 border-yellow-300 hover:border-yellow-400"
+          style={{ backgroundColor: '#fbfdba' }}
+        >
+          <div className="flex flex-col items-center justify-center gap-4">
+            <div className="text-4xl md:text-5xl font-bold text-gray-800 group-hover:text-red-600 transition-colors duration-300">
+              答题统计
+            </div>
+            <div className="text-lg text-gray-600 group-hover:text-red-700 transition-colors duration-300">
+              查看题目正确率和答题情况
+            </div>
+          </div>
+        </button>
+
+        <button
+          onClick={handleRecycleBin}
+          className="group relative py-12 px-8 rounded-2xl shadow-xl hover:shadow-2xl transition-all duration-300 transform hover:scale-105 active:scale-100 border-2 border-yellow-300 hover:border-yellow-400"
+          style={{ backgroundColor: '#fbfdba' }}
+        >
+          <div className="flex flex-col items-center justify-center gap-4">
+            <div className="text-4xl md:text-5xl font-bold text-gray-800 group-hover:text-red-600 transition-colors duration-300">
+              回收站
+            </div>
+            <div className="text-lg text-gray-600 group-hover:text-red-700 transition-colors duration-300">
+              恢复已删除的类别、条目和题目
+            </div>
+          </div>
+        </button>
+
+        <button
+          onClick={handleHostMode}
+          className="group relative py-12 px-8 rounded-2xl shadow-xl hover:shadow-2xl transition-all duration-300 transform hover:scale-105 active:scale-100 border-2 border-yellow-300 hover:border-yellow-400"
+          style={{ backgroundColor: '#fbfdba' }}
+        >
+          <div className="flex flex-col items-center justify-center gap-4">
+            <div className="text-4xl md:text-5xl font-bold text-gray-800 group-hover:text-red-600 transition-colors duration-300">
+              主持人模式
+            </div>
+            <div className="text-lg text-gray-600 group-hover:text-red-700 transition-colors duration-300">
+              主持人控场的团队抢答知识竞赛
+            </div>
+          </div>
+        </button>
       </div>
     </div>
   )
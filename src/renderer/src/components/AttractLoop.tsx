@@ -0,0 +1,184 @@
+/**
+ * Attract Loop Component
+ * Full-screen loop played on the home page while the kiosk is idle
+ * Shows a slideshow of the categories, a lottie animation or a video until the next touch
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import lottie from 'lottie-web/build/player/lottie_light'
+import { getCategories } from '../services/adminStorage'
+import type { AttractMode, KioskSettings } from '../services/kioskSettings'
+import type { Category } from '../types/admin'
+import bgHomeImage from '../assets/bg-home.png'
+import { cn } from '@renderer/utils/cn'
+
+interface AttractLoopProps {
+  settings: KioskSettings
+  /** Called on the touch or key press that ends the loop */
+  onExit: () => void
+}
+
+/**
+ * Mode actually played; media modes fall back to the slideshow without a file
+ */
+function resolveMode(settings: KioskSettings, mediaFailed: boolean): AttractMode {
+  if (settings.attractMode === 'animation' && settings.attractAnimationUrl && !mediaFailed) {
+    return 'animation'
+  }
+  if (settings.attractMode === 'video' && settings.attractVideoUrl && !mediaFailed) {
+    return 'video'
+  }
+  return 'slideshow'
+}
+
+function CategorySlideshow({ interval }: { interval: number }): React.JSX.Element {
+  const [categories, setCategories] = useState<Category[]>([])
+  const [index, setIndex] = useState(0)
+
+  useEffect(() => {
+    getCategories()
+      .then((loaded) => setCategories(loaded.sort((a, b) => a.order - b.order)))
+      .catch((error) => console.error('[AttractLoop] Failed to load categories:', error))
+  }, [])
+
+  useEffect(() => {
+    if (categories.length < 2) {
+      return undefined
+    }
+    const timer = window.setInterval(
+      () => setIndex((current) => (current + 1) % categories.length),
+      Math.max(1, interval) * 1000
+    )
+    return () => window.clearInterval(timer)
+  }, [categories.length, interval])
+
+  const category = categories.length > 0 ? categories[index % categories.length] : null
+
+  return (
+    <div className="flex flex-col items-center justify-center gap-8 px-24 text-center">
+      {category ? (
+        <div key={category.id} className="flex flex-col items-center gap-6 animate-fade-in">
+          <h1 className="text-6xl md:text-7xl lg:text-8xl font-bold text-red-600 drop-shadow-2xl">
+            {category.name}
+          </h1>
+          {category.description && (
+            <p className="max-w-4xl text-2xl md:text-3xl text-gray-800 leading-relaxed">
+              {category.description}
+            </p>
+          )}
+        </div>
+      ) : (
+        <h1 className="text-6xl md:text-7xl lg:text-8xl font-bold text-red-600 drop-shadow-2xl">
+          党规党纪
+        </h1>
+      )}
+      {categories.length > 1 && (
+        <div className="flex gap-3">
+          {categories.map((c, i) => (
+            <span
+              key={c.id}
+              className={cn(
+                'w-3 h-3 rounded-full',
+                i === index % categories.length ? 'bg-red-600' : 'bg-red-600/30'
+              )}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function LottieAnimation({
+  url,
+  onError
+}: {
+  url: string
+  onError: () => void
+}): React.JSX.Element {
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    let animation: ReturnType<typeof lottie.loadAnimation> | null = null
+
+    fetch(url)
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        return response.json()
+      })
+      .then((animationData) => {
+        if (cancelled || !containerRef.current) return
+        animation = lottie.loadAnimation({
+          container: containerRef.current,
+          renderer: 'svg',
+          loop: true,
+          autoplay: true,
+          animationData
+        })
+      })
+      .catch((error) => {
+        console.error('[AttractLoop] Failed to load animation:', error)
+        if (!cancelled) onError()
+      })
+
+    return () => {
+      cancelled = true
+      animation?.destroy()
+    }
+  }, [url, onError])
+
+  return <div ref={containerRef} className="w-full h-full" />
+}
+
+export function AttractLoop({ settings, onExit }: AttractLoopProps): React.JSX.Element {
+  const [mediaFailed, setMediaFailed] = useState(false)
+  const mode = resolveMode(settings, mediaFailed)
+  const handleMediaError = useCallback(() => setMediaFailed(true), [])
+
+  // Any key ends the loop as well, for kiosks driven by keyboards or buzzers
+  useEffect(() => {
+    const handleKeyDown = (): void => onExit()
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onExit])
+
+  return (
+    <div
+      onClick={onExit}
+      className="fixed inset-0 z-80 flex items-center justify-center overflow-hidden cursor-pointer select-none"
+    >
+      <img
+        src={bgHomeImage}
+        alt=""
+        className="absolute inset-0 w-full h-full object-cover -z-10"
+        style={{ pointerEvents: 'none' }}
+      />
+
+      {mode === 'slideshow' && <CategorySlideshow interval={settings.slideInterval} />}
+      {mode === 'animation' && (
+        <LottieAnimation url={settings.attractAnimationUrl!} onError={handleMediaError} />
+      )}
+      {mode === 'video' && (
+        <video
+          src={settings.attractVideoUrl!}
+          autoPlay
+          muted
+          loop
+          playsInline
+          onError={() => {
+            console.error('[AttractLoop] Failed to play video:', settings.attractVideoUrl)
+            handleMediaError()
+          }}
+          className="absolute inset-0 w-full h-full object-cover bg-black"
+        />
+      )}
+
+      <div className="absolute bottom-16 left-0 right-0 flex justify-center pointer-events-none">
+        <span className="px-10 py-4 rounded-full bg-red-600/90 text-3xl font-bold text-yellow-200 shadow-2xl animate-pulse">
+          轻触屏幕开始使用
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,281 @@
+/**
+ * Backup Management Component
+ * Create, restore and delete snapshots of the admin database
+ */
+
+import { useState, useEffect, useRef } from 'react'
+import { useNavigate } from 'react-router'
+import { Icon } from '@iconify/react'
+import arrowLeftIcon from '@iconify-icons/mdi/arrow-left'
+import databaseExportIcon from '@iconify-icons/mdi/database-export'
+import backupRestoreIcon from '@iconify-icons/mdi/backup-restore'
+import deleteIcon from '@iconify-icons/mdi/delete'
+import { LoadingSpinner } from './LoadingSpinner'
+import { createBackup, listBackups, restoreBackup, deleteBackup } from '../services/adminStorage'
+import type { BackupInfo, BackupReason } from '../types/admin'
+import { cn } from '@renderer/utils/cn'
+
+const REASON_LABELS: Record<BackupReason, string> = {
+  manual: '手动备份',
+  startup: '启动自动备份',
+  'before-import-questions': '导入题目前',
+  'before-import-entries': '导入条目前',
+  'before-import-package': '导入内容包前',
+  'before-restore': '恢复前'
+}
+
+/**
+ * Format a byte count for display
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+export function BackupManagement(): React.JSX.Element {
+  const navigate = useNavigate()
+  const [backups, setBackups] = useState<BackupInfo[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  // Id of the backup being restored/deleted, or 'create' while a snapshot is taken
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [label, setLabel] = useState('')
+  // Scroll state for header background
+  const [isScrolled, setIsScrolled] = useState(false)
+  // Ref for scroll container
+  const scrollContainerRef = useRef<HTMLDivElement>(null)
+  // Ref for cleanup function
+  const scrollCleanupRef = useRef<(() => void) | null>(null)
+
+  const loadBackups = async (): Promise<void> => {
+    try {
+      setBackups(await listBackups())
+    } catch (error) {
+      console.error('[BackupManagement] Failed to load backups:', error)
+      alert('加载备份列表失败，请重试')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    listBackups()
+      .then(setBackups)
+      .catch((error) => {
+        console.error('[BackupManagement] Failed to load backups:', error)
+        alert('加载备份列表失败，请重试')
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  // Ref callback to set up scroll listener when ref is attached
+  const setScrollContainerRef = (node: HTMLDivElement | null): void => {
+    // Clean up previous listener if exists
+    if (scrollCleanupRef.current) {
+      scrollCleanupRef.current()
+      scrollCleanupRef.current = null
+    }
+
+    scrollContainerRef.current = node
+
+    if (node) {
+      const handleScroll = (): void => {
+        setIsScrolled(node.scrollTop > 0)
+      }
+
+      node.addEventListener('scroll', handleScroll, { passive: true })
+
+      // Store cleanup function
+      scrollCleanupRef.current = () => {
+        node.removeEventListener('scroll', handleScroll)
+      }
+    }
+  }
+
+  const handleBack = (): void => {
+    navigate('/admin')
+  }
+
+  const handleCreate = async (): Promise<void> => {
+    try {
+      setBusyId('create')
+      await createBackup(label)
+      setLabel('')
+      await loadBackups()
+    } catch (error) {
+      console.error('[BackupManagement] Failed to create backup:', error)
+      alert(`创建备份失败：${error instanceof Error ? error.message : '未知错误'}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRestore = async (backup: BackupInfo): Promise<void> => {
+    const time = new Date(backup.createdAt).toLocaleString('zh-CN')
+    if (
+      !confirm(
+        `确定要恢复到 ${time} 的备份吗？\n\n当前所有类别、条目和题目将被替换。恢复前会自动备份当前数据，可随时撤销。`
+      )
+    ) {
+      return
+    }
+
+    try {
+      setBusyId(backup.id)
+      await restoreBackup(backup.id)
+      await loadBackups()
+      alert('恢复成功')
+    } catch (error) {
+      console.error('[BackupManagement] Failed to restore backup:', error)
+      alert(`恢复备份失败：${error instanceof Error ? error.message : '未知错误'}，数据未被修改`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (backup: BackupInfo): Promise<void> => {
+    if (!confirm('确定要删除这个备份吗？删除后无法恢复。')) {
+      return
+    }
+
+    try {
+      setBusyId(backup.id)
+      await deleteBackup(backup.id)
+      await loadBackups()
+    } catch (error) {
+      console.error('[BackupManagement] Failed to delete backup:', error)
+      alert('删除备份失败，请重试')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div
+      ref={setScrollContainerRef}
+      className="flex flex-col w-full relative z-10 h-screen overflow-y-auto"
+    >
+      <div className="w-full">
+        {/* Header */}
+        <div
+          className={cn(
+            'sticky top-0 py-8 px-36 backdrop-blur-lg z-20 transition-colors duration-200',
+            {
+              'bg-red-600/80 backdrop-blur-xs': isScrolled
+            }
+          )}
+        >
+          <div className="flex items-center gap-4">
+            {/* Page Back Button - Left of Title */}
+            <button
+              onClick={handleBack}
+              className="shrink-0 p-2 hover:opacity-80 transition-opacity"
+              title="返回管理后台"
+            >
+              <Icon icon={arrowLeftIcon} className="text-3xl text-white" />
+            </button>
+            <div>
+              <h1 className="text-4xl md:text-5xl font-bold text-white mb-2">数据备份</h1>
+              <p className="text-lg text-red-100">备份与恢复类别、条目和题目数据</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="px-36 pb-12">
+          {/* Create Backup */}
+          <div
+            className="p-8 rounded-2xl shadow-xl border-2 border-yellow-300 mb-8"
+            style={{ backgroundColor: '#fbfdba' }}
+          >
+            <label className="block text-2xl font-bold text-gray-800 mb-4">新建备份</label>
+            <div className="flex flex-col sm:flex-row gap-4">
+              <input
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                maxLength={50}
+                placeholder="备注（可选），例如：年度题库更新前"
+                className="flex-1 px-6 py-4 text-xl rounded-xl border-2 border-yellow-300 focus:border-yellow-400 focus:outline-none text-gray-800"
+                style={{ backgroundColor: '#fff' }}
+              />
+              <button
+                onClick={handleCreate}
+                disabled={busyId !== null}
+                className="flex items-center justify-center gap-2 px-8 py-4 text-xl font-semibold rounded-xl bg-red-600 text-white shadow-lg hover:bg-red-700 hover:-translate-y-1 hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Icon icon={databaseExportIcon} className="text-2xl" />
+                {busyId === 'create' ? '备份中...' : '立即备份'}
+              </button>
+            </div>
+            <p className="mt-4 text-lg text-gray-700">
+              系统会在每次启动和批量导入前自动备份，自动备份最多保留最近 10
+              份；手动备份不会被自动清理。
+            </p>
+          </div>
+
+          {/* Backup List */}
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="lg" variant="ring" text="加载中..." fullScreen={false} />
+            </div>
+          ) : backups.length === 0 ? (
+            <div className="text-center py-12 text-red-100">
+              <p className="text-2xl">暂无备份</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {backups.map((backup) => (
+                <div
+                  key={backup.id}
+                  className="flex items-center gap-6 p-6 rounded-xl shadow-lg border-2 border-yellow-300"
+                  style={{ backgroundColor: '#fbfdba' }}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-3 mb-2">
+                      <span
+                        className={cn(
+                          'px-3 py-0.5 rounded-full text-sm font-semibold',
+                          backup.reason === 'manual'
+                            ? 'bg-red-600 text-white'
+                            : 'bg-yellow-200 text-gray-700'
+                        )}
+                      >
+                        {REASON_LABELS[backup.reason] ?? backup.reason}
+                      </span>
+                      <span className="text-xl font-bold text-gray-800">
+                        {new Date(backup.createdAt).toLocaleString('zh-CN')}
+                      </span>
+                    </div>
+                    {backup.label && (
+                      <p className="text-lg text-gray-700 truncate mb-1">{backup.label}</p>
+                    )}
+                    <p className="text-sm text-gray-500">
+                      {formatSize(backup.size)}
+                      {backup.schemaVersion !== null && ` · 数据版本 ${backup.schemaVersion}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRestore(backup)}
+                    disabled={busyId !== null}
+                    className="flex items-center gap-2 px-6 py-3 rounded-lg bg-red-600 text-white font-semibold shadow-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Icon icon={backupRestoreIcon} className="text-xl" />
+                    {busyId === backup.id ? '处理中...' : '恢复'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(backup)}
+                    disabled={busyId !== null}
+                    className="flex items-center gap-2 px-6 py-3 rounded-lg bg-gray-300 text-gray-800 font-semibold shadow-lg hover:bg-gray-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Icon icon={deleteIcon} className="text-xl" />
+                    删除
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+/**
+ * Buzzer Screen
+ * Shown in the host mode's second window: one big buzzer per team. Taps and buzzer keys
+ * go to the presenter's window, which decides who was first
+ */
+
+import { useEffect, useState } from 'react'
+import { TEAM_BUZZER_KEYS } from '../services/inputHandler'
+import { TEAM_STYLES } from '../utils/teamStyles'
+import { cn } from '@renderer/utils/cn'
+import type { BuzzerPanel } from '../types/host'
+
+export function BuzzerScreen(): React.JSX.Element {
+  const [panel, setPanel] = useState<BuzzerPanel | null>(null)
+
+  useEffect(() => {
+    const handlePanel = (_event: unknown, next: BuzzerPanel): void => setPanel(next)
+    window.electron.ipcRenderer.on('host:buzzerPanel', handlePanel)
+
+    // The presenter's screen may have set up the teams before this window opened
+    window.api.host
+      .getBuzzerPanel()
+      .then((current) => {
+        if (current) {
+          setPanel((shown) => shown ?? current)
+        }
+      })
+      .catch((error) => console.error('[BuzzerScreen] Failed to get buzzer panel:', error))
+
+    return () => {
+      window.electron.ipcRenderer.removeListener('host:buzzerPanel', handlePanel)
+    }
+  }, [])
+
+  if (!panel || panel.teams.length === 0) {
+    return (
+      <div className="w-screen h-screen flex items-center justify-center text-white text-3xl sm:text-4xl opacity-80">
+        等待主持人开始比赛...
+      </div>
+    )
+  }
+
+  const status =
+    panel.buzzedTeam !== null
+      ? `${panel.teams[panel.buzzedTeam]} 抢答成功！`
+      : panel.open
+        ? '抢答开始！'
+        : '请等待主持人开始抢答'
+
+  return (
+    <div className="w-screen h-screen flex flex-col text-white p-6 gap-6 select-none">
+      <div
+        className={cn(
+          'text-center text-4xl sm:text-5xl md:text-6xl font-bold py-4',
+          panel.open && 'text-yellow-300 animate-pulse'
+        )}
+      >
+        {status}
+      </div>
+      <div
+        className="flex-1 grid gap-6"
+        style={{
+          gridTemplateColumns: `repeat(${Math.min(3, panel.teams.length)}, minmax(0, 1fr))`
+        }}
+      >
+        {panel.teams.map((name, team) => {
+          const isLockedOut = panel.lockedOutTeams.includes(team)
+          const isBuzzed = panel.buzzedTeam === team
+          return (
+            <button
+              key={team}
+              onClick={() => window.api.host.buzz(team)}
+              disabled={!panel.open || isLockedOut}
+              className={cn(
+                'flex flex-col items-center justify-center gap-4 rounded-3xl border-8 border-white/30 text-white transition-all duration-150 active:scale-95',
+                TEAM_STYLES[team].buzzer,
+                isBuzzed && 'border-yellow-300 scale-105',
+                !isBuzzed && (!panel.open || isLockedOut) && 'opacity-40 cursor-not-allowed'
+              )}
+            >
+              <span className="text-4xl sm:text-5xl md:text-6xl font-bold">{name}</span>
+              <span className="text-xl sm:text-2xl opacity-80">
+                {isLockedOut ? '本题已答错' : `按键 ${TEAM_BUZZER_KEYS[team].label}`}
+              </span>
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -10,6 +10,7 @@ import { Icon } from '@iconify/react'
 import addIcon from '@iconify-icons/mdi/plus'
 import editIcon from '@iconify-icons/mdi/pencil'
 import deleteIcon from '@iconify-icons/mdi/delete'
+import deletedIcon from '@iconify-icons/mdi/delete-restore'
 import folderIcon from '@iconify-icons/mdi/folder'
 import fileDocumentEditIcon from '@iconify-icons/mdi/file-document-edit'
 import closeIcon from '@iconify-icons/mdi/close'
@@ -120,8 +121,16 @@ export function CategoryManagement(): React.JSX.Element {
     setShowAddForm(true)
   }
 
+  const handleRecycleBin = (): void => {
+    navigate('/admin/recycle-bin')
+  }
+
   const handleDelete = async (category: Category): Promise<void> => {
-    if (confirm(`确定要删除类别"${category.name}"吗？这将删除该类别下的所有条目。`)) {
+    if (
+      confirm(
+        `确定要删除类别"${category.name}"吗？这将删除该类别下的所有条目。\n\n删除后可在回收站中连同条目一起恢复。`
+      )
+    ) {
       try {
         await deleteCategory(category.id)
         await loadCategories()
@@ -208,6 +217,17 @@ export function CategoryManagement(): React.JSX.Element {
               </div>
             </div>
             <div className="flex gap-3">
+              <button
+                onClick={handleRecycleBin}
+                className="flex items-center gap-2 px-6 py-3 rounded-lg transition-colors shadow-lg text-gray-800 font-semibold hover:opacity-90"
+                style={{
+                  backgroundColor: '#fbfdba'
+                }}
+                title="查看并恢复已删除的类别和条目"
+              >
+                <Icon icon={deletedIcon} className="text-xl" />
+                <span>回收站</span>
+              </button>
               <button
                 onClick={handleAdd}
                 className="flex items-center gap-2 px-6 py-3 rounded-lg transition-colors shadow-lg text-gray-800 font-semibold hover:opacity-90"
@@ -5,7 +5,7 @@
  */
 
 import { useState, useEffect, useMemo, useRef } from 'react'
-import { useParams, useNavigate } from 'react-router'
+import { useParams, useNavigate, useSearchParams } from 'react-router'
 import { Icon } from '@iconify/react'
 import chevronDownIcon from '@iconify-icons/mdi/chevron-down'
 import chevronRightIcon from '@iconify-icons/mdi/chevron-right'
@@ -19,13 +19,67 @@ import { getCategories, getEntriesByCategory } from '../services/adminStorage'
 import type { Category, Entry } from '../types/admin'
 import bg01Image from '../assets/bg-01.png'
 
+/**
+ * Wrap occurrences of the search terms inside an element with <mark> and return the first one
+ * Operates on text nodes only so the entry's own markup stays intact
+ */
+function highlightSearchTerms(root: HTMLElement, query: string): HTMLElement | null {
+  const terms = query
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  if (terms.length === 0) return null
+  const pattern = new RegExp(`(${terms.join('|')})`, 'gi')
+
+  const textNodes: Text[] = []
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+  while (walker.nextNode()) {
+    textNodes.push(walker.currentNode as Text)
+  }
+
+  let firstMark: HTMLElement | null = null
+  textNodes.forEach((node) => {
+    const text = node.nodeValue ?? ''
+    pattern.lastIndex = 0
+    if (!pattern.test(text)) return
+    const fragment = document.createDocumentFragment()
+    text.split(pattern).forEach((part, index) => {
+      if (!part) return
+      // split() with a capture group puts matches at odd indexes
+      if (index % 2 === 1) {
+        const mark = document.createElement('mark')
+        mark.className = 'bg-yellow-300 rounded px-0.5'
+        mark.textContent = part
+        fragment.appendChild(mark)
+        firstMark = firstMark ?? mark
+      } else {
+        fragment.appendChild(document.createTextNode(part))
+      }
+    })
+    node.parentNode?.replaceChild(fragment, node)
+  })
+  return firstMark
+}
+
 export function CategoryViewer(): React.JSX.Element {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
   const categoryId = id ?? ''
+  // Set when arriving from search: entry to open and terms to highlight
+  const [searchParams] = useSearchParams()
+  const targetEntryId = searchParams.get('entryId')
+  const searchQuery = searchParams.get('q') ?? ''
+  // Set when arriving from a question's explanation
+  const fromQA = searchParams.get('from') === 'qa'
 
   const handleBack = (): void => {
-    navigate('/query')
+    if (fromQA) {
+      // Back to the running quiz
+      navigate('/qa')
+      return
+    }
+    // Return to the search results when the entry was opened from search
+    navigate(searchQuery ? `/search?q=${encodeURIComponent(searchQuery)}` : '/query')
   }
   const [category, setCategory] = useState<Category | null>(null)
   const [entries, setEntries] = useState<Entry[]>([])
@@ -38,6 +92,7 @@ export function CategoryViewer(): React.JSX.Element {
   const isDraggingRef = useRef(false)
   const dragStartYRef = useRef(0)
   const scrollStartRef = useRef(0)
+  const contentRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
     const loadData = async (): Promise<void> => {
@@ -130,8 +185,16 @@ export function CategoryViewer(): React.JSX.Element {
             return !isParentEntry
           })
 
+          // Entry requested by search takes precedence
+          const targetEntry = targetEntryId
+            ? categoryEntries.find((e) => e.id === targetEntryId)
+            : undefined
+
           // Only auto-select if no entry is currently selected
           setSelectedEntry((prev) => {
+            if (targetEntry) {
+              return targetEntry
+            }
             if (prev) {
               // If there's a selected entry, check if it still exists and is valid
               const entry = categoryEntries.find((e) => e.id === prev.id)
@@ -161,7 +224,15 @@ export function CategoryViewer(): React.JSX.Element {
     }
 
     loadData()
-  }, [categoryId])
+  }, [categoryId, targetEntryId])
+
+  // Highlight search terms in the entry opened from search and scroll to the first hit
+  useEffect(() => {
+    if (!searchQuery || !selectedEntry || selectedEntry.id !== targetEntryId) return
+    if (!contentRef.current) return
+    const firstMark = highlightSearchTerms(contentRef.current, searchQuery)
+    firstMark?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [selectedEntry, searchQuery, targetEntryId])
 
   const handleEntryClick = (entry: Entry): void => {
     console.log('[CategoryViewer] ========== 点击条目 ==========')
@@ -618,6 +689,7 @@ export function CategoryViewer(): React.JSX.Element {
               {/* Content - Render HTML with background */}
               <div className="bg-white rounded-xl shadow-lg p-8 md:p-12">
                 <div
+                  ref={contentRef}
                   className="text-gray-800 leading-relaxed text-lg md:text-xl entry-content prose prose-lg max-w-none"
                   style={
                     {
@@ -0,0 +1,153 @@
+/**
+ * Change Password Screen Component
+ * Replaces the admin password; the first login is sent here until the default password is changed
+ */
+
+import { useState } from 'react'
+import { useNavigate } from 'react-router'
+import { Icon } from '@iconify/react'
+import lockResetIcon from '@iconify-icons/mdi/lock-reset'
+import { useAuth } from '../contexts/AuthContext'
+
+export function ChangePasswordScreen(): React.JSX.Element {
+  const navigate = useNavigate()
+  const { mustChangePassword, changePassword, logout } = useAuth()
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const canSubmit =
+    !isSaving && currentPassword !== '' && newPassword !== '' && confirmPassword !== ''
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault()
+    if (!canSubmit) return
+
+    if (newPassword !== confirmPassword) {
+      setError('两次输入的新密码不一致')
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      await changePassword(currentPassword, newPassword)
+      navigate('/admin', { replace: true })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '修改密码失败，请重试')
+      setIsSaving(false)
+    }
+  }
+
+  const fields = [
+    {
+      id: 'current-password',
+      label: '当前密码',
+      value: currentPassword,
+      onChange: setCurrentPassword,
+      autoComplete: 'current-password'
+    },
+    {
+      id: 'new-password',
+      label: '新密码（至少 8 个字符）',
+      value: newPassword,
+      onChange: setNewPassword,
+      autoComplete: 'new-password'
+    },
+    {
+      id: 'confirm-password',
+      label: '确认新密码',
+      value: confirmPassword,
+      onChange: setConfirmPassword,
+      autoComplete: 'new-password'
+    }
+  ]
+
+  return (
+    <div className="flex justify-center min-h-screen w-full relative z-10 px-8 py-20">
+      <div className="w-full max-w-md">
+        <div
+          className="p-8 md:p-12 rounded-2xl shadow-2xl border-2 border-yellow-300"
+          style={{ backgroundColor: '#fbfdba' }}
+        >
+          {/* Header */}
+          <div className="text-center mb-8">
+            <div className="flex justify-center mb-4">
+              <div className="w-20 h-20 rounded-full bg-red-600 flex items-center justify-center border-4 border-yellow-300">
+                <Icon icon={lockResetIcon} className="text-4xl text-white" />
+              </div>
+            </div>
+            <h1 className="text-4xl md:text-5xl font-bold text-gray-800 mb-2">修改密码</h1>
+            <p className="text-lg text-gray-600">
+              {mustChangePassword ? '首次登录，请先将默认密码修改为新密码' : '修改管理员登录密码'}
+            </p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {fields.map((field) => (
+              <div key={field.id}>
+                <label
+                  htmlFor={field.id}
+                  className="block text-lg font-semibold text-gray-800 mb-2"
+                >
+                  {field.label}
+                </label>
+                <input
+                  id={field.id}
+                  type="password"
+                  value={field.value}
+                  onChange={(e) => {
+                    field.onChange(e.target.value)
+                    setError(null)
+                  }}
+                  className="w-full px-4 py-4 text-xl rounded-xl border-2 border-yellow-300 focus:border-yellow-400 focus:outline-none transition-colors duration-200 text-gray-800"
+                  autoComplete={field.autoComplete}
+                />
+              </div>
+            ))}
+
+            {/* Error Message */}
+            {error && (
+              <div className="p-4 rounded-xl bg-red-100 border-2 border-red-400">
+                <p className="text-red-700 font-semibold text-center">{error}</p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={!canSubmit}
+              className="w-full py-4 px-6 text-xl font-bold rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed border-2 border-yellow-300 hover:border-yellow-400"
+              style={{
+                backgroundColor: canSubmit ? '#dc2626' : '#e5e7eb',
+                color: 'white'
+              }}
+            >
+              {isSaving ? '保存中...' : '保存新密码'}
+            </button>
+          </form>
+
+          {/* Footer */}
+          <div className="mt-6 text-center">
+            {mustChangePassword ? (
+              <button
+                onClick={logout}
+                className="text-gray-600 hover:text-red-600 transition-colors duration-200 text-sm"
+              >
+                退出登录
+              </button>
+            ) : (
+              <button
+                onClick={() => navigate('/admin')}
+                className="text-gray-600 hover:text-red-600 transition-colors duration-200 text-sm"
+              >
+                返回管理后台
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,374 @@
+/**
+ * Content Package Management Component
+ * Export all content to a .qapkg file and import packages from other kiosks
+ */
+
+import { useState, useRef } from 'react'
+import { useNavigate } from 'react-router'
+import { Icon } from '@iconify/react'
+import arrowLeftIcon from '@iconify-icons/mdi/arrow-left'
+import packageUpIcon from '@iconify-icons/mdi/package-up'
+import packageDownIcon from '@iconify-icons/mdi/package-down'
+import { exportPackage, previewPackage, importPackage } from '../services/adminStorage'
+import { getQASettings, saveQASettings, type QASettings } from '../services/qaSettings'
+import type {
+  ContentKind,
+  PackageImportMode,
+  PackageImportResult,
+  PackagePreview
+} from '../types/contentPackage'
+import { cn } from '@renderer/utils/cn'
+
+const KIND_LABELS: Record<ContentKind, string> = {
+  category: '类别',
+  entry: '条目',
+  question: '题目'
+}
+
+// Conflicts listed before the "show all" toggle
+const CONFLICT_PREVIEW_LIMIT = 50
+
+export function ContentPackageManagement(): React.JSX.Element {
+  const navigate = useNavigate()
+  const [isExporting, setIsExporting] = useState(false)
+  const [exportMessage, setExportMessage] = useState<string | null>(null)
+  const [preview, setPreview] = useState<PackagePreview | null>(null)
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false)
+  const [mode, setMode] = useState<PackageImportMode>('merge')
+  const [overwriteConflicts, setOverwriteConflicts] = useState(true)
+  const [importSettings, setImportSettings] = useState(true)
+  const [showAllConflicts, setShowAllConflicts] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [importResult, setImportResult] = useState<PackageImportResult | null>(null)
+  // Scroll state for header background
+  const [isScrolled, setIsScrolled] = useState(false)
+  // Ref for scroll container
+  const scrollContainerRef = useRef<HTMLDivElement>(null)
+  // Ref for cleanup function
+  const scrollCleanupRef = useRef<(() => void) | null>(null)
+
+  // Ref callback to set up scroll listener when ref is attached
+  const setScrollContainerRef = (node: HTMLDivElement | null): void => {
+    // Clean up previous listener if exists
+    if (scrollCleanupRef.current) {
+      scrollCleanupRef.current()
+      scrollCleanupRef.current = null
+    }
+
+    scrollContainerRef.current = node
+
+    if (node) {
+      const handleScroll = (): void => {
+        setIsScrolled(node.scrollTop > 0)
+      }
+
+      node.addEventListener('scroll', handleScroll, { passive: true })
+
+      // Store cleanup function
+      scrollCleanupRef.current = () => {
+        node.removeEventListener('scroll', handleScroll)
+      }
+    }
+  }
+
+  const handleBack = (): void => {
+    navigate('/admin')
+  }
+
+  const handleExport = async (): Promise<void> => {
+    try {
+      setIsExporting(true)
+      setExportMessage(null)
+      const result = await exportPackage({ ...getQASettings() })
+      if (result) {
+        const { counts } = result
+        setExportMessage(
+          `已导出 ${counts.categories} 个类别、${counts.entries} 个条目、${counts.questions} 道题目、${counts.images} 个图片或视频到 ${result.filePath}`
+        )
+      }
+    } catch (error) {
+      console.error('[ContentPackageManagement] Failed to export package:', error)
+      alert(`导出失败：${error instanceof Error ? error.message : '未知错误'}`)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleChoosePackage = async (): Promise<void> => {
+    try {
+      setIsLoadingPreview(true)
+      const result = await previewPackage()
+      if (result) {
+        setPreview(result)
+        setImportResult(null)
+        setShowAllConflicts(false)
+        setImportSettings(result.hasQASettings)
+      }
+    } catch (error) {
+      console.error('[ContentPackageManagement] Failed to read package:', error)
+      alert(`读取内容包失败：${error instanceof Error ? error.message : '未知错误'}`)
+    } finally {
+      setIsLoadingPreview(false)
+    }
+  }
+
+  const handleImport = async (): Promise<void> => {
+    if (!preview) return
+
+    if (
+      mode === 'replace' &&
+      !confirm('替换模式将把本机现有的全部类别、条目和题目移入回收站，再导入内容包。确定继续吗？')
+    ) {
+      return
+    }
+
+    try {
+      setIsImporting(true)
+      const result = await importPackage(preview.filePath, { mode, overwriteConflicts })
+      if (importSettings && result.qaSettings) {
+        saveQASettings(result.qaSettings as Partial<QASettings>)
+      }
+      setImportResult(result)
+      setPreview(null)
+    } catch (error) {
+      console.error('[ContentPackageManagement] Failed to import package:', error)
+      alert(`导入失败：${error instanceof Error ? error.message : '未知错误'}，本机数据未被修改`)
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const changedConflicts = preview?.conflicts.filter((c) => !c.identical) ?? []
+  const visibleConflicts = showAllConflicts
+    ? changedConflicts
+    : changedConflicts.slice(0, CONFLICT_PREVIEW_LIMIT)
+
+  return (
+    <div
+      ref={setScrollContainerRef}
+      className="flex flex-col w-full relative z-10 h-screen overflow-y-auto"
+    >
+      <div className="w-full">
+        {/* Header */}
+        <div
+          className={cn(
+            'sticky top-0 py-8 px-36 backdrop-blur-lg z-20 transition-colors duration-200',
+            {
+              'bg-red-600/80 backdrop-blur-xs': isScrolled
+            }
+          )}
+        >
+          <div className="flex items-center gap-4">
+            {/* Page Back Button - Left of Title */}
+            <button
+              onClick={handleBack}
+              className="shrink-0 p-2 hover:opacity-80 transition-opacity"
+              title="返回管理后台"
+            >
+              <Icon icon={arrowLeftIcon} className="text-3xl text-white" />
+            </button>
+            <div>
+              <h1 className="text-4xl md:text-5xl font-bold text-white mb-2">内容包</h1>
+              <p className="text-lg text-red-100">在多台设备之间迁移类别、条目、题目和答题设置</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="px-36 pb-12 space-y-8">
+          {/* Export */}
+          <div
+            className="p-8 rounded-2xl shadow-xl border-2 border-yellow-300"
+            style={{ backgroundColor: '#fbfdba' }}
+          >
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">导出内容包</h2>
+            <p className="text-lg text-gray-700 mb-6">
+              将本机全部类别、条目（含图片）、题目和答题设置打包为一个 .qapkg
+              文件，可拷贝到其他设备导入。
+            </p>
+            <button
+              onClick={handleExport}
+              disabled={isExporting}
+              className="flex items-center justify-center gap-2 px-8 py-4 text-xl font-semibold rounded-xl bg-red-600 text-white shadow-lg hover:bg-red-700 hover:-translate-y-1 hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Icon icon={packageUpIcon} className="text-2xl" />
+              {isExporting ? '导出中...' : '导出内容包'}
+            </button>
+            {exportMessage && (
+              <div className="mt-4 p-4 rounded-xl text-lg bg-green-100 text-green-800 break-all">
+                {exportMessage}
+              </div>
+            )}
+          </div>
+
+          {/* Import */}
+          <div
+            className="p-8 rounded-2xl shadow-xl border-2 border-yellow-300"
+            style={{ backgroundColor: '#fbfdba' }}
+          >
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">导入内容包</h2>
+            <p className="text-lg text-gray-700 mb-6">
+              选择内容包后会先校验文件并预览与本机内容的冲突，确认后才会导入。导入前系统会自动备份当前数据。
+            </p>
+            <button
+              onClick={handleChoosePackage}
+              disabled={isLoadingPreview || isImporting}
+              className="flex items-center justify-center gap-2 px-8 py-4 text-xl font-semibold rounded-xl bg-red-600 text-white shadow-lg hover:bg-red-700 hover:-translate-y-1 hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Icon icon={packageDownIcon} className="text-2xl" />
+              {isLoadingPreview ? '校验中...' : '选择内容包'}
+            </button>
+
+            {importResult && (
+              <div className="mt-6 p-4 rounded-xl text-lg bg-green-100 text-green-800">
+                导入完成：{importResult.imported.categories} 个类别、
+                {importResult.imported.entries} 个条目、{importResult.imported.questions} 道题目
+                {importResult.skipped > 0 && `，保留本机 ${importResult.skipped} 项冲突内容`}
+                。如需撤销，可在“数据备份”中恢复导入前的备份。
+              </div>
+            )}
+
+            {preview && (
+              <div className="mt-6 space-y-6">
+                {/* Package Summary */}
+                <div className="p-6 rounded-xl bg-yellow-50 border-2 border-yellow-200">
+                  <h3 className="text-xl font-bold text-gray-800 mb-3 break-all">
+                    {preview.fileName}
+                  </h3>
+                  <ul className="text-lg text-gray-700 space-y-1">
+                    <li>
+                      导出时间：{new Date(preview.manifest.createdAt).toLocaleString('zh-CN')}
+                      （版本 {preview.manifest.appVersion}，数据版本{' '}
+                      {preview.manifest.schemaVersion}）
+                    </li>
+                    <li>
+                      包含：{preview.manifest.counts.categories} 个类别、
+                      {preview.manifest.counts.entries} 个条目、{preview.manifest.counts.questions}{' '}
+                      道题目、{preview.manifest.counts.images} 个图片或视频
+                    </li>
+                    <li>
+                      本机新增：{preview.newCounts.categories} 个类别、{preview.newCounts.entries}{' '}
+                      个条目、{preview.newCounts.questions} 道题目
+                    </li>
+                    <li>
+                      ID 冲突：{preview.conflicts.length} 项，其中内容不同 {changedConflicts.length}{' '}
+                      项
+                    </li>
+                  </ul>
+                </div>
+
+                {/* Conflicts */}
+                {changedConflicts.length > 0 && (
+                  <div>
+                    <h3 className="text-xl font-bold text-gray-800 mb-3">内容不同的冲突项</h3>
+                    <div className="rounded-xl border-2 border-yellow-200 overflow-hidden">
+                      <table className="w-full text-left text-lg">
+                        <thead className="bg-yellow-100 text-gray-800">
+                          <tr>
+                            <th className="px-4 py-2 w-20">类型</th>
+                            <th className="px-4 py-2">本机</th>
+                            <th className="px-4 py-2">内容包</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {visibleConflicts.map((conflict) => (
+                            <tr
+                              key={`${conflict.kind}-${conflict.id}`}
+                              className="border-t border-yellow-200 bg-white/60"
+                            >
+                              <td className="px-4 py-2 text-gray-600">
+                                {KIND_LABELS[conflict.kind]}
+                              </td>
+                              <td className="px-4 py-2 text-gray-800 max-w-md truncate">
+                                {conflict.localTitle}
+                              </td>
+                              <td className="px-4 py-2 text-gray-800 max-w-md truncate">
+                                {conflict.incomingTitle}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    {changedConflicts.length > visibleConflicts.length && (
+                      <button
+                        onClick={() => setShowAllConflicts(true)}
+                        className="mt-2 text-lg text-red-600 hover:underline"
+                      >
+                        显示全部 {changedConflicts.length} 项
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {/* Import Options */}
+                <div className="space-y-3 text-lg text-gray-800">
+                  <label className="flex items-center gap-3">
+                    <input
+                      type="radio"
+                      name="import-mode"
+                      checked={mode === 'merge'}
+                      onChange={() => setMode('merge')}
+                      className="w-5 h-5 accent-red-600"
+                    />
+                    合并：保留本机内容，添加内容包中的新内容
+                  </label>
+                  {mode === 'merge' && (
+                    <label className="flex items-center gap-3 pl-8">
+                      <input
+                        type="checkbox"
+                        checked={overwriteConflicts}
+                        onChange={(e) => setOverwriteConflicts(e.target.checked)}
+                        className="w-5 h-5 accent-red-600"
+                      />
+                      冲突项使用内容包版本覆盖本机（不勾选则保留本机版本）
+                    </label>
+                  )}
+                  <label className="flex items-center gap-3">
+                    <input
+                      type="radio"
+                      name="import-mode"
+                      checked={mode === 'replace'}
+                      onChange={() => setMode('replace')}
+                      className="w-5 h-5 accent-red-600"
+                    />
+                    替换：将本机 {preview.localCounts.categories} 个类别、
+                    {preview.localCounts.entries} 个条目、{preview.localCounts.questions}{' '}
+                    道题目移入回收站后导入
+                  </label>
+                  {preview.hasQASettings && (
+                    <label className="flex items-center gap-3">
+                      <input
+                        type="checkbox"
+                        checked={importSettings}
+                        onChange={(e) => setImportSettings(e.target.checked)}
+                        className="w-5 h-5 accent-red-600"
+                      />
+                      同时导入答题设置
+                    </label>
+                  )}
+                </div>
+
+                <div className="flex gap-4 justify-end">
+                  <button
+                    onClick={() => setPreview(null)}
+                    disabled={isImporting}
+                    className="px-8 py-4 text-xl font-semibold rounded-xl bg-gray-300 text-gray-800 shadow-lg hover:bg-gray-400 transition-all duration-200 disabled:opacity-50"
+                  >
+                    取消
+                  </button>
+                  <button
+                    onClick={handleImport}
+                    disabled={isImporting}
+                    className="px-8 py-4 text-xl font-semibold rounded-xl bg-red-600 text-white shadow-lg hover:bg-red-700 hover:-translate-y-1 hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isImporting ? '导入中...' : '开始导入'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+/**
+ * Countdown Ring Component
+ * Circular timer that drains as time runs out and turns red for the last seconds
+ */
+
+import { cn } from '@renderer/utils/cn'
+
+interface CountdownRingProps {
+  /** Remaining time in milliseconds */
+  remaining: number
+  /** Full time in milliseconds */
+  total: number
+  /** Caption under the number */
+  label?: string
+  /** Seconds left at which the ring turns red */
+  warningSeconds?: number
+  className?: string
+}
+
+const RADIUS = 44
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS
+
+/**
+ * Format seconds as s or m:ss
+ */
+function formatSeconds(seconds: number): string {
+  if (seconds < 60) return String(seconds)
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+export function CountdownRing({
+  remaining,
+  total,
+  label,
+  warningSeconds = 5,
+  className
+}: CountdownRingProps): React.JSX.Element {
+  const clamped = Math.min(Math.max(remaining, 0), total)
+  const fraction = total > 0 ? clamped / total : 0
+  const seconds = Math.ceil(clamped / 1000)
+  const isWarning = seconds <= warningSeconds
+
+  return (
+    <div className={cn('relative shrink-0 w-20 h-20 lg:w-24 lg:h-24 xl:w-28 xl:h-28', className)}>
+      <svg viewBox="0 0 100 100" className="w-full h-full -rotate-90">
+        <circle
+          cx="50"
+          cy="50"
+          r={RADIUS}
+          fill="none"
+          strokeWidth="8"
+          className="stroke-red-900/50"
+        />
+        <circle
+          cx="50"
+          cy="50"
+          r={RADIUS}
+          fill="none"
+          strokeWidth="8"
+          strokeLinecap="round"
+          strokeDasharray={CIRCUMFERENCE}
+          strokeDashoffset={CIRCUMFERENCE * (1 - fraction)}
+          className={cn(
+            'transition-[stroke-dashoffset] duration-200 ease-linear',
+            isWarning
+              ? 'stroke-red-400 drop-shadow-[0_0_8px_rgba(248,113,113,0.8)]'
+              : 'stroke-yellow-300 drop-shadow-[0_0_8px_rgba(253,224,71,0.6)]'
+          )}
+        />
+      </svg>
+      <div className="absolute inset-0 flex flex-col items-center justify-center leading-none">
+        <span
+          className={cn(
+            'font-bold text-2xl lg:text-3xl xl:text-4xl',
+            isWarning ? 'text-red-300 animate-pulse' : 'text-yellow-200'
+          )}
+        >
+          {formatSeconds(seconds)}
+        </span>
+        {label && <span className="mt-1 text-xs lg:text-sm text-yellow-100/80">{label}</span>}
+      </div>
+    </div>
+  )
+}
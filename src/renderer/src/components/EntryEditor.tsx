@@ -12,15 +12,22 @@ import htmlToDraft from 'html-to-draftjs'
 import { Icon } from '@iconify/react'
 import saveIcon from '@iconify-icons/mdi/content-save'
 import arrowLeftIcon from '@iconify-icons/mdi/arrow-left'
+import historyIcon from '@iconify-icons/mdi/history'
 import { LoadingSpinner } from './LoadingSpinner'
+import { RevisionHistoryDialog, type RevisionField } from './RevisionHistoryDialog'
 import {
   getCategories,
   getEntriesByCategory,
   addEntry,
-  updateEntry
+  updateEntry,
+  storeMedia,
+  getEntryRevisions,
+  restoreEntryRevision
 } from '../services/adminStorage'
 import type { Category, Entry } from '../types/admin'
+import type { EntryRevision } from '../types/revision'
 import { cn } from '@renderer/utils/cn'
+import { htmlToTextLines } from '@renderer/utils/htmlUtils'
 import 'react-draft-wysiwyg-next/dist/react-draft-wysiwyg.css'
 
 export function EntryEditor(): React.JSX.Element {
@@ -41,6 +48,10 @@ export function EntryEditor(): React.JSX.Element {
   const [parentEntryId, setParentEntryId] = useState<string>('')
   const [chapterOrder, setChapterOrder] = useState(0)
   const [editorState, setEditorState] = useState(() => EditorState.createEmpty())
+  // Revision history dialog
+  const [showHistory, setShowHistory] = useState(false)
+  const [revisions, setRevisions] = useState<EntryRevision[]>([])
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false)
   const isMountedRef = useRef(true)
   // Scroll state for header background
   const [isScrolled, setIsScrolled] = useState(false)
@@ -191,6 +202,54 @@ export function EntryEditor(): React.JSX.Element {
     navigate(`/admin/entries/${categoryId}`)
   }
 
+  const loadRevisions = async (id: string): Promise<void> => {
+    setIsHistoryLoading(true)
+    try {
+      setRevisions(await getEntryRevisions(id))
+    } catch (error) {
+      console.error('[EntryEditor] Failed to load revisions:', error)
+      alert('加载历史版本失败，请重试')
+    } finally {
+      setIsHistoryLoading(false)
+    }
+  }
+
+  const handleShowHistory = (): void => {
+    if (!entryId) return
+    setShowHistory(true)
+    loadRevisions(entryId)
+  }
+
+  const handleRestoreRevision = async (revisionId: number): Promise<void> => {
+    if (!entryId) return
+    try {
+      await restoreEntryRevision(revisionId)
+      // Reload the editor with the restored version
+      await loadData()
+      await loadRevisions(entryId)
+    } catch (error) {
+      console.error('[EntryEditor] Failed to restore revision:', error)
+      alert(`恢复失败：${error instanceof Error ? error.message : '未知错误'}`)
+    }
+  }
+
+  const describeEntry = (snapshot: Entry): RevisionField[] => [
+    { label: '标题', lines: [snapshot.title] },
+    { label: '内容', lines: htmlToTextLines(snapshot.content) }
+  ]
+
+  // Uploaded images go to the media library; the editor inserts the returned URL
+  const handleImageUpload = async (file: File): Promise<{ data: { link: string } }> => {
+    try {
+      const link = await storeMedia(await file.arrayBuffer(), file.type)
+      return { data: { link } }
+    } catch (error) {
+      console.error('[EntryEditor] Failed to upload image:', error)
+      alert('上传图片失败，请重试')
+      throw error
+    }
+  }
+
   if (isLoading) {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen w-full relative z-10">
@@ -231,14 +290,27 @@ export function EntryEditor(): React.JSX.Element {
                 <p className="text-lg text-red-100">{category?.name || '条目管理'}</p>
               </div>
             </div>
-            <button
-              onClick={handleSave}
-              className="group flex items-center gap-2 px-6 py-3 rounded-lg transition-all duration-300 transform hover:scale-105 active:scale-100 font-bold shadow-lg hover:shadow-xl border-2 border-red-600 hover:border-red-700"
-              style={{ backgroundColor: '#fbfdba' }}
-            >
-              <Icon icon={saveIcon} className="text-xl text-red-600 group-hover:text-red-700" />
-              <span className="text-red-600 group-hover:text-red-700">保存</span>
-            </button>
+            <div className="flex items-center gap-3">
+              {entryId && entry && (
+                <button
+                  onClick={handleShowHistory}
+                  className="flex items-center gap-2 px-6 py-3 rounded-lg transition-colors shadow-lg text-gray-800 font-semibold hover:opacity-90"
+                  style={{ backgroundColor: '#fbfdba' }}
+                  title="查看修改和删除前保留的版本，对比差异并恢复"
+                >
+                  <Icon icon={historyIcon} className="text-xl" />
+                  <span>历史版本</span>
+                </button>
+              )}
+              <button
+                onClick={handleSave}
+                className="group flex items-center gap-2 px-6 py-3 rounded-lg transition-all duration-300 transform hover:scale-105 active:scale-100 font-bold shadow-lg hover:shadow-xl border-2 border-red-600 hover:border-red-700"
+                style={{ backgroundColor: '#fbfdba' }}
+              >
+                <Icon icon={saveIcon} className="text-xl text-red-600 group-hover:text-red-700" />
+                <span className="text-red-600 group-hover:text-red-700">保存</span>
+              </button>
+            </div>
           </div>
         </div>
 
@@ -402,6 +474,12 @@ export function EntryEditor(): React.JSX.Element {
                     fontSize: {
                       options: [8, 9, 10, 11, 12, 14, 16, 18, 24, 30, 36, 48, 60, 72, 96]
                     },
+                    image: {
+                      uploadEnabled: true,
+                      uploadCallback: handleImageUpload,
+                      previewImage: true,
+                      alt: { present: false, mandatory: false }
+                    },
                     fontFamily: {
                       options: [
                         'Arial',
@@ -422,6 +500,17 @@ export function EntryEditor(): React.JSX.Element {
           )}
         </div>
       </div>
+
+      <RevisionHistoryDialog
+        isOpen={showHistory}
+        title={`历史版本：${entry?.title ?? ''}`}
+        isLoading={isHistoryLoading}
+        revisions={revisions}
+        current={entry}
+        describe={describeEntry}
+        onRestore={handleRestoreRevision}
+        onClose={() => setShowHistory(false)}
+      />
     </div>
   )
 }
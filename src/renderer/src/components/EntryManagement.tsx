@@ -11,6 +11,9 @@ import addChildIcon from '@iconify-icons/mdi/folder-plus'
 import editIcon from '@iconify-icons/mdi/pencil'
 import addIcon from '@iconify-icons/mdi/plus'
 import uploadIcon from '@iconify-icons/mdi/upload'
+import exportIcon from '@iconify-icons/mdi/file-export'
+import excelImportIcon from '@iconify-icons/mdi/file-import'
+import deletedIcon from '@iconify-icons/mdi/delete-restore'
 import { Icon } from '@iconify/react'
 import { useEffect, useMemo, useRef, useState } from 'react'
 import { useNavigate, useParams } from 'react-router'
@@ -23,12 +26,19 @@ import logoutIcon from '@iconify-icons/mdi/logout'
 import { useAuth } from '../contexts/AuthContext'
 import {
   addEntry,
+  applyEntryImport,
   deleteEntry,
   getCategories,
   getEntriesByCategory,
+  previewEntryImport,
   updateEntry
 } from '../services/adminStorage'
-import type { Category, Entry } from '../types/admin'
+import {
+  exportEntriesToExcel,
+  parseEntriesFromExcelForCategory
+} from '../services/templateGenerator'
+import type { Category, Entry, ParsedEntryWithParent } from '../types/admin'
+import type { ImportAction, ImportPreview } from '../types/importPlan'
 import { getHtmlPreview } from '../utils/htmlUtils'
 import { ImportResultDialog, type ImportResult } from './ImportResultDialog'
 import { LoadingSpinner } from './LoadingSpinner'
@@ -60,6 +70,9 @@ export function EntryManagement(): React.JSX.Element {
   const [expandedEntries, setExpandedEntries] = useState<Set<string>>(new Set())
   const [showImportDialog, setShowImportDialog] = useState(false)
   const [importResult, setImportResult] = useState<ImportResult | null>(null)
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null)
+  // Excel rows waiting for the user to confirm the import preview
+  const pendingImportRef = useRef<ParsedEntryWithParent[]>([])
   const [showWordImportDialog, setShowWordImportDialog] = useState(false)
   // Selection state for batch delete
   const [selectedEntries, setSelectedEntries] = useState<Set<string>>(new Set())
@@ -134,12 +147,16 @@ export function EntryManagement(): React.JSX.Element {
     navigate(`/admin/entries/${categoryId}/edit?entryId=${entry.id}`)
   }
 
+  const handleRecycleBin = (): void => {
+    navigate('/admin/recycle-bin')
+  }
+
   const handleDelete = async (entry: Entry): Promise<void> => {
     // Check if entry has children
     const hasChildren = entries.some((e) => e.parentEntryId === entry.id)
     const message = hasChildren
-      ? `确定要删除条目"${entry.title}"吗？\n\n注意：这将同时删除所有子条目（共 ${entries.filter((e) => e.parentEntryId === entry.id).length} 个）。`
-      : `确定要删除条目"${entry.title}"吗？`
+      ? `确定要删除条目"${entry.title}"吗？\n\n注意：这将同时删除所有子条目（共 ${entries.filter((e) => e.parentEntryId === entry.id).length} 个）。\n删除后可在回收站中连同子条目一起恢复。`
+      : `确定要删除条目"${entry.title}"吗？\n\n删除后可在回收站中恢复。`
 
     if (confirm(message)) {
       try {
@@ -247,7 +264,7 @@ export function EntryManagement(): React.JSX.Element {
     }
 
     const selectedCount = selectedEntries.size
-    const message = `确定要删除选中的 ${selectedCount} 个条目吗？\n\n注意：如果选中的条目包含父条目，其所有子条目也会被删除。`
+    const message = `确定要删除选中的 ${selectedCount} 个条目吗？\n\n注意：如果选中的条目包含父条目，其所有子条目也会被删除。\n删除后可在回收站中恢复。`
 
     if (confirm(message)) {
       try {
@@ -524,6 +541,79 @@ export function EntryManagement(): React.JSX.Element {
   //   await generateEntriesTemplateForCategory(category.name)
   // }
 
+  const handleExportExcel = async (): Promise<void> => {
+    if (!category) {
+      alert('类别信息加载中，请稍候')
+      return
+    }
+    try {
+      await exportEntriesToExcel(category, entries)
+    } catch (error) {
+      console.error('[EntryManagement] Failed to export entries:', error)
+      alert('导出失败，请重试')
+    }
+  }
+
+  // Re-import an exported (and edited) sheet: rows are matched to existing entries by ID or title
+  // and the preview dialog applies the import once confirmed
+  const handleImportExcel = (): void => {
+    if (!category) {
+      alert('类别信息加载中，请稍候')
+      return
+    }
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = '.xlsx'
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0]
+      if (!file) return
+
+      let result: ImportResult
+      try {
+        const rows = await parseEntriesFromExcelForCategory(file, categoryId)
+        result = { successCount: 0, totalCount: rows.length, errors: [] }
+        if (rows.length === 0) {
+          result.errors.push({ index: 0, message: '文件中没有有效的条目数据' })
+        } else {
+          pendingImportRef.current = rows
+          setImportPreview(await previewEntryImport(categoryId, rows))
+        }
+      } catch (error) {
+        console.error('[EntryManagement] Failed to read entries from Excel:', error)
+        const errorMessage = error instanceof Error ? error.message : '未知错误'
+        result = { successCount: 0, totalCount: 0, errors: [{ index: 0, message: errorMessage }] }
+      }
+      setImportResult(result)
+      setShowImportDialog(true)
+    }
+    input.click()
+  }
+
+  // Word documents split into chapters go through the same comparison as Excel rows
+  const handleWordSectionsImport = async (rows: ParsedEntryWithParent[]): Promise<void> => {
+    pendingImportRef.current = rows
+    const preview = await previewEntryImport(categoryId, rows)
+    setImportPreview(preview)
+    setImportResult({ successCount: 0, totalCount: rows.length, errors: [] })
+    setShowImportDialog(true)
+  }
+
+  const handleConfirmEntryImport = async (actions: ImportAction[]): Promise<void> => {
+    try {
+      const summary = await applyEntryImport(categoryId, pendingImportRef.current, actions)
+      pendingImportRef.current = []
+      setImportPreview(null)
+      setImportResult((prev) =>
+        prev ? { ...prev, successCount: summary.inserted + summary.updated, summary } : prev
+      )
+      await loadData()
+    } catch (error) {
+      console.error('[EntryManagement] Failed to import entries:', error)
+      const errorMessage = error instanceof Error ? error.message : '未知错误'
+      alert(`导入失败：${errorMessage}`)
+    }
+  }
+
   const handleImportEntries = (): void => {
     if (!category) {
       alert('类别信息加载中，请稍候')
@@ -986,6 +1076,34 @@ export function EntryManagement(): React.JSX.Element {
                 <Icon icon={uploadIcon} className="text-xl" />
                 <span>导入文档</span>
               </button>
+              <button
+                onClick={handleImportExcel}
+                className="flex items-center gap-2 px-6 py-3 rounded-lg transition-colors shadow-lg text-gray-800 font-semibold hover:opacity-90"
+                style={{ backgroundColor: '#fbfdba' }}
+                title="导入 Excel 条目表，带条目ID的行会更新原条目"
+              >
+                <Icon icon={excelImportIcon} className="text-xl" />
+                <span>导入Excel</span>
+              </button>
+              <button
+                onClick={handleExportExcel}
+                disabled={entries.length === 0}
+                className="flex items-center gap-2 px-6 py-3 rounded-lg transition-colors shadow-lg text-gray-800 font-semibold hover:opacity-90 disabled:opacity-50"
+                style={{ backgroundColor: '#fbfdba' }}
+                title="按导入模板格式导出本类别全部条目"
+              >
+                <Icon icon={exportIcon} className="text-xl" />
+                <span>导出Excel</span>
+              </button>
+              <button
+                onClick={handleRecycleBin}
+                className="flex items-center gap-2 px-6 py-3 rounded-lg transition-colors shadow-lg text-gray-800 font-semibold hover:opacity-90"
+                style={{ backgroundColor: '#fbfdba' }}
+                title="查看并恢复已删除的条目"
+              >
+                <Icon icon={deletedIcon} className="text-xl" />
+                <span>回收站</span>
+              </button>
               <button
                 onClick={handleAdd}
                 className="flex items-center gap-2 px-6 py-3 rounded-lg transition-colors shadow-lg text-gray-800 font-semibold hover:opacity-90"
@@ -1046,6 +1164,7 @@ export function EntryManagement(): React.JSX.Element {
         isOpen={showWordImportDialog}
         onClose={() => setShowWordImportDialog(false)}
         onImport={handleWordImport}
+        onImportSections={handleWordSectionsImport}
       />
 
       {/* Import Result Dialog */}
@@ -1053,10 +1172,14 @@ export function EntryManagement(): React.JSX.Element {
         <ImportResultDialog
           isOpen={showImportDialog}
           onClose={() => {
+            pendingImportRef.current = []
+            setImportPreview(null)
             setShowImportDialog(false)
             setImportResult(null)
           }}
           result={importResult}
+          preview={importPreview}
+          onConfirm={handleConfirmEntryImport}
         />
       )}
     </div>
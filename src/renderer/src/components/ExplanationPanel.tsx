@@ -0,0 +1,59 @@
+/**
+ * Explanation Panel Component
+ * Shows why the answer is right after a question is finished, with a link to the source entry
+ */
+
+import { Icon } from '@iconify/react'
+import lightbulbIcon from '@iconify-icons/mdi/lightbulb-on-outline'
+import bookIcon from '@iconify-icons/mdi/book-open-page-variant'
+import type { Question } from '../types/question'
+
+interface ExplanationPanelProps {
+  question: Question
+  /** Open the referenced entry */
+  onOpenEntry: (entryId: string) => void
+}
+
+export function ExplanationPanel({
+  question,
+  onOpenEntry
+}: ExplanationPanelProps): React.JSX.Element | null {
+  const { explanation, entryId } = question
+  if (!explanation && !entryId) {
+    return null
+  }
+
+  return (
+    <div
+      className="fixed bottom-24 left-1/2 -translate-x-1/2 w-[90vw] max-w-5xl max-h-[40vh] overflow-y-auto z-[60] p-6 lg:p-8 rounded-2xl shadow-2xl border-2 border-yellow-300 text-gray-800 animate-scale-in"
+      style={{ backgroundColor: '#fbfdba' }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <div className="flex items-center gap-2 text-xl lg:text-2xl font-bold text-red-600">
+          <Icon icon={lightbulbIcon} />
+          <span>答案解析</span>
+        </div>
+        {entryId && (
+          <button
+            onClick={() => onOpenEntry(entryId)}
+            className="shrink-0 flex items-center gap-2 px-5 py-2 lg:py-3 text-lg lg:text-xl font-semibold rounded-xl bg-red-600 text-white shadow-lg hover:bg-red-700 transition-colors"
+          >
+            <Icon icon={bookIcon} />
+            <span>查看条文</span>
+          </button>
+        )}
+      </div>
+      {explanation ? (
+        <div
+          className="text-lg lg:text-xl leading-relaxed entry-content prose prose-lg max-w-none"
+          dangerouslySetInnerHTML={{ __html: explanation }}
+        />
+      ) : (
+        <p className="text-lg lg:text-xl text-gray-600">
+          本题依据关联条文出题，点击“查看条文”阅读原文。
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+/**
+ * Fill-Blank Question Components
+ * The question text with its blanks, and the bank of word tiles the visitor fills them from.
+ * Tapping a tile puts it in the next empty blank; tapping a filled blank takes the tile back
+ */
+
+import { Fragment } from 'react'
+import { splitAtBlanks } from '../utils/questionTypes'
+import type { Question } from '../types/question'
+
+interface FillBlankTextProps {
+  question: Question
+  /** Tiles placed so far, in blank order */
+  placed: number[]
+  isLocked: boolean
+  onSelectTile: (tile: number) => void
+}
+
+export function FillBlankText({
+  question,
+  placed,
+  isLocked,
+  onSelectTile
+}: FillBlankTextProps): React.JSX.Element {
+  const parts = splitAtBlanks(question.text)
+
+  return (
+    <>
+      {parts.map((part, index) => {
+        const isLastPart = index === parts.length - 1
+        const tile = placed[index]
+        const isFilled = tile !== undefined
+        return (
+          <Fragment key={index}>
+            {part}
+            {!isLastPart && (
+              <button
+                type="button"
+                className={`
+                  inline-flex items-center justify-center align-baseline mx-2 px-3 min-w-[4em]
+                  border-b-4 rounded-t-lg select-none transition-all duration-200
+                  ${
+                    isFilled
+                      ? 'bg-yellow-300/30 border-yellow-400 text-yellow-100'
+                      : 'bg-yellow-300/10 border-yellow-300/60 text-yellow-200/60'
+                  }
+                  ${isLocked || !isFilled ? 'cursor-default' : 'cursor-pointer hover:bg-yellow-300/40'}
+                `}
+                onClick={() => {
+                  if (!isLocked && isFilled) {
+                    onSelectTile(tile)
+                  }
+                }}
+                disabled={isLocked || !isFilled}
+                title={isFilled ? '点击取回' : undefined}
+              >
+                {isFilled ? question.options[tile] : `（${index + 1}）`}
+              </button>
+            )}
+          </Fragment>
+        )
+      })}
+    </>
+  )
+}
+
+interface WordTileBankProps {
+  question: Question
+  /** Tiles placed so far, in blank order */
+  placed: number[]
+  isLocked: boolean
+  onSelectTile: (tile: number) => void
+  /** Font size classes for the tile text */
+  textClassName: string
+}
+
+export function WordTileBank({
+  question,
+  placed,
+  isLocked,
+  onSelectTile,
+  textClassName
+}: WordTileBankProps): React.JSX.Element {
+  return (
+    <div className="flex flex-wrap justify-center gap-4 sm:gap-6 max-w-7xl mx-auto w-full">
+      {question.options.map((option, index) => {
+        const blank = placed.indexOf(index)
+        const isPlaced = blank !== -1
+        return (
+          <button
+            key={index}
+            type="button"
+            className={`
+              relative px-6 sm:px-8 md:px-10 py-3 sm:py-4 md:py-5
+              border-4 rounded-2xl backdrop-blur-md select-none
+              transition-all duration-200 ${textClassName}
+              ${
+                isPlaced
+                  ? 'bg-yellow-300/5 border-yellow-300/20 text-yellow-100/40'
+                  : 'bg-yellow-300/10 border-yellow-300/30 hover:bg-yellow-300/20 hover:border-yellow-400/50 hover:-translate-y-1 hover:shadow-[0_0_15px_rgba(253,224,71,0.3)]'
+              }
+              ${isLocked ? 'opacity-70 cursor-not-allowed' : 'cursor-pointer active:-translate-y-0.5'}
+            `}
+            onClick={() => {
+              if (!isLocked) {
+                onSelectTile(index)
+              }
+            }}
+            disabled={isLocked}
+          >
+            {option}
+            {isPlaced && (
+              <span className="absolute -top-3 -right-3 w-8 h-8 rounded-full bg-yellow-300 text-red-700 text-base font-bold flex items-center justify-center">
+                {blank + 1}
+              </span>
+            )}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
@@ -2,9 +2,10 @@
  * Home Page Component
  * Main entry point with navigation to different features
  * Left: Image with "党规党纪" text overlay
- * Right: Two vertical buttons (制度查询, 互动答题)
+ * Right: Vertical buttons (制度查询, 互动答题, and 多人对战 when enabled in the Q&A settings)
  */
 
+import { useState } from 'react'
 import { useNavigate } from 'react-router'
 import { Icon } from '@iconify/react'
 import settingsIcon from '@iconify-icons/mdi/cog'
@@ -12,18 +13,40 @@ import homeLeftIcon from '../assets/home-left-icon.png'
 import btnImage from '../assets/btn.png'
 import bgHomeImage from '../assets/bg-home.png'
 import { PillButton } from './PillButton'
+import { useQA } from '../contexts/QAContext'
+import { getPresetCategoryIds, getQASettings } from '../services/qaSettings'
+import { MAX_PLAYERS, MIN_PLAYERS } from '../store/matchStateMachine'
+
+const PLAYER_COUNTS = Array.from(
+  { length: MAX_PLAYERS - MIN_PLAYERS + 1 },
+  (_, index) => MIN_PLAYERS + index
+)
 
 export function HomePage(): React.JSX.Element {
   const navigate = useNavigate()
+  const { quizScope, startQuiz } = useQA()
+  const [isPickingPlayers, setIsPickingPlayers] = useState(false)
+  // Read on every render so changes saved in the admin pages apply right away
+  const { matchEnabled } = getQASettings()
 
   const handleQueryClick = (): void => {
     navigate('/query')
   }
 
   const handleQAClick = (): void => {
+    // Resume the current session unless it was started for a different scope
+    const preset = getPresetCategoryIds()
+    if ((preset ?? []).join() !== (quizScope ?? []).join()) {
+      startQuiz(preset)
+    }
     navigate('/qa')
   }
 
+  const handleMatchStart = (playerCount: number): void => {
+    setIsPickingPlayers(false)
+    navigate('/match', { state: { playerCount } })
+  }
+
   const handleAdminClick = (): void => {
     navigate('/admin')
   }
@@ -59,7 +82,7 @@ export function HomePage(): React.JSX.Element {
           </div>
         </div>
 
-        {/* Right side: Two vertical buttons */}
+        {/* Right side: Vertical buttons */}
         <div className="flex-1 max-w-md flex flex-col gap-8">
           {/* Button 1: 制度查询 */}
           <button
@@ -96,8 +119,65 @@ export function HomePage(): React.JSX.Element {
               </div>
             </div>
           </button>
+
+          {/* Button 3: 多人对战 */}
+          {matchEnabled && (
+            <button
+              onClick={() => setIsPickingPlayers(true)}
+              data-home-button="match"
+              className="group relative w-full p-8 flex items-center justify-center rounded-2xl transition-all duration-300 transform hover:scale-105 active:scale-100 overflow-hidden"
+            >
+              <img
+                src={btnImage}
+                alt=""
+                className="absolute inset-0 w-full h-full object-contain"
+              />
+              <div className="relative z-10 flex flex-col items-center justify-center gap-1">
+                <div className="text-4xl md:text-5xl font-bold text-gray-800 group-hover:text-red-600 transition-colors duration-300">
+                  多人对战
+                </div>
+                <div className="text-lg text-gray-600 group-hover:text-red-700 transition-colors duration-300">
+                  {MIN_PLAYERS}-{MAX_PLAYERS} 人同屏比拼
+                </div>
+              </div>
+            </button>
+          )}
         </div>
       </div>
+
+      {/* Player count picker for the head-to-head mode */}
+      {isPickingPlayers && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+          onClick={() => setIsPickingPlayers(false)}
+        >
+          <div
+            className="p-10 rounded-2xl shadow-2xl border-2 border-yellow-300 flex flex-col items-center gap-8"
+            style={{ backgroundColor: '#fbfdba' }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="text-3xl md:text-4xl font-bold text-red-600">选择玩家人数</div>
+            <div className="flex gap-6">
+              {PLAYER_COUNTS.map((count) => (
+                <button
+                  key={count}
+                  onClick={() => handleMatchStart(count)}
+                  className="w-32 h-32 rounded-2xl bg-red-600 text-white text-5xl font-bold shadow-lg hover:bg-red-700 hover:-translate-y-1 hover:shadow-xl transition-all duration-200"
+                >
+                  {count}
+                  <span className="block text-xl font-semibold mt-1">人</span>
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setIsPickingPlayers(false)}
+              className="px-8 py-3 text-xl font-semibold rounded-xl bg-gray-300 text-gray-800 hover:bg-gray-400 transition-colors"
+            >
+              取消
+            </button>
+          </div>
+        </div>
+      )}
       <PillButton floating size="md" onClick={handleAdminClick}>
         <div className="relative z-10 flex items-center gap-2">
           <Icon
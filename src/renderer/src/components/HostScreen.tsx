@@ -0,0 +1,717 @@
+/**
+ * Host Mode Screen
+ * Knowledge contests run by a presenter on the big screen: the presenter sets up the teams,
+ * advances the questions, reveals the options one by one and starts the countdown. Teams buzz
+ * in with their buzzer key or on the buzzer window, and the presenter judges the answer.
+ * Team scores carry over from round to round until a new contest is started
+ */
+
+import { useCallback, useEffect, useReducer, useState } from 'react'
+import { useNavigate } from 'react-router'
+import { Icon } from '@iconify/react'
+import arrowLeftIcon from '@iconify-icons/mdi/arrow-left'
+import trophyIcon from '@iconify-icons/mdi/trophy'
+import checkCircleIcon from '@iconify-icons/mdi/check-circle'
+import closeCircleIcon from '@iconify-icons/mdi/close-circle'
+import plusIcon from '@iconify-icons/mdi/plus'
+import minusIcon from '@iconify-icons/mdi/minus'
+import monitorMultipleIcon from '@iconify-icons/mdi/monitor-multiple'
+import bellRingIcon from '@iconify-icons/mdi/bell-ring'
+import {
+  HostState,
+  MAX_TEAMS,
+  MIN_TEAMS,
+  canTeamBuzz,
+  createInitialHostContext,
+  hostStateMachineReducer,
+  type HostContext
+} from '../store/hostStateMachine'
+import { useTeamBuzzerInput } from '../hooks/useKeyboardInput'
+import { useCountdown } from '../hooks/useCountdown'
+import { CountdownRing } from './CountdownRing'
+import { QuestionMediaView } from './QuestionMediaView'
+import { getQuestions } from '../services/questionStorage'
+import { getCategories } from '../services/adminStorage'
+import { createQuestionPool, selectRandomQuestions } from '../services/questionSelector'
+import { getHostRules, getQASettings, saveQASettings } from '../services/qaSettings'
+import {
+  clearHostScoreboard,
+  loadHostScoreboard,
+  saveHostScoreboard
+} from '../services/hostScoreboard'
+import { TEAM_BUZZER_KEYS } from '../services/inputHandler'
+import { getOptionLetter, shuffleQuestionOptions } from '../utils/questionOptions'
+import { formatCorrectAnswer } from '../utils/questionTypes'
+import { formatErrorForDisplay } from '../utils/errors'
+import { TEAM_STYLES } from '../utils/teamStyles'
+import { cn } from '@renderer/utils/cn'
+import type { Category } from '../types/admin'
+import type { Question } from '../types/question'
+
+const DEFAULT_TEAM_COUNT = 3
+
+function getDefaultTeamName(team: number): string {
+  return `第 ${team + 1} 组`
+}
+
+/**
+ * Option label: ✅/❌ for true-false questions, letters otherwise
+ */
+function getOptionLabel(question: Question, index: number): string {
+  if (question.optionType === 'true-false') {
+    return index === 0 ? '✅' : '❌'
+  }
+  return getOptionLetter(index)
+}
+
+/**
+ * Start from the saved scoreboard, so a contest carries on after a reload
+ */
+function createHostContext(): HostContext {
+  const saved = loadHostScoreboard()
+  return saved ? { ...createInitialHostContext(), ...saved } : createInitialHostContext()
+}
+
+/**
+ * Draw the questions of a round, leaving out those asked earlier in the contest
+ */
+async function loadRoundQuestions(
+  categoryId: string | null,
+  count: number,
+  askedQuestionIds: string[]
+): Promise<Question[]> {
+  const eligible = (await getQuestions()).filter(
+    (question) =>
+      !askedQuestionIds.includes(question.id) &&
+      (!categoryId || (question.categoryIds ?? []).includes(categoryId))
+  )
+  const { questions } = selectRandomQuestions(createQuestionPool(eligible), count)
+  return questions.map(shuffleQuestionOptions)
+}
+
+interface NumberFieldProps {
+  label: string
+  value: number
+  min: number
+  max?: number
+  onChange: (value: number) => void
+}
+
+function NumberField({ label, value, min, max, onChange }: NumberFieldProps): React.JSX.Element {
+  return (
+    <div>
+      <p className="mb-2 text-lg font-semibold text-gray-700">{label}</p>
+      <input
+        type="number"
+        min={min}
+        max={max}
+        value={value}
+        onChange={(e) => {
+          const numValue = Number.parseInt(e.target.value, 10)
+          const clamped = Math.max(min, Number.isNaN(numValue) ? min : numValue)
+          onChange(max === undefined ? clamped : Math.min(max, clamped))
+        }}
+        className="w-full px-6 py-4 text-2xl rounded-xl border-2 border-yellow-300 focus:border-yellow-400 focus:outline-none text-gray-800"
+        style={{ backgroundColor: '#fff' }}
+      />
+    </div>
+  )
+}
+
+export function HostScreen(): React.JSX.Element {
+  const navigate = useNavigate()
+  const [context, dispatch] = useReducer(hostStateMachineReducer, undefined, createHostContext)
+  const [teamNames, setTeamNames] = useState<string[]>(() =>
+    context.teams.length > 0
+      ? context.teams.map((team) => team.name)
+      : Array.from({ length: DEFAULT_TEAM_COUNT }, (_, team) => getDefaultTeamName(team))
+  )
+  const [settings, setSettings] = useState(getQASettings)
+  const [categories, setCategories] = useState<Category[]>([])
+  // Empty for questions from every category
+  const [categoryId, setCategoryId] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [isBuzzerWindowOpen, setIsBuzzerWindowOpen] = useState(false)
+  const question = context.questions[context.currentQuestionIndex]
+  const isRoundRunning = context.state !== HostState.IDLE && context.state !== HostState.ROUND_OVER
+
+  useEffect(() => {
+    getCategories()
+      .then((loaded) => setCategories(loaded.sort((a, b) => a.order - b.order)))
+      .catch((error) => console.error('[HostScreen] Failed to load categories:', error))
+  }, [])
+
+  // Team scores survive reloads and carry over to the next round
+  useEffect(() => {
+    saveHostScoreboard(context)
+  }, [context])
+
+  // Buzzer window: track whether it is open and close it when leaving the host mode
+  useEffect(() => {
+    window.api.host
+      .isBuzzerWindowOpen()
+      .then(setIsBuzzerWindowOpen)
+      .catch((error) => console.error('[HostScreen] Failed to check buzzer window:', error))
+
+    const handleClosed = (): void => setIsBuzzerWindowOpen(false)
+    window.electron.ipcRenderer.on('host:buzzerWindowClosed', handleClosed)
+
+    return () => {
+      window.electron.ipcRenderer.removeListener('host:buzzerWindowClosed', handleClosed)
+      window.api.host
+        .closeBuzzerWindow()
+        .catch((error) => console.error('[HostScreen] Failed to close buzzer window:', error))
+    }
+  }, [])
+
+  // Keep the buzzer window in step with the presenter's screen
+  useEffect(() => {
+    window.api.host.updateBuzzerPanel({
+      teams: context.teams.map((team) => team.name),
+      open: context.state === HostState.COUNTDOWN,
+      buzzedTeam: context.buzzedTeam,
+      lockedOutTeams: context.lockedOutTeams
+    })
+  }, [context.teams, context.state, context.buzzedTeam, context.lockedOutTeams])
+
+  // Buzzers: keys on either window and taps on the buzzer window; the first buzz wins
+  const handleBuzz = useCallback((team: number): void => dispatch({ type: 'BUZZ', team }), [])
+
+  useTeamBuzzerInput(handleBuzz, context.teams.length, context.state === HostState.COUNTDOWN)
+
+  useEffect(() => {
+    const handleRemoteBuzz = (_event: unknown, team: number): void => handleBuzz(team)
+    window.electron.ipcRenderer.on('host:buzz', handleRemoteBuzz)
+    return () => {
+      window.electron.ipcRenderer.removeListener('host:buzz', handleRemoteBuzz)
+    }
+  }, [handleBuzz])
+
+  const remaining = useCountdown(context.countdownDeadline, () => dispatch({ type: 'TIMEOUT' }))
+
+  const toggleBuzzerWindow = (): void => {
+    if (isBuzzerWindowOpen) {
+      window.api.host
+        .closeBuzzerWindow()
+        .catch((error) => console.error('[HostScreen] Failed to close buzzer window:', error))
+      return
+    }
+    window.api.host
+      .openBuzzerWindow()
+      .then((onSecondDisplay) => {
+        setIsBuzzerWindowOpen(true)
+        if (!onSecondDisplay) {
+          console.log('[HostScreen] No second display, buzzer window opened windowed')
+        }
+      })
+      .catch((error) => {
+        console.error('[HostScreen] Failed to open buzzer window:', error)
+        alert('打开抢答器窗口失败：' + formatErrorForDisplay(error).message)
+      })
+  }
+
+  const startRound = (): void => {
+    const names = teamNames.map((name, team) => name.trim() || getDefaultTeamName(team))
+    try {
+      saveQASettings({
+        hostQuestionCount: settings.hostQuestionCount,
+        hostQuestionTimeLimit: settings.hostQuestionTimeLimit,
+        hostCorrectPoints: settings.hostCorrectPoints,
+        hostWrongPenalty: settings.hostWrongPenalty
+      })
+    } catch (error) {
+      console.error('[HostScreen] Failed to save host settings:', error)
+    }
+
+    setIsLoading(true)
+    setLoadError(null)
+    loadRoundQuestions(categoryId || null, settings.hostQuestionCount, context.askedQuestionIds)
+      .then((questions) => {
+        if (questions.length === 0) {
+          setLoadError(
+            '没有可用的题目：所选类别的题目已在本场比赛中全部出过，或题库为空。请更换类别或开始新比赛。'
+          )
+          return
+        }
+        dispatch({ type: 'SET_TEAMS', names })
+        dispatch({ type: 'START_ROUND', questions, rules: getHostRules() })
+      })
+      .catch((error) => {
+        console.error('[HostScreen] Failed to load questions:', error)
+        const errorInfo = formatErrorForDisplay(error)
+        setLoadError(`${errorInfo.title}: ${errorInfo.message}`)
+      })
+      .finally(() => setIsLoading(false))
+  }
+
+  const startNewContest = (): void => {
+    if (!confirm('确定要开始新比赛吗？所有队伍的比分将被清零。')) {
+      return
+    }
+    dispatch({ type: 'RESET_CONTEST' })
+    clearHostScoreboard()
+  }
+
+  const setTeamCount = (count: number): void => {
+    setTeamNames((names) =>
+      Array.from({ length: count }, (_, team) => names[team] ?? getDefaultTeamName(team))
+    )
+  }
+
+  const standings = context.teams
+    .map((team, index) => ({ ...team, index }))
+    .sort((a, b) => b.score - a.score)
+  const topScore = standings[0]?.score
+
+  // Setup between rounds
+  if (!isRoundRunning || !question) {
+    return (
+      <div className="flex flex-col w-full relative z-10 h-screen overflow-y-auto">
+        <div className="w-full">
+          {/* Header */}
+          <div className="py-8 px-36">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => navigate('/admin')}
+                className="shrink-0 p-2 hover:opacity-80 transition-opacity"
+                title="返回管理后台"
+              >
+                <Icon icon={arrowLeftIcon} className="text-3xl text-white" />
+              </button>
+              <div>
+                <h1 className="text-4xl md:text-5xl font-bold text-white mb-2">主持人模式</h1>
+                <p className="text-lg text-red-100">
+                  {context.state === HostState.ROUND_OVER
+                    ? `第 ${context.round} 轮结束，比分已保留到下一轮`
+                    : '设置参赛队伍和本轮题目，由主持人控场进行抢答'}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="px-36 pb-36 flex flex-col gap-8">
+            {/* Standings */}
+            {standings.length > 0 && (
+              <div
+                className="p-8 rounded-2xl shadow-xl border-2 border-yellow-300"
+                style={{ backgroundColor: '#fbfdba' }}
+              >
+                <div className="flex items-center justify-between mb-4">
+                  <label className="text-2xl font-bold text-gray-800">
+                    比分（已进行 {context.round} 轮）
+                  </label>
+                  <button
+                    onClick={startNewContest}
+                    className="px-6 py-3 text-lg font-semibold rounded-xl border-2 border-red-300 text-red-600 hover:bg-red-50 transition-colors"
+                  >
+                    新比赛（比分清零）
+                  </button>
+                </div>
+                <div className="flex flex-col gap-3">
+                  {standings.map((team) => (
+                    <div
+                      key={team.index}
+                      className="flex items-center gap-4 px-6 py-3 rounded-xl bg-white/70"
+                    >
+                      {team.score === topScore && context.round > 0 ? (
+                        <Icon icon={trophyIcon} className="text-3xl text-yellow-500" />
+                      ) : (
+                        <span className="w-[30px]" />
+                      )}
+                      <span className="flex-1 text-2xl font-bold text-gray-800">{team.name}</span>
+                      <button
+                        onClick={() =>
+                          dispatch({
+                            type: 'ADJUST_SCORE',
+                            team: team.index,
+                            delta: -settings.hostCorrectPoints
+                          })
+                        }
+                        className="p-2 rounded-lg text-gray-600 hover:bg-yellow-200 transition-colors"
+                        title="扣分"
+                      >
+                        <Icon icon={minusIcon} className="text-2xl" />
+                      </button>
+                      <span className="w-24 text-center text-2xl font-bold text-red-600">
+                        {team.score}
+                      </span>
+                      <button
+                        onClick={() =>
+                          dispatch({
+                            type: 'ADJUST_SCORE',
+                            team: team.index,
+                            delta: settings.hostCorrectPoints
+                          })
+                        }
+                        className="p-2 rounded-lg text-gray-600 hover:bg-yellow-200 transition-colors"
+                        title="加分"
+                      >
+                        <Icon icon={plusIcon} className="text-2xl" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Teams */}
+            <div
+              className="p-8 rounded-2xl shadow-xl border-2 border-yellow-300"
+              style={{ backgroundColor: '#fbfdba' }}
+            >
+              <div className="flex items-center justify-between mb-4">
+                <label className="text-2xl font-bold text-gray-800">参赛队伍</label>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => setTeamCount(teamNames.length - 1)}
+                    disabled={teamNames.length <= MIN_TEAMS}
+                    className="p-2 rounded-lg text-gray-700 hover:bg-yellow-200 disabled:opacity-40 transition-colors"
+                    title="减少队伍"
+                  >
+                    <Icon icon={minusIcon} className="text-2xl" />
+                  </button>
+                  <span className="text-xl font-semibold text-gray-800">{teamNames.length} 队</span>
+                  <button
+                    onClick={() => setTeamCount(teamNames.length + 1)}
+                    disabled={teamNames.length >= MAX_TEAMS}
+                    className="p-2 rounded-lg text-gray-700 hover:bg-yellow-200 disabled:opacity-40 transition-colors"
+                    title="增加队伍"
+                  >
+                    <Icon icon={plusIcon} className="text-2xl" />
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {teamNames.map((name, team) => (
+                  <div key={team} className="flex items-center gap-3">
+                    <span
+                      className={cn(
+                        'shrink-0 w-12 h-12 flex items-center justify-center rounded-xl border-2 text-xl font-bold text-white',
+                        TEAM_STYLES[team].buzzer
+                      )}
+                      title="抢答键"
+                    >
+                      {TEAM_BUZZER_KEYS[team].label}
+                    </span>
+                    <input
+                      type="text"
+                      value={name}
+                      maxLength={20}
+                      placeholder={getDefaultTeamName(team)}
+                      onChange={(e) =>
+                        setTeamNames((names) =>
+                          names.map((other, index) => (index === team ? e.target.value : other))
+                        )
+                      }
+                      className="flex-1 px-6 py-3 text-2xl rounded-xl border-2 border-yellow-300 focus:border-yellow-400 focus:outline-none text-gray-800"
+                      style={{ backgroundColor: '#fff' }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="mt-4 text-lg text-gray-700">
+                各队按数字键 1-{MAX_TEAMS}（主键盘或小键盘）抢答，也可以在抢答器窗口点击本队按钮。
+                改名会保留比分；减少队伍会移除最后一队的比分。
+              </p>
+            </div>
+
+            {/* Round settings */}
+            <div
+              className="p-8 rounded-2xl shadow-xl border-2 border-yellow-300"
+              style={{ backgroundColor: '#fbfdba' }}
+            >
+              <label className="block text-2xl font-bold text-gray-800 mb-4">本轮设置</label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <NumberField
+                  label="题目数量"
+                  value={settings.hostQuestionCount}
+                  min={1}
+                  max={settings.maxQuestionCount}
+                  onChange={(value) => setSettings({ ...settings, hostQuestionCount: value })}
+                />
+                <div>
+                  <p className="mb-2 text-lg font-semibold text-gray-700">题目类别</p>
+                  <select
+                    value={categoryId}
+                    onChange={(e) => setCategoryId(e.target.value)}
+                    className="w-full px-6 py-4 text-2xl rounded-xl border-2 border-yellow-300 focus:border-yellow-400 focus:outline-none text-gray-800"
+                    style={{ backgroundColor: '#fff' }}
+                  >
+                    <option value="">全部题目</option>
+                    {categories.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <NumberField
+                  label="抢答限时（秒）"
+                  value={settings.hostQuestionTimeLimit}
+                  min={5}
+                  onChange={(value) => setSettings({ ...settings, hostQuestionTimeLimit: value })}
+                />
+                <NumberField
+                  label="答对得分（乘以题目分值）"
+                  value={settings.hostCorrectPoints}
+                  min={0}
+                  onChange={(value) => setSettings({ ...settings, hostCorrectPoints: value })}
+                />
+                <NumberField
+                  label="答错扣分（0 为不扣分）"
+                  value={settings.hostWrongPenalty}
+                  min={0}
+                  onChange={(value) => setSettings({ ...settings, hostWrongPenalty: value })}
+                />
+              </div>
+              <p className="mt-4 text-lg text-gray-700">
+                倒计时只在抢答开放时计时，有队伍抢答后暂停。答错的队伍本题不能再抢答，其他队伍可继续抢答。
+              </p>
+            </div>
+
+            {loadError && (
+              <div className="p-6 rounded-2xl bg-red-900/60 text-white text-xl">{loadError}</div>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-6">
+              <button
+                onClick={startRound}
+                disabled={isLoading}
+                className="px-12 py-5 text-2xl font-semibold rounded-xl bg-red-700 text-white shadow-lg hover:bg-red-800 hover:-translate-y-1 hover:shadow-xl transition-all duration-200 disabled:opacity-60"
+              >
+                {isLoading ? '加载中...' : `开始第 ${context.round + 1} 轮`}
+              </button>
+              <button
+                onClick={toggleBuzzerWindow}
+                className="px-12 py-5 text-2xl font-semibold rounded-xl shadow-lg border-2 border-yellow-300 hover:border-yellow-400 transition-all duration-200 text-red-600 flex items-center justify-center gap-3"
+                style={{ backgroundColor: '#fbfdba' }}
+              >
+                <Icon icon={monitorMultipleIcon} className="text-3xl" />
+                {isBuzzerWindowOpen ? '关闭抢答器窗口' : '打开抢答器窗口'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  // Presenter's screen during a round
+  const isAnswerRevealed = context.state === HostState.ANSWER_REVEALED
+  const isChoiceQuestion =
+    question.questionType === 'single' || question.questionType === 'multiple'
+  const correctAnswers = Array.isArray(question.correctAnswer)
+    ? question.correctAnswer
+    : [question.correctAnswer]
+  const totalMs = context.rules.questionSeconds * 1000
+  const buzzedTeam = context.buzzedTeam !== null ? context.teams[context.buzzedTeam] : null
+  const winningTeam = context.winningTeam !== null ? context.teams[context.winningTeam] : null
+  const optionGridClass =
+    question.options.length <= 2 ? 'grid-cols-2' : 'grid-cols-1 sm:grid-cols-2'
+
+  return (
+    <div className="w-screen h-screen flex flex-col text-white overflow-hidden">
+      {/* Progress, buzzer window and countdown */}
+      <div className="flex items-center px-4 sm:px-8 md:px-16 py-4 bg-red-700/10 backdrop-blur-xs gap-6 shrink-0 border-b border-yellow-300/20">
+        <div className="flex-1 text-xl lg:text-2xl xl:text-3xl opacity-90">
+          第 {context.round} 轮 · 第 {context.currentQuestionIndex + 1} 题 / 共{' '}
+          {context.questions.length} 题
+        </div>
+        <button
+          onClick={toggleBuzzerWindow}
+          className="p-3 bg-red-700/40 hover:bg-red-500/30 rounded-lg transition-all duration-200 backdrop-blur-sm border border-yellow-300/50 hover:border-yellow-400"
+          title={isBuzzerWindowOpen ? '关闭抢答器窗口' : '打开抢答器窗口'}
+        >
+          <Icon icon={monitorMultipleIcon} className="text-3xl text-yellow-300" />
+        </button>
+        <button
+          onClick={() => {
+            if (confirm('确定要提前结束本轮吗？比分会保留。')) {
+              dispatch({ type: 'END_ROUND' })
+            }
+          }}
+          className="px-5 py-3 text-lg font-semibold rounded-lg bg-red-700/40 hover:bg-red-500/30 border border-yellow-300/50 hover:border-yellow-400 transition-all duration-200"
+        >
+          结束本轮
+        </button>
+        <CountdownRing
+          remaining={remaining ?? (isAnswerRevealed ? 0 : context.remainingMs)}
+          total={totalMs}
+          label="抢答"
+        />
+      </div>
+
+      {/* Question and options */}
+      <div className="flex-1 flex flex-col gap-4 px-6 sm:px-8 md:px-16 lg:px-24 py-6 overflow-auto">
+        <div className="text-3xl lg:text-4xl xl:text-5xl font-bold leading-relaxed drop-shadow-md max-w-7xl mx-auto w-full wrap-break-word">
+          {question.text}
+        </div>
+        {question.media && (
+          <div className="flex justify-center max-w-7xl mx-auto w-full">
+            <QuestionMediaView media={question.media} className="max-h-[25vh] max-w-full" />
+          </div>
+        )}
+        <div className={cn('grid gap-4 max-w-7xl mx-auto w-full', optionGridClass)}>
+          {question.options.map((option, index) => {
+            const isShown = index < context.revealedOptions
+            const isCorrect = isAnswerRevealed && isChoiceQuestion && correctAnswers.includes(index)
+            const optionMedia = question.optionMedia?.[index]
+            return (
+              <div
+                key={index}
+                className={cn(
+                  'flex items-center gap-4 px-6 py-4 rounded-2xl border-4 backdrop-blur-md transition-all duration-500',
+                  isShown
+                    ? 'bg-yellow-300/10 border-yellow-300/30'
+                    : 'border-dashed border-white/20',
+                  isCorrect &&
+                    'bg-green-500/30 border-green-400 shadow-[0_0_20px_rgba(74,222,128,0.6)]'
+                )}
+              >
+                <span className="text-2xl lg:text-3xl font-bold min-w-[40px]">
+                  {getOptionLabel(question, index)}
+                </span>
+                {isShown ? (
+                  <span className="flex-1 text-2xl lg:text-3xl">
+                    {optionMedia && (
+                      <QuestionMediaView
+                        media={optionMedia}
+                        isOption
+                        className="block mb-2 max-h-[12vh]"
+                      />
+                    )}
+                    {option}
+                  </span>
+                ) : (
+                  <span className="flex-1 text-2xl lg:text-3xl opacity-30">？</span>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        {/* Who has the floor, or how the question ended */}
+        {buzzedTeam && context.buzzedTeam !== null && (
+          <div
+            className={cn(
+              'max-w-7xl mx-auto w-full flex items-center justify-center gap-4 py-6 rounded-2xl border-4 text-4xl lg:text-5xl font-bold',
+              TEAM_STYLES[context.buzzedTeam].card
+            )}
+          >
+            <Icon icon={bellRingIcon} className="text-yellow-300 animate-bounce" />
+            {buzzedTeam.name} 抢答！
+          </div>
+        )}
+        {isAnswerRevealed && (
+          <div className="max-w-7xl mx-auto w-full flex flex-col items-center gap-2 py-4 rounded-2xl bg-black/20 text-3xl lg:text-4xl font-bold">
+            <div className="flex items-center gap-3">
+              <Icon
+                icon={winningTeam ? checkCircleIcon : closeCircleIcon}
+                className={winningTeam ? 'text-green-300' : 'text-red-300'}
+              />
+              {winningTeam ? `${winningTeam.name} 回答正确！` : '无队伍答对'}
+            </div>
+            <div className="text-2xl lg:text-3xl font-semibold text-yellow-200">
+              正确答案：{formatCorrectAnswer(question)}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Presenter controls; the bottom right corner is left to the back to home button */}
+      <div className="flex flex-wrap items-center gap-4 px-4 sm:px-8 md:px-16 py-3 pr-36 shrink-0 bg-red-900/30 border-t border-yellow-300/20">
+        {context.state === HostState.QUESTION && (
+          <>
+            <button
+              onClick={() => dispatch({ type: 'REVEAL_OPTION' })}
+              disabled={context.revealedOptions >= question.options.length}
+              className="px-6 py-3 text-xl lg:text-2xl font-semibold rounded-xl bg-yellow-300/20 border-2 border-yellow-300/60 hover:bg-yellow-300/30 disabled:opacity-40 transition-colors"
+            >
+              显示下一个选项（{context.revealedOptions}/{question.options.length}）
+            </button>
+            <button
+              onClick={() => dispatch({ type: 'START_COUNTDOWN' })}
+              className="px-6 py-3 text-xl lg:text-2xl font-semibold rounded-xl bg-yellow-300 text-red-700 shadow-lg hover:bg-yellow-200 transition-colors"
+            >
+              开始抢答
+            </button>
+          </>
+        )}
+        {context.state === HostState.COUNTDOWN && (
+          <div className="text-xl lg:text-2xl font-semibold text-yellow-300 animate-pulse">
+            抢答开放中，等待队伍抢答...
+          </div>
+        )}
+        {context.state === HostState.BUZZED && (
+          <>
+            <button
+              onClick={() => dispatch({ type: 'JUDGE_ANSWER', isCorrect: true })}
+              className="px-6 py-3 text-xl lg:text-2xl font-semibold rounded-xl bg-green-600 hover:bg-green-500 shadow-lg flex items-center gap-2 transition-colors"
+            >
+              <Icon icon={checkCircleIcon} />
+              回答正确
+            </button>
+            <button
+              onClick={() => dispatch({ type: 'JUDGE_ANSWER', isCorrect: false })}
+              className="px-6 py-3 text-xl lg:text-2xl font-semibold rounded-xl bg-red-700 hover:bg-red-600 shadow-lg flex items-center gap-2 transition-colors"
+            >
+              <Icon icon={closeCircleIcon} />
+              回答错误
+            </button>
+          </>
+        )}
+        {!isAnswerRevealed && (
+          <button
+            onClick={() => dispatch({ type: 'REVEAL_ANSWER' })}
+            className="px-6 py-3 text-xl lg:text-2xl font-semibold rounded-xl bg-red-700/40 border-2 border-yellow-300/50 hover:bg-red-500/30 transition-colors"
+          >
+            揭晓答案
+          </button>
+        )}
+        {isAnswerRevealed && (
+          <button
+            onClick={() => dispatch({ type: 'NEXT_QUESTION' })}
+            className="px-6 py-3 text-xl lg:text-2xl font-semibold rounded-xl bg-yellow-300 text-red-700 shadow-lg hover:bg-yellow-200 transition-colors"
+          >
+            {context.currentQuestionIndex >= context.questions.length - 1 ? '结束本轮' : '下一题'}
+          </button>
+        )}
+      </div>
+
+      {/* Teams; during the countdown the presenter can record a buzz by tapping a team */}
+      <div
+        className="grid gap-4 px-4 sm:px-8 pb-4 pt-3 pr-36 shrink-0"
+        style={{ gridTemplateColumns: `repeat(${context.teams.length}, minmax(0, 1fr))` }}
+      >
+        {context.teams.map((team, index) => {
+          const isLockedOut = context.lockedOutTeams.includes(index)
+          const hasFloor = context.buzzedTeam === index || context.winningTeam === index
+          const canBuzz = canTeamBuzz(context, index)
+          return (
+            <button
+              key={index}
+              onClick={() => handleBuzz(index)}
+              disabled={!canBuzz}
+              className={cn(
+                'flex flex-col items-center gap-1 px-3 py-3 rounded-2xl border-4 backdrop-blur-md transition-all duration-300',
+                TEAM_STYLES[index].card,
+                hasFloor && 'scale-105 border-yellow-300 shadow-[0_0_24px_rgba(253,224,71,0.6)]',
+                isLockedOut && 'opacity-40',
+                canBuzz && 'hover:brightness-125'
+              )}
+            >
+              <span className={cn('text-xl lg:text-2xl font-bold', TEAM_STYLES[index].text)}>
+                {team.name}
+              </span>
+              <span className="text-3xl lg:text-4xl font-bold text-yellow-200">{team.score}</span>
+              <span className="text-sm opacity-70">
+                {isLockedOut ? '本题已答错' : `抢答键 ${TEAM_BUZZER_KEYS[index].label}`}
+              </span>
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+/**
+ * Idle Watcher Component
+ * Returns the kiosk to a clean home page once visitors walk away
+ * After the idle timeout a countdown overlay is shown; when it runs out the quiz session
+ * is reset, the app goes home and the attract loop plays until the next touch
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { useLocation, useNavigate } from 'react-router'
+import { useQA } from '../contexts/QAContext'
+import { useIdleTimer } from '../hooks/useIdleTimer'
+import { useCountdown } from '../hooks/useCountdown'
+import { getKioskSettings } from '../services/kioskSettings'
+import { getPresetCategoryIds } from '../services/qaSettings'
+import { CountdownRing } from './CountdownRing'
+import { AttractLoop } from './AttractLoop'
+
+type IdlePhase = 'active' | 'countdown' | 'attract'
+
+export function IdleWatcher(): React.JSX.Element {
+  const navigate = useNavigate()
+  const location = useLocation()
+  const { hasSessionProgress, startQuiz } = useQA()
+  const [phase, setPhase] = useState<IdlePhase>('active')
+  const [deadline, setDeadline] = useState<number | null>(null)
+
+  // Read on every render so changes saved in the admin pages apply right away
+  const settings = getKioskSettings()
+  const isHomePage = location.pathname === '/'
+  // Operators working in the admin pages are left alone; the login screen is not
+  const isAdminPage = location.pathname.startsWith('/admin') && location.pathname !== '/admin/login'
+  const isWatching = phase === 'active' && settings.idleTimeout > 0 && !isAdminPage
+
+  const returnHome = (): void => {
+    console.log('[IdleWatcher] Idle timeout reached, returning to home')
+    if (hasSessionProgress) {
+      // Start over so the next visitor does not get the abandoned quiz restored
+      startQuiz(getPresetCategoryIds())
+    }
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur()
+    }
+    navigate('/', { replace: true })
+    setDeadline(null)
+    setPhase(settings.attractMode === 'none' ? 'active' : 'attract')
+  }
+
+  const handleIdle = (): void => {
+    if (isHomePage && !hasSessionProgress) {
+      // Nothing to clean up, go straight to the attract loop
+      if (settings.attractMode !== 'none') {
+        setPhase('attract')
+      }
+      return
+    }
+    if (settings.idleCountdown <= 0) {
+      returnHome()
+      return
+    }
+    setDeadline(Date.now() + settings.idleCountdown * 1000)
+    setPhase('countdown')
+  }
+
+  const wake = useCallback((): void => {
+    setDeadline(null)
+    setPhase('active')
+  }, [])
+
+  useIdleTimer(isWatching ? settings.idleTimeout * 1000 : null, handleIdle)
+  const remaining = useCountdown(phase === 'countdown' ? deadline : null, returnHome)
+
+  // Any key cancels the countdown, like a touch on the overlay
+  useEffect(() => {
+    if (phase !== 'countdown') {
+      return undefined
+    }
+    window.addEventListener('keydown', wake)
+    return () => window.removeEventListener('keydown', wake)
+  }, [phase, wake])
+
+  if (phase === 'attract') {
+    return <AttractLoop settings={settings} onExit={wake} />
+  }
+
+  if (phase === 'countdown' && remaining !== null) {
+    return (
+      <div
+        onClick={wake}
+        className="fixed inset-0 z-80 flex items-center justify-center bg-black/60 backdrop-blur-sm cursor-pointer select-none"
+      >
+        <div className="flex flex-col items-center gap-6 px-16 py-12 rounded-2xl border-2 border-yellow-300 bg-red-700/95 shadow-2xl text-center animate-scale-in">
+          <h2 className="text-4xl md:text-5xl font-bold text-yellow-200">还在使用吗？</h2>
+          <CountdownRing
+            remaining={remaining}
+            total={settings.idleCountdown * 1000}
+            label="秒"
+            warningSeconds={3}
+          />
+          <p className="text-2xl text-yellow-100">
+            {hasSessionProgress
+              ? '倒计时结束后将返回首页，本次答题进度不会保留'
+              : '倒计时结束后将返回首页'}
+          </p>
+          <button
+            onClick={wake}
+            className="px-12 py-4 text-2xl font-bold rounded-xl bg-yellow-300 text-red-700 shadow-lg hover:bg-yellow-200 transition-colors"
+          >
+            继续使用
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return <></>
+}
@@ -1,12 +1,22 @@
 /**
  * Import Result Dialog Component
  * Displays import results with success count and error details
+ * With a preview it first shows the dry-run diff and lets the user pick an action per row
  */
 
+import { useState } from 'react'
 import { Icon } from '@iconify/react'
 import closeIcon from '@iconify-icons/mdi/close'
 import checkCircleIcon from '@iconify-icons/mdi/check-circle'
 import alertCircleIcon from '@iconify-icons/mdi/alert-circle'
+import { cn } from '@renderer/utils/cn'
+import type {
+  ImportAction,
+  ImportPreview,
+  ImportRowPreview,
+  ImportRowStatus,
+  ImportSummary
+} from '../types/importPlan'
 
 export interface ImportResult {
   successCount: number
@@ -15,21 +25,198 @@ export interface ImportResult {
     index: number
     message: string
   }>
+  /** What an import that matches existing rows changed */
+  summary?: ImportSummary
 }
 
 interface ImportResultDialogProps {
   isOpen: boolean
   onClose: () => void
   result: ImportResult | null
+  /** Dry-run comparison; when set the dialog asks for confirmation before importing */
+  preview?: ImportPreview | null
+  /** Import with one action per previewed row */
+  onConfirm?: (actions: ImportAction[]) => Promise<void>
+}
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: '新增',
+  changed: '有修改',
+  unchanged: '无变化',
+  conflict: '冲突'
+}
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  new: 'bg-green-100 text-green-800 border-green-300',
+  changed: 'bg-blue-100 text-blue-800 border-blue-300',
+  unchanged: 'bg-gray-100 text-gray-700 border-gray-300',
+  conflict: 'bg-red-100 text-red-800 border-red-300'
+}
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  insert: '新增',
+  update: '更新已有',
+  skip: '跳过'
+}
+
+// Question and entry fields reported in changedFields
+const FIELD_LABELS: Record<string, string> = {
+  text: '题干',
+  questionType: '题型',
+  optionType: '选项类型',
+  options: '选项',
+  correctAnswer: '正确答案',
+  acceptedAnswers: '可接受答案',
+  shuffleOptions: '打乱选项',
+  points: '分值',
+  explanation: '答案解析',
+  entryId: '关联条目',
+  categoryIds: '所属分类',
+  title: '标题',
+  content: '内容',
+  parent: '父条目',
+  chapterOrder: '章节顺序'
+}
+
+function describeRow(row: ImportRowPreview): string {
+  if (row.message) return row.message
+  if (!row.localTitle) return '将作为新数据导入'
+  const matched = `匹配已有"${row.localTitle}"（按${row.matchedBy === 'id' ? 'ID' : '内容'}）`
+  if (row.changedFields.length === 0) return matched
+  return `${matched}，修改：${row.changedFields.map((f) => FIELD_LABELS[f] ?? f).join('、')}`
+}
+
+/**
+ * Dry-run diff with a per-row action picker
+ * Mounted only while a preview is shown, so the picked actions reset for every import
+ */
+function ImportPreviewPanel({
+  preview,
+  onConfirm,
+  onCancel
+}: {
+  preview: ImportPreview
+  onConfirm: (actions: ImportAction[]) => Promise<void>
+  onCancel: () => void
+}): React.JSX.Element {
+  const [actions, setActions] = useState<ImportAction[]>(() =>
+    preview.rows.map((row) => row.defaultAction)
+  )
+  const [showUnchanged, setShowUnchanged] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+
+  const count = (action: ImportAction): number => actions.filter((a) => a === action).length
+  const visibleRows = preview.rows.filter((row) => showUnchanged || row.status !== 'unchanged')
+
+  const handleConfirm = async (): Promise<void> => {
+    setIsApplying(true)
+    try {
+      await onConfirm(actions)
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-4 gap-3">
+        {(Object.keys(STATUS_LABELS) as ImportRowStatus[]).map((status) => (
+          <div
+            key={status}
+            className={cn('p-3 rounded-lg border-2 text-center', STATUS_STYLES[status])}
+          >
+            <div className="text-2xl font-bold">{preview.counts[status]}</div>
+            <div className="text-sm">{STATUS_LABELS[status]}</div>
+          </div>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={showUnchanged}
+          onChange={(e) => setShowUnchanged(e.target.checked)}
+        />
+        显示无变化的数据
+      </label>
+
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        {visibleRows.length === 0 ? (
+          <p className="py-6 text-center text-gray-600">没有需要导入的变化</p>
+        ) : (
+          visibleRows.map((row) => (
+            <div
+              key={row.index}
+              className="flex items-start gap-3 p-3 rounded bg-white border border-yellow-200"
+            >
+              <span
+                className={cn(
+                  'shrink-0 px-2 py-0.5 rounded border text-xs font-semibold',
+                  STATUS_STYLES[row.status]
+                )}
+              >
+                {STATUS_LABELS[row.status]}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-gray-800 truncate">{row.title}</p>
+                <p className="text-xs text-gray-600 mt-1">{describeRow(row)}</p>
+              </div>
+              <select
+                value={actions[row.index]}
+                onChange={(e) => {
+                  const next = [...actions]
+                  next[row.index] = e.target.value as ImportAction
+                  setActions(next)
+                }}
+                disabled={isApplying}
+                className="shrink-0 px-2 py-1 rounded border border-gray-300 bg-white text-sm"
+              >
+                {(['insert', 'update', 'skip'] as ImportAction[])
+                  .filter((action) => action !== 'update' || row.matchedId)
+                  .map((action) => (
+                    <option key={action} value={action}>
+                      {ACTION_LABELS[action]}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="flex justify-end gap-3 pt-4">
+        <button
+          onClick={onCancel}
+          disabled={isApplying}
+          className="px-6 py-3 rounded-lg border-2 border-gray-300 text-gray-800 hover:bg-white/60 transition-colors font-semibold disabled:opacity-50"
+        >
+          取消
+        </button>
+        <button
+          onClick={handleConfirm}
+          disabled={isApplying || count('insert') + count('update') === 0}
+          className="px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors shadow-md hover:shadow-lg font-semibold disabled:opacity-50"
+        >
+          {isApplying
+            ? '导入中...'
+            : `确认导入（新增 ${count('insert')}，更新 ${count('update')}）`}
+        </button>
+      </div>
+    </div>
+  )
 }
 
 export function ImportResultDialog({
   isOpen,
   onClose,
-  result
+  result,
+  preview,
+  onConfirm
 }: ImportResultDialogProps): React.JSX.Element | null {
   if (!isOpen || !result) return null
 
+  const isPreview = !!preview && !!onConfirm
+
   const hasErrors = result.errors.length > 0
   const allSuccess = result.successCount === result.totalCount && !hasErrors
 
@@ -44,7 +231,9 @@ export function ImportResultDialog({
         onClick={(e) => e.stopPropagation()}
       >
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-2xl font-bold text-gray-800">导入结果</h2>
+          <h2 className="text-2xl font-bold text-gray-800">
+            {isPreview ? '导入预览' : '导入结果'}
+          </h2>
           <button
             onClick={onClose}
             className="text-gray-800 hover:text-red-600 transition-colors"
@@ -56,40 +245,48 @@ export function ImportResultDialog({
 
         <div className="space-y-4">
           {/* Summary */}
-          <div
-            className={`p-4 rounded-lg border-2 ${
-              allSuccess
-                ? 'bg-green-50 border-green-300'
-                : hasErrors
-                  ? 'bg-yellow-50 border-yellow-300'
-                  : 'bg-blue-50 border-blue-300'
-            }`}
-          >
-            <div className="flex items-center gap-3 mb-2">
-              <Icon
-                icon={allSuccess ? checkCircleIcon : alertCircleIcon}
-                className={`text-3xl ${allSuccess ? 'text-green-600' : 'text-yellow-600'}`}
-              />
-              <div>
-                <p className="text-lg font-bold text-gray-800">
-                  {allSuccess
-                    ? '导入成功'
-                    : hasErrors
-                      ? '部分导入成功'
-                      : '导入完成'}
-                </p>
-                <p className="text-sm text-gray-600">
-                  成功: {result.successCount} / 总计: {result.totalCount}
-                </p>
+          {!isPreview && (
+            <div
+              className={`p-4 rounded-lg border-2 ${
+                allSuccess
+                  ? 'bg-green-50 border-green-300'
+                  : hasErrors
+                    ? 'bg-yellow-50 border-yellow-300'
+                    : 'bg-blue-50 border-blue-300'
+              }`}
+            >
+              <div className="flex items-center gap-3 mb-2">
+                <Icon
+                  icon={allSuccess ? checkCircleIcon : alertCircleIcon}
+                  className={`text-3xl ${allSuccess ? 'text-green-600' : 'text-yellow-600'}`}
+                />
+                <div>
+                  <p className="text-lg font-bold text-gray-800">
+                    {allSuccess
+                      ? '导入成功'
+                      : hasErrors
+                        ? '部分导入成功'
+                        : '导入完成'}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    成功: {result.successCount} / 总计: {result.totalCount}
+                  </p>
+                  {result.summary && (
+                    <p className="text-sm text-gray-600">
+                      新增 {result.summary.inserted} 条，更新 {result.summary.updated} 条，跳过{' '}
+                      {result.summary.skipped} 条
+                    </p>
+                  )}
+                </div>
               </div>
             </div>
-          </div>
+          )}
 
           {/* Error Details */}
           {hasErrors && (
             <div className="p-4 rounded-lg bg-red-50 border-2 border-red-300">
               <h3 className="text-lg font-bold text-red-800 mb-3">
-                错误详情 ({result.errors.length} 条)
+                {isPreview ? '未通过校验、不会导入' : '错误详情'} ({result.errors.length} 条)
               </h3>
               <div className="space-y-2 max-h-60 overflow-y-auto">
                 {result.errors.map((error, idx) => (
@@ -107,15 +304,19 @@ export function ImportResultDialog({
             </div>
           )}
 
-          {/* Close Button */}
-          <div className="flex justify-end pt-4">
-            <button
-              onClick={onClose}
-              className="px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors shadow-md hover:shadow-lg font-semibold"
-            >
-              确定
-            </button>
-          </div>
+          {preview && onConfirm ? (
+            <ImportPreviewPanel preview={preview} onConfirm={onConfirm} onCancel={onClose} />
+          ) : (
+            /* Close Button */
+            <div className="flex justify-end pt-4">
+              <button
+                onClick={onClose}
+                className="px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors shadow-md hover:shadow-lg font-semibold"
+              >
+                确定
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,318 @@
+/**
+ * Kiosk Settings Component
+ * Configures the idle timeout and the attract loop played while nobody uses the kiosk
+ */
+
+import { useState, useRef } from 'react'
+import { useNavigate } from 'react-router'
+import { Icon } from '@iconify/react'
+import arrowLeftIcon from '@iconify-icons/mdi/arrow-left'
+import {
+  getKioskSettings,
+  saveKioskSettings,
+  resetKioskSettings,
+  type AttractMode,
+  type KioskSettings
+} from '../services/kioskSettings'
+import { storeMedia } from '../services/adminStorage'
+import { formatErrorForDisplay } from '../utils/errors'
+import { cn } from '@renderer/utils/cn'
+
+const ATTRACT_MODE_OPTIONS: { value: AttractMode; label: string; description: string }[] = [
+  { value: 'none', label: '不播放', description: '返回首页后停留在首页' },
+  { value: 'slideshow', label: '类别轮播', description: '轮流展示各个查询类别' },
+  { value: 'animation', label: '动画', description: '循环播放上传的 Lottie 动画' },
+  { value: 'video', label: '视频', description: '静音循环播放上传的视频' }
+]
+
+export function KioskSettings(): React.JSX.Element {
+  const navigate = useNavigate()
+  const [settings, setSettings] = useState<KioskSettings>(getKioskSettings)
+  const [saveMessage, setSaveMessage] = useState<string | null>(null)
+  const [isUploading, setIsUploading] = useState(false)
+  // Scroll state for header background
+  const [isScrolled, setIsScrolled] = useState(false)
+  // Ref for scroll container
+  const scrollContainerRef = useRef<HTMLDivElement>(null)
+  // Ref for cleanup function
+  const scrollCleanupRef = useRef<(() => void) | null>(null)
+
+  // Ref callback to set up scroll listener when ref is attached
+  const setScrollContainerRef = (node: HTMLDivElement | null): void => {
+    // Clean up previous listener if exists
+    if (scrollCleanupRef.current) {
+      scrollCleanupRef.current()
+      scrollCleanupRef.current = null
+    }
+
+    scrollContainerRef.current = node
+
+    if (node) {
+      const handleScroll = (): void => {
+        setIsScrolled(node.scrollTop > 0)
+      }
+
+      node.addEventListener('scroll', handleScroll, { passive: true })
+
+      // Store cleanup function
+      scrollCleanupRef.current = () => {
+        node.removeEventListener('scroll', handleScroll)
+      }
+    }
+  }
+
+  const showMessage = (message: string): void => {
+    setSaveMessage(message)
+    setTimeout(() => {
+      setSaveMessage(null)
+    }, 2000)
+  }
+
+  const handleBack = (): void => {
+    navigate('/admin')
+  }
+
+  const handleNumberChange = (
+    key: 'idleTimeout' | 'idleCountdown' | 'slideInterval',
+    value: string,
+    min: number
+  ): void => {
+    const numValue = Number.parseInt(value, 10)
+    setSettings({ ...settings, [key]: Number.isNaN(numValue) ? min : Math.max(min, numValue) })
+  }
+
+  // Uploaded files go to the media library and are played offline from there
+  const handleMediaSelect = async (
+    key: 'attractAnimationUrl' | 'attractVideoUrl',
+    event: React.ChangeEvent<HTMLInputElement>
+  ): Promise<void> => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setIsUploading(true)
+    try {
+      const mimeType = key === 'attractAnimationUrl' ? 'application/json' : file.type
+      const url = await storeMedia(await file.arrayBuffer(), mimeType)
+      setSettings((current) => ({ ...current, [key]: url }))
+      showMessage(`已上传 ${file.name}，保存设置后生效`)
+    } catch (error) {
+      console.error('[KioskSettings] Failed to upload media:', error)
+      const errorInfo = formatErrorForDisplay(error)
+      showMessage(`上传失败：${errorInfo.message}`)
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const handleSave = (): void => {
+    try {
+      saveKioskSettings(settings)
+      console.log('[KioskSettings] Settings saved:', getKioskSettings())
+      showMessage('设置已保存')
+    } catch (error) {
+      console.error('[KioskSettings] Failed to save settings:', error)
+      showMessage('保存失败，请重试')
+    }
+  }
+
+  const handleReset = (): void => {
+    if (confirm('确定要重置为默认设置吗？')) {
+      resetKioskSettings()
+      setSettings(getKioskSettings())
+      showMessage('已重置为默认设置')
+    }
+  }
+
+  const mediaKey =
+    settings.attractMode === 'animation'
+      ? 'attractAnimationUrl'
+      : settings.attractMode === 'video'
+        ? 'attractVideoUrl'
+        : null
+
+  return (
+    <div
+      ref={setScrollContainerRef}
+      className="flex flex-col w-full relative z-10 h-screen overflow-y-auto"
+    >
+      <div className="w-full">
+        {/* Header */}
+        <div
+          className={cn(
+            'sticky top-0 py-8 px-36 backdrop-blur-lg z-20 transition-colors duration-200',
+            {
+              'bg-red-600/80 backdrop-blur-xs': isScrolled
+            }
+          )}
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              {/* Page Back Button - Left of Title */}
+              <button
+                onClick={handleBack}
+                className="shrink-0 p-2 hover:opacity-80 transition-opacity"
+                title="返回管理后台"
+              >
+                <Icon icon={arrowLeftIcon} className="text-3xl text-white" />
+              </button>
+              <div>
+                <h1 className="text-4xl md:text-5xl font-bold text-white mb-2">待机设置</h1>
+                <p className="text-lg text-red-100">无人操作时返回首页并播放屏保</p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Settings Form */}
+        <div className="px-36">
+          <div
+            className="p-8 rounded-2xl shadow-xl border-2 border-yellow-300 mb-8"
+            style={{ backgroundColor: '#fbfdba' }}
+          >
+            {/* Idle Timeout Settings */}
+            <div className="mb-8">
+              <label className="block text-2xl font-bold text-gray-800 mb-4">无人操作</label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <p className="mb-2 text-lg font-semibold text-gray-700">等待时间（秒）</p>
+                  <input
+                    type="number"
+                    min={0}
+                    value={settings.idleTimeout}
+                    onChange={(e) => handleNumberChange('idleTimeout', e.target.value, 0)}
+                    className="w-full px-6 py-4 text-2xl rounded-xl border-2 border-yellow-300 focus:border-yellow-400 focus:outline-none text-gray-800"
+                    style={{ backgroundColor: '#fff' }}
+                  />
+                </div>
+                <div>
+                  <p className="mb-2 text-lg font-semibold text-gray-700">倒计时（秒）</p>
+                  <input
+                    type="number"
+                    min={0}
+                    value={settings.idleCountdown}
+                    onChange={(e) => handleNumberChange('idleCountdown', e.target.value, 0)}
+                    className="w-full px-6 py-4 text-2xl rounded-xl border-2 border-yellow-300 focus:border-yellow-400 focus:outline-none text-gray-800"
+                    style={{ backgroundColor: '#fff' }}
+                  />
+                </div>
+              </div>
+              <p className="mt-4 text-lg text-gray-700">
+                超过等待时间没有触摸、鼠标或键盘操作时，屏幕会显示倒计时提示；倒计时结束后放弃未完成的答题并返回首页。等待时间设为零表示不自动返回。管理后台页面不会自动返回。
+              </p>
+            </div>
+
+            {/* Attract Loop Settings */}
+            <div className="mb-8">
+              <label className="block text-2xl font-bold text-gray-800 mb-4">屏保</label>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                {ATTRACT_MODE_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setSettings({ ...settings, attractMode: option.value })}
+                    className={cn(
+                      'p-5 rounded-xl border-2 text-left transition-all',
+                      settings.attractMode === option.value
+                        ? 'border-red-600 bg-red-50'
+                        : 'border-gray-300 bg-white hover:border-yellow-400'
+                    )}
+                  >
+                    <div className="text-xl font-bold text-gray-800 mb-1">{option.label}</div>
+                    <div className="text-base text-gray-600">{option.description}</div>
+                  </button>
+                ))}
+              </div>
+
+              {settings.attractMode === 'slideshow' && (
+                <div className="mt-6">
+                  <p className="mb-2 text-lg font-semibold text-gray-700">每页停留时间（秒）</p>
+                  <input
+                    type="number"
+                    min={1}
+                    value={settings.slideInterval}
+                    onChange={(e) => handleNumberChange('slideInterval', e.target.value, 1)}
+                    className="w-full px-6 py-4 text-2xl rounded-xl border-2 border-yellow-300 focus:border-yellow-400 focus:outline-none text-gray-800"
+                    style={{ backgroundColor: '#fff' }}
+                  />
+                </div>
+              )}
+
+              {mediaKey && (
+                <div className="mt-6">
+                  <p className="mb-2 text-lg font-semibold text-gray-700">
+                    {mediaKey === 'attractAnimationUrl'
+                      ? '动画文件（JSON）'
+                      : '视频文件（MP4 / WebM）'}
+                  </p>
+                  <div className="flex items-center gap-4">
+                    <input
+                      type="file"
+                      accept={
+                        mediaKey === 'attractAnimationUrl'
+                          ? '.json,application/json'
+                          : 'video/mp4,video/webm,video/ogg'
+                      }
+                      onChange={(e) => handleMediaSelect(mediaKey, e)}
+                      disabled={isUploading}
+                      className="flex-1 px-4 py-3 rounded-xl border-2 border-yellow-300 text-gray-800 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-red-600 file:text-white hover:file:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      style={{ backgroundColor: '#fff' }}
+                    />
+                    {settings[mediaKey] && (
+                      <button
+                        onClick={() => setSettings({ ...settings, [mediaKey]: null })}
+                        className="px-6 py-3 text-lg font-semibold rounded-xl bg-gray-300 text-gray-800 hover:bg-gray-400 transition-colors"
+                      >
+                        移除文件
+                      </button>
+                    )}
+                  </div>
+                  <p className="mt-2 text-lg text-gray-600">
+                    {isUploading
+                      ? '上传中...'
+                      : settings[mediaKey]
+                        ? '已设置文件'
+                        : '尚未设置文件，将改为播放类别轮播'}
+                  </p>
+                </div>
+              )}
+
+              <p className="mt-4 text-lg text-gray-700">
+                因无人操作返回首页后开始播放屏保，轻触屏幕或按任意键即可结束。文件保存在本机，无需联网。
+              </p>
+            </div>
+
+            {/* Action Buttons */}
+            <div className="flex flex-col sm:flex-row gap-4 justify-end">
+              <button
+                onClick={handleReset}
+                className="px-8 py-4 text-xl font-semibold rounded-xl bg-gray-300 text-gray-800 shadow-lg hover:bg-gray-400 hover:-translate-y-1 hover:shadow-xl transition-all duration-200"
+              >
+                重置为默认
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isUploading}
+                className="px-8 py-4 text-xl font-semibold rounded-xl bg-red-600 text-white shadow-lg hover:bg-red-700 hover:-translate-y-1 hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                保存设置
+              </button>
+            </div>
+
+            {/* Save Message */}
+            {saveMessage && (
+              <div
+                className={`mt-4 p-4 rounded-xl text-center text-lg font-semibold ${
+                  saveMessage.includes('失败')
+                    ? 'bg-red-100 text-red-800'
+                    : 'bg-green-100 text-green-800'
+                }`}
+              >
+                {saveMessage}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
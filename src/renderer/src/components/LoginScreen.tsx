@@ -10,16 +10,22 @@ import lockIcon from '@iconify-icons/mdi/lock'
 import eyeIcon from '@iconify-icons/mdi/eye'
 import eyeOffIcon from '@iconify-icons/mdi/eye-off'
 import { useAuth } from '../contexts/AuthContext'
+import { useCountdown } from '../hooks/useCountdown'
+import { getLoginLockedUntil } from '../services/authService'
 
 export function LoginScreen(): React.JSX.Element {
   const [password, setPassword] = useState('')
   const [showPassword, setShowPassword] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(false)
+  // Set while too many wrong passwords keep the login locked
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null)
   const navigate = useNavigate()
   const location = useLocation()
   const passwordInputRef = useRef<HTMLInputElement>(null)
   const { login, isAuthenticated } = useAuth()
+  const lockRemaining = useCountdown(lockedUntil, () => setLockedUntil(null))
+  const isLocked = lockRemaining !== null && lockRemaining > 0
 
   // Redirect if already authenticated
   useEffect(() => {
@@ -30,6 +36,11 @@ export function LoginScreen(): React.JSX.Element {
     }
   }, [isAuthenticated, navigate, location.state])
 
+  // A lockout outlives leaving the page or restarting the app
+  useEffect(() => {
+    getLoginLockedUntil().then(setLockedUntil)
+  }, [])
+
   // Reset state and focus input when login page becomes visible
   // Critical: In Electron on Windows, window focus management requires special handling
   // The logout flow in AuthContext already handles window focus, but we need to ensure input focus
@@ -68,20 +79,27 @@ export function LoginScreen(): React.JSX.Element {
     e.preventDefault()
 
     // Logic blocking instead of DOM disabling
-    if (isLoading) return
+    if (isLoading || isLocked) return
     if (!password.trim()) return
 
     setIsLoading(true)
     setError(null)
 
     try {
-      const success = await login(password)
-      if (success) {
-        // Redirect to the page they were trying to access, or admin home
+      const result = await login(password)
+      if (result.success) {
+        // ProtectedRoute sends a first login on to the password change page
         const from = (location.state as { from?: string } | null)?.from || '/admin'
         navigate(from, { replace: true })
       } else {
-        setError('密码错误，请重试')
+        if (result.lockedUntil !== null) {
+          setLockedUntil(result.lockedUntil)
+          setError('密码错误次数过多，登录已暂时锁定')
+        } else if (result.remainingAttempts !== null && result.remainingAttempts <= 3) {
+          setError(`密码错误，再错 ${result.remainingAttempts} 次将暂时锁定登录`)
+        } else {
+          setError('密码错误，请重试')
+        }
         setPassword('')
         // Focus input after error (window should already have focus)
         setTimeout(() => {
@@ -108,7 +126,7 @@ export function LoginScreen(): React.JSX.Element {
   }
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): void => {
-    if (e.key === 'Enter' && !isLoading) {
+    if (e.key === 'Enter' && !isLoading && !isLocked) {
       handleSubmit(e)
     }
   }
@@ -165,6 +183,15 @@ export function LoginScreen(): React.JSX.Element {
               </div>
             </div>
 
+            {/* Lockout Countdown */}
+            {isLocked && (
+              <div className="p-4 rounded-xl bg-yellow-100 border-2 border-yellow-400">
+                <p className="text-gray-800 font-semibold text-center">
+                  请在 {Math.ceil(lockRemaining / 1000)} 秒后重试
+                </p>
+              </div>
+            )}
+
             {/* Error Message */}
             {error && (
               <div className="p-4 rounded-xl bg-red-100 border-2 border-red-400">
@@ -175,10 +202,10 @@ export function LoginScreen(): React.JSX.Element {
             {/* Submit Button */}
             <button
               type="submit"
-              disabled={isLoading || !password.trim()}
+              disabled={isLoading || isLocked || !password.trim()}
               className="w-full py-4 px-6 text-xl font-bold rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed border-2 border-yellow-300 hover:border-yellow-400"
               style={{
-                backgroundColor: isLoading || !password.trim() ? '#e5e7eb' : '#dc2626',
+                backgroundColor: isLoading || isLocked || !password.trim() ? '#e5e7eb' : '#dc2626',
                 color: 'white'
               }}
             >
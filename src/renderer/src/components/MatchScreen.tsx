@@ -0,0 +1,579 @@
+/**
+ * Head-to-Head Match Screen
+ * 2-4 players answer the same questions on one screen, each in their own answer zone
+ * or key block. Answers are revealed together, standings are shown between questions
+ * and the winner at the end
+ */
+
+import { useCallback, useEffect, useReducer, useState } from 'react'
+import { useLocation, useNavigate } from 'react-router'
+import { Icon } from '@iconify/react'
+import restartIcon from '@iconify-icons/mdi/restart'
+import trophyIcon from '@iconify-icons/mdi/trophy'
+import lockIcon from '@iconify-icons/mdi/lock'
+import checkCircleIcon from '@iconify-icons/mdi/check-circle'
+import closeCircleIcon from '@iconify-icons/mdi/close-circle'
+import homeIcon from '@iconify-icons/mdi/home'
+import {
+  MatchState,
+  MAX_PLAYERS,
+  MIN_PLAYERS,
+  createInitialMatchContext,
+  getMatchDeadline,
+  getMatchStandings,
+  isMatchQuestion,
+  matchStateMachineReducer,
+  type MatchPlayer,
+  type MatchPlayerAnswer,
+  type MatchRoundResult
+} from '../store/matchStateMachine'
+import { usePlayerKeyboardInput } from '../hooks/useKeyboardInput'
+import { useCountdown } from '../hooks/useCountdown'
+import { CountdownRing } from './CountdownRing'
+import { QuestionMediaView } from './QuestionMediaView'
+import { getQuestions } from '../services/questionStorage'
+import { createQuestionPool, selectRandomQuestions } from '../services/questionSelector'
+import { getMatchRules, getPresetCategoryIds, getQASettings } from '../services/qaSettings'
+import {
+  InputCommand,
+  PLAYER_KEY_BLOCKS,
+  commandToAnswerIndex,
+  type PlayerInputCommand
+} from '../services/inputHandler'
+import { getOptionLetter, shuffleQuestionOptions } from '../utils/questionOptions'
+import { formatErrorForDisplay } from '../utils/errors'
+import { cn } from '@renderer/utils/cn'
+import type { Question } from '../types/question'
+
+/**
+ * How long the reveal stays up before the scoreboard
+ */
+const REVEAL_MS = 4000
+
+/**
+ * Colors of the answer zones, by player
+ */
+const PLAYER_STYLES = [
+  {
+    zone: 'border-sky-400 bg-sky-500/15',
+    text: 'text-sky-300',
+    chip: 'bg-sky-500',
+    button: 'border-sky-300/60 bg-sky-500/20 hover:bg-sky-500/40',
+    selected: 'border-sky-200 bg-sky-400 text-white shadow-[0_0_16px_rgba(56,189,248,0.7)]'
+  },
+  {
+    zone: 'border-emerald-400 bg-emerald-500/15',
+    text: 'text-emerald-300',
+    chip: 'bg-emerald-500',
+    button: 'border-emerald-300/60 bg-emerald-500/20 hover:bg-emerald-500/40',
+    selected: 'border-emerald-200 bg-emerald-400 text-white shadow-[0_0_16px_rgba(52,211,153,0.7)]'
+  },
+  {
+    zone: 'border-violet-400 bg-violet-500/15',
+    text: 'text-violet-300',
+    chip: 'bg-violet-500',
+    button: 'border-violet-300/60 bg-violet-500/20 hover:bg-violet-500/40',
+    selected: 'border-violet-200 bg-violet-400 text-white shadow-[0_0_16px_rgba(167,139,250,0.7)]'
+  },
+  {
+    zone: 'border-orange-400 bg-orange-500/15',
+    text: 'text-orange-300',
+    chip: 'bg-orange-500',
+    button: 'border-orange-300/60 bg-orange-500/20 hover:bg-orange-500/40',
+    selected: 'border-orange-200 bg-orange-400 text-white shadow-[0_0_16px_rgba(251,146,60,0.7)]'
+  }
+]
+
+function getPlayerName(player: number): string {
+  return `玩家 ${player + 1}`
+}
+
+/**
+ * Option label: ✅/❌ for true-false questions, A-D otherwise
+ */
+function getOptionLabel(question: Question, index: number): string {
+  if (question.optionType === 'true-false') {
+    return index === 0 ? '✅' : '❌'
+  }
+  return getOptionLetter(index)
+}
+
+function getAnswerIndexes(answer: number | number[] | null): number[] {
+  if (answer === null) return []
+  return Array.isArray(answer) ? answer : [answer]
+}
+
+/**
+ * Draw the questions of a match from the home page quiz scope
+ * The shared no-repeat pool of the single player quiz is left alone
+ */
+async function loadMatchQuestions(): Promise<Question[]> {
+  const scope = getPresetCategoryIds()
+  const eligible = (await getQuestions()).filter(
+    (question) =>
+      isMatchQuestion(question) &&
+      (!scope || (question.categoryIds ?? []).some((id) => scope.includes(id)))
+  )
+  const { questions } = selectRandomQuestions(
+    createQuestionPool(eligible),
+    getQASettings().matchQuestionCount
+  )
+  return questions.map(shuffleQuestionOptions)
+}
+
+interface PlayerZoneProps {
+  player: number
+  question: Question
+  answer: MatchPlayerAnswer
+  standing: MatchPlayer
+  /** Outcome of the question, once revealed */
+  result: MatchRoundResult | undefined
+  onSelect: (answerIndex: number) => void
+  onConfirm: () => void
+}
+
+function PlayerZone({
+  player,
+  question,
+  answer,
+  standing,
+  result,
+  onSelect,
+  onConfirm
+}: PlayerZoneProps): React.JSX.Element {
+  const style = PLAYER_STYLES[player]
+  const isMultiple = question.questionType === 'multiple'
+  const selected = getAnswerIndexes(answer.selectedAnswer)
+  const isLocked = answer.lockedAt !== null
+
+  return (
+    <div
+      className={cn('flex flex-col gap-3 p-4 rounded-2xl border-4 backdrop-blur-md', style.zone)}
+    >
+      <div className="flex items-center justify-between">
+        <span className={cn('text-2xl lg:text-3xl font-bold', style.text)}>
+          {getPlayerName(player)}
+        </span>
+        <span className="text-2xl lg:text-3xl font-bold text-yellow-200">{standing.score} 分</span>
+      </div>
+
+      {result ? (
+        // Reveal: the player's answer and the points it earned
+        <div
+          className={cn(
+            'flex-1 flex flex-col items-center justify-center gap-2 py-4 rounded-xl',
+            result.isCorrect ? 'bg-green-500/25' : 'bg-red-900/40'
+          )}
+        >
+          <div className="flex items-center gap-2 text-3xl lg:text-4xl font-bold">
+            <Icon
+              icon={result.isCorrect ? checkCircleIcon : closeCircleIcon}
+              className={result.isCorrect ? 'text-green-300' : 'text-red-300'}
+            />
+            {result.isCorrect
+              ? `+${result.pointsEarned}`
+              : result.timeSpent === null
+                ? '未作答'
+                : '答错'}
+          </div>
+          {result.selectedAnswer !== null && (
+            <div className="text-lg lg:text-xl opacity-90">
+              选择：
+              {getAnswerIndexes(result.selectedAnswer)
+                .map((index) => getOptionLabel(question, index))
+                .join('、')}
+              {result.timeSpent !== null && ` · ${(result.timeSpent / 1000).toFixed(1)} 秒`}
+            </div>
+          )}
+        </div>
+      ) : isLocked ? (
+        // Answers stay hidden until everyone is done
+        <div className="flex-1 flex flex-col items-center justify-center gap-2 py-4 rounded-xl bg-black/20">
+          <Icon icon={lockIcon} className={cn('text-4xl', style.text)} />
+          <div className="text-xl lg:text-2xl font-semibold">已作答，等待其他玩家</div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            {question.options.map((_, index) => (
+              <button
+                key={index}
+                onClick={() => onSelect(index)}
+                className={cn(
+                  'min-h-[64px] lg:min-h-[80px] rounded-xl border-4 text-3xl lg:text-4xl font-bold select-none transition-all duration-150 active:scale-95',
+                  isMultiple && selected.includes(index) ? style.selected : style.button
+                )}
+              >
+                {getOptionLabel(question, index)}
+              </button>
+            ))}
+          </div>
+          {isMultiple && (
+            <button
+              onClick={onConfirm}
+              disabled={selected.length === 0}
+              className="py-3 rounded-xl text-2xl font-bold bg-yellow-300 text-red-700 shadow-lg disabled:opacity-40 disabled:cursor-not-allowed transition-opacity"
+            >
+              确认
+            </button>
+          )}
+        </>
+      )}
+
+      <div className="text-sm lg:text-base text-center opacity-70">
+        键盘：{PLAYER_KEY_BLOCKS[player].label}
+      </div>
+    </div>
+  )
+}
+
+export function MatchScreen(): React.JSX.Element {
+  const navigate = useNavigate()
+  const location = useLocation()
+  const requestedPlayers = (location.state as { playerCount?: number } | null)?.playerCount
+  const playerCount = Math.min(MAX_PLAYERS, Math.max(MIN_PLAYERS, requestedPlayers ?? MIN_PLAYERS))
+  const [context, dispatch] = useReducer(
+    matchStateMachineReducer,
+    undefined,
+    createInitialMatchContext
+  )
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const question = context.questions[context.currentQuestionIndex]
+
+  // A new match starts once its questions are drawn; the screen shows the old one until then
+  const startMatch = useCallback(
+    (): Promise<void> =>
+      loadMatchQuestions()
+        .then((questions) => {
+          if (questions.length === 0) {
+            setLoadError(
+              '暂时没有可用于多人对战的题目（需要不超过 4 个选项的单选题或多选题），请前往答题管理页面添加题目。'
+            )
+            return
+          }
+          setLoadError(null)
+          dispatch({ type: 'RESET_MATCH' })
+          dispatch({ type: 'START_MATCH', questions, playerCount, rules: getMatchRules() })
+        })
+        .catch((error) => {
+          console.error('[MatchScreen] Failed to load questions:', error)
+          const errorInfo = formatErrorForDisplay(error)
+          setLoadError(`${errorInfo.title}: ${errorInfo.message}`)
+        }),
+    [playerCount]
+  )
+
+  useEffect(() => {
+    startMatch()
+  }, [startMatch])
+
+  const remaining = useCountdown(
+    context.state === MatchState.QUESTION ? getMatchDeadline(context) : null,
+    () => dispatch({ type: 'TIMEOUT' })
+  )
+
+  // The reveal moves on to the scoreboard by itself
+  useEffect(() => {
+    if (context.state !== MatchState.REVEAL) {
+      return undefined
+    }
+    const timer = setTimeout(() => dispatch({ type: 'SHOW_SCOREBOARD' }), REVEAL_MS)
+    return () => clearTimeout(timer)
+  }, [context.state])
+
+  const handlePlayerCommand = useCallback(
+    ({ player, command }: PlayerInputCommand): void => {
+      if (context.state === MatchState.QUESTION && question) {
+        const answerIndex = commandToAnswerIndex(command)
+        if (answerIndex !== null) {
+          // Keys past the question's last option are ignored
+          if (answerIndex < question.options.length) {
+            dispatch({ type: 'SELECT_ANSWER', player, answerIndex })
+          }
+        } else if (command === InputCommand.CONFIRM) {
+          dispatch({ type: 'CONFIRM_ANSWER', player })
+        }
+      } else if (command === InputCommand.CONFIRM) {
+        // Any player's confirm key moves past the reveal and the scoreboard
+        if (context.state === MatchState.REVEAL) {
+          dispatch({ type: 'SHOW_SCOREBOARD' })
+        } else if (context.state === MatchState.SCOREBOARD) {
+          dispatch({ type: 'NEXT_QUESTION' })
+        }
+      }
+    },
+    [context.state, question]
+  )
+
+  usePlayerKeyboardInput(handlePlayerCommand, playerCount, context.state !== MatchState.FINISHED)
+
+  const restartButton = (
+    <div className="fixed top-4 right-4 z-40">
+      <button
+        onClick={() => {
+          if (confirm('确定要重新开始吗？当前比分将被清除。')) {
+            startMatch()
+          }
+        }}
+        className="p-3 bg-red-700/40 hover:bg-red-500/30 rounded-lg transition-all duration-200 backdrop-blur-sm border border-yellow-300/50 hover:border-yellow-400"
+        title="重新开始"
+      >
+        <Icon icon={restartIcon} className="text-3xl text-yellow-300" />
+      </button>
+    </div>
+  )
+
+  // Error state
+  if (loadError) {
+    return (
+      <div className="w-screen h-screen flex flex-col items-center justify-center text-white px-8">
+        <div className="text-3xl sm:text-4xl md:text-5xl font-bold mb-8 text-yellow-300">
+          ⚠️ 无法开始对战
+        </div>
+        <div className="text-xl sm:text-2xl md:text-3xl opacity-90 mb-8 text-center max-w-3xl">
+          {loadError}
+        </div>
+        <button
+          onClick={() => navigate('/')}
+          className="px-12 py-5 text-2xl font-semibold rounded-xl shadow-lg border-2 border-yellow-300 hover:border-yellow-400 flex items-center gap-3 text-red-600"
+          style={{ backgroundColor: '#fbfdba' }}
+        >
+          <Icon icon={homeIcon} className="text-3xl" />
+          返回首页
+        </button>
+      </div>
+    )
+  }
+
+  // Loading state
+  if (context.state === MatchState.IDLE || !question) {
+    return (
+      <div className="w-screen h-screen flex flex-col items-center justify-center text-white">
+        <div className="w-16 h-16 sm:w-20 sm:h-20 border-8 border-yellow-300/20 border-t-yellow-300 rounded-full animate-spin" />
+        <div className="mt-8 text-2xl sm:text-3xl opacity-80">加载中...</div>
+      </div>
+    )
+  }
+
+  const standings = getMatchStandings(context)
+
+  // Winner screen
+  if (context.state === MatchState.FINISHED) {
+    const winners = standings.filter((entry) => entry.rank === 1)
+    return (
+      <div className="w-screen h-screen flex flex-col items-center justify-center text-white px-8 overflow-auto">
+        {restartButton}
+        <Icon
+          icon={trophyIcon}
+          className="text-8xl sm:text-9xl text-yellow-300 drop-shadow-[0_0_30px_rgba(253,224,71,0.7)]"
+        />
+        <div className="mt-4 mb-10 text-5xl sm:text-6xl md:text-7xl font-bold text-center">
+          {winners.length === 1
+            ? `${getPlayerName(winners[0].player)} 获胜！`
+            : `平局！${winners.map((entry) => getPlayerName(entry.player)).join('、')}`}
+        </div>
+        <div className="w-full max-w-3xl flex flex-col gap-4 mb-12">
+          {standings.map(({ player, rank, standing }) => (
+            <div
+              key={player}
+              className={cn(
+                'flex items-center gap-6 px-8 py-4 rounded-2xl border-4 backdrop-blur-md',
+                PLAYER_STYLES[player].zone
+              )}
+            >
+              <span className="w-12 text-3xl font-bold text-yellow-300">{rank}</span>
+              <span className={cn('flex-1 text-3xl font-bold', PLAYER_STYLES[player].text)}>
+                {getPlayerName(player)}
+              </span>
+              <span className="text-xl opacity-80">
+                答对 {standing.correctCount} / {context.questions.length} 题
+              </span>
+              <span className="w-32 text-right text-3xl font-bold">{standing.score} 分</span>
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-col sm:flex-row gap-6">
+          <button
+            onClick={() => startMatch()}
+            className="px-12 sm:px-16 py-5 sm:py-6 text-2xl sm:text-3xl font-semibold rounded-xl bg-red-700 text-white shadow-lg hover:bg-red-800 hover:-translate-y-1 hover:shadow-xl transition-all duration-200"
+          >
+            再来一局
+          </button>
+          <button
+            onClick={() => navigate('/')}
+            className="px-12 sm:px-16 py-5 sm:py-6 text-2xl sm:text-3xl font-semibold rounded-xl shadow-lg border-2 border-yellow-300 hover:border-yellow-400 transition-all duration-200 text-red-600"
+            style={{ backgroundColor: '#fbfdba' }}
+          >
+            返回首页
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  // Scoreboard between questions
+  if (context.state === MatchState.SCOREBOARD) {
+    return (
+      <div className="w-screen h-screen flex flex-col items-center justify-center text-white px-8 overflow-auto">
+        {restartButton}
+        <div className="text-4xl sm:text-5xl md:text-6xl font-bold mb-4">排行榜</div>
+        <div className="text-xl sm:text-2xl opacity-80 mb-10">
+          已完成 {context.currentQuestionIndex + 1} / {context.questions.length} 题
+        </div>
+        <div className="w-full max-w-3xl flex flex-col gap-4 mb-12">
+          {standings.map(({ player, rank, standing }) => {
+            const pointsEarned = context.roundResults[player]?.pointsEarned ?? 0
+            return (
+              <div
+                key={player}
+                className={cn(
+                  'flex items-center gap-6 px-8 py-4 rounded-2xl border-4 backdrop-blur-md transition-all duration-500',
+                  PLAYER_STYLES[player].zone
+                )}
+              >
+                <span className="w-12 text-3xl font-bold text-yellow-300">{rank}</span>
+                <span className={cn('flex-1 text-3xl font-bold', PLAYER_STYLES[player].text)}>
+                  {getPlayerName(player)}
+                </span>
+                <span
+                  className={cn(
+                    'text-2xl font-semibold',
+                    pointsEarned > 0 ? 'text-green-300' : 'opacity-50'
+                  )}
+                >
+                  +{pointsEarned}
+                </span>
+                <span className="w-32 text-right text-3xl font-bold">{standing.score} 分</span>
+              </div>
+            )
+          })}
+        </div>
+        <button
+          onClick={() => dispatch({ type: 'NEXT_QUESTION' })}
+          className="px-16 py-6 text-3xl font-semibold rounded-xl bg-red-700 text-white shadow-lg hover:bg-red-800 hover:-translate-y-1 hover:shadow-xl transition-all duration-200"
+        >
+          下一题
+        </button>
+        <div className="mt-4 text-lg opacity-70">或按任意玩家的确认键继续</div>
+      </div>
+    )
+  }
+
+  // Question and reveal
+  const isRevealed = context.state === MatchState.REVEAL
+  const correctAnswers = getAnswerIndexes(question.correctAnswer)
+  const optionGridClass =
+    question.options.length <= 2 ? 'grid-cols-2' : 'grid-cols-1 sm:grid-cols-2'
+
+  return (
+    <div className="w-screen h-screen flex flex-col text-white overflow-hidden">
+      {restartButton}
+
+      {/* Progress and countdown */}
+      <div className="flex items-center px-4 sm:px-8 md:px-16 py-4 bg-red-700/10 backdrop-blur-xs gap-6 shrink-0 border-b border-yellow-300/20">
+        <div className="flex-1 text-xl lg:text-2xl xl:text-3xl opacity-90">
+          多人对战 · 第 {context.currentQuestionIndex + 1} 题 / 共 {context.questions.length} 题
+          {question.questionType === 'multiple' && ' · 多选题，选好后按确认'}
+        </div>
+        {isRevealed && (
+          <button
+            onClick={() => dispatch({ type: 'SHOW_SCOREBOARD' })}
+            className="px-6 py-3 text-xl lg:text-2xl font-semibold rounded-xl bg-yellow-300 text-red-700 shadow-lg hover:bg-yellow-200 transition-colors"
+          >
+            {context.currentQuestionIndex >= context.questions.length - 1 ? '查看结果' : '查看排行'}
+          </button>
+        )}
+        <CountdownRing
+          remaining={isRevealed ? 0 : (remaining ?? context.rules.questionSeconds * 1000)}
+          total={context.rules.questionSeconds * 1000}
+          label="本题"
+        />
+      </div>
+
+      {/* Question and options */}
+      <div className="flex-1 flex flex-col gap-4 px-6 sm:px-8 md:px-16 lg:px-24 py-6 overflow-auto">
+        <div className="text-2xl lg:text-3xl xl:text-4xl font-bold leading-relaxed drop-shadow-md max-w-7xl mx-auto w-full wrap-break-word">
+          {question.text}
+        </div>
+        {question.media && (
+          <div className="flex justify-center max-w-7xl mx-auto w-full">
+            <QuestionMediaView media={question.media} className="max-h-[25vh] max-w-full" />
+          </div>
+        )}
+        <div className={cn('grid gap-4 max-w-7xl mx-auto w-full', optionGridClass)}>
+          {question.options.map((option, index) => {
+            const isCorrect = correctAnswers.includes(index)
+            const pickedBy = isRevealed
+              ? context.roundResults
+                  .map((result, player) => ({ result, player }))
+                  .filter(({ result }) => getAnswerIndexes(result.selectedAnswer).includes(index))
+                  .map(({ player }) => player)
+              : []
+            const optionMedia = question.optionMedia?.[index]
+            return (
+              <div
+                key={index}
+                className={cn(
+                  'flex items-center gap-4 px-6 py-4 rounded-2xl border-4 backdrop-blur-md transition-all duration-300',
+                  !isRevealed && 'bg-yellow-300/10 border-yellow-300/30',
+                  isRevealed &&
+                    isCorrect &&
+                    'bg-green-500/30 border-green-400 shadow-[0_0_20px_rgba(74,222,128,0.6)]',
+                  isRevealed && !isCorrect && 'bg-yellow-300/5 border-yellow-300/10 opacity-60'
+                )}
+              >
+                <span className="text-2xl lg:text-3xl font-bold min-w-[40px]">
+                  {getOptionLabel(question, index)}
+                </span>
+                <span className="flex-1 text-xl lg:text-2xl">
+                  {optionMedia && (
+                    <QuestionMediaView
+                      media={optionMedia}
+                      isOption
+                      className="block mb-2 max-h-[12vh]"
+                    />
+                  )}
+                  {option}
+                </span>
+                {pickedBy.length > 0 && (
+                  <div className="flex gap-2">
+                    {pickedBy.map((player) => (
+                      <span
+                        key={player}
+                        className={cn(
+                          'px-3 py-1 rounded-full text-base font-bold text-white',
+                          PLAYER_STYLES[player].chip
+                        )}
+                      >
+                        {getPlayerName(player)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      {/* Answer zones, one per player */}
+      <div
+        className="grid gap-4 px-4 sm:px-8 pb-4 pt-2 shrink-0"
+        style={{ gridTemplateColumns: `repeat(${context.players.length}, minmax(0, 1fr))` }}
+      >
+        {context.players.map((standing, player) => (
+          <PlayerZone
+            key={player}
+            player={player}
+            question={question}
+            answer={context.answers[player]}
+            standing={standing}
+            result={isRevealed ? context.roundResults[player] : undefined}
+            onSelect={(answerIndex) => dispatch({ type: 'SELECT_ANSWER', player, answerIndex })}
+            onConfirm={() => dispatch({ type: 'CONFIRM_ANSWER', player })}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,421 @@
+/**
+ * On-Screen Keyboard Component
+ * Touch keyboard that attaches to any focused text field (numeric, Latin and pinyin modes)
+ *
+ * Per-field overrides:
+ *   data-osk="off"                        never show the keyboard for this field
+ *   data-osk-mode="numeric|latin|pinyin"  force the initial mode
+ */
+
+import { useState, useEffect, useMemo } from 'react'
+import { Icon } from '@iconify/react'
+import backspaceIcon from '@iconify-icons/mdi/backspace-outline'
+import keyboardCloseIcon from '@iconify-icons/mdi/keyboard-close'
+import shiftIcon from '@iconify-icons/mdi/apple-keyboard-shift'
+import { cn } from '@renderer/utils/cn'
+import { isEditableElement } from '../services/inputHandler'
+import { getPinyinCandidates, formatPinyinBuffer } from '../services/pinyinInput'
+
+type KeyboardMode = 'pinyin' | 'latin' | 'numeric'
+type TextField = HTMLInputElement | HTMLTextAreaElement
+
+const LATIN_ROWS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm']
+const NUMERIC_ROWS = ['123', '456', '789', '.0-']
+const MAX_PINYIN_BUFFER = 30
+const VISIBLE_CANDIDATES = 12
+
+/**
+ * Whether the keyboard is enabled (VITE_ON_SCREEN_KEYBOARD=false turns it off)
+ */
+const isKeyboardEnabled = (): boolean => import.meta.env.VITE_ON_SCREEN_KEYBOARD !== 'false'
+
+/**
+ * Decide the initial mode for a field, or null when the keyboard should stay hidden
+ */
+function resolveMode(field: TextField): KeyboardMode | null {
+  if (field.dataset.osk === 'off') return null
+  const preset = field.dataset.oskMode
+  if (preset === 'numeric' || preset === 'latin' || preset === 'pinyin') return preset
+  if (field instanceof HTMLInputElement) {
+    if (field.type === 'number' || field.type === 'tel') return 'numeric'
+    if (field.inputMode === 'numeric' || field.inputMode === 'decimal') return 'numeric'
+    if (['password', 'email', 'url'].includes(field.type)) return 'latin'
+  }
+  return 'pinyin'
+}
+
+/**
+ * Set a field's value so that React's onChange fires
+ */
+function setNativeValue(field: TextField, value: string): void {
+  const prototype =
+    field instanceof HTMLTextAreaElement
+      ? HTMLTextAreaElement.prototype
+      : HTMLInputElement.prototype
+  Object.getOwnPropertyDescriptor(prototype, 'value')?.set?.call(field, value)
+  field.dispatchEvent(new Event('input', { bubbles: true }))
+}
+
+/**
+ * Caret range of a field; number inputs have no selection API, so append at the end
+ */
+function getSelection(field: TextField): [number, number] {
+  const length = field.value.length
+  try {
+    return [field.selectionStart ?? length, field.selectionEnd ?? length]
+  } catch {
+    return [length, length]
+  }
+}
+
+function setCaret(field: TextField, position: number): void {
+  try {
+    field.setSelectionRange(position, position)
+  } catch {
+    // Not supported for this input type
+  }
+}
+
+function insertText(field: TextField, text: string): void {
+  const [start, end] = getSelection(field)
+  const value = field.value
+  setNativeValue(field, value.slice(0, start) + text + value.slice(end))
+  setCaret(field, start + text.length)
+}
+
+function deleteBackward(field: TextField): void {
+  const [start, end] = getSelection(field)
+  const value = field.value
+  if (start !== end) {
+    setNativeValue(field, value.slice(0, start) + value.slice(end))
+    setCaret(field, start)
+  } else if (start > 0) {
+    // Remove a whole code point (surrogate pairs count as one character)
+    const removeLength = Array.from(value.slice(0, start)).pop()?.length ?? 1
+    setNativeValue(field, value.slice(0, start - removeLength) + value.slice(end))
+    setCaret(field, start - removeLength)
+  }
+}
+
+export function OnScreenKeyboard(): React.JSX.Element | null {
+  const [target, setTarget] = useState<TextField | null>(null)
+  const [mode, setMode] = useState<KeyboardMode>('pinyin')
+  const [isShifted, setIsShifted] = useState(false)
+  const [buffer, setBuffer] = useState('')
+  // Candidate page is tied to the buffer it was paged for, so typing resets it
+  const [paging, setPaging] = useState({ buffer: '', page: 0 })
+
+  // Attach to focused text fields anywhere in the app
+  useEffect(() => {
+    if (!isKeyboardEnabled()) return
+
+    const handleFocusIn = (event: FocusEvent): void => {
+      const field = event.target as Element | null
+      if (!isEditableElement(field)) return
+      const initialMode = resolveMode(field)
+      if (!initialMode) {
+        setTarget(null)
+        return
+      }
+      setTarget(field)
+      setMode(initialMode)
+      setBuffer('')
+      setIsShifted(false)
+      // Keep the field visible above the keyboard
+      setTimeout(() => field.scrollIntoView({ block: 'center', behavior: 'smooth' }), 50)
+    }
+
+    const handleFocusOut = (): void => {
+      // Wait for focus to settle; focus moving to another field is handled by focusin
+      setTimeout(() => {
+        if (!isEditableElement(document.activeElement)) {
+          setTarget(null)
+          setBuffer('')
+        }
+      }, 0)
+    }
+
+    document.addEventListener('focusin', handleFocusIn)
+    document.addEventListener('focusout', handleFocusOut)
+    return () => {
+      document.removeEventListener('focusin', handleFocusIn)
+      document.removeEventListener('focusout', handleFocusOut)
+    }
+  }, [])
+
+  const candidates = useMemo(() => getPinyinCandidates(buffer), [buffer])
+  const candidatePage = paging.buffer === buffer ? paging.page : 0
+  const visibleCandidates = candidates.slice(
+    candidatePage * VISIBLE_CANDIDATES,
+    (candidatePage + 1) * VISIBLE_CANDIDATES
+  )
+
+  if (!target) {
+    return null
+  }
+
+  const isPasswordField = target instanceof HTMLInputElement && target.type === 'password'
+  const isNumberField = target instanceof HTMLInputElement && target.type === 'number'
+
+  const commitBuffer = (): void => {
+    if (buffer) {
+      insertText(target, buffer)
+      setBuffer('')
+    }
+  }
+
+  const handleLetter = (letter: string): void => {
+    if (mode === 'pinyin' && !isShifted) {
+      setBuffer((prev) => (prev.length < MAX_PINYIN_BUFFER ? prev + letter : prev))
+      return
+    }
+    insertText(target, isShifted ? letter.toUpperCase() : letter)
+    setIsShifted(false)
+  }
+
+  const handleCandidate = (index: number): void => {
+    const candidate = visibleCandidates[index]
+    if (!candidate) return
+    insertText(target, candidate.text)
+    setBuffer((prev) => prev.slice(candidate.consumed))
+  }
+
+  const handleBackspace = (): void => {
+    if (buffer) {
+      setBuffer((prev) => prev.slice(0, -1))
+    } else {
+      deleteBackward(target)
+    }
+  }
+
+  const handleSpace = (): void => {
+    if (buffer) {
+      if (visibleCandidates.length > 0) {
+        handleCandidate(0)
+      } else {
+        commitBuffer()
+      }
+      return
+    }
+    insertText(target, ' ')
+  }
+
+  const handleEnter = (): void => {
+    if (buffer) {
+      commitBuffer()
+      return
+    }
+    if (target instanceof HTMLTextAreaElement) {
+      insertText(target, '\n')
+      return
+    }
+    if (target.form) {
+      target.form.requestSubmit()
+    } else {
+      target.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }))
+    }
+    target.blur()
+  }
+
+  const handleClose = (): void => {
+    commitBuffer()
+    target.blur()
+  }
+
+  const switchMode = (next: KeyboardMode): void => {
+    commitBuffer()
+    setMode(next)
+    setIsShifted(false)
+  }
+
+  // Keep focus in the field: keys must never take focus themselves
+  const preventFocusLoss = (event: React.PointerEvent | React.MouseEvent): void => {
+    event.preventDefault()
+  }
+
+  const keyClass =
+    'h-16 min-w-0 flex items-center justify-center rounded-lg bg-white text-2xl font-semibold text-gray-800 shadow active:bg-yellow-200 transition-colors select-none'
+  const actionKeyClass =
+    'h-16 min-w-0 flex items-center justify-center rounded-lg bg-gray-300 text-xl font-semibold text-gray-800 shadow active:bg-yellow-200 transition-colors select-none'
+
+  return (
+    <div
+      className="fixed inset-x-0 bottom-0 z-[70] bg-gray-800/95 backdrop-blur-sm border-t-4 border-yellow-300 px-4 pt-3 pb-4 shadow-2xl"
+      onPointerDown={preventFocusLoss}
+      onMouseDown={preventFocusLoss}
+    >
+      <div className="max-w-6xl mx-auto space-y-2">
+        {/* Pinyin composition and candidates */}
+        {mode === 'pinyin' && (
+          <div
+            className="flex items-center gap-2 h-14 px-3 rounded-lg"
+            style={{ backgroundColor: '#fbfdba' }}
+          >
+            <span className="shrink-0 min-w-24 text-lg text-red-600 font-semibold">
+              {buffer ? formatPinyinBuffer(buffer) : '拼音'}
+            </span>
+            <div className="flex-1 flex items-center gap-1 overflow-hidden">
+              {visibleCandidates.map((candidate, index) => (
+                <button
+                  key={`${candidate.text}-${index}`}
+                  onClick={() => handleCandidate(index)}
+                  className="shrink-0 px-3 h-11 rounded-lg text-2xl text-gray-800 active:bg-yellow-300 hover:bg-yellow-200"
+                >
+                  {candidate.text}
+                </button>
+              ))}
+            </div>
+            {candidates.length > VISIBLE_CANDIDATES && (
+              <div className="shrink-0 flex gap-1">
+                <button
+                  onClick={() => setPaging({ buffer, page: Math.max(0, candidatePage - 1) })}
+                  disabled={candidatePage === 0}
+                  className="w-11 h-11 rounded-lg text-2xl text-gray-700 disabled:opacity-30 active:bg-yellow-300"
+                >
+                  ‹
+                </button>
+                <button
+                  onClick={() =>
+                    setPaging({
+                      buffer,
+                      page:
+                        (candidatePage + 1) * VISIBLE_CANDIDATES < candidates.length
+                          ? candidatePage + 1
+                          : candidatePage
+                    })
+                  }
+                  disabled={(candidatePage + 1) * VISIBLE_CANDIDATES >= candidates.length}
+                  className="w-11 h-11 rounded-lg text-2xl text-gray-700 disabled:opacity-30 active:bg-yellow-300"
+                >
+                  ›
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {mode === 'numeric' ? (
+          <div className="grid grid-cols-4 gap-2 max-w-xl mx-auto">
+            {NUMERIC_ROWS.map((row, rowIndex) => (
+              <div key={row} className="contents">
+                {row.split('').map((key) => (
+                  <button key={key} onClick={() => insertText(target, key)} className={keyClass}>
+                    {key}
+                  </button>
+                ))}
+                {rowIndex === 0 && (
+                  <button onClick={handleBackspace} className={actionKeyClass} title="删除">
+                    <Icon icon={backspaceIcon} className="text-3xl" />
+                  </button>
+                )}
+                {rowIndex === 1 && (
+                  <button
+                    onClick={() => switchMode(isPasswordField ? 'latin' : 'pinyin')}
+                    disabled={isNumberField}
+                    className={cn(actionKeyClass, { 'opacity-40': isNumberField })}
+                  >
+                    ABC
+                  </button>
+                )}
+                {rowIndex === 2 && (
+                  <button onClick={handleClose} className={actionKeyClass} title="收起键盘">
+                    <Icon icon={keyboardCloseIcon} className="text-3xl" />
+                  </button>
+                )}
+                {rowIndex === 3 && (
+                  <button
+                    onClick={handleEnter}
+                    className={cn(actionKeyClass, 'bg-red-600 text-white')}
+                  >
+                    确定
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {LATIN_ROWS.map((row, rowIndex) => (
+              <div key={row} className="flex gap-2 justify-center">
+                {rowIndex === 2 && (
+                  <button
+                    onClick={() => setIsShifted((prev) => !prev)}
+                    className={cn(actionKeyClass, 'w-24', { 'bg-yellow-300': isShifted })}
+                    title="大写"
+                  >
+                    <Icon icon={shiftIcon} className="text-3xl" />
+                  </button>
+                )}
+                {row.split('').map((key) => (
+                  <button
+                    key={key}
+                    onClick={() => handleLetter(key)}
+                    className={cn(keyClass, 'flex-1 max-w-20')}
+                  >
+                    {isShifted ? key.toUpperCase() : key}
+                  </button>
+                ))}
+                {rowIndex === 2 && (
+                  <button
+                    onClick={handleBackspace}
+                    className={cn(actionKeyClass, 'w-24')}
+                    title="删除"
+                  >
+                    <Icon icon={backspaceIcon} className="text-3xl" />
+                  </button>
+                )}
+              </div>
+            ))}
+            <div className="flex gap-2 justify-center">
+              <button onClick={() => switchMode('numeric')} className={cn(actionKeyClass, 'w-24')}>
+                123
+              </button>
+              {!isPasswordField && (
+                <button
+                  onClick={() => switchMode(mode === 'pinyin' ? 'latin' : 'pinyin')}
+                  className={cn(actionKeyClass, 'w-24')}
+                >
+                  {mode === 'pinyin' ? '中' : '英'}
+                </button>
+              )}
+              {mode === 'pinyin' && (
+                <button
+                  onClick={() => {
+                    commitBuffer()
+                    insertText(target, '，')
+                  }}
+                  className={cn(keyClass, 'w-16')}
+                >
+                  ，
+                </button>
+              )}
+              <button onClick={handleSpace} className={cn(keyClass, 'flex-1 max-w-md text-lg')}>
+                {buffer ? '选定' : '空格'}
+              </button>
+              {mode === 'pinyin' && (
+                <button
+                  onClick={() => {
+                    commitBuffer()
+                    insertText(target, '。')
+                  }}
+                  className={cn(keyClass, 'w-16')}
+                >
+                  。
+                </button>
+              )}
+              <button
+                onClick={handleEnter}
+                className={cn(actionKeyClass, 'w-28 bg-red-600 text-white')}
+              >
+                {buffer ? '输入' : '确定'}
+              </button>
+              <button onClick={handleClose} className={cn(actionKeyClass, 'w-20')} title="收起键盘">
+                <Icon icon={keyboardCloseIcon} className="text-3xl" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
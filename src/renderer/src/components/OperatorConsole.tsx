@@ -0,0 +1,408 @@
+/**
+ * Operator Console Component
+ * Hidden maintenance overlay for on-site staff
+ * Opened by five quick taps in the top-left corner or by the operator shortcut
+ * (Ctrl+Shift+Alt+Q) forwarded from the main process, either followed by the operator PIN
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { useNavigate } from 'react-router'
+import { Icon } from '@iconify/react'
+import closeIcon from '@iconify-icons/mdi/close'
+import backspaceIcon from '@iconify-icons/mdi/backspace-outline'
+import accountCogIcon from '@iconify-icons/mdi/account-cog'
+import broomIcon from '@iconify-icons/mdi/broom'
+import fullscreenIcon from '@iconify-icons/mdi/fullscreen'
+import restartIcon from '@iconify-icons/mdi/restart'
+import powerIcon from '@iconify-icons/mdi/power'
+import lockResetIcon from '@iconify-icons/mdi/lock-reset'
+import { useQA } from '../contexts/QAContext'
+import { useAuth } from '../contexts/AuthContext'
+import { useFullscreen } from '../hooks/useFullscreen'
+import { getPresetCategoryIds } from '../services/qaSettings'
+import { formatErrorForDisplay } from '../utils/errors'
+
+// Five taps within three seconds inside the top-left corner
+const CORNER_SIZE = 80
+const TAPS_REQUIRED = 5
+const TAP_WINDOW_MS = 3000
+
+type ConsoleStage = 'closed' | 'pin' | 'console' | 'current-pin' | 'new-pin' | 'confirm-pin'
+
+type AppInfo = Awaited<ReturnType<typeof window.api.operator.getAppInfo>>
+type LicenseStatus = Awaited<ReturnType<typeof window.api.license.getStatus>>
+
+interface PinPadProps {
+  title: string
+  hint?: string
+  error?: string | null
+  onSubmit: (pin: string) => void
+  onCancel: () => void
+}
+
+function PinPad({ title, hint, error, onSubmit, onCancel }: PinPadProps): React.JSX.Element {
+  const [pin, setPin] = useState('')
+
+  const press = (digit: string): void => {
+    setPin((current) => (current.length < 8 ? current + digit : current))
+  }
+
+  const submit = (): void => {
+    if (pin.length === 0) return
+    onSubmit(pin)
+    setPin('')
+  }
+
+  return (
+    <div className="w-96 p-8 rounded-2xl border-2 border-yellow-300 bg-red-700 shadow-2xl flex flex-col items-center gap-6">
+      <h2 className="text-3xl font-bold text-yellow-200">{title}</h2>
+      <div className="h-10 flex items-center gap-3">
+        {pin.length === 0 ? (
+          <span className="text-lg text-yellow-100/70">{hint ?? '请输入 PIN'}</span>
+        ) : (
+          Array.from({ length: pin.length }, (_, i) => (
+            <span key={i} className="w-4 h-4 rounded-full bg-yellow-200" />
+          ))
+        )}
+      </div>
+      {error && <p className="text-lg font-semibold text-yellow-300">{error}</p>}
+      <div className="grid grid-cols-3 gap-3 w-full">
+        {['1', '2', '3', '4', '5', '6', '7', '8', '9'].map((digit) => (
+          <button
+            key={digit}
+            onClick={() => press(digit)}
+            className="py-4 text-3xl font-bold rounded-xl bg-yellow-100 text-red-700 active:bg-yellow-300 transition-colors"
+          >
+            {digit}
+          </button>
+        ))}
+        <button
+          onClick={() => setPin((current) => current.slice(0, -1))}
+          className="py-4 flex items-center justify-center rounded-xl bg-yellow-100/70 text-red-700 active:bg-yellow-300 transition-colors"
+          title="删除"
+        >
+          <Icon icon={backspaceIcon} className="text-3xl" />
+        </button>
+        <button
+          onClick={() => press('0')}
+          className="py-4 text-3xl font-bold rounded-xl bg-yellow-100 text-red-700 active:bg-yellow-300 transition-colors"
+        >
+          0
+        </button>
+        <button
+          onClick={submit}
+          className="py-4 text-2xl font-bold rounded-xl bg-yellow-300 text-red-700 active:bg-yellow-200 transition-colors"
+        >
+          确定
+        </button>
+      </div>
+      <button onClick={onCancel} className="text-lg text-yellow-100 hover:text-yellow-300">
+        取消
+      </button>
+    </div>
+  )
+}
+
+function describeLicense(status: LicenseStatus | null): string {
+  if (!status) return '读取中...'
+  const edition = status.edition === 'trial' ? '试用版' : '正式版'
+  if (status.needsActivation) return `${edition}，尚未激活`
+  if (!status.valid) return `${edition}，授权无效${status.error ? `（${status.error}）` : ''}`
+  if (status.edition === 'trial' && status.trialStatus) {
+    const { remaining } = status.trialStatus
+    return `${edition}，剩余 ${remaining.value} ${remaining.unit}`
+  }
+  return `${edition}，已授权`
+}
+
+export function OperatorConsole(): React.JSX.Element {
+  const navigate = useNavigate()
+  const { startQuiz } = useQA()
+  const { isAuthenticated } = useAuth()
+  const { isFullscreen, toggleFullscreen } = useFullscreen()
+  const [stage, setStage] = useState<ConsoleStage>('closed')
+  const [pinError, setPinError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [appInfo, setAppInfo] = useState<AppInfo | null>(null)
+  const [license, setLicense] = useState<LicenseStatus | null>(null)
+  const [isDefaultPin, setIsDefaultPin] = useState(false)
+  const [confirmQuit, setConfirmQuit] = useState(false)
+  const tapTimesRef = useRef<number[]>([])
+  // Current PIN entered before a new one; not needed with an admin session
+  const [currentPin, setCurrentPin] = useState<string | null>(null)
+  const newPinRef = useRef('')
+
+  const openConsole = (): void => {
+    setStage('console')
+    setPinError(null)
+    setMessage(null)
+    setConfirmQuit(false)
+    Promise.all([
+      window.api.operator.getAppInfo(),
+      window.api.license.getStatus(),
+      window.api.operator.isDefaultPin()
+    ])
+      .then(([info, status, defaultPin]) => {
+        setAppInfo(info)
+        setLicense(status)
+        setIsDefaultPin(defaultPin)
+      })
+      .catch((error) => console.error('[OperatorConsole] Failed to load status:', error))
+  }
+  // Hidden gesture: quick taps in the top-left corner
+  useEffect(() => {
+    const handlePointerDown = (event: PointerEvent): void => {
+      if (event.clientX > CORNER_SIZE || event.clientY > CORNER_SIZE) {
+        tapTimesRef.current = []
+        return
+      }
+      const now = Date.now()
+      const taps = [...tapTimesRef.current, now].filter((time) => now - time <= TAP_WINDOW_MS)
+      tapTimesRef.current = taps
+      if (taps.length >= TAPS_REQUIRED) {
+        tapTimesRef.current = []
+        setPinError(null)
+        setStage((current) => (current === 'closed' ? 'pin' : current))
+      }
+    }
+    window.addEventListener('pointerdown', handlePointerDown, { capture: true })
+    return () => window.removeEventListener('pointerdown', handlePointerDown, { capture: true })
+  }, [])
+
+  // Operator shortcut from the main process; any keyboard can send it, so it asks for the PIN too
+  useEffect(() => {
+    const handleOpen = (): void => {
+      console.log('[OperatorConsole] Operator shortcut pressed')
+      setPinError(null)
+      setStage((current) => (current === 'closed' ? 'pin' : current))
+    }
+    window.electron.ipcRenderer.on('operator:open', handleOpen)
+    return () => {
+      window.electron.ipcRenderer.removeListener('operator:open', handleOpen)
+    }
+  }, [])
+
+  const close = (): void => {
+    setStage('closed')
+    setPinError(null)
+    setConfirmQuit(false)
+  }
+
+  const handlePin = async (pin: string): Promise<void> => {
+    try {
+      // Wrong PINs are counted and locked out by the main process
+      const result = await window.api.operator.verifyPin(pin)
+      if (result.success) {
+        console.log('[OperatorConsole] Opened with PIN')
+        openConsole()
+        return
+      }
+      if (result.lockedUntil !== null) {
+        console.warn('[OperatorConsole] Too many wrong PIN attempts')
+        const minutes = Math.ceil((result.lockedUntil - Date.now()) / 60000)
+        setPinError(`PIN 错误次数过多，请 ${minutes} 分钟后再试`)
+        return
+      }
+      setPinError(
+        result.remainingAttempts !== null
+          ? `PIN 错误，还可以尝试 ${result.remainingAttempts} 次`
+          : 'PIN 错误'
+      )
+    } catch (error) {
+      console.error('[OperatorConsole] Failed to verify PIN:', error)
+      setPinError(formatErrorForDisplay(error).message)
+    }
+  }
+
+  const startPinChange = (): void => {
+    setPinError(null)
+    setCurrentPin(null)
+    setStage(isAuthenticated ? 'new-pin' : 'current-pin')
+  }
+
+  const handleCurrentPin = (pin: string): void => {
+    setCurrentPin(pin)
+    setPinError(null)
+    setStage('new-pin')
+  }
+
+  const handleNewPin = (pin: string): void => {
+    if (!/^\d{4,8}$/.test(pin)) {
+      setPinError('PIN 必须是 4 到 8 位数字')
+      return
+    }
+    newPinRef.current = pin
+    setPinError(null)
+    setStage('confirm-pin')
+  }
+
+  const handleConfirmPin = async (pin: string): Promise<void> => {
+    if (pin !== newPinRef.current) {
+      setPinError('两次输入的 PIN 不一致，请重新设置')
+      setStage('new-pin')
+      return
+    }
+    try {
+      await window.api.operator.setPin(pin, currentPin)
+      setIsDefaultPin(false)
+      setStage('console')
+      setPinError(null)
+      setMessage('PIN 已修改')
+    } catch (error) {
+      console.error('[OperatorConsole] Failed to set PIN:', error)
+      setPinError(formatErrorForDisplay(error).message)
+      // A wrong current PIN has to be entered again
+      setStage(isAuthenticated ? 'new-pin' : 'current-pin')
+    }
+  }
+
+  const handleOpenAdmin = (): void => {
+    close()
+    navigate('/admin')
+  }
+
+  const handleClearSession = (): void => {
+    startQuiz(getPresetCategoryIds())
+    setMessage('答题进度已清除，下一位访客将重新开始答题')
+  }
+
+  const handleReload = (): void => {
+    window.api.operator.reloadRenderer().catch((error) => {
+      console.error('[OperatorConsole] Failed to reload renderer:', error)
+      setMessage(formatErrorForDisplay(error).message)
+    })
+  }
+
+  const handleQuit = (): void => {
+    if (!confirmQuit) {
+      setConfirmQuit(true)
+      return
+    }
+    window.api.operator.quit().catch((error) => {
+      console.error('[OperatorConsole] Failed to quit:', error)
+      setMessage(formatErrorForDisplay(error).message)
+    })
+  }
+
+  if (stage === 'closed') {
+    return <></>
+  }
+
+  const actions = [
+    { id: 'admin', label: '进入管理后台', icon: accountCogIcon, onClick: handleOpenAdmin },
+    { id: 'clear', label: '清除答题进度', icon: broomIcon, onClick: handleClearSession },
+    {
+      id: 'fullscreen',
+      label: isFullscreen ? '退出全屏' : '进入全屏',
+      icon: fullscreenIcon,
+      onClick: () => void toggleFullscreen()
+    },
+    { id: 'reload', label: '重启界面', icon: restartIcon, onClick: handleReload },
+    {
+      id: 'pin',
+      label: '修改 PIN',
+      icon: lockResetIcon,
+      onClick: startPinChange
+    },
+    {
+      id: 'quit',
+      label: confirmQuit ? '再次点击确认退出' : '退出程序',
+      icon: powerIcon,
+      onClick: handleQuit
+    }
+  ]
+  const versions = window.electron.process.versions
+
+  return (
+    <div className="fixed inset-0 z-90 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      {stage === 'pin' && (
+        <PinPad title="运维验证" error={pinError} onSubmit={handlePin} onCancel={close} />
+      )}
+      {stage === 'current-pin' && (
+        <PinPad
+          title="输入当前 PIN"
+          error={pinError}
+          onSubmit={handleCurrentPin}
+          onCancel={() => setStage('console')}
+        />
+      )}
+      {stage === 'new-pin' && (
+        <PinPad
+          title="设置新 PIN"
+          hint="输入 4 到 8 位数字"
+          error={pinError}
+          onSubmit={handleNewPin}
+          onCancel={() => setStage('console')}
+        />
+      )}
+      {stage === 'confirm-pin' && (
+        <PinPad
+          title="确认新 PIN"
+          hint="再次输入新 PIN"
+          error={pinError}
+          onSubmit={handleConfirmPin}
+          onCancel={() => setStage('console')}
+        />
+      )}
+      {stage === 'console' && (
+        <div
+          className="w-full max-w-4xl mx-8 p-8 rounded-2xl shadow-2xl border-2 border-yellow-300"
+          style={{ backgroundColor: '#fbfdba' }}
+        >
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-4xl font-bold text-gray-800">运维控制台</h2>
+            <button
+              onClick={close}
+              className="p-2 rounded-lg hover:bg-yellow-200 transition-colors"
+              title="关闭"
+            >
+              <Icon icon={closeIcon} className="text-4xl text-gray-700" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6 text-lg text-gray-700">
+            <div className="p-4 rounded-xl bg-white border-2 border-yellow-200">
+              <div className="font-bold text-gray-800 mb-1">版本</div>
+              <div>
+                {appInfo ? `${appInfo.name} v${appInfo.version}` : '读取中...'}
+                {appInfo && !appInfo.kioskMode && '（开发模式）'}
+              </div>
+              <div className="text-base text-gray-500">
+                Electron {versions.electron} / Chromium {versions.chrome}
+              </div>
+            </div>
+            <div className="p-4 rounded-xl bg-white border-2 border-yellow-200">
+              <div className="font-bold text-gray-800 mb-1">授权状态</div>
+              <div>{describeLicense(license)}</div>
+            </div>
+          </div>
+
+          {isDefaultPin && (
+            <div className="mb-6 p-4 rounded-xl bg-red-100 border-2 border-red-300 text-lg text-red-800">
+              仍在使用默认 PIN，请尽快修改。
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {actions.map((action) => (
+              <button
+                key={action.id}
+                onClick={action.onClick}
+                className="flex flex-col items-center gap-3 py-6 rounded-xl bg-white border-2 border-gray-300 hover:border-red-600 hover:bg-red-50 transition-all"
+              >
+                <Icon icon={action.icon} className="text-5xl text-red-600" />
+                <span className="text-xl font-bold text-gray-800">{action.label}</span>
+              </button>
+            ))}
+          </div>
+
+          {message && (
+            <div className="mt-6 p-4 rounded-xl text-center text-lg font-semibold bg-green-100 text-green-800">
+              {message}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+/**
+ * Ordering Question Component
+ * A list the visitor puts in order by dragging items (touch or mouse) or with the arrow buttons
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { Icon } from '@iconify/react'
+import dragIcon from '@iconify-icons/mdi/drag'
+import chevronUpIcon from '@iconify-icons/mdi/chevron-up'
+import chevronDownIcon from '@iconify-icons/mdi/chevron-down'
+import { QuestionMediaView } from './QuestionMediaView'
+import type { QuestionMedia } from '../types/question'
+
+interface OrderingListProps {
+  options: string[]
+  /** Image or video of each option, by option index */
+  optionMedia?: (QuestionMedia | null)[]
+  /** Option indexes in their current order */
+  order: number[]
+  isLocked: boolean
+  onArrange: (order: number[]) => void
+  /** Font size classes for the item text */
+  textClassName: string
+}
+
+function moveItem(order: number[], from: number, to: number): number[] {
+  const next = [...order]
+  const [item] = next.splice(from, 1)
+  next.splice(to, 0, item)
+  return next
+}
+
+export function OrderingList({
+  options,
+  optionMedia,
+  order,
+  isLocked,
+  onArrange,
+  textClassName
+}: OrderingListProps): React.JSX.Element {
+  const itemRefs = useRef<(HTMLDivElement | null)[]>([])
+  // Option being dragged; the list reorders live as the pointer passes the other items
+  const [dragged, setDragged] = useState<number | null>(null)
+
+  useEffect(() => {
+    if (dragged === null) return undefined
+
+    const handleMove = (e: PointerEvent): void => {
+      if (isLocked) return
+      const from = order.indexOf(dragged)
+      const rects = itemRefs.current.map((item) => item?.getBoundingClientRect())
+      const to = rects.findIndex(
+        (rect) => !!rect && e.clientY >= rect.top && e.clientY <= rect.bottom
+      )
+      const rect = rects[to]
+      if (!rect || to === from) return
+
+      // Only swap once the pointer is past the middle of the target, so items of
+      // different heights do not flip back and forth
+      const middle = rect.top + rect.height / 2
+      if ((to > from && e.clientY < middle) || (to < from && e.clientY > middle)) return
+
+      onArrange(moveItem(order, from, to))
+    }
+    const handleUp = (): void => setDragged(null)
+
+    window.addEventListener('pointermove', handleMove)
+    window.addEventListener('pointerup', handleUp)
+    window.addEventListener('pointercancel', handleUp)
+    return () => {
+      window.removeEventListener('pointermove', handleMove)
+      window.removeEventListener('pointerup', handleUp)
+      window.removeEventListener('pointercancel', handleUp)
+    }
+  }, [dragged, order, isLocked, onArrange])
+
+  const arrowClassName =
+    'p-1 rounded-lg text-yellow-300 hover:bg-yellow-300/20 disabled:opacity-30 disabled:cursor-not-allowed'
+
+  return (
+    <div className="flex flex-col gap-3 sm:gap-4 max-w-5xl mx-auto w-full">
+      {order.map((optionIndex, position) => {
+        const isDragged = dragged === optionIndex
+        return (
+          <div
+            key={optionIndex}
+            ref={(item) => {
+              itemRefs.current[position] = item
+            }}
+            className={`
+              flex items-center gap-3 sm:gap-4 px-4 sm:px-6 py-3 sm:py-4
+              border-4 rounded-2xl backdrop-blur-md select-none transition-colors duration-200
+              ${
+                isDragged
+                  ? 'bg-yellow-300/30 border-yellow-400 shadow-[0_0_20px_rgba(253,224,71,0.6)]'
+                  : 'bg-yellow-300/10 border-yellow-300/30'
+              }
+              ${isLocked ? 'opacity-70' : ''}
+            `}
+          >
+            <div
+              className={`touch-none p-1 ${isLocked ? 'cursor-not-allowed' : 'cursor-grab active:cursor-grabbing'}`}
+              onPointerDown={(e) => {
+                if (isLocked) return
+                e.preventDefault()
+                setDragged(optionIndex)
+              }}
+              title="拖动排序"
+            >
+              <Icon icon={dragIcon} className="text-3xl sm:text-4xl text-yellow-300" />
+            </div>
+            <span
+              className={`font-bold ${textClassName} min-w-[30px] sm:min-w-[40px] text-yellow-300`}
+            >
+              {position + 1}
+            </span>
+            {optionMedia?.[optionIndex] && (
+              <QuestionMediaView
+                media={optionMedia[optionIndex]}
+                isOption
+                className="max-h-[12vh] max-w-[25%]"
+              />
+            )}
+            <span className={`flex-1 text-left ${textClassName}`}>{options[optionIndex]}</span>
+            <div className="flex flex-col">
+              <button
+                type="button"
+                className={arrowClassName}
+                onClick={() => onArrange(moveItem(order, position, position - 1))}
+                disabled={isLocked || position === 0}
+                title="上移"
+              >
+                <Icon icon={chevronUpIcon} className="text-2xl sm:text-3xl" />
+              </button>
+              <button
+                type="button"
+                className={arrowClassName}
+                onClick={() => onArrange(moveItem(order, position, position + 1))}
+                disabled={isLocked || position === order.length - 1}
+                title="下移"
+              >
+                <Icon icon={chevronDownIcon} className="text-2xl sm:text-3xl" />
+              </button>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
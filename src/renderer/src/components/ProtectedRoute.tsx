@@ -8,29 +8,41 @@ import { useNavigate, useLocation } from 'react-router'
 import { useAuth } from '../contexts/AuthContext'
 import { LoadingSpinner } from './LoadingSpinner'
 
+const CHANGE_PASSWORD_PATH = '/admin/change-password'
+
 interface ProtectedRouteProps {
   children: ReactNode
 }
 
 export function ProtectedRoute({ children }: ProtectedRouteProps): React.JSX.Element {
-  const { isAuthenticated, checkAuth } = useAuth()
+  const { isAuthenticated, mustChangePassword, checkAuth } = useAuth()
   const navigate = useNavigate()
   const location = useLocation()
 
   useEffect(() => {
-    // Check authentication status
-    const authenticated = checkAuth()
-    if (!authenticated) {
-      // Save the attempted location to redirect after login
-      navigate('/admin/login', {
-        replace: true,
-        state: { from: location.pathname }
-      })
+    // Check authentication status with the main process
+    void checkAuth().then((authenticated) => {
+      if (!authenticated) {
+        // Save the attempted location to redirect after login
+        navigate('/admin/login', {
+          replace: true,
+          state: { from: location.pathname }
+        })
+      }
+    })
+  }, [checkAuth, navigate, location.pathname])
+
+  // The default password has to be replaced before any admin page can be used
+  const needsPasswordChange =
+    isAuthenticated && mustChangePassword && location.pathname !== CHANGE_PASSWORD_PATH
+  useEffect(() => {
+    if (needsPasswordChange) {
+      navigate(CHANGE_PASSWORD_PATH, { replace: true })
     }
-  }, [isAuthenticated, checkAuth, navigate, location.pathname])
+  }, [needsPasswordChange, navigate])
 
   // Show loading while checking authentication
-  if (!isAuthenticated) {
+  if (!isAuthenticated || needsPasswordChange) {
     return (
       <div className="flex items-center justify-center min-h-screen w-full relative z-10">
         <LoadingSpinner size="xl" variant="ring" text="验证中..." fullScreen={false} />
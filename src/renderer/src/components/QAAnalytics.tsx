@@ -0,0 +1,309 @@
+/**
+ * Q&A Analytics Component
+ * Per-question correct rates, common wrong options, session activity and average score
+ */
+
+import { useState, useEffect, useRef } from 'react'
+import { useNavigate } from 'react-router'
+import { Icon } from '@iconify/react'
+import arrowLeftIcon from '@iconify-icons/mdi/arrow-left'
+import refreshIcon from '@iconify-icons/mdi/refresh'
+import alertIcon from '@iconify-icons/mdi/alert-circle-outline'
+import { LoadingSpinner } from './LoadingSpinner'
+import { getAnswerAnalytics } from '../services/questionStorage'
+import type { AnswerAnalytics, QuestionStats } from '../types/analytics'
+import { cn } from '@renderer/utils/cn'
+
+// First-attempt correct rate below which a question is flagged for review
+const LOW_CORRECT_RATE = 0.4
+// Attempts needed before a question's correct rate is trusted enough to flag
+const MIN_ATTEMPTS_TO_FLAG = 5
+
+function formatPercent(rate: number | null): string {
+  return rate === null ? '-' : `${Math.round(rate * 100)}%`
+}
+
+function formatWrongOption(question: QuestionStats): string {
+  const { topWrongOption, options, optionType } = question
+  if (!topWrongOption) return '-'
+  const option = options[topWrongOption.index] ?? ''
+  const label =
+    optionType === 'true-false'
+      ? option
+      : `${String.fromCharCode(65 + topWrongOption.index)}. ${option}`
+  return `${label}（${topWrongOption.count} 次）`
+}
+
+/**
+ * Simple vertical bar chart built from divs
+ */
+function BarChart({
+  bars,
+  emptyText
+}: {
+  bars: { label: string; value: number }[]
+  emptyText: string
+}): React.JSX.Element {
+  const max = Math.max(0, ...bars.map((bar) => bar.value))
+  if (max === 0) {
+    return <p className="py-8 text-center text-lg text-gray-600">{emptyText}</p>
+  }
+  return (
+    <div className="flex items-end gap-1 h-48">
+      {bars.map((bar) => (
+        <div
+          key={bar.label}
+          className="flex-1 min-w-0 h-full flex flex-col items-center justify-end gap-1"
+          title={`${bar.label}：${bar.value} 场`}
+        >
+          {bar.value > 0 && <span className="text-xs text-gray-700">{bar.value}</span>}
+          <div
+            className="w-full rounded-t bg-red-600"
+            style={{ height: `${(bar.value / max) * 100}%` }}
+          />
+          <span className="text-xs text-gray-600 truncate max-w-full">{bar.label}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function QAAnalytics(): React.JSX.Element {
+  const navigate = useNavigate()
+  const [analytics, setAnalytics] = useState<AnswerAnalytics | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  // Scroll state for header background
+  const [isScrolled, setIsScrolled] = useState(false)
+  // Ref for scroll container
+  const scrollContainerRef = useRef<HTMLDivElement>(null)
+  // Ref for cleanup function
+  const scrollCleanupRef = useRef<(() => void) | null>(null)
+
+  const loadAnalytics = (): Promise<void> =>
+    getAnswerAnalytics()
+      .then(setAnalytics)
+      .catch((error) => {
+        console.error('[QAAnalytics] Failed to load analytics:', error)
+        alert('加载答题统计失败，请重试')
+      })
+      .finally(() => setIsLoading(false))
+
+  useEffect(() => {
+    loadAnalytics()
+  }, [])
+
+  // Ref callback to set up scroll listener when ref is attached
+  const setScrollContainerRef = (node: HTMLDivElement | null): void => {
+    // Clean up previous listener if exists
+    if (scrollCleanupRef.current) {
+      scrollCleanupRef.current()
+      scrollCleanupRef.current = null
+    }
+
+    scrollContainerRef.current = node
+
+    if (node) {
+      const handleScroll = (): void => {
+        setIsScrolled(node.scrollTop > 0)
+      }
+
+      node.addEventListener('scroll', handleScroll, { passive: true })
+
+      // Store cleanup function
+      scrollCleanupRef.current = () => {
+        node.removeEventListener('scroll', handleScroll)
+      }
+    }
+  }
+
+  const handleBack = (): void => {
+    navigate('/admin')
+  }
+
+  const handleRefresh = (): void => {
+    setIsLoading(true)
+    loadAnalytics()
+  }
+
+  const summary = analytics
+    ? [
+        { label: '答题场次', value: String(analytics.totalSessions) },
+        { label: '作答次数', value: String(analytics.totalAttempts) },
+        {
+          label: '平均得分',
+          value: analytics.averageScore === null ? '-' : analytics.averageScore.toFixed(1)
+        },
+        { label: '平均得分率', value: formatPercent(analytics.averageScoreRate) }
+      ]
+    : []
+
+  return (
+    <div
+      ref={setScrollContainerRef}
+      className="flex flex-col w-full relative z-10 h-screen overflow-y-auto"
+    >
+      <div className="w-full">
+        {/* Header */}
+        <div
+          className={cn(
+            'sticky top-0 py-8 px-36 backdrop-blur-lg z-20 transition-colors duration-200',
+            {
+              'bg-red-600/80 backdrop-blur-xs': isScrolled
+            }
+          )}
+        >
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              {/* Page Back Button - Left of Title */}
+              <button
+                onClick={handleBack}
+                className="shrink-0 p-2 hover:opacity-80 transition-opacity"
+                title="返回管理后台"
+              >
+                <Icon icon={arrowLeftIcon} className="text-3xl text-white" />
+              </button>
+              <div>
+                <h1 className="text-4xl md:text-5xl font-bold text-white mb-2">答题统计</h1>
+                <p className="text-lg text-red-100">按题目查看正确率，找出表述不清或过难的题目</p>
+              </div>
+            </div>
+            <button
+              onClick={handleRefresh}
+              disabled={isLoading}
+              className="flex items-center gap-2 px-6 py-3 rounded-lg font-semibold text-gray-800 shadow-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+              style={{ backgroundColor: '#fbfdba' }}
+            >
+              <Icon icon={refreshIcon} className="text-xl text-red-600" />
+              刷新
+            </button>
+          </div>
+        </div>
+
+        <div className="px-36 pb-12">
+          {isLoading || !analytics ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="lg" variant="ring" text="加载中..." fullScreen={false} />
+            </div>
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+                {summary.map((item) => (
+                  <div
+                    key={item.label}
+                    className="p-6 rounded-2xl shadow-xl border-2 border-yellow-300 text-center"
+                    style={{ backgroundColor: '#fbfdba' }}
+                  >
+                    <div className="text-4xl font-bold text-red-600 mb-2">{item.value}</div>
+                    <div className="text-lg text-gray-700">{item.label}</div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Activity */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+                <div
+                  className="p-6 rounded-2xl shadow-xl border-2 border-yellow-300"
+                  style={{ backgroundColor: '#fbfdba' }}
+                >
+                  <h2 className="text-2xl font-bold text-gray-800 mb-4">近 30 天每日场次</h2>
+                  <BarChart
+                    bars={analytics.sessionsByDay.map(({ day, count }) => ({
+                      label: day.slice(5),
+                      value: count
+                    }))}
+                    emptyText="近 30 天暂无答题记录"
+                  />
+                </div>
+                <div
+                  className="p-6 rounded-2xl shadow-xl border-2 border-yellow-300"
+                  style={{ backgroundColor: '#fbfdba' }}
+                >
+                  <h2 className="text-2xl font-bold text-gray-800 mb-4">各时段场次</h2>
+                  <BarChart
+                    bars={analytics.sessionsByHour.map((count, hour) => ({
+                      label: String(hour),
+                      value: count
+                    }))}
+                    emptyText="暂无答题记录"
+                  />
+                </div>
+              </div>
+
+              {/* Per-question statistics */}
+              <div
+                className="p-6 rounded-2xl shadow-xl border-2 border-yellow-300"
+                style={{ backgroundColor: '#fbfdba' }}
+              >
+                <h2 className="text-2xl font-bold text-gray-800 mb-2">题目正确率</h2>
+                <p className="text-base text-gray-600 mb-4">
+                  按首次作答统计，正确率最低的题目排在最前；作答不少于 {MIN_ATTEMPTS_TO_FLAG}{' '}
+                  次且正确率低于 {Math.round(LOW_CORRECT_RATE * 100)}% 的题目会被标记。
+                </p>
+                {analytics.questions.length === 0 ? (
+                  <p className="py-8 text-center text-lg text-gray-600">暂无题目</p>
+                ) : (
+                  <table className="w-full text-left text-gray-800">
+                    <thead>
+                      <tr className="border-b-2 border-yellow-300 text-base text-gray-600">
+                        <th className="py-3 pr-4">题目</th>
+                        <th className="py-3 pr-4 whitespace-nowrap">首次作答</th>
+                        <th className="py-3 pr-4 whitespace-nowrap">正确率</th>
+                        <th className="py-3 pr-4">最常选错</th>
+                        <th className="py-3 pr-4 whitespace-nowrap">超时</th>
+                        <th className="py-3 whitespace-nowrap">平均用时</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.questions.map((question) => {
+                        const flagged =
+                          question.correctRate !== null &&
+                          question.firstAttempts >= MIN_ATTEMPTS_TO_FLAG &&
+                          question.correctRate < LOW_CORRECT_RATE
+                        return (
+                          <tr
+                            key={question.questionId}
+                            className={cn('border-b border-yellow-200 align-top', {
+                              'bg-red-50': flagged
+                            })}
+                          >
+                            <td className="py-3 pr-4">
+                              <div className="flex items-start gap-2">
+                                {flagged && (
+                                  <Icon
+                                    icon={alertIcon}
+                                    className="shrink-0 mt-1 text-xl text-red-600"
+                                  />
+                                )}
+                                <span className="line-clamp-2">{question.text}</span>
+                              </div>
+                            </td>
+                            <td className="py-3 pr-4">{question.firstAttempts}</td>
+                            <td
+                              className={cn('py-3 pr-4 font-bold', {
+                                'text-red-600': flagged
+                              })}
+                            >
+                              {formatPercent(question.correctRate)}
+                            </td>
+                            <td className="py-3 pr-4">{formatWrongOption(question)}</td>
+                            <td className="py-3 pr-4">{question.timedOutCount}</td>
+                            <td className="py-3">
+                              {question.averageTimeSpent === null
+                                ? '-'
+                                : `${(question.averageTimeSpent / 1000).toFixed(1)} 秒`}
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -14,12 +14,41 @@ import arrowRightIcon from '@iconify-icons/mdi/arrow-right'
 import refreshIcon from '@iconify-icons/mdi/refresh'
 import settingsIcon from '@iconify-icons/mdi/cog'
 import { useQA, useQAState } from '../contexts/QAContext'
-import { QAState } from '../store/qaStateMachine'
+import {
+  QAState,
+  getQuestionDeadline,
+  isAnswerCorrect,
+  shouldRevealAnswer
+} from '../store/qaStateMachine'
 import { useKeyboardInput } from '../hooks/useKeyboardInput'
+import { useCountdown } from '../hooks/useCountdown'
+import { CountdownRing } from './CountdownRing'
+import { ExplanationPanel } from './ExplanationPanel'
+import { FillBlankText, WordTileBank } from './FillBlankQuestion'
+import { OrderingList } from './OrderingQuestion'
+import { QuestionMediaView } from './QuestionMediaView'
+import { getEntry } from '../services/adminStorage'
 import { InputCommand, commandToAnswerIndex } from '../services/inputHandler'
+import { getOptionLetter } from '../utils/questionOptions'
+import { countBlanks, formatCorrectAnswer } from '../utils/questionTypes'
 import wrongVideo from '../assets/wrong.mp4'
 import rightVideo from '../assets/right.mp4'
 import '../assets/animations.css'
+import type { Grade } from '../types/question'
+
+const GRADE_LABELS: Record<Grade, string> = {
+  excellent: '优秀',
+  good: '良好',
+  pass: '及格',
+  fail: '不及格'
+}
+
+/**
+ * Format points with at most one decimal (partial credit can be fractional)
+ */
+function formatPoints(points: number): string {
+  return String(Math.round(points * 10) / 10)
+}
 
 export function QAScreen() {
   const navigate = useNavigate()
@@ -102,6 +131,36 @@ export function QAScreen() {
     }
   }
 
+  // 选项网格随选项数量调整：2-4 个选项两列；5-8 个选项在宽屏上三到四列并压缩高度，
+  // 避免题目需要滚动；选项文字较长时保持两列以免换行过多
+  const optionCount = currentQuestion?.options.length ?? 0
+  const maxOptionLength = currentQuestion
+    ? Math.max(0, ...currentQuestion.options.map((opt) => opt.length))
+    : 0
+  const isCompactOptions = optionCount > 4
+  const getOptionGridClass = (): string => {
+    if (optionCount <= 4 || maxOptionLength > 40) {
+      return isCompactOptions
+        ? 'grid-cols-1 sm:grid-cols-2 gap-4'
+        : 'grid-cols-1 sm:grid-cols-2 gap-6'
+    }
+    if (optionCount <= 6) {
+      return 'grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4'
+    }
+    return 'grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4'
+  }
+
+  // 填空题：已放入空格的词块（按空格顺序）；所有空格填满后才能确认
+  const isSequenceQuestion =
+    currentQuestion?.questionType === 'fill-blank' || currentQuestion?.questionType === 'ordering'
+  const placedTiles =
+    currentQuestion?.questionType === 'fill-blank' && Array.isArray(context.selectedAnswer)
+      ? context.selectedAnswer
+      : []
+  const isBlanksFilled =
+    currentQuestion?.questionType !== 'fill-blank' ||
+    placedTiles.length === countBlanks(currentQuestion.text)
+
   // Handle keyboard input (disabled during animation and completion)
   useKeyboardInput(
     (command) => {
@@ -110,12 +169,42 @@ export function QAScreen() {
     state !== QAState.ANIMATION_FEEDBACK && state !== QAState.COMPLETED
   )
 
+  // Countdown only while the question is on screen; feedback pauses the question clock
+  const isTiming = state === QAState.QUESTION_DISPLAY || state === QAState.ANSWER_SELECTED
+  const questionRemaining = useCountdown(isTiming ? getQuestionDeadline(context) : null, () =>
+    dispatch({ type: 'TIMEOUT' })
+  )
+  // The session clock keeps running through feedback; an expiry there ends the session afterwards
+  const isSessionRunning = state !== QAState.IDLE && state !== QAState.COMPLETED
+  const sessionRemaining = useCountdown(isSessionRunning ? context.sessionDeadline : null, () =>
+    dispatch({ type: 'TIMEOUT' })
+  )
+
+  const isExamMode = context.scoring.retryMode === 'exam'
+
+  // Open the entry a question is based on; the session stays in memory for the way back
+  const handleOpenEntry = async (entryId: string): Promise<void> => {
+    try {
+      const entry = await getEntry(entryId)
+      if (!entry) {
+        alert('关联的条目不存在或已被删除')
+        return
+      }
+      navigate(`/category/${entry.categoryId}?entryId=${encodeURIComponent(entry.id)}&from=qa`)
+    } catch (error) {
+      console.error('[QAScreen] Failed to open referenced entry:', error)
+    }
+  }
+
   // Handle input commands
   const handleInputCommand = (command: InputCommand): void => {
     const answerIndex = commandToAnswerIndex(command)
 
     if (answerIndex !== null) {
-      // Select answer (1/2/3/4 or A/B/C/D)
+      // Select answer (1-8 or A-H); keys past the question's last option are ignored,
+      // ordering questions are only arranged by dragging
+      if (currentQuestion && answerIndex >= currentQuestion.options.length) return
+      if (currentQuestion?.questionType === 'ordering') return
       if (state === QAState.QUESTION_DISPLAY || state === QAState.ANSWER_SELECTED) {
         dispatch({ type: 'SELECT_ANSWER', answerIndex })
       }
@@ -142,32 +231,10 @@ export function QAScreen() {
     if (state === QAState.ANIMATION_FEEDBACK && currentQuestion) {
       // Calculate if answer is correct
       const calculateIsCorrect = (): boolean => {
+        // Timeouts always play the wrong-answer feedback
+        if (context.lastOutcome === 'timed-out') return false
         if (context.selectedAnswer === null) return false
-
-        if (currentQuestion.questionType === 'multiple') {
-          // Multiple choice: compare arrays
-          const correctAnswers = Array.isArray(currentQuestion.correctAnswer)
-            ? currentQuestion.correctAnswer
-            : [currentQuestion.correctAnswer]
-          const selectedAnswers = Array.isArray(context.selectedAnswer)
-            ? context.selectedAnswer
-            : [context.selectedAnswer]
-
-          if (correctAnswers.length !== selectedAnswers.length) return false
-
-          const sortedCorrect = [...correctAnswers].sort()
-          const sortedSelected = [...selectedAnswers].sort()
-          return sortedCorrect.every((val, idx) => val === sortedSelected[idx])
-        } else {
-          // Single choice: compare single numbers
-          const correctAnswer = Array.isArray(currentQuestion.correctAnswer)
-            ? currentQuestion.correctAnswer[0]
-            : currentQuestion.correctAnswer
-          const selected = Array.isArray(context.selectedAnswer)
-            ? context.selectedAnswer[0]
-            : context.selectedAnswer
-          return correctAnswer === selected
-        }
+        return isAnswerCorrect(currentQuestion, context.selectedAnswer)
       }
 
       const isCorrectForVideo = calculateIsCorrect()
@@ -263,7 +330,7 @@ export function QAScreen() {
     }
     // Return undefined for cleanup when condition is false
     return undefined
-  }, [state, currentQuestion, context.selectedAnswer])
+  }, [state, currentQuestion, context.selectedAnswer, context.lastOutcome])
 
   // Note: Both correct and wrong answers now use video feedback
   // Both wait for user click to complete animation - no auto-complete
@@ -351,9 +418,8 @@ export function QAScreen() {
 
   // Completion state
   if (state === QAState.COMPLETED) {
-    const percentage = Math.round(
-      (context.results.correctCount / context.results.totalAnswered) * 100
-    )
+    const { score, maxScore, grade } = context.results
+    const percentage = maxScore > 0 ? Math.round((score / maxScore) * 100) : 0
     return (
       <div className="w-screen h-full flex flex-col text-white overflow-auto">
         <div className="fixed top-4 right-4 z-40">
@@ -373,11 +439,31 @@ export function QAScreen() {
           <div className="text-4xl sm:text-5xl md:text-6xl font-bold mb-8 sm:mb-12">
             🎉 答题完成!
           </div>
-          <div className="text-6xl sm:text-7xl md:text-8xl font-bold mb-6 sm:mb-8">
-            {percentage}%
+          <div className="text-6xl sm:text-7xl md:text-8xl font-bold mb-4">
+            {formatPoints(score)}
+            <span className="text-3xl sm:text-4xl md:text-5xl opacity-80">
+              {' '}
+              / {formatPoints(maxScore)} 分
+            </span>
           </div>
-          <div className="text-2xl sm:text-3xl opacity-90 mb-12 sm:mb-16">
-            正确: {context.results.correctCount} / {context.results.totalAnswered}
+          {grade && (
+            <div className="text-3xl sm:text-4xl font-bold text-yellow-300 mb-6 sm:mb-8">
+              {GRADE_LABELS[grade]} · {percentage}%
+            </div>
+          )}
+          <div className="text-2xl sm:text-3xl opacity-90 mb-4">
+            首次答对: {context.results.correctCount} / {context.questions.length} 题
+          </div>
+          <div className="flex flex-wrap justify-center gap-x-8 gap-y-2 text-xl sm:text-2xl opacity-80 mb-12 sm:mb-16">
+            {context.results.averageAnswerTime !== undefined && (
+              <span>平均用时: {(context.results.averageAnswerTime / 1000).toFixed(1)} 秒</span>
+            )}
+            {context.results.timedOutCount > 0 && (
+              <span>超时: {context.results.timedOutCount} 次</span>
+            )}
+            {context.results.unansweredCount > 0 && (
+              <span>未作答: {context.results.unansweredCount} 题</span>
+            )}
           </div>
           <div className="flex flex-col sm:flex-row gap-4 sm:gap-6">
             <button
@@ -429,17 +515,38 @@ export function QAScreen() {
       </div>
 
       {/* Progress Bar */}
-      <div className="flex flex-col px-4 sm:px-8 md:px-16 py-4 sm:py-6 md:py-8 bg-red-700/10 backdrop-blur-xs gap-4 shrink-0 border-b border-yellow-300/20">
-        {/* 进度文本字体大小优化：1366x768 -> 1920x1080 -> 2560x1440 -> 4K */}
-        <div className="text-base sm:text-lg md:text-xl lg:text-2xl xl:text-3xl opacity-90">
-          第 {progress.current} 题 / 共 {progress.total} 题
+      <div className="flex items-center px-4 sm:px-8 md:px-16 py-4 sm:py-6 md:py-8 bg-red-700/10 backdrop-blur-xs gap-6 shrink-0 border-b border-yellow-300/20">
+        <div className="flex-1 flex flex-col gap-4">
+          {/* 进度文本字体大小优化：1366x768 -> 1920x1080 -> 2560x1440 -> 4K */}
+          <div className="text-base sm:text-lg md:text-xl lg:text-2xl xl:text-3xl opacity-90">
+            第 {progress.current} 题 / 共 {progress.total} 题
+          </div>
+          <div className="h-2 bg-red-800/50 rounded overflow-hidden">
+            <div
+              className="h-full bg-yellow-300 rounded transition-all duration-300 ease-out shadow-[0_0_10px_rgba(253,224,71,0.5)]"
+              style={{ width: `${progress.percentage}%` }}
+            />
+          </div>
         </div>
-        <div className="h-2 bg-red-800/50 rounded overflow-hidden">
-          <div
-            className="h-full bg-yellow-300 rounded transition-all duration-300 ease-out shadow-[0_0_10px_rgba(253,224,71,0.5)]"
-            style={{ width: `${progress.percentage}%` }}
+        {/* 倒计时：本题限时 / 整场限时（暂停时显示剩余时间） */}
+        {context.timeLimits.questionSeconds > 0 && (
+          <CountdownRing
+            remaining={
+              questionRemaining ??
+              context.timeLimits.questionSeconds * 1000 - context.questionElapsed
+            }
+            total={context.timeLimits.questionSeconds * 1000}
+            label="本题"
           />
-        </div>
+        )}
+        {context.sessionDeadline !== null && (
+          <CountdownRing
+            remaining={sessionRemaining ?? 0}
+            total={context.timeLimits.sessionSeconds * 1000}
+            label="全场"
+            warningSeconds={30}
+          />
+        )}
       </div>
 
       {/* Question and Options - Scrollable Content */}
@@ -457,9 +564,26 @@ export function QAScreen() {
           className={`${getQuestionFontSize()} font-bold leading-relaxed text-left drop-shadow-md max-w-7xl mx-auto w-full wrap-break-word`}
         >
           <span className="whitespace-nowrap">{progress.current}. </span>
-          <span className="inline">{currentQuestion.text}</span>
+          <span className="inline">
+            {currentQuestion.questionType === 'fill-blank' ? (
+              <FillBlankText
+                question={currentQuestion}
+                placed={placedTiles}
+                isLocked={context.isAnswerLocked}
+                onSelectTile={(tile) => dispatch({ type: 'SELECT_ANSWER', answerIndex: tile })}
+              />
+            ) : (
+              currentQuestion.text
+            )}
+          </span>
         </div>
 
+        {currentQuestion.media && (
+          <div className="flex justify-center max-w-7xl mx-auto w-full">
+            <QuestionMediaView media={currentQuestion.media} className="max-h-[40vh] max-w-full" />
+          </div>
+        )}
+
         {/* Question Type Indicator - Hidden for buyer preview, uncomment if needed */}
         {/* <div className="flex items-center justify-center gap-4 mb-4">
           <span className="px-4 py-2 rounded-lg text-lg font-semibold bg-yellow-300/20 border-2 border-yellow-300">
@@ -470,29 +594,59 @@ export function QAScreen() {
           </span>
         </div> */}
 
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 max-w-7xl mx-auto w-full">
-          {(() => {
-            // 计算所有选项的统一字体大小（基于最长选项）
-            const optionFontSize = getOptionFontSize()
-            return currentQuestion.options.map((option, index) => {
-              // Check if this option is selected (supports both single and multiple choice)
-              const isSelected = Array.isArray(context.selectedAnswer)
-                ? context.selectedAnswer.includes(index)
-                : context.selectedAnswer === index
-              const isLocked = context.isAnswerLocked
-              const label =
-                currentQuestion.optionType === 'true-false'
-                  ? index === 0
-                    ? '✅'
-                    : '❌'
-                  : String.fromCharCode(65 + index) // A, B, C, D
+        {currentQuestion.questionType === 'fill-blank' && (
+          <WordTileBank
+            question={currentQuestion}
+            placed={placedTiles}
+            isLocked={context.isAnswerLocked}
+            onSelectTile={(tile) => dispatch({ type: 'SELECT_ANSWER', answerIndex: tile })}
+            textClassName={getOptionFontSize().text}
+          />
+        )}
 
-              return (
-                <button
-                  key={index}
-                  className={`
-                    min-h-[80px] sm:min-h-[90px] md:min-h-[100px] lg:min-h-[120px] xl:min-h-[140px]
-                    px-6 sm:px-8 md:px-10 lg:px-12 xl:px-14 py-4 sm:py-5 md:py-6 lg:py-8 xl:py-10
+        {currentQuestion.questionType === 'ordering' && (
+          <OrderingList
+            options={currentQuestion.options}
+            optionMedia={currentQuestion.optionMedia}
+            order={
+              Array.isArray(context.selectedAnswer)
+                ? context.selectedAnswer
+                : currentQuestion.options.map((_, index) => index)
+            }
+            isLocked={context.isAnswerLocked}
+            onArrange={(order) => dispatch({ type: 'ARRANGE_ANSWER', order })}
+            textClassName={getOptionFontSize().text}
+          />
+        )}
+
+        {!isSequenceQuestion && (
+          <div className={`grid ${getOptionGridClass()} max-w-7xl mx-auto w-full`}>
+            {(() => {
+              // 计算所有选项的统一字体大小（基于最长选项）
+              const optionFontSize = getOptionFontSize()
+              return currentQuestion.options.map((option, index) => {
+                // Check if this option is selected (supports both single and multiple choice)
+                const isSelected = Array.isArray(context.selectedAnswer)
+                  ? context.selectedAnswer.includes(index)
+                  : context.selectedAnswer === index
+                const isLocked = context.isAnswerLocked
+                const label =
+                  currentQuestion.optionType === 'true-false'
+                    ? index === 0
+                      ? '✅'
+                      : '❌'
+                    : getOptionLetter(index) // A-H
+                const optionMedia = currentQuestion.optionMedia?.[index]
+
+                return (
+                  <button
+                    key={index}
+                    className={`
+                    ${
+                      isCompactOptions
+                        ? 'min-h-[64px] sm:min-h-[72px] md:min-h-[80px] lg:min-h-[90px] xl:min-h-[100px] px-5 sm:px-6 md:px-8 py-3 sm:py-4 md:py-5'
+                        : 'min-h-[80px] sm:min-h-[90px] md:min-h-[100px] lg:min-h-[120px] xl:min-h-[140px] px-6 sm:px-8 md:px-10 lg:px-12 xl:px-14 py-4 sm:py-5 md:py-6 lg:py-8 xl:py-10'
+                    }
                     border-4 rounded-2xl
                     backdrop-blur-md
                     flex items-center
@@ -505,33 +659,43 @@ export function QAScreen() {
                     }
                     ${isLocked ? 'opacity-70 cursor-not-allowed' : 'cursor-pointer active:-translate-y-0.5'}
                   `}
-                  onClick={() => {
-                    if (!isLocked) {
-                      dispatch({ type: 'SELECT_ANSWER', answerIndex: index })
-                    }
-                  }}
-                  disabled={isLocked}
-                >
-                  {/*
+                    onClick={() => {
+                      if (!isLocked) {
+                        dispatch({ type: 'SELECT_ANSWER', answerIndex: index })
+                      }
+                    }}
+                    disabled={isLocked}
+                  >
+                    {/*
                     选项标签和文本字体大小根据最长选项动态调整：
                     - 所有选项使用相同的字体大小（基于最长选项）
                     - 对错题和选项题都适用
                     - 如果有一个选项特别长，所有选项都使用较小的字体
                   */}
-                  <span
-                    className={`font-bold ${optionFontSize.label} mr-3 sm:mr-4 md:mr-6 min-w-[30px] sm:min-w-[35px] md:min-w-[40px] lg:min-w-[45px]`}
-                  >
-                    {label}
-                  </span>
-                  <span className={`flex-1 text-left ${optionFontSize.text}`}>{option}</span>
-                  {isSelected && currentQuestion.questionType === 'multiple' && (
-                    <span className={`ml-2 text-yellow-300 ${optionFontSize.label}`}>✓</span>
-                  )}
-                </button>
-              )
-            })
-          })()}
-        </div>
+                    <span
+                      className={`font-bold ${optionFontSize.label} mr-3 sm:mr-4 md:mr-6 min-w-[30px] sm:min-w-[35px] md:min-w-[40px] lg:min-w-[45px]`}
+                    >
+                      {label}
+                    </span>
+                    <span className={`flex-1 text-left ${optionFontSize.text}`}>
+                      {optionMedia && (
+                        <QuestionMediaView
+                          media={optionMedia}
+                          isOption
+                          className="block mb-3 max-h-[18vh] max-w-full"
+                        />
+                      )}
+                      {option}
+                    </span>
+                    {isSelected && currentQuestion.questionType === 'multiple' && (
+                      <span className={`ml-2 text-yellow-300 ${optionFontSize.label}`}>✓</span>
+                    )}
+                  </button>
+                )
+              })
+            })()}
+          </div>
+        )}
       </div>
 
       {/* Control Buttons */}
@@ -548,13 +712,13 @@ export function QAScreen() {
               transition-all duration-200
               flex items-center justify-center gap-2
               ${
-                isFirstQuestion || state === QAState.ANIMATION_FEEDBACK
+                isFirstQuestion || isExamMode || state === QAState.ANIMATION_FEEDBACK
                   ? 'bg-red-700/30 text-yellow-200/50 opacity-50 cursor-not-allowed border border-yellow-300/30'
                   : 'bg-red-700 text-white hover:bg-red-800 hover:-translate-y-1 hover:shadow-xl active:translate-y-0 border-2 border-yellow-300'
               }
             `}
             onClick={() => dispatch({ type: 'PREVIOUS_QUESTION' })}
-            disabled={isFirstQuestion || state === QAState.ANIMATION_FEEDBACK}
+            disabled={isFirstQuestion || isExamMode || state === QAState.ANIMATION_FEEDBACK}
             title="上一题"
           >
             <Icon
@@ -600,7 +764,8 @@ export function QAScreen() {
             ${
               context.selectedAnswer === null ||
               context.isAnswerLocked ||
-              state !== QAState.ANSWER_SELECTED
+              state !== QAState.ANSWER_SELECTED ||
+              !isBlanksFilled
                 ? 'bg-red-700/30 text-yellow-200/50 opacity-50 cursor-not-allowed border border-yellow-300/30'
                 : 'bg-yellow-300 text-red-600 hover:bg-yellow-400 hover:-translate-y-1 hover:shadow-xl active:translate-y-0 border-2 border-yellow-300'
             }
@@ -612,7 +777,8 @@ export function QAScreen() {
             state !== QAState.ANSWER_SELECTED ||
             (currentQuestion.questionType === 'multiple' &&
               Array.isArray(context.selectedAnswer) &&
-              context.selectedAnswer.length === 0)
+              context.selectedAnswer.length === 0) ||
+            !isBlanksFilled
           }
         >
           确认答案
@@ -663,32 +829,13 @@ export function QAScreen() {
           {(() => {
             // Use the same calculation logic as in useEffect
             const isCorrectForDisplay = (() => {
+              if (context.lastOutcome === 'timed-out') return false
               if (context.selectedAnswer === null) return false
-
-              if (currentQuestion.questionType === 'multiple') {
-                const correctAnswers = Array.isArray(currentQuestion.correctAnswer)
-                  ? currentQuestion.correctAnswer
-                  : [currentQuestion.correctAnswer]
-                const selectedAnswers = Array.isArray(context.selectedAnswer)
-                  ? context.selectedAnswer
-                  : [context.selectedAnswer]
-
-                if (correctAnswers.length !== selectedAnswers.length) return false
-
-                const sortedCorrect = [...correctAnswers].sort()
-                const sortedSelected = [...selectedAnswers].sort()
-                return sortedCorrect.every((val, idx) => val === sortedSelected[idx])
-              } else {
-                const correctAnswer = Array.isArray(currentQuestion.correctAnswer)
-                  ? currentQuestion.correctAnswer[0]
-                  : currentQuestion.correctAnswer
-                const selected = Array.isArray(context.selectedAnswer)
-                  ? context.selectedAnswer[0]
-                  : context.selectedAnswer
-                return correctAnswer === selected
-              }
+              return isAnswerCorrect(currentQuestion, context.selectedAnswer)
             })()
 
+            const lastAnswer = context.results.answers[context.results.answers.length - 1]
+
             console.log('[QAScreen] Rendering animation overlay')
             console.log('[QAScreen] isCorrectForDisplay (for rendering):', isCorrectForDisplay)
             console.log('[QAScreen] context.selectedAnswer:', context.selectedAnswer)
@@ -748,8 +895,18 @@ export function QAScreen() {
                   text-red-300 drop-shadow-[0_0_20px_rgba(239,68,68,0.8)]
                 `}
                     >
-                      ✗ 错误
+                      {context.lastOutcome === 'timed-out' ? '⏰ 时间到' : '✗ 错误'}
                     </div>
+                    {lastAnswer && lastAnswer.pointsEarned > 0 && (
+                      <div className="text-3xl sm:text-4xl lg:text-5xl font-bold text-yellow-200 drop-shadow-[0_0_12px_rgba(0,0,0,0.6)]">
+                        部分正确 +{formatPoints(lastAnswer.pointsEarned)} 分
+                      </div>
+                    )}
+                    {shouldRevealAnswer(context) && (
+                      <div className="text-3xl sm:text-4xl lg:text-5xl font-bold text-yellow-200 drop-shadow-[0_0_12px_rgba(0,0,0,0.6)]">
+                        正确答案：{formatCorrectAnswer(currentQuestion)}
+                      </div>
+                    )}
                   </div>
                   <div className="fixed bottom-8 left-1/2 transform -translate-x-1/2 text-lg sm:text-xl md:text-2xl lg:text-3xl xl:text-4xl opacity-80 text-yellow-200 z-50 pointer-events-none">
                     点击屏幕继续
@@ -863,6 +1020,11 @@ export function QAScreen() {
                     >
                       ✓ 正确
                     </div>
+                    {lastAnswer && lastAnswer.pointsEarned > 0 && (
+                      <div className="text-3xl sm:text-4xl lg:text-5xl font-bold text-yellow-200 drop-shadow-[0_0_12px_rgba(0,0,0,0.6)]">
+                        +{formatPoints(lastAnswer.pointsEarned)} 分
+                      </div>
+                    )}
                   </div>
                   <div className="fixed bottom-8 left-1/2 transform -translate-x-1/2 text-lg sm:text-xl md:text-2xl lg:text-3xl xl:text-4xl opacity-80 text-yellow-200 z-50 pointer-events-none">
                     点击屏幕继续
@@ -883,6 +1045,10 @@ export function QAScreen() {
               )
             }
           })()}
+          {/* 答题结束后显示解析（可重答时不显示，避免泄露答案） */}
+          {context.questionClosed && (
+            <ExplanationPanel question={currentQuestion} onOpenEntry={handleOpenEntry} />
+          )}
         </>
       )}
     </div>
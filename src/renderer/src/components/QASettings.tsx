@@ -13,7 +13,17 @@ import {
   resetQASettings,
   type QASettings
 } from '../services/qaSettings'
+import { getCategories } from '../services/adminStorage'
 import { cn } from '@renderer/utils/cn'
+import type { RetryMode } from '../store/qaStateMachine'
+import { MATCH_CORRECT_POINTS, MATCH_SPEED_POINTS } from '../store/matchStateMachine'
+import type { Category } from '../types/admin'
+
+const RETRY_MODE_OPTIONS: { value: RetryMode; label: string; description: string }[] = [
+  { value: 'unlimited', label: '无限重答', description: '答错后重新作答，直到答对为止' },
+  { value: 'limited', label: '限次作答', description: '答错达到次数后显示正确答案并进入下一题' },
+  { value: 'exam', label: '考试模式', description: '每题只能作答一次，不能返回上一题' }
+]
 
 export function QASettings(): React.JSX.Element {
   const navigate = useNavigate()
@@ -22,6 +32,7 @@ export function QASettings(): React.JSX.Element {
   const [saveMessage, setSaveMessage] = useState<string | null>(null)
   // Temporary string state for question count input to allow clearing
   const [questionCountInput, setQuestionCountInput] = useState<string>('')
+  const [categories, setCategories] = useState<Category[]>([])
   // Scroll state for header background
   const [isScrolled, setIsScrolled] = useState(false)
   // Ref for scroll container
@@ -33,8 +44,21 @@ export function QASettings(): React.JSX.Element {
     const loadedSettings = getQASettings()
     setSettings(loadedSettings)
     setQuestionCountInput(String(loadedSettings.questionCount))
+    getCategories()
+      .then((loaded) => setCategories(loaded.sort((a, b) => a.order - b.order)))
+      .catch((error) => console.error('[QASettings] Failed to load categories:', error))
   }, [])
 
+  const togglePresetCategory = (categoryId: string): void => {
+    const { presetCategoryIds } = settings
+    setSettings({
+      ...settings,
+      presetCategoryIds: presetCategoryIds.includes(categoryId)
+        ? presetCategoryIds.filter((id) => id !== categoryId)
+        : [...presetCategoryIds, categoryId]
+    })
+  }
+
   // Ref callback to set up scroll listener when ref is attached
   const setScrollContainerRef = (node: HTMLDivElement | null): void => {
     // Clean up previous listener if exists
@@ -192,6 +216,203 @@ export function QASettings(): React.JSX.Element {
               </p>
             </div>
 
+            {/* Time Limit Settings */}
+            <div className="mb-8">
+              <label className="block text-2xl font-bold text-gray-800 mb-4">答题限时</label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <p className="mb-2 text-lg font-semibold text-gray-700">每题限时（秒）</p>
+                  <input
+                    type="number"
+                    min={0}
+                    value={settings.questionTimeLimit}
+                    onChange={(e) => {
+                      const numValue = Number.parseInt(e.target.value, 10)
+                      setSettings({
+                        ...settings,
+                        questionTimeLimit: Number.isNaN(numValue) ? 0 : Math.max(0, numValue)
+                      })
+                    }}
+                    className="w-full px-6 py-4 text-2xl rounded-xl border-2 border-yellow-300 focus:border-yellow-400 focus:outline-none text-gray-800"
+                    style={{ backgroundColor: '#fff' }}
+                  />
+                </div>
+                <div>
+                  <p className="mb-2 text-lg font-semibold text-gray-700">整场限时（分钟）</p>
+                  <input
+                    type="number"
+                    min={0}
+                    value={settings.sessionTimeLimit / 60}
+                    onChange={(e) => {
+                      const numValue = Number.parseInt(e.target.value, 10)
+                      setSettings({
+                        ...settings,
+                        sessionTimeLimit: Number.isNaN(numValue) ? 0 : Math.max(0, numValue) * 60
+                      })
+                    }}
+                    className="w-full px-6 py-4 text-2xl rounded-xl border-2 border-yellow-300 focus:border-yellow-400 focus:outline-none text-gray-800"
+                    style={{ backgroundColor: '#fff' }}
+                  />
+                </div>
+              </div>
+              <p className="mt-4 text-lg text-gray-700">
+                设为零表示不限时。每题时间用完视为答错并进入下一题；整场时间用完后答题结束，未答的题目计为未作答。
+              </p>
+            </div>
+
+            {/* Scoring Policy Settings */}
+            <div className="mb-8">
+              <label className="block text-2xl font-bold text-gray-800 mb-4">答错后的处理</label>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {RETRY_MODE_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setSettings({ ...settings, retryMode: option.value })}
+                    className={cn(
+                      'p-5 rounded-xl border-2 text-left transition-all',
+                      settings.retryMode === option.value
+                        ? 'border-red-600 bg-red-50'
+                        : 'border-gray-300 bg-white hover:border-yellow-400'
+                    )}
+                  >
+                    <div className="text-xl font-bold text-gray-800 mb-1">{option.label}</div>
+                    <div className="text-base text-gray-600">{option.description}</div>
+                  </button>
+                ))}
+              </div>
+              {settings.retryMode === 'limited' && (
+                <div className="mt-6">
+                  <p className="mb-2 text-lg font-semibold text-gray-700">每题最多作答次数</p>
+                  <input
+                    type="number"
+                    min={1}
+                    value={settings.maxAttempts}
+                    onChange={(e) => {
+                      const numValue = Number.parseInt(e.target.value, 10)
+                      setSettings({
+                        ...settings,
+                        maxAttempts: Number.isNaN(numValue) ? 1 : Math.max(1, numValue)
+                      })
+                    }}
+                    className="w-full px-6 py-4 text-2xl rounded-xl border-2 border-yellow-300 focus:border-yellow-400 focus:outline-none text-gray-800"
+                    style={{ backgroundColor: '#fff' }}
+                  />
+                </div>
+              )}
+              <label className="mt-6 flex items-center gap-3 text-lg text-gray-800 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.partialCredit}
+                  onChange={(e) => setSettings({ ...settings, partialCredit: e.target.checked })}
+                  className="w-6 h-6 accent-red-600"
+                />
+                部分得分（多选题只选对部分选项且没有选错时按选对比例给分，填空、排序题按填对的空格或排对的位置给分）
+              </label>
+              <p className="mt-4 text-lg text-gray-700">
+                每题按题目分值计分，只有第一次作答计入得分；重新作答仅用于练习。答题结束后显示总分和评级。
+              </p>
+            </div>
+
+            {/* Quiz Scope Preset */}
+            <div className="mb-8">
+              <label className="block text-2xl font-bold text-gray-800 mb-4">首页答题范围</label>
+              {categories.length === 0 ? (
+                <p className="text-lg text-gray-600">暂无分类</p>
+              ) : (
+                <div className="flex flex-wrap gap-4">
+                  {categories.map((category) => (
+                    <label
+                      key={category.id}
+                      className={cn(
+                        'flex items-center gap-3 px-5 py-3 rounded-xl border-2 text-lg cursor-pointer transition-all',
+                        settings.presetCategoryIds.includes(category.id)
+                          ? 'border-red-600 bg-red-50 text-gray-800'
+                          : 'border-gray-300 bg-white text-gray-700 hover:border-yellow-400'
+                      )}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={settings.presetCategoryIds.includes(category.id)}
+                        onChange={() => togglePresetCategory(category.id)}
+                        className="w-6 h-6 accent-red-600"
+                      />
+                      {category.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+              <p className="mt-4 text-lg text-gray-700">
+                不勾选表示从全部题目中出题；勾选后首页“互动答题”只抽取所选分类下的题目。制度查询页面的“专题答题”不受此设置影响。
+              </p>
+            </div>
+
+            {/* Head-to-Head Match Settings */}
+            <div className="mb-8">
+              <label className="block text-2xl font-bold text-gray-800 mb-4">多人对战</label>
+              <label className="flex items-center gap-3 text-lg text-gray-800 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.matchEnabled}
+                  onChange={(e) => setSettings({ ...settings, matchEnabled: e.target.checked })}
+                  className="w-6 h-6 accent-red-600"
+                />
+                在首页显示“多人对战”
+              </label>
+              <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <p className="mb-2 text-lg font-semibold text-gray-700">每局题数</p>
+                  <input
+                    type="number"
+                    min={1}
+                    max={settings.maxQuestionCount}
+                    value={settings.matchQuestionCount}
+                    onChange={(e) => {
+                      const numValue = Number.parseInt(e.target.value, 10)
+                      setSettings({
+                        ...settings,
+                        matchQuestionCount: Number.isNaN(numValue)
+                          ? 1
+                          : Math.max(1, Math.min(settings.maxQuestionCount, numValue))
+                      })
+                    }}
+                    className="w-full px-6 py-4 text-2xl rounded-xl border-2 border-yellow-300 focus:border-yellow-400 focus:outline-none text-gray-800"
+                    style={{ backgroundColor: '#fff' }}
+                  />
+                </div>
+                <div>
+                  <p className="mb-2 text-lg font-semibold text-gray-700">每题限时（秒）</p>
+                  <input
+                    type="number"
+                    min={5}
+                    value={settings.matchQuestionTimeLimit}
+                    onChange={(e) => {
+                      const numValue = Number.parseInt(e.target.value, 10)
+                      setSettings({
+                        ...settings,
+                        matchQuestionTimeLimit: Number.isNaN(numValue) ? 5 : Math.max(5, numValue)
+                      })
+                    }}
+                    className="w-full px-6 py-4 text-2xl rounded-xl border-2 border-yellow-300 focus:border-yellow-400 focus:outline-none text-gray-800"
+                    style={{ backgroundColor: '#fff' }}
+                  />
+                </div>
+              </div>
+              <label className="mt-6 flex items-center gap-3 text-lg text-gray-800 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.matchSpeedBonus}
+                  onChange={(e) => setSettings({ ...settings, matchSpeedBonus: e.target.checked })}
+                  className="w-6 h-6 accent-red-600"
+                />
+                抢答加分（答对得 {MATCH_CORRECT_POINTS} 分，越快答对额外加分越多，最多加{' '}
+                {MATCH_SPEED_POINTS} 分）
+              </label>
+              <p className="mt-4 text-lg text-gray-700">
+                2 到 4 名玩家在同一块屏幕上同时作答，每人使用自己的答题区或键盘按键。只抽取不超过 4
+                个选项的单选题、多选题，出题范围与首页“互动答题”相同。所有玩家作答或时间用完后同时公布答案，每题之间显示排行榜，最后显示获胜者。
+              </p>
+            </div>
+
             {/* Info Section */}
             <div className="mb-8 p-6 rounded-xl bg-yellow-50 border-2 border-yellow-200">
               <h3 className="text-xl font-bold text-gray-800 mb-3">说明</h3>
@@ -5,14 +5,22 @@
 
 import { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router'
+import { Icon } from '@iconify/react'
+import magnifyIcon from '@iconify-icons/mdi/magnify'
+import pencilBoxIcon from '@iconify-icons/mdi/pencil-box-multiple'
 import { LoadingSpinner } from './LoadingSpinner'
+import { useQA } from '../contexts/QAContext'
 import { getCategories } from '../services/adminStorage'
+import { getQuestions } from '../services/questionStorage'
 import type { Category } from '../types/admin'
 
 export function QueryScreen(): React.JSX.Element {
   const navigate = useNavigate()
   const [categories, setCategories] = useState<Category[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  // Categories that have at least one tagged question
+  const [quizCategoryIds, setQuizCategoryIds] = useState<Set<string>>(new Set())
+  const { startQuiz } = useQA()
 
   useEffect(() => {
     const loadCategories = async (): Promise<void> => {
@@ -27,12 +35,23 @@ export function QueryScreen(): React.JSX.Element {
       }
     }
     loadCategories()
+    getQuestions()
+      .then((questions) =>
+        setQuizCategoryIds(new Set(questions.flatMap((q) => q.categoryIds ?? [])))
+      )
+      .catch((error) => console.error('[QueryScreen] Failed to load questions:', error))
   }, [])
 
   const handleCategoryClick = (category: Category): void => {
     navigate(`/category/${category.id}`)
   }
 
+  const handleTopicQuizClick = (event: React.MouseEvent, category: Category): void => {
+    event.stopPropagation()
+    startQuiz([category.id])
+    navigate('/qa')
+  }
+
   if (isLoading) {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen w-full relative z-10">
@@ -49,6 +68,16 @@ export function QueryScreen(): React.JSX.Element {
         <p className="text-xl md:text-2xl text-red-100">请选择查询类别</p>
       </div>
 
+      {/* Full-text search entry */}
+      <button
+        onClick={() => navigate('/search')}
+        className="flex items-center gap-3 max-w-5xl w-full mb-8 px-6 py-4 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 border-2 border-transparent hover:border-yellow-300 text-left"
+        style={{ backgroundColor: '#fbfdba' }}
+      >
+        <Icon icon={magnifyIcon} className="text-3xl text-red-600" />
+        <span className="text-xl md:text-2xl text-gray-600">输入关键词检索全部制度条文...</span>
+      </button>
+
       {/* Grid Layout - Categories */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6 max-w-5xl w-full mb-8">
         {categories.map((category) => (
@@ -76,6 +105,17 @@ export function QueryScreen(): React.JSX.Element {
               <div className="text-sm md:text-base text-gray-600 group-hover:text-red-700 transition-colors duration-300 text-center">
                 {category.description}
               </div>
+
+              {quizCategoryIds.has(category.id) && (
+                <span
+                  role="button"
+                  onClick={(e) => handleTopicQuizClick(e, category)}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg bg-red-600 text-white text-base md:text-lg font-semibold shadow-md hover:bg-red-700 transition-colors"
+                >
+                  <Icon icon={pencilBoxIcon} className="text-xl" />
+                  专题答题
+                </span>
+              )}
             </div>
           </button>
         ))}
@@ -5,17 +5,67 @@
 
 import { useState, useEffect, useRef } from 'react'
 import { useNavigate, useSearchParams } from 'react-router'
+import { Editor } from 'react-draft-wysiwyg-next'
+import { EditorState, ContentState, convertToRaw } from 'draft-js'
+import draftToHtml from 'draftjs-to-html'
+import htmlToDraft from 'html-to-draftjs'
 import { Icon } from '@iconify/react'
 import { cn } from '@renderer/utils/cn'
 import saveIcon from '@iconify-icons/mdi/content-save'
 import arrowLeftIcon from '@iconify-icons/mdi/arrow-left'
 import addIcon from '@iconify-icons/mdi/plus'
 import deleteIcon from '@iconify-icons/mdi/delete'
+import historyIcon from '@iconify-icons/mdi/history'
 import { LoadingSpinner } from './LoadingSpinner'
-import { getQuestions, addQuestion, updateQuestion } from '../services/questionStorage'
-import type { Question, QuestionType, OptionType } from '../types/question'
+import { RevisionHistoryDialog, type RevisionField } from './RevisionHistoryDialog'
+import { QuestionMediaPicker } from './QuestionMediaView'
+import {
+  getQuestions,
+  addQuestion,
+  updateQuestion,
+  getQuestionRevisions,
+  restoreQuestionRevision
+} from '../services/questionStorage'
+import { getCategories, getEntriesByCategory, getEntry } from '../services/adminStorage'
+import type { Question, QuestionMedia, QuestionType, OptionType } from '../types/question'
+import type { Category, Entry } from '../types/admin'
+import type { QuestionRevision } from '../types/revision'
+import { htmlToTextLines } from '@renderer/utils/htmlUtils'
+import { MAX_OPTIONS, MIN_OPTIONS, getOptionLetter } from '@renderer/utils/questionOptions'
+import {
+  BLANK_MARKER,
+  QUESTION_TYPE_LABELS,
+  countBlanks,
+  getSequenceQuestionError,
+  isSequenceType,
+  splitAtBlanks
+} from '@renderer/utils/questionTypes'
+import 'react-draft-wysiwyg-next/dist/react-draft-wysiwyg.css'
 
-type Step = 1 | 2 | 3 | 4 | 5
+type Step = 1 | 2 | 3 | 4 | 5 | 6
+
+const LAST_STEP: Step = 6
+
+/**
+ * Order entries as a tree (parents followed by their children) for the reference picker
+ */
+function toEntryOptions(entries: Entry[]): { entry: Entry; isChild: boolean }[] {
+  const options: { entry: Entry; isChild: boolean }[] = []
+  const listed = new Set<string>()
+  for (const parent of entries.filter((e) => !e.parentEntryId)) {
+    options.push({ entry: parent, isChild: false })
+    listed.add(parent.id)
+    for (const child of entries.filter((e) => e.parentEntryId === parent.id)) {
+      options.push({ entry: child, isChild: true })
+      listed.add(child.id)
+    }
+  }
+  // Children whose parent is missing still need to be selectable
+  for (const entry of entries.filter((e) => !listed.has(e.id))) {
+    options.push({ entry, isChild: false })
+  }
+  return options
+}
 
 export function QuestionEditor(): React.JSX.Element {
   const navigate = useNavigate()
@@ -29,12 +79,30 @@ export function QuestionEditor(): React.JSX.Element {
   const [optionType, setOptionType] = useState<OptionType | ''>('')
   const [options, setOptions] = useState<string[]>(['', ''])
   const [correctAnswer, setCorrectAnswer] = useState<number | number[] | null>(null)
+  const [shuffleOptions, setShuffleOptions] = useState(false)
+  // Fill-blank: other accepted texts per blank, in blank order
+  const [acceptedAnswers, setAcceptedAnswers] = useState<string[][]>([])
+  const [media, setMedia] = useState<QuestionMedia | null>(null)
+  const [optionMedia, setOptionMedia] = useState<(QuestionMedia | null)[]>([])
+  const [points, setPoints] = useState(1)
+  const [explanationState, setExplanationState] = useState(() => EditorState.createEmpty())
+  const [categories, setCategories] = useState<Category[]>([])
+  const [referenceCategoryId, setReferenceCategoryId] = useState('')
+  const [referenceEntries, setReferenceEntries] = useState<Entry[]>([])
+  const [entryId, setEntryId] = useState<string | null>(null)
+  const [categoryIds, setCategoryIds] = useState<string[]>([])
+  // Saved version of the question being edited, compared against in the history dialog
+  const [savedQuestion, setSavedQuestion] = useState<Question | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  const [revisions, setRevisions] = useState<QuestionRevision[]>([])
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false)
   // Scroll state for header background
   const [isScrolled, setIsScrolled] = useState(false)
   // Ref for scroll container
   const scrollContainerRef = useRef<HTMLDivElement>(null)
   // Ref for cleanup function
   const scrollCleanupRef = useRef<(() => void) | null>(null)
+  const questionTextRef = useRef<HTMLTextAreaElement>(null)
 
   useEffect(() => {
     if (questionId) {
@@ -44,6 +112,12 @@ export function QuestionEditor(): React.JSX.Element {
     }
   }, [questionId])
 
+  useEffect(() => {
+    getCategories()
+      .then(setCategories)
+      .catch((error) => console.error('[QuestionEditor] Failed to load categories:', error))
+  }, [])
+
   // Ref callback to set up scroll listener when ref is attached
   const setScrollContainerRef = (node: HTMLDivElement | null): void => {
     // Clean up previous listener if exists
@@ -74,11 +148,41 @@ export function QuestionEditor(): React.JSX.Element {
       const questions = await getQuestions()
       const question = questions.find((q) => q.id === questionId)
       if (question) {
+        setSavedQuestion(question)
         setQuestionText(question.text)
         setQuestionType(question.questionType)
         setOptionType(question.optionType)
         setOptions(question.options)
         setCorrectAnswer(question.correctAnswer)
+        setShuffleOptions(question.shuffleOptions ?? false)
+        setAcceptedAnswers(question.acceptedAnswers ?? [])
+        setMedia(question.media ?? null)
+        setOptionMedia(question.optionMedia ?? [])
+        setPoints(question.points ?? 1)
+        setCategoryIds(question.categoryIds ?? [])
+        if (question.explanation) {
+          const contentBlock = htmlToDraft(question.explanation)
+          if (contentBlock) {
+            setExplanationState(
+              EditorState.createWithContent(
+                ContentState.createFromBlockArray(
+                  contentBlock.contentBlocks,
+                  contentBlock.entityMap
+                )
+              )
+            )
+          }
+        } else {
+          setExplanationState(EditorState.createEmpty())
+        }
+        if (question.entryId) {
+          const entry = await getEntry(question.entryId)
+          if (entry) {
+            setEntryId(entry.id)
+            setReferenceCategoryId(entry.categoryId)
+            setReferenceEntries(await getEntriesByCategory(entry.categoryId))
+          }
+        }
         // Auto-advance to step 5 if editing
         setCurrentStep(5)
       }
@@ -94,8 +198,133 @@ export function QuestionEditor(): React.JSX.Element {
     navigate('/admin/questions')
   }
 
+  const loadRevisions = async (id: string): Promise<void> => {
+    setIsHistoryLoading(true)
+    try {
+      setRevisions(await getQuestionRevisions(id))
+    } catch (error) {
+      console.error('[QuestionEditor] Failed to load revisions:', error)
+      alert('加载历史版本失败，请重试')
+    } finally {
+      setIsHistoryLoading(false)
+    }
+  }
+
+  const handleShowHistory = (): void => {
+    if (!questionId) return
+    setShowHistory(true)
+    loadRevisions(questionId)
+  }
+
+  const handleRestoreRevision = async (revisionId: number): Promise<void> => {
+    if (!questionId) return
+    try {
+      await restoreQuestionRevision(revisionId)
+      // Reload the form with the restored version
+      await loadQuestion()
+      await loadRevisions(questionId)
+    } catch (error) {
+      console.error('[QuestionEditor] Failed to restore revision:', error)
+      alert(`恢复失败：${error instanceof Error ? error.message : '未知错误'}`)
+    }
+  }
+
+  const describeQuestion = (question: Question): RevisionField[] => {
+    const answers = Array.isArray(question.correctAnswer)
+      ? question.correctAnswer
+      : [question.correctAnswer]
+    const isSequence = isSequenceType(question.questionType)
+    return [
+      { label: '题目', lines: [question.text] },
+      {
+        label: '题型',
+        lines: [
+          isSequence
+            ? QUESTION_TYPE_LABELS[question.questionType]
+            : `${QUESTION_TYPE_LABELS[question.questionType]}，` +
+              `${question.optionType === 'true-false' ? '对错题' : '选项题'}` +
+              (question.shuffleOptions ? '，打乱选项顺序' : '')
+        ]
+      },
+      {
+        label: question.questionType === 'fill-blank' ? '词块' : '选项',
+        lines: question.options.map((option, index) =>
+          question.optionType === 'true-false' || question.questionType === 'fill-blank'
+            ? option
+            : question.questionType === 'ordering'
+              ? `${index + 1}. ${option}`
+              : `${getOptionLetter(index)}. ${option}`
+        )
+      },
+      {
+        label: '正确答案',
+        lines:
+          question.questionType === 'fill-blank'
+            ? answers.map((tile, blank) => {
+                const variants = question.acceptedAnswers?.[blank] ?? []
+                return (
+                  `第 ${blank + 1} 空：${question.options[tile]}` +
+                  (variants.length > 0 ? `（也可填：${variants.join('、')}）` : '')
+                )
+              })
+            : question.questionType === 'ordering'
+              ? [answers.map((index) => question.options[index]).join(' → ')]
+              : [
+                  answers
+                    .map((index) =>
+                      question.optionType === 'true-false'
+                        ? question.options[index]
+                        : getOptionLetter(index)
+                    )
+                    .join('、')
+                ]
+      },
+      {
+        label: '图片和视频',
+        lines: [
+          ...(question.media ? [`题目：${question.media.kind === 'video' ? '视频' : '图片'}`] : []),
+          ...(question.optionMedia ?? []).flatMap((attachment, index) =>
+            attachment
+              ? [
+                  `${question.questionType === 'ordering' ? `第 ${index + 1} 步` : `选项${getOptionLetter(index)}`}：` +
+                    (attachment.kind === 'video' ? '视频' : '图片')
+                ]
+              : []
+          )
+        ]
+      },
+      { label: '分值', lines: [String(question.points ?? 1)] },
+      { label: '答案解析', lines: htmlToTextLines(question.explanation ?? '') },
+      {
+        label: '分类',
+        lines: (question.categoryIds ?? []).map(
+          (id) => categories.find((c) => c.id === id)?.name ?? id
+        )
+      }
+    ]
+  }
+
+  const toggleCategoryTag = (categoryId: string): void => {
+    setCategoryIds((prev) =>
+      prev.includes(categoryId) ? prev.filter((id) => id !== categoryId) : [...prev, categoryId]
+    )
+  }
+
+  const handleReferenceCategoryChange = async (categoryId: string): Promise<void> => {
+    setReferenceCategoryId(categoryId)
+    setEntryId(null)
+    setReferenceEntries([])
+    if (!categoryId) return
+    try {
+      setReferenceEntries(await getEntriesByCategory(categoryId))
+    } catch (error) {
+      console.error('[QuestionEditor] Failed to load entries:', error)
+      alert('加载条目失败，请重试')
+    }
+  }
+
   const handleNext = (): void => {
-    if (currentStep < 5) {
+    if (currentStep < LAST_STEP) {
       setCurrentStep((currentStep + 1) as Step)
     }
   }
@@ -107,14 +336,24 @@ export function QuestionEditor(): React.JSX.Element {
   }
 
   const handleAddOption = (): void => {
-    setOptions([...options, ''])
+    if (options.length < MAX_OPTIONS) {
+      setOptions([...options, ''])
+    }
   }
 
   const handleRemoveOption = (index: number): void => {
-    if (options.length > 2) {
+    if (options.length > MIN_OPTIONS) {
       setOptions(options.filter((_, i) => i !== index))
+      setOptionMedia(optionMedia.filter((_, i) => i !== index))
       // Adjust correct answer if needed
-      if (correctAnswer !== null) {
+      if (questionType === 'fill-blank' && Array.isArray(correctAnswer)) {
+        // A blank filled by the removed tile goes, together with its accepted answers
+        const blanks = correctAnswer
+          .map((tile, blank) => ({ tile, variants: acceptedAnswers[blank] ?? [] }))
+          .filter((blank) => blank.tile !== index)
+        setCorrectAnswer(blanks.map(({ tile }) => (tile > index ? tile - 1 : tile)))
+        setAcceptedAnswers(blanks.map(({ variants }) => variants))
+      } else if (correctAnswer !== null) {
         if (Array.isArray(correctAnswer)) {
           setCorrectAnswer(
             correctAnswer.filter((ans) => ans !== index).map((ans) => (ans > index ? ans - 1 : ans))
@@ -128,6 +367,12 @@ export function QuestionEditor(): React.JSX.Element {
     }
   }
 
+  const handleOptionMediaChange = (index: number, attachment: QuestionMedia | null): void => {
+    const next = options.map((_, i) => optionMedia[i] ?? null)
+    next[index] = attachment
+    setOptionMedia(next)
+  }
+
   const handleOptionChange = (index: number, value: string): void => {
     const newOptions = [...options]
     newOptions[index] = value
@@ -148,6 +393,55 @@ export function QuestionEditor(): React.JSX.Element {
     }
   }
 
+  const selectQuestionType = (type: QuestionType): void => {
+    setQuestionType(type)
+    setCorrectAnswer(type === 'single' ? null : [])
+    setAcceptedAnswers([])
+    // Word tiles and ordering steps are free text like letter options
+    if (isSequenceType(type) && optionType !== 'letter-options') {
+      setOptionType('letter-options')
+      setOptions(['', ''])
+      setOptionMedia([])
+    }
+  }
+
+  const isSequenceQuestion = questionType !== '' && isSequenceType(questionType)
+
+  // Fill-blank answers: one tile per blank, plus other accepted texts
+  const blankAnswers =
+    questionType === 'fill-blank' && Array.isArray(correctAnswer) ? correctAnswer : []
+
+  const handleAddBlank = (): void => {
+    const unused = options.findIndex((_, index) => !blankAnswers.includes(index))
+    if (unused === -1) return
+    setCorrectAnswer([...blankAnswers, unused])
+    setAcceptedAnswers([...acceptedAnswers, []])
+  }
+
+  const handleRemoveBlank = (blank: number): void => {
+    setCorrectAnswer(blankAnswers.filter((_, i) => i !== blank))
+    setAcceptedAnswers(acceptedAnswers.filter((_, i) => i !== blank))
+  }
+
+  const handleBlankTileChange = (blank: number, tile: number): void => {
+    setCorrectAnswer(blankAnswers.map((current, i) => (i === blank ? tile : current)))
+  }
+
+  const handleBlankVariantsChange = (blank: number, value: string): void => {
+    const next = blankAnswers.map((_, i) => acceptedAnswers[i] ?? [])
+    next[blank] = value.split(/[/／]/)
+    setAcceptedAnswers(next)
+  }
+
+  // Insert a blank marker at the cursor of the question text
+  const handleInsertBlank = (): void => {
+    const textarea = questionTextRef.current
+    const start = textarea?.selectionStart ?? questionText.length
+    const end = textarea?.selectionEnd ?? questionText.length
+    setQuestionText(questionText.slice(0, start) + BLANK_MARKER + questionText.slice(end))
+    textarea?.focus()
+  }
+
   const handleSave = async (): Promise<void> => {
     // Validation
     if (!questionText.trim()) {
@@ -178,13 +472,55 @@ export function QuestionEditor(): React.JSX.Element {
       return
     }
 
+    const explanationContent = explanationState.getCurrentContent()
+    const explanation = explanationContent.hasText()
+      ? draftToHtml(convertToRaw(explanationContent))
+      : ''
+
+    const isSequence = isSequenceType(questionType)
+    const trimmedOptions =
+      optionType === 'true-false' ? ['正确', '错误'] : options.map((opt) => opt.trim())
+    // Ordering steps are entered in the correct order
+    const answer = questionType === 'ordering' ? options.map((_, index) => index) : correctAnswer
+    const blankVariants =
+      questionType === 'fill-blank'
+        ? blankAnswers.map((_, blank) =>
+            (acceptedAnswers[blank] ?? []).map((text) => text.trim()).filter((text) => text)
+          )
+        : []
+    if (isSequence) {
+      const error = getSequenceQuestionError({
+        text: questionText,
+        questionType,
+        options: trimmedOptions,
+        correctAnswer: answer,
+        acceptedAnswers: blankVariants
+      })
+      if (error) {
+        alert(error)
+        return
+      }
+    }
+
     try {
       const questionData: Omit<Question, 'id' | 'createdAt' | 'updatedAt'> = {
         text: questionText.trim(),
         questionType,
         optionType,
-        options: optionType === 'true-false' ? ['正确', '错误'] : options.map((opt) => opt.trim()),
-        correctAnswer
+        options: trimmedOptions,
+        correctAnswer: answer,
+        acceptedAnswers: blankVariants,
+        media,
+        // Word tiles and the fixed true/false options are text only
+        optionMedia:
+          optionType === 'letter-options' && questionType !== 'fill-blank'
+            ? options.map((_, index) => optionMedia[index] ?? null)
+            : [],
+        shuffleOptions: !isSequence && optionType === 'letter-options' && shuffleOptions,
+        points,
+        explanation,
+        entryId,
+        categoryIds
       }
 
       if (questionId) {
@@ -210,10 +546,19 @@ export function QuestionEditor(): React.JSX.Element {
         return optionType !== ''
       case 3:
         if (optionType === 'true-false') return true
-        return options.every((opt) => opt.trim() !== '') && options.length >= 2
+        return (
+          options.every((opt) => opt.trim() !== '') &&
+          options.length >= MIN_OPTIONS &&
+          options.length <= MAX_OPTIONS
+        )
       case 4:
+        if (questionType === 'fill-blank') return blankAnswers.length > 0
         return correctAnswer !== null
       case 5:
+      case 6:
+        if (questionType === 'fill-blank' && countBlanks(questionText) !== blankAnswers.length) {
+          return false
+        }
         return questionText.trim() !== ''
       default:
         return false
@@ -243,25 +588,38 @@ export function QuestionEditor(): React.JSX.Element {
             }
           )}
         >
-          <div className="flex items-center gap-4 mb-6">
-            <button
-              onClick={handleBack}
-              className="shrink-0 p-2 hover:opacity-80 transition-opacity"
-              title="返回答题管理"
-            >
-              <Icon icon={arrowLeftIcon} className="text-3xl text-white" />
-            </button>
-            <div>
-              <h1 className="text-4xl md:text-5xl font-bold text-white mb-2">
-                {questionId ? '编辑题目' : '添加题目'}
-              </h1>
-              <p className="text-lg text-red-100">分步骤创建题目</p>
+          <div className="flex items-center justify-between gap-4 mb-6">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={handleBack}
+                className="shrink-0 p-2 hover:opacity-80 transition-opacity"
+                title="返回答题管理"
+              >
+                <Icon icon={arrowLeftIcon} className="text-3xl text-white" />
+              </button>
+              <div>
+                <h1 className="text-4xl md:text-5xl font-bold text-white mb-2">
+                  {questionId ? '编辑题目' : '添加题目'}
+                </h1>
+                <p className="text-lg text-red-100">分步骤创建题目</p>
+              </div>
             </div>
+            {questionId && savedQuestion && (
+              <button
+                onClick={handleShowHistory}
+                className="flex items-center gap-2 px-6 py-3 rounded-lg transition-colors shadow-lg text-gray-800 font-semibold hover:opacity-90"
+                style={{ backgroundColor: '#fbfdba' }}
+                title="查看修改前保留的版本，对比差异并恢复"
+              >
+                <Icon icon={historyIcon} className="text-xl" />
+                <span>历史版本</span>
+              </button>
+            )}
           </div>
 
           {/* Progress Steps */}
           <div className="flex items-center justify-between mb-6">
-            {[1, 2, 3, 4, 5].map((step) => (
+            {[1, 2, 3, 4, 5, 6].map((step) => (
               <div key={step} className="flex items-center flex-1">
                 <div
                   className={`flex items-center justify-center w-10 h-10 rounded-full border-2 transition-all ${
@@ -274,7 +632,7 @@ export function QuestionEditor(): React.JSX.Element {
                 >
                   {step}
                 </div>
-                {step < 5 && (
+                {step < LAST_STEP && (
                   <div
                     className={`flex-1 h-1 mx-2 ${
                       step < currentStep ? 'bg-green-500' : 'bg-gray-300'
@@ -298,10 +656,7 @@ export function QuestionEditor(): React.JSX.Element {
                 <h2 className="text-2xl font-bold text-gray-800 mb-4">第一步：选择题型</h2>
                 <div className="grid grid-cols-2 gap-4">
                   <button
-                    onClick={() => {
-                      setQuestionType('single')
-                      setCorrectAnswer(null)
-                    }}
+                    onClick={() => selectQuestionType('single')}
                     className={`p-6 rounded-lg border-2 transition-all ${
                       questionType === 'single'
                         ? 'border-red-600 bg-red-50'
@@ -312,10 +667,7 @@ export function QuestionEditor(): React.JSX.Element {
                     <div className="text-sm text-gray-600">只能选择一个答案</div>
                   </button>
                   <button
-                    onClick={() => {
-                      setQuestionType('multiple')
-                      setCorrectAnswer([])
-                    }}
+                    onClick={() => selectQuestionType('multiple')}
                     className={`p-6 rounded-lg border-2 transition-all ${
                       questionType === 'multiple'
                         ? 'border-red-600 bg-red-50'
@@ -325,51 +677,95 @@ export function QuestionEditor(): React.JSX.Element {
                     <div className="text-xl font-bold text-gray-800 mb-2">多选题</div>
                     <div className="text-sm text-gray-600">可以选择多个答案</div>
                   </button>
-                </div>
-              </div>
-            )}
-
-            {/* Step 2: Option Type */}
-            {currentStep === 2 && (
-              <div className="space-y-6">
-                <h2 className="text-2xl font-bold text-gray-800 mb-4">第二步：选择选项类型</h2>
-                <div className="grid grid-cols-2 gap-4">
                   <button
-                    onClick={() => {
-                      setOptionType('true-false')
-                      setOptions(['正确', '错误'])
-                    }}
+                    onClick={() => selectQuestionType('fill-blank')}
                     className={`p-6 rounded-lg border-2 transition-all ${
-                      optionType === 'true-false'
+                      questionType === 'fill-blank'
                         ? 'border-red-600 bg-red-50'
                         : 'border-gray-300 bg-white hover:border-yellow-400'
                     }`}
                   >
-                    <div className="text-xl font-bold text-gray-800 mb-2">对错题</div>
-                    <div className="text-sm text-gray-600">✅ 或 ❌ 按钮</div>
+                    <div className="text-xl font-bold text-gray-800 mb-2">填空题</div>
+                    <div className="text-sm text-gray-600">点选词块填入题目中的空格</div>
                   </button>
                   <button
-                    onClick={() => {
-                      setOptionType('letter-options')
-                      setOptions(['', ''])
-                    }}
+                    onClick={() => selectQuestionType('ordering')}
                     className={`p-6 rounded-lg border-2 transition-all ${
-                      optionType === 'letter-options'
+                      questionType === 'ordering'
                         ? 'border-red-600 bg-red-50'
                         : 'border-gray-300 bg-white hover:border-yellow-400'
                     }`}
                   >
-                    <div className="text-xl font-bold text-gray-800 mb-2">选项题</div>
-                    <div className="text-sm text-gray-600">A/B/C/D 选项</div>
+                    <div className="text-xl font-bold text-gray-800 mb-2">排序题</div>
+                    <div className="text-sm text-gray-600">拖动步骤排出正确顺序</div>
                   </button>
                 </div>
               </div>
             )}
 
+            {/* Step 2: Option Type */}
+            {currentStep === 2 && (
+              <div className="space-y-6">
+                <h2 className="text-2xl font-bold text-gray-800 mb-4">第二步：选择选项类型</h2>
+                {isSequenceQuestion ? (
+                  <div className="p-4 bg-blue-50 rounded-lg border-2 border-blue-300">
+                    <p className="text-gray-700">
+                      {questionType === 'fill-blank'
+                        ? '填空题的选项是供答题者点选的词块'
+                        : '排序题的选项是需要排序的步骤'}
+                      ，无需选择选项类型
+                    </p>
+                    <p className="text-sm text-gray-600 mt-2">可以直接进入下一步</p>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 gap-4">
+                    <button
+                      onClick={() => {
+                        setOptionType('true-false')
+                        setOptions(['正确', '错误'])
+                        setOptionMedia([])
+                      }}
+                      className={`p-6 rounded-lg border-2 transition-all ${
+                        optionType === 'true-false'
+                          ? 'border-red-600 bg-red-50'
+                          : 'border-gray-300 bg-white hover:border-yellow-400'
+                      }`}
+                    >
+                      <div className="text-xl font-bold text-gray-800 mb-2">对错题</div>
+                      <div className="text-sm text-gray-600">✅ 或 ❌ 按钮</div>
+                    </button>
+                    <button
+                      onClick={() => {
+                        setOptionType('letter-options')
+                        setOptions(['', ''])
+                        setOptionMedia([])
+                      }}
+                      className={`p-6 rounded-lg border-2 transition-all ${
+                        optionType === 'letter-options'
+                          ? 'border-red-600 bg-red-50'
+                          : 'border-gray-300 bg-white hover:border-yellow-400'
+                      }`}
+                    >
+                      <div className="text-xl font-bold text-gray-800 mb-2">选项题</div>
+                      <div className="text-sm text-gray-600">
+                        A-H 选项，{MIN_OPTIONS} 到 {MAX_OPTIONS} 个
+                      </div>
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Step 3: Add Options (only for letter-options) */}
             {currentStep === 3 && (
               <div className="space-y-6">
-                <h2 className="text-2xl font-bold text-gray-800 mb-4">第三步：添加选项</h2>
+                <h2 className="text-2xl font-bold text-gray-800 mb-4">
+                  {questionType === 'fill-blank'
+                    ? '第三步：添加词块'
+                    : questionType === 'ordering'
+                      ? '第三步：按正确顺序添加步骤'
+                      : '第三步：添加选项'}
+                </h2>
                 {optionType === 'true-false' ? (
                   <div className="p-4 bg-blue-50 rounded-lg border-2 border-blue-300">
                     <p className="text-gray-700">对错题只有两个固定选项：✅ 正确 和 ❌ 错误</p>
@@ -380,16 +776,29 @@ export function QuestionEditor(): React.JSX.Element {
                     {options.map((option, index) => (
                       <div key={index} className="flex items-center gap-3">
                         <span className="w-8 text-center font-bold text-gray-700">
-                          {String.fromCharCode(65 + index)}
+                          {isSequenceQuestion ? index + 1 : getOptionLetter(index)}
                         </span>
                         <input
                           type="text"
                           value={option}
                           onChange={(e) => handleOptionChange(index, e.target.value)}
                           className="flex-1 px-4 py-2 border border-gray-300 rounded-lg bg-white text-gray-900"
-                          placeholder={`选项 ${String.fromCharCode(65 + index)}`}
+                          placeholder={
+                            questionType === 'fill-blank'
+                              ? `词块 ${index + 1}`
+                              : questionType === 'ordering'
+                                ? `第 ${index + 1} 步`
+                                : `选项 ${getOptionLetter(index)}`
+                          }
                         />
-                        {options.length > 2 && (
+                        {questionType !== 'fill-blank' && (
+                          <QuestionMediaPicker
+                            media={optionMedia[index] ?? null}
+                            onChange={(attachment) => handleOptionMediaChange(index, attachment)}
+                            compact
+                          />
+                        )}
+                        {options.length > MIN_OPTIONS && (
                           <button
                             onClick={() => handleRemoveOption(index)}
                             className="p-2 text-red-600 hover:bg-red-100 rounded transition-colors"
@@ -400,13 +809,51 @@ export function QuestionEditor(): React.JSX.Element {
                         )}
                       </div>
                     ))}
-                    <button
-                      onClick={handleAddOption}
-                      className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-                    >
-                      <Icon icon={addIcon} className="text-lg" />
-                      <span>添加选项</span>
-                    </button>
+                    {options.length < MAX_OPTIONS ? (
+                      <button
+                        onClick={handleAddOption}
+                        className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                      >
+                        <Icon icon={addIcon} className="text-lg" />
+                        <span>
+                          {questionType === 'fill-blank'
+                            ? '添加词块'
+                            : questionType === 'ordering'
+                              ? '添加步骤'
+                              : '添加选项'}
+                        </span>
+                      </button>
+                    ) : (
+                      <p className="text-sm text-gray-600">
+                        {isSequenceQuestion
+                          ? `最多 ${MAX_OPTIONS} 个`
+                          : `最多 ${MAX_OPTIONS} 个选项（A-H）`}
+                      </p>
+                    )}
+                    {questionType === 'fill-blank' && (
+                      <p className="text-sm text-gray-600 pt-3">
+                        词块包括正确答案和干扰项，答题时随机排列
+                      </p>
+                    )}
+                    {questionType === 'ordering' && (
+                      <p className="text-sm text-gray-600 pt-3">
+                        请按正确顺序填写，答题时步骤会被打乱
+                      </p>
+                    )}
+                    {!isSequenceQuestion && (
+                      <label className="flex items-center gap-3 pt-3 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={shuffleOptions}
+                          onChange={(e) => setShuffleOptions(e.target.checked)}
+                          className="w-5 h-5"
+                        />
+                        <span className="font-semibold text-gray-800">打乱选项顺序</span>
+                        <span className="text-sm text-gray-600">
+                          每次答题随机排列选项，正确答案会随之调整
+                        </span>
+                      </label>
+                    )}
                   </div>
                 )}
               </div>
@@ -416,38 +863,101 @@ export function QuestionEditor(): React.JSX.Element {
             {currentStep === 4 && (
               <div className="space-y-6">
                 <h2 className="text-2xl font-bold text-gray-800 mb-4">第四步：设置正确答案</h2>
-                <div className="space-y-3">
-                  {options.map((option, index) => {
-                    const isSelected = Array.isArray(correctAnswer)
-                      ? correctAnswer.includes(index)
-                      : correctAnswer === index
-                    return (
+                {questionType === 'ordering' && (
+                  <div className="p-4 bg-blue-50 rounded-lg border-2 border-blue-300">
+                    <p className="text-gray-700">正确顺序即上一步填写的步骤顺序：</p>
+                    <ol className="list-decimal list-inside mt-2 text-gray-800">
+                      {options.map((option, index) => (
+                        <li key={index}>{option}</li>
+                      ))}
+                    </ol>
+                    <p className="text-sm text-gray-600 mt-2">可以直接进入下一步</p>
+                  </div>
+                )}
+                {questionType === 'fill-blank' && (
+                  <div className="space-y-3">
+                    {blankAnswers.map((tile, blank) => (
+                      <div key={blank} className="flex items-center gap-3">
+                        <span className="w-16 font-bold text-gray-700">第 {blank + 1} 空</span>
+                        <select
+                          value={tile}
+                          onChange={(e) => handleBlankTileChange(blank, Number(e.target.value))}
+                          className="px-4 py-2 border border-gray-300 rounded-lg bg-white text-gray-900"
+                        >
+                          {options.map((option, index) => (
+                            <option
+                              key={index}
+                              value={index}
+                              disabled={index !== tile && blankAnswers.includes(index)}
+                            >
+                              {option}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          value={(acceptedAnswers[blank] ?? []).join('/')}
+                          onChange={(e) => handleBlankVariantsChange(blank, e.target.value)}
+                          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg bg-white text-gray-900"
+                          placeholder="其他可接受的答案（可选），多个用 / 分隔"
+                        />
+                        <button
+                          onClick={() => handleRemoveBlank(blank)}
+                          className="p-2 text-red-600 hover:bg-red-100 rounded transition-colors"
+                          title="删除空格"
+                        >
+                          <Icon icon={deleteIcon} className="text-xl" />
+                        </button>
+                      </div>
+                    ))}
+                    {blankAnswers.length < options.length && (
                       <button
-                        key={index}
-                        onClick={() => handleCorrectAnswerChange(index)}
-                        className={`w-full p-4 rounded-lg border-2 text-left transition-all ${
-                          isSelected
-                            ? 'border-green-600 bg-green-50'
-                            : 'border-gray-300 bg-white hover:border-yellow-400'
-                        }`}
+                        onClick={handleAddBlank}
+                        className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
                       >
-                        <div className="flex items-center gap-3">
-                          <span className="w-8 text-center font-bold text-gray-700">
-                            {optionType === 'true-false'
-                              ? index === 0
-                                ? '✅'
-                                : '❌'
-                              : String.fromCharCode(65 + index)}
-                          </span>
-                          <span className="flex-1 text-gray-800">{option}</span>
-                          {isSelected && (
-                            <span className="text-green-600 font-bold text-xl">✓</span>
-                          )}
-                        </div>
+                        <Icon icon={addIcon} className="text-lg" />
+                        <span>添加空格</span>
                       </button>
-                    )
-                  })}
-                </div>
+                    )}
+                    <p className="text-sm text-gray-600">
+                      按题目中空格的顺序为每个空格选择正确词块；选中与其他可接受答案文字相同的词块也算答对
+                    </p>
+                  </div>
+                )}
+                {!isSequenceQuestion && (
+                  <div className="space-y-3">
+                    {options.map((option, index) => {
+                      const isSelected = Array.isArray(correctAnswer)
+                        ? correctAnswer.includes(index)
+                        : correctAnswer === index
+                      return (
+                        <button
+                          key={index}
+                          onClick={() => handleCorrectAnswerChange(index)}
+                          className={`w-full p-4 rounded-lg border-2 text-left transition-all ${
+                            isSelected
+                              ? 'border-green-600 bg-green-50'
+                              : 'border-gray-300 bg-white hover:border-yellow-400'
+                          }`}
+                        >
+                          <div className="flex items-center gap-3">
+                            <span className="w-8 text-center font-bold text-gray-700">
+                              {optionType === 'true-false'
+                                ? index === 0
+                                  ? '✅'
+                                  : '❌'
+                                : getOptionLetter(index)}
+                            </span>
+                            <span className="flex-1 text-gray-800">{option}</span>
+                            {isSelected && (
+                              <span className="text-green-600 font-bold text-xl">✓</span>
+                            )}
+                          </div>
+                        </button>
+                      )
+                    })}
+                  </div>
+                )}
                 {questionType === 'multiple' && (
                   <p className="text-sm text-gray-600 mt-2">提示：多选题可以选择多个正确答案</p>
                 )}
@@ -458,40 +968,203 @@ export function QuestionEditor(): React.JSX.Element {
             {currentStep === 5 && (
               <div className="space-y-6">
                 <h2 className="text-2xl font-bold text-gray-800 mb-4">第五步：输入题目内容</h2>
+                {questionType === 'fill-blank' && (
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={handleInsertBlank}
+                      className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                      <Icon icon={addIcon} className="text-lg" />
+                      <span>插入空格</span>
+                    </button>
+                    <span
+                      className={`text-sm ${
+                        countBlanks(questionText) === blankAnswers.length
+                          ? 'text-gray-600'
+                          : 'text-red-600'
+                      }`}
+                    >
+                      用 {BLANK_MARKER} 标出空格，需要 {blankAnswers.length} 个，当前{' '}
+                      {countBlanks(questionText)} 个
+                    </span>
+                  </div>
+                )}
                 <textarea
+                  ref={questionTextRef}
                   value={questionText}
                   onChange={(e) => setQuestionText(e.target.value)}
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900 min-h-[200px] resize-y"
                   placeholder="请输入题目内容..."
                   autoFocus
                 />
+                <div className="flex items-center gap-3">
+                  <QuestionMediaPicker media={media} onChange={setMedia} />
+                  <span className="text-sm text-gray-600">
+                    可选，图片或短视频显示在题目文字下方
+                  </span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <label className="font-semibold text-gray-800">分值</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={points}
+                    onChange={(e) => {
+                      const value = Number.parseInt(e.target.value, 10)
+                      setPoints(Number.isNaN(value) ? 0 : Math.max(0, value))
+                    }}
+                    className="w-32 px-4 py-2 border border-gray-300 rounded-lg bg-white text-gray-900"
+                  />
+                  <span className="text-sm text-gray-600">
+                    答对得分，多选、填空、排序题可按设置给部分分
+                  </span>
+                </div>
                 <div className="p-4 bg-blue-50 rounded-lg border-2 border-blue-300">
                   <p className="text-sm text-gray-700 font-semibold mb-2">题目预览：</p>
                   <div className="space-y-2">
-                    <p className="text-gray-800 font-medium">{questionText || '(未输入)'}</p>
-                    <div className="space-y-1">
-                      {options.map((option, index) => {
-                        const isCorrect = Array.isArray(correctAnswer)
-                          ? correctAnswer.includes(index)
-                          : correctAnswer === index
+                    <p className="text-gray-800 font-medium">
+                      {questionType === 'fill-blank' && questionText
+                        ? splitAtBlanks(questionText)
+                            .map((part, blank) =>
+                              blank === 0
+                                ? part
+                                : `【${options[blankAnswers[blank - 1]] ?? ''}】${part}`
+                            )
+                            .join('')
+                        : questionText || '(未输入)'}
+                    </p>
+                    {!isSequenceQuestion && (
+                      <div className="space-y-1">
+                        {options.map((option, index) => {
+                          const isCorrect = Array.isArray(correctAnswer)
+                            ? correctAnswer.includes(index)
+                            : correctAnswer === index
+                          return (
+                            <div
+                              key={index}
+                              className={`text-sm ${
+                                isCorrect ? 'text-green-700 font-bold' : 'text-gray-600'
+                              }`}
+                            >
+                              {optionType === 'true-false'
+                                ? index === 0
+                                  ? '✅ 正确'
+                                  : '❌ 错误'
+                                : `${getOptionLetter(index)}. ${option}`}
+                              {isCorrect && ' ✓'}
+                            </div>
+                          )
+                        })}
+                      </div>
+                    )}
+                    {questionType === 'ordering' && (
+                      <p className="text-sm text-gray-600">{options.join(' → ')}</p>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Step 6: Explanation and Reference (optional) */}
+            {currentStep === 6 && (
+              <div className="space-y-6">
+                <h2 className="text-2xl font-bold text-gray-800 mb-4">
+                  第六步：所属分类、答案解析与出处（可选）
+                </h2>
+                <div>
+                  <label className="block font-semibold text-gray-800 mb-2">所属分类</label>
+                  {categories.length === 0 ? (
+                    <p className="text-sm text-gray-600">暂无分类，可先在分类管理中添加</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-3">
+                      {categories.map((category) => {
+                        const checked = categoryIds.includes(category.id)
                         return (
-                          <div
-                            key={index}
-                            className={`text-sm ${
-                              isCorrect ? 'text-green-700 font-bold' : 'text-gray-600'
+                          <label
+                            key={category.id}
+                            className={`flex items-center gap-2 px-4 py-2 rounded-lg border-2 cursor-pointer transition-colors ${
+                              checked
+                                ? 'border-blue-500 bg-blue-50 text-blue-800'
+                                : 'border-gray-300 bg-white text-gray-700 hover:border-blue-300'
                             }`}
                           >
-                            {optionType === 'true-false'
-                              ? index === 0
-                                ? '✅ 正确'
-                                : '❌ 错误'
-                              : `${String.fromCharCode(65 + index)}. ${option}`}
-                            {isCorrect && ' ✓'}
-                          </div>
+                            <input
+                              type="checkbox"
+                              checked={checked}
+                              onChange={() => toggleCategoryTag(category.id)}
+                              className="w-4 h-4"
+                            />
+                            <span>{category.name}</span>
+                          </label>
                         )
                       })}
                     </div>
+                  )}
+                  <p className="text-sm text-gray-600 mt-2">
+                    题目可属于多个分类，用于按专题筛选和专题答题
+                  </p>
+                </div>
+                <div>
+                  <label className="block font-semibold text-gray-800 mb-2">答案解析</label>
+                  <div className="relative bg-white rounded-lg border border-gray-300">
+                    <Editor
+                      editorState={explanationState}
+                      onEditorStateChange={setExplanationState}
+                      wrapperClassName="editor-wrapper max-h-[360px]"
+                      editorClassName="editor-content"
+                      toolbarClassName="editor-toolbar sticky top-0 z-30 bg-white"
+                      localization={{
+                        locale: 'zh'
+                      }}
+                      toolbar={{
+                        options: [
+                          'inline',
+                          'list',
+                          'textAlign',
+                          'colorPicker',
+                          'remove',
+                          'history'
+                        ],
+                        inline: {
+                          options: ['bold', 'italic', 'underline', 'strikethrough']
+                        }
+                      }}
+                    />
                   </div>
+                  <p className="text-sm text-gray-600 mt-2">
+                    答题者完成本题后显示，用于说明答案的依据
+                  </p>
+                </div>
+                <div>
+                  <label className="block font-semibold text-gray-800 mb-2">关联条目</label>
+                  <div className="grid grid-cols-2 gap-4">
+                    <select
+                      value={referenceCategoryId}
+                      onChange={(e) => handleReferenceCategoryChange(e.target.value)}
+                      className="px-4 py-2 border border-gray-300 rounded-lg bg-white text-gray-900"
+                    >
+                      <option value="">不关联条目</option>
+                      {categories.map((category) => (
+                        <option key={category.id} value={category.id}>
+                          {category.name}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={entryId ?? ''}
+                      onChange={(e) => setEntryId(e.target.value || null)}
+                      disabled={!referenceCategoryId}
+                      className="px-4 py-2 border border-gray-300 rounded-lg bg-white text-gray-900 disabled:bg-gray-100 disabled:text-gray-400"
+                    >
+                      <option value="">请选择条目</option>
+                      {toEntryOptions(referenceEntries).map(({ entry, isChild }) => (
+                        <option key={entry.id} value={entry.id}>
+                          {isChild ? `\u3000└ ${entry.title}` : entry.title}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <p className="text-sm text-gray-600 mt-2">答题后可通过“查看条文”按钮打开该条目</p>
                 </div>
               </div>
             )}
@@ -509,7 +1182,7 @@ export function QuestionEditor(): React.JSX.Element {
               >
                 上一步
               </button>
-              {currentStep < 5 ? (
+              {currentStep < LAST_STEP ? (
                 <button
                   onClick={handleNext}
                   disabled={!canProceedToNext()}
@@ -539,6 +1212,17 @@ export function QuestionEditor(): React.JSX.Element {
           </div>
         </div>
       </div>
+
+      <RevisionHistoryDialog
+        isOpen={showHistory}
+        title="题目历史版本"
+        isLoading={isHistoryLoading}
+        revisions={revisions}
+        current={savedQuestion}
+        describe={describeQuestion}
+        onRestore={handleRestoreRevision}
+        onClose={() => setShowHistory(false)}
+      />
     </div>
   )
 }
@@ -12,6 +12,8 @@ import editIcon from '@iconify-icons/mdi/pencil'
 import deleteIcon from '@iconify-icons/mdi/delete'
 import uploadIcon from '@iconify-icons/mdi/upload'
 import downloadIcon from '@iconify-icons/mdi/download'
+import exportIcon from '@iconify-icons/mdi/file-export'
+import deletedIcon from '@iconify-icons/mdi/delete-restore'
 import arrowLeftIcon from '@iconify-icons/mdi/arrow-left'
 import checkboxIcon from '@iconify-icons/mdi/checkbox-marked'
 import checkboxBlankIcon from '@iconify-icons/mdi/checkbox-blank-outline'
@@ -19,26 +21,116 @@ import logoutIcon from '@iconify-icons/mdi/logout'
 import { LoadingSpinner } from './LoadingSpinner'
 import { useAuth } from '../contexts/AuthContext'
 import { ImportResultDialog, type ImportResult } from './ImportResultDialog'
-import { getQuestions, deleteQuestion, importQuestions } from '../services/questionStorage'
+import { parseQuestionsFromWord } from '../services/wordParser'
 import {
+  applyQuestionImport,
+  deleteQuestion,
+  getQuestions,
+  importQuestionMedia,
+  previewQuestionImport
+} from '../services/questionStorage'
+import { getCategories } from '../services/adminStorage'
+import {
+  attachQuestionMedia,
+  exportQuestionsToExcel,
   generateQuestionsTemplate,
+  getQuestionMediaFileNames,
   parseQuestionsFromExcel,
   validateQuestionsExcelFormat
 } from '../services/templateGenerator'
-import type { Question } from '../types/question'
+import {
+  MAX_OPTIONS,
+  MIN_OPTIONS,
+  describeAnswerRange,
+  isValidOptionIndex
+} from '../utils/questionOptions'
+import {
+  QUESTION_TYPE_LABELS,
+  getSequenceQuestionError,
+  isSequenceType
+} from '../utils/questionTypes'
+import type { ParsedQuestion, Question, QuestionType } from '../types/question'
+import type { ImportAction, ImportPreview } from '../types/importPlan'
+import type { Category } from '../types/admin'
+
+// Category filter: 'all', 'none' (untagged questions) or a category ID
+type CategoryFilter = 'all' | 'none' | string
+
+/**
+ * Check a parsed question before import
+ * @returns Error message, or null if the question is valid
+ */
+function getQuestionError(q: ParsedQuestion): string | null {
+  if (!q.text || q.text.trim() === '') {
+    return '题目内容不能为空'
+  }
+
+  // Fill-blank and ordering questions: word tiles or steps with an ordered answer
+  if (isSequenceType(q.questionType)) {
+    return getSequenceQuestionError(q)
+  }
+
+  // Validate based on option type
+  if (q.optionType === 'true-false') {
+    // True-false questions: must have exactly 2 options ['正确', '错误']
+    if (q.options.length !== 2) {
+      return '对错题的选项数量必须为2个（正确、错误）'
+    }
+    if (q.options[0] !== '正确' || q.options[1] !== '错误') {
+      return '对错题的选项必须为["正确", "错误"]'
+    }
+    // Validate correct answer for true-false (0 or 1)
+    if (typeof q.correctAnswer !== 'number' || ![0, 1].includes(q.correctAnswer)) {
+      return '对错题的正确答案必须是 0（正确）或 1（错误）'
+    }
+    return null
+  }
+
+  // Letter-options questions: 2-8 options (A-H)
+  if (q.options.length < MIN_OPTIONS || q.options.length > MAX_OPTIONS) {
+    return `选项题的选项数量必须为 ${MIN_OPTIONS} 到 ${MAX_OPTIONS} 个（A-H）`
+  }
+  if (q.options.some((opt) => !opt || opt.trim() === '')) {
+    return '选项题的所有选项都不能为空'
+  }
+  // Validate correct answer for letter-options
+  // Handle both single choice (number) and multiple choice (number[])
+  const answerRange = describeAnswerRange(q.options.length)
+  if (q.questionType === 'multiple') {
+    // Multiple choice: validate array of option indexes
+    if (!Array.isArray(q.correctAnswer)) {
+      return '多选题的正确答案必须是数组格式'
+    }
+    const invalidAnswers = q.correctAnswer.filter((a) => !isValidOptionIndex(a, q.options.length))
+    if (invalidAnswers.length > 0) {
+      return `选项题的正确答案必须为 ${answerRange}，当前包含无效数字：${invalidAnswers.join(', ')}`
+    }
+  } else {
+    // Single choice: validate single option index
+    if (!isValidOptionIndex(q.correctAnswer, q.options.length)) {
+      return `选项题的正确答案必须为 ${answerRange}`
+    }
+  }
+  return null
+}
 
 export function QuestionManagement(): React.JSX.Element {
   const navigate = useNavigate()
   const { logout } = useAuth()
   const [questions, setQuestions] = useState<Question[]>([])
   const [isLoading, setIsLoading] = useState(true)
-  const [filterType, setFilterType] = useState<'all' | 'single' | 'multiple'>('all')
+  const [filterType, setFilterType] = useState<'all' | QuestionType>('all')
   const [filterOptionType, setFilterOptionType] = useState<'all' | 'true-false' | 'letter-options'>(
     'all'
   )
+  const [categories, setCategories] = useState<Category[]>([])
+  const [filterCategory, setFilterCategory] = useState<CategoryFilter>('all')
   // Import result dialog state
   const [showImportDialog, setShowImportDialog] = useState(false)
   const [importResult, setImportResult] = useState<ImportResult | null>(null)
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null)
+  // Questions waiting for the user to confirm the import preview
+  const pendingImportRef = useRef<ParsedQuestion[]>([])
   // Selection state for batch operations
   const [selectedQuestions, setSelectedQuestions] = useState<Set<string>>(new Set())
   // Scroll state for header background
@@ -81,6 +173,9 @@ export function QuestionManagement(): React.JSX.Element {
   useEffect(() => {
     // 初始加载时显示错误提示
     loadQuestions(true)
+    getCategories()
+      .then(setCategories)
+      .catch((error) => console.error('[QuestionManagement] Failed to load categories:', error))
   }, [])
 
   // Ref callback to set up scroll listener when ref is attached
@@ -126,8 +221,16 @@ export function QuestionManagement(): React.JSX.Element {
     navigate(`/admin/questions/edit?id=${question.id}`)
   }
 
+  const handleRecycleBin = (): void => {
+    navigate('/admin/recycle-bin')
+  }
+
   const handleDelete = async (question: Question): Promise<void> => {
-    if (!confirm(`确定要删除题目"${question.text.substring(0, 30)}..."吗？`)) {
+    if (
+      !confirm(
+        `确定要删除题目"${question.text.substring(0, 30)}..."吗？\n\n删除后可在回收站中恢复。`
+      )
+    ) {
       return
     }
 
@@ -198,7 +301,7 @@ export function QuestionManagement(): React.JSX.Element {
     }
 
     const selectedCount = selectedQuestions.size
-    const message = `确定要删除选中的 ${selectedCount} 道题目吗？`
+    const message = `确定要删除选中的 ${selectedCount} 道题目吗？\n\n删除后可在回收站中恢复。`
 
     if (confirm(message)) {
       try {
@@ -241,34 +344,72 @@ export function QuestionManagement(): React.JSX.Element {
   const handleImport = async (): Promise<void> => {
     const input = document.createElement('input')
     input.type = 'file'
-    input.accept = '.xlsx,.xls'
+    input.accept = '.xlsx,.xls,.docx'
     input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0]
       if (!file) return
 
       try {
-        // Step 1: Validate Excel format first
-        const validation = await validateQuestionsExcelFormat(file)
+        // Step 1-2: Read questions from the Excel template or a Word exam paper
+        const result: ImportResult = { successCount: 0, totalCount: 0, errors: [] }
+        // Parsed questions with their position in the file, for error reporting
+        const parsed: Array<{ index: number; question: ParsedQuestion }> = []
+
+        if (/\.docx$/i.test(file.name)) {
+          const blocks = await parseQuestionsFromWord(file)
+          result.totalCount = blocks.length
+          blocks.forEach((block, index) => {
+            if (block.question) {
+              parsed.push({ index, question: block.question })
+            } else {
+              result.errors.push({ index, message: `第 ${block.number} 题：${block.error}` })
+            }
+          })
+        } else {
+          // Validate Excel format first
+          const validation = await validateQuestionsExcelFormat(file)
+
+          if (!validation.isValid) {
+            // Show validation errors in dialog
+            const result: ImportResult = {
+              successCount: 0,
+              totalCount: 0,
+              errors: validation.errors.map((err) => ({
+                index: err.row - 1, // Convert to 0-based index
+                message: err.row === 0 ? err.message : `第 ${err.row} 行：${err.message}`
+              }))
+            }
+            setImportResult(result)
+            setShowImportDialog(true)
+            return
+          }
 
-        if (!validation.isValid) {
-          // Show validation errors in dialog
-          const result: ImportResult = {
-            successCount: 0,
-            totalCount: 0,
-            errors: validation.errors.map((err) => ({
-              index: err.row - 1, // Convert to 0-based index
-              message: err.row === 0 ? err.message : `第 ${err.row} 行：${err.message}`
-            }))
+          // Show warnings if any
+          if (validation.warnings.length > 0) {
+            console.warn('[QuestionManagement] Import warnings:', validation.warnings)
           }
-          setImportResult(result)
-          setShowImportDialog(true)
-          return
-        }
 
-        // Step 2: If validation passed, parse and import
-        const parsedQuestions = await parseQuestionsFromExcel(file)
+          // If validation passed, parse
+          const parsedQuestions = await parseQuestionsFromExcel(file, categories)
+          result.totalCount = parsedQuestions.length
+
+          // Media file names are resolved against a folder or zip the admin picks
+          const mediaFileNames = getQuestionMediaFileNames(parsedQuestions)
+          const mediaFiles =
+            mediaFileNames.length > 0 ? await importQuestionMedia(mediaFileNames) : null
+          if (mediaFileNames.length > 0 && !mediaFiles) return
+
+          parsedQuestions.forEach((question, index) => {
+            const attached = mediaFiles ? attachQuestionMedia(question, mediaFiles) : question
+            if (typeof attached === 'string') {
+              result.errors.push({ index, message: attached })
+            } else {
+              parsed.push({ index, question: attached })
+            }
+          })
+        }
 
-        if (parsedQuestions.length === 0) {
+        if (result.totalCount === 0) {
           const result: ImportResult = {
             successCount: 0,
             totalCount: 0,
@@ -279,122 +420,28 @@ export function QuestionManagement(): React.JSX.Element {
           return
         }
 
-        // Step 3: Import questions with validation
-        const result: ImportResult = {
-          successCount: 0,
-          totalCount: parsedQuestions.length,
-          errors: []
-        }
-
-        const convertedQuestions: Question[] = []
-        for (let i = 0; i < parsedQuestions.length; i++) {
-          const q = parsedQuestions[i]
-          try {
-            // Additional validation
-            if (!q.text || q.text.trim() === '') {
-              result.errors.push({ index: i, message: '题目内容不能为空' })
-              continue
-            }
-
-            // Validate based on option type
-            if (q.optionType === 'true-false') {
-              // True-false questions: must have exactly 2 options ['正确', '错误']
-              if (q.options.length !== 2) {
-                result.errors.push({
-                  index: i,
-                  message: '对错题的选项数量必须为2个（正确、错误）'
-                })
-                continue
-              }
-              if (q.options[0] !== '正确' || q.options[1] !== '错误') {
-                result.errors.push({
-                  index: i,
-                  message: '对错题的选项必须为["正确", "错误"]'
-                })
-                continue
-              }
-              // Validate correct answer for true-false (0 or 1)
-              if (typeof q.correctAnswer !== 'number' || ![0, 1].includes(q.correctAnswer)) {
-                result.errors.push({
-                  index: i,
-                  message: '对错题的正确答案必须是 0（正确）或 1（错误）'
-                })
-                continue
-              }
-            } else {
-              // Letter-options questions: must have exactly 4 options
-              if (q.options.length !== 4) {
-                result.errors.push({ index: i, message: '选项题的选项数量必须为4个（A/B/C/D）' })
-                continue
-              }
-              if (q.options.some((opt) => !opt || opt.trim() === '')) {
-                result.errors.push({ index: i, message: '选项题的所有选项（A/B/C/D）都不能为空' })
-                continue
-              }
-              // Validate correct answer for letter-options
-              // Handle both single choice (number) and multiple choice (number[])
-              if (q.questionType === 'multiple') {
-                // Multiple choice: validate array of numbers (0-3)
-                if (!Array.isArray(q.correctAnswer)) {
-                  result.errors.push({
-                    index: i,
-                    message: '多选题的正确答案必须是数组格式'
-                  })
-                  continue
-                }
-                const invalidAnswers = (q.correctAnswer as number[]).filter(
-                  (a) => typeof a !== 'number' || ![0, 1, 2, 3].includes(a)
-                )
-                if (invalidAnswers.length > 0) {
-                  result.errors.push({
-                    index: i,
-                    message: `选项题的正确答案必须为 0、1、2 或 3（对应A/B/C/D），当前包含无效数字：${invalidAnswers.join(', ')}`
-                  })
-                  continue
-                }
-              } else {
-                // Single choice: validate single number (0-3)
-                if (
-                  typeof q.correctAnswer !== 'number' ||
-                  ![0, 1, 2, 3].includes(q.correctAnswer)
-                ) {
-                  result.errors.push({
-                    index: i,
-                    message: '选项题的正确答案必须是 0、1、2 或 3（对应A/B/C/D）'
-                  })
-                  continue
-                }
-              }
-            }
-
-            convertedQuestions.push({
-              ...q,
-              id: `q_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-              createdAt: Date.now(),
-              updatedAt: Date.now()
-            })
+        // Step 3: Validate each question
+        const convertedQuestions: ParsedQuestion[] = []
+        for (const { index, question } of parsed) {
+          const error = getQuestionError(question)
+          if (error) {
+            result.errors.push({ index, message: error })
+          } else {
+            convertedQuestions.push(question)
             result.successCount++
-          } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : '未知错误'
-            result.errors.push({ index: i, message: errorMessage })
           }
         }
+        result.errors.sort((a, b) => a.index - b.index)
 
-        // Step 4: Import valid questions to database
+        // Step 4: Compare valid questions with the bank; the dialog imports them once confirmed
         if (convertedQuestions.length > 0) {
-          await importQuestions(convertedQuestions)
-          // 导入后重新加载，不显示错误（空结果也是正常的）
-          await loadQuestions(false)
+          pendingImportRef.current = convertedQuestions
+          setImportPreview(await previewQuestionImport(convertedQuestions))
         }
 
-        // Step 5: Show result dialog
+        // Step 5: Show preview (or the validation errors)
         setImportResult(result)
         setShowImportDialog(true)
-
-        // Show warnings if any
-        if (validation.warnings.length > 0) {
-          console.warn('[QuestionManagement] Import warnings:', validation.warnings)
-        }
       } catch (error) {
         console.error('[QuestionManagement] Failed to import questions:', error)
         const errorMessage = error instanceof Error ? error.message : '未知错误'
@@ -410,12 +457,45 @@ export function QuestionManagement(): React.JSX.Element {
     input.click()
   }
 
+  const handleConfirmImport = async (actions: ImportAction[]): Promise<void> => {
+    try {
+      const summary = await applyQuestionImport(pendingImportRef.current, actions)
+      pendingImportRef.current = []
+      setImportPreview(null)
+      setImportResult((prev) =>
+        prev ? { ...prev, successCount: summary.inserted + summary.updated, summary } : prev
+      )
+      // 导入后重新加载，不显示错误（空结果也是正常的）
+      await loadQuestions(false)
+    } catch (error) {
+      console.error('[QuestionManagement] Failed to import questions:', error)
+      const errorMessage = error instanceof Error ? error.message : '未知错误'
+      alert(`导入失败：${errorMessage}`)
+    }
+  }
+
+  const handleCloseImportDialog = (): void => {
+    pendingImportRef.current = []
+    setImportPreview(null)
+    setShowImportDialog(false)
+  }
+
   const filteredQuestions = questions.filter((q) => {
     if (filterType !== 'all' && q.questionType !== filterType) return false
     if (filterOptionType !== 'all' && q.optionType !== filterOptionType) return false
+    if (filterCategory === 'none' && (q.categoryIds ?? []).length > 0) return false
+    if (
+      filterCategory !== 'all' &&
+      filterCategory !== 'none' &&
+      !(q.categoryIds ?? []).includes(filterCategory)
+    ) {
+      return false
+    }
     return true
   })
 
+  const categoryNames = new Map(categories.map((c) => [c.id, c.name]))
+
   if (isLoading) {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen w-full relative z-10">
@@ -466,14 +546,36 @@ export function QuestionManagement(): React.JSX.Element {
                 <Icon icon={downloadIcon} className="text-xl" />
                 <span>下载模板</span>
               </button>
+              <button
+                onClick={async () => {
+                  await exportQuestionsToExcel(questions, categories)
+                }}
+                disabled={questions.length === 0}
+                className="flex items-center gap-2 px-6 py-3 rounded-lg transition-colors shadow-lg text-gray-800 font-semibold hover:opacity-90 disabled:opacity-50"
+                style={{ backgroundColor: '#fbfdba' }}
+                title="按导入模板格式导出全部题目，修改后可重新导入"
+              >
+                <Icon icon={exportIcon} className="text-xl" />
+                <span>导出题库</span>
+              </button>
               <button
                 onClick={handleImport}
                 className="flex items-center gap-2 px-6 py-3 rounded-lg transition-colors shadow-lg text-gray-800 font-semibold hover:opacity-90"
                 style={{ backgroundColor: '#fbfdba' }}
+                title="支持 Excel 导入模板，或按“1. 题干 / A. 选项 / 答案：B”格式编排的 Word 试卷"
               >
                 <Icon icon={uploadIcon} className="text-xl" />
                 <span>导入题目</span>
               </button>
+              <button
+                onClick={handleRecycleBin}
+                className="flex items-center gap-2 px-6 py-3 rounded-lg transition-colors shadow-lg text-gray-800 font-semibold hover:opacity-90"
+                style={{ backgroundColor: '#fbfdba' }}
+                title="查看并恢复已删除的题目"
+              >
+                <Icon icon={deletedIcon} className="text-xl" />
+                <span>回收站</span>
+              </button>
               <button
                 onClick={handleAdd}
                 className="flex items-center gap-2 px-6 py-3 rounded-lg transition-colors shadow-lg text-gray-800 font-semibold hover:opacity-90"
@@ -501,12 +603,15 @@ export function QuestionManagement(): React.JSX.Element {
                 <span className="text-white text-sm">题型：</span>
                 <select
                   value={filterType}
-                  onChange={(e) => setFilterType(e.target.value as 'all' | 'single' | 'multiple')}
+                  onChange={(e) => setFilterType(e.target.value as 'all' | QuestionType)}
                   className="px-3 py-1 rounded border-2 border-yellow-300 bg-white text-gray-800"
                 >
                   <option value="all">全部</option>
-                  <option value="single">单选题</option>
-                  <option value="multiple">多选题</option>
+                  {Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => (
+                    <option key={type} value={type}>
+                      {label}
+                    </option>
+                  ))}
                 </select>
               </div>
               <div className="flex items-center gap-2">
@@ -523,6 +628,22 @@ export function QuestionManagement(): React.JSX.Element {
                   <option value="letter-options">选项题</option>
                 </select>
               </div>
+              <div className="flex items-center gap-2">
+                <span className="text-white text-sm">分类：</span>
+                <select
+                  value={filterCategory}
+                  onChange={(e) => setFilterCategory(e.target.value)}
+                  className="px-3 py-1 rounded border-2 border-yellow-300 bg-white text-gray-800"
+                >
+                  <option value="all">全部</option>
+                  <option value="none">未分类</option>
+                  {categories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
             <div className="flex items-center gap-3">
               {/* Select All Button */}
@@ -587,37 +708,102 @@ export function QuestionManagement(): React.JSX.Element {
                   <div className="flex-1">
                     <div className="flex items-center gap-3 mb-3">
                       <span className="px-2 py-1 rounded text-xs font-bold bg-red-600 text-white">
-                        {question.questionType === 'single' ? '单选' : '多选'}
-                      </span>
-                      <span className="px-2 py-1 rounded text-xs font-bold bg-blue-600 text-white">
-                        {question.optionType === 'true-false' ? '对错题' : '选项题'}
+                        {QUESTION_TYPE_LABELS[question.questionType]}
                       </span>
+                      {!isSequenceType(question.questionType) && (
+                        <span className="px-2 py-1 rounded text-xs font-bold bg-blue-600 text-white">
+                          {question.optionType === 'true-false' ? '对错题' : '选项题'}
+                        </span>
+                      )}
+                      {question.shuffleOptions && (
+                        <span
+                          className="px-2 py-1 rounded text-xs font-bold bg-gray-600 text-white"
+                          title="每次答题随机排列选项"
+                        >
+                          乱序
+                        </span>
+                      )}
+                      {(question.media || question.optionMedia?.some((m) => m)) && (
+                        <span
+                          className="px-2 py-1 rounded text-xs font-bold bg-purple-600 text-white"
+                          title="题目或选项带有图片或视频"
+                        >
+                          图片/视频
+                        </span>
+                      )}
+                      {(question.categoryIds ?? []).map((categoryId) =>
+                        categoryNames.has(categoryId) ? (
+                          <span
+                            key={categoryId}
+                            className="px-2 py-1 rounded text-xs font-bold bg-yellow-200 text-red-700 border border-red-300"
+                          >
+                            {categoryNames.get(categoryId)}
+                          </span>
+                        ) : null
+                      )}
                     </div>
                     <p className="text-lg font-semibold text-gray-800 mb-3">{question.text}</p>
                     <div className="space-y-1">
-                      {question.options.map((option, index) => {
-                        const isCorrect = Array.isArray(question.correctAnswer)
-                          ? question.correctAnswer.includes(index)
-                          : question.correctAnswer === index
-                        return (
+                      {question.questionType === 'ordering' &&
+                        question.options.map((option, index) => (
                           <div
                             key={index}
-                            className={`flex items-center gap-2 text-sm ${
-                              isCorrect ? 'text-green-700 font-bold' : 'text-gray-600'
-                            }`}
+                            className="flex items-center gap-2 text-sm text-gray-600"
                           >
-                            <span className="w-6 text-center">
-                              {question.optionType === 'true-false'
-                                ? index === 0
-                                  ? '✅'
-                                  : '❌'
-                                : String.fromCharCode(65 + index)}
-                            </span>
+                            <span className="w-6 text-center">{index + 1}.</span>
                             <span>{option}</span>
-                            {isCorrect && <span className="text-green-600">✓</span>}
                           </div>
-                        )
-                      })}
+                        ))}
+                      {question.questionType === 'fill-blank' &&
+                        question.options.map((option, index) => {
+                          const blanks = Array.isArray(question.correctAnswer)
+                            ? question.correctAnswer
+                            : [question.correctAnswer]
+                          const blank = blanks.indexOf(index)
+                          const variants =
+                            blank !== -1 ? (question.acceptedAnswers?.[blank] ?? []) : []
+                          return (
+                            <div
+                              key={index}
+                              className={`flex items-center gap-2 text-sm ${
+                                blank !== -1 ? 'text-green-700 font-bold' : 'text-gray-600'
+                              }`}
+                            >
+                              <span className="w-6 text-center">•</span>
+                              <span>{option}</span>
+                              {blank !== -1 && (
+                                <span className="text-green-600">
+                                  ✓ 第 {blank + 1} 空
+                                  {variants.length > 0 && `（也可填：${variants.join('、')}）`}
+                                </span>
+                              )}
+                            </div>
+                          )
+                        })}
+                      {!isSequenceType(question.questionType) &&
+                        question.options.map((option, index) => {
+                          const isCorrect = Array.isArray(question.correctAnswer)
+                            ? question.correctAnswer.includes(index)
+                            : question.correctAnswer === index
+                          return (
+                            <div
+                              key={index}
+                              className={`flex items-center gap-2 text-sm ${
+                                isCorrect ? 'text-green-700 font-bold' : 'text-gray-600'
+                              }`}
+                            >
+                              <span className="w-6 text-center">
+                                {question.optionType === 'true-false'
+                                  ? index === 0
+                                    ? '✅'
+                                    : '❌'
+                                  : String.fromCharCode(65 + index)}
+                              </span>
+                              <span>{option}</span>
+                              {isCorrect && <span className="text-green-600">✓</span>}
+                            </div>
+                          )
+                        })}
                     </div>
                   </div>
                   <div className="flex gap-2 ml-4">
@@ -646,8 +832,10 @@ export function QuestionManagement(): React.JSX.Element {
       {/* Import Result Dialog */}
       <ImportResultDialog
         isOpen={showImportDialog}
-        onClose={() => setShowImportDialog(false)}
+        onClose={handleCloseImportDialog}
         result={importResult}
+        preview={importPreview}
+        onConfirm={handleConfirmImport}
       />
     </div>
   )
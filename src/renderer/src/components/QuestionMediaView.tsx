@@ -0,0 +1,140 @@
+/**
+ * Question Media Components
+ * Image or short video attached to a question stem or option, served from the media library,
+ * and the picker the question editor attaches them with
+ */
+
+import { useState } from 'react'
+import { Icon } from '@iconify/react'
+import imagePlusIcon from '@iconify-icons/mdi/image-plus'
+import closeIcon from '@iconify-icons/mdi/close'
+import { storeMedia } from '../services/adminStorage'
+import { formatErrorForDisplay } from '../utils/errors'
+import type { QuestionMedia } from '../types/question'
+
+interface QuestionMediaViewProps {
+  media: QuestionMedia
+  /**
+   * Option attachments sit inside the option button: videos loop silently without controls
+   * so a tap still picks the option
+   */
+  isOption?: boolean
+  className?: string
+}
+
+export function QuestionMediaView({
+  media,
+  isOption = false,
+  className = ''
+}: QuestionMediaViewProps): React.JSX.Element {
+  if (media.kind === 'video') {
+    return isOption ? (
+      <video
+        src={media.url}
+        className={`rounded-xl object-contain pointer-events-none ${className}`}
+        autoPlay
+        muted
+        loop
+        playsInline
+      />
+    ) : (
+      <video
+        src={media.url}
+        className={`rounded-xl object-contain ${className}`}
+        controls
+        playsInline
+        preload="metadata"
+      />
+    )
+  }
+  return (
+    <img
+      src={media.url}
+      alt=""
+      className={`rounded-xl object-contain select-none ${className}`}
+      draggable={false}
+    />
+  )
+}
+
+interface QuestionMediaPickerProps {
+  media: QuestionMedia | null
+  onChange: (media: QuestionMedia | null) => void
+  /** Icon-only button and a small preview, for option rows */
+  compact?: boolean
+}
+
+export function QuestionMediaPicker({
+  media,
+  onChange,
+  compact = false
+}: QuestionMediaPickerProps): React.JSX.Element {
+  const [isUploading, setIsUploading] = useState(false)
+
+  // Picked files go to the media library and are shown offline from there
+  const handleSelect = async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const kind = file.type.startsWith('video/')
+      ? 'video'
+      : file.type.startsWith('image/')
+        ? 'image'
+        : null
+    if (!kind) {
+      alert('请选择图片或视频文件')
+      return
+    }
+
+    setIsUploading(true)
+    try {
+      onChange({ url: await storeMedia(await file.arrayBuffer(), file.type), kind })
+    } catch (error) {
+      console.error('[QuestionMediaPicker] Failed to upload media:', error)
+      alert(`上传失败：${formatErrorForDisplay(error).message}`)
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-3">
+      {media && (
+        <QuestionMediaView
+          media={media}
+          className={compact ? 'h-12 w-16 bg-gray-100' : 'max-h-48 max-w-xs bg-gray-100'}
+        />
+      )}
+      <label
+        className={`flex items-center gap-2 rounded-lg transition-colors cursor-pointer ${
+          compact
+            ? 'p-2 text-blue-600 hover:bg-blue-100'
+            : 'px-4 py-2 bg-blue-600 text-white hover:bg-blue-700'
+        } ${isUploading ? 'opacity-50 pointer-events-none' : ''}`}
+        title={media ? '更换图片或视频' : '添加图片或视频'}
+      >
+        <Icon icon={imagePlusIcon} className={compact ? 'text-xl' : 'text-lg'} />
+        {!compact && (
+          <span>{isUploading ? '上传中...' : media ? '更换图片或视频' : '添加图片或视频'}</span>
+        )}
+        <input
+          type="file"
+          accept="image/*,video/mp4,video/webm,video/ogg"
+          className="hidden"
+          onChange={handleSelect}
+          disabled={isUploading}
+        />
+      </label>
+      {media && (
+        <button
+          onClick={() => onChange(null)}
+          className="p-2 text-red-600 hover:bg-red-100 rounded transition-colors"
+          title="移除图片或视频"
+        >
+          <Icon icon={closeIcon} className="text-xl" />
+        </button>
+      )}
+    </div>
+  )
+}
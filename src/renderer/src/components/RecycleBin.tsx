@@ -0,0 +1,363 @@
+/**
+ * Recycle Bin Component
+ * Restore or permanently delete categories, entries and questions, and set how long they are kept
+ */
+
+import { useState, useEffect, useRef } from 'react'
+import { useNavigate } from 'react-router'
+import { Icon } from '@iconify/react'
+import arrowLeftIcon from '@iconify-icons/mdi/arrow-left'
+import restoreIcon from '@iconify-icons/mdi/restore'
+import deleteForeverIcon from '@iconify-icons/mdi/delete-forever'
+import deleteEmptyIcon from '@iconify-icons/mdi/delete-empty'
+import { LoadingSpinner } from './LoadingSpinner'
+import {
+  emptyRecycleBin,
+  getRecycleBin,
+  getRecycleBinRetention,
+  purgeRecycleBinItem,
+  restoreRecycleBinItem,
+  setRecycleBinRetention
+} from '../services/adminStorage'
+import type { RecycleBinItem, RecycleBinKind } from '../types/recycleBin'
+import { cn } from '@renderer/utils/cn'
+
+const KIND_LABELS: Record<RecycleBinKind, string> = {
+  category: '类别',
+  entry: '条目',
+  question: '题目'
+}
+
+const RETENTION_OPTIONS = [
+  { days: 7, label: '7 天' },
+  { days: 30, label: '30 天' },
+  { days: 90, label: '90 天' },
+  { days: 180, label: '180 天' },
+  { days: 0, label: '不自动清理' }
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type KindFilter = 'all' | RecycleBinKind
+
+/**
+ * Describe what else comes back when the item is restored
+ */
+function describeItem(item: RecycleBinItem): string | null {
+  const parts: string[] = []
+  if (item.categoryName) parts.push(`所属类别：${item.categoryName}`)
+  if (item.childCount > 0) {
+    parts.push(
+      item.kind === 'category' ? `含 ${item.childCount} 个条目` : `含 ${item.childCount} 个子条目`
+    )
+  }
+  return parts.length > 0 ? parts.join(' · ') : null
+}
+
+export function RecycleBin(): React.JSX.Element {
+  const navigate = useNavigate()
+  const [items, setItems] = useState<RecycleBinItem[]>([])
+  const [retentionDays, setRetentionDays] = useState<number | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [filter, setFilter] = useState<KindFilter>('all')
+  // Key (kind:id) of the item being restored/purged, or 'empty'/'retention'
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  // Scroll state for header background
+  const [isScrolled, setIsScrolled] = useState(false)
+  // Ref for scroll container
+  const scrollContainerRef = useRef<HTMLDivElement>(null)
+  // Ref for cleanup function
+  const scrollCleanupRef = useRef<(() => void) | null>(null)
+
+  const loadItems = async (): Promise<void> => {
+    try {
+      setItems(await getRecycleBin())
+    } catch (error) {
+      console.error('[RecycleBin] Failed to load recycle bin:', error)
+      alert('加载回收站失败，请重试')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    Promise.all([getRecycleBin(), getRecycleBinRetention()])
+      .then(([loadedItems, days]) => {
+        setItems(loadedItems)
+        setRetentionDays(days)
+      })
+      .catch((error) => {
+        console.error('[RecycleBin] Failed to load recycle bin:', error)
+        alert('加载回收站失败，请重试')
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  // Ref callback to set up scroll listener when ref is attached
+  const setScrollContainerRef = (node: HTMLDivElement | null): void => {
+    // Clean up previous listener if exists
+    if (scrollCleanupRef.current) {
+      scrollCleanupRef.current()
+      scrollCleanupRef.current = null
+    }
+
+    scrollContainerRef.current = node
+
+    if (node) {
+      const handleScroll = (): void => {
+        setIsScrolled(node.scrollTop > 0)
+      }
+
+      node.addEventListener('scroll', handleScroll, { passive: true })
+
+      // Store cleanup function
+      scrollCleanupRef.current = () => {
+        node.removeEventListener('scroll', handleScroll)
+      }
+    }
+  }
+
+  const handleBack = (): void => {
+    navigate('/admin')
+  }
+
+  const handleRetentionChange = async (days: number): Promise<void> => {
+    if (
+      days > 0 &&
+      (retentionDays === 0 || (retentionDays !== null && days < retentionDays)) &&
+      items.some((item) => item.deletedAt < Date.now() - days * DAY_MS) &&
+      !confirm(`删除超过 ${days} 天的内容将立即被永久删除，确定要修改吗？`)
+    ) {
+      return
+    }
+
+    try {
+      setBusyKey('retention')
+      await setRecycleBinRetention(days)
+      setRetentionDays(days)
+      await loadItems()
+    } catch (error) {
+      console.error('[RecycleBin] Failed to set retention:', error)
+      alert('保存失败，请重试')
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const handleRestore = async (item: RecycleBinItem): Promise<void> => {
+    try {
+      setBusyKey(`${item.kind}:${item.id}`)
+      await restoreRecycleBinItem(item.kind, item.id)
+      await loadItems()
+    } catch (error) {
+      console.error('[RecycleBin] Failed to restore item:', error)
+      alert(`恢复失败：${error instanceof Error ? error.message : '未知错误'}`)
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const handlePurge = async (item: RecycleBinItem): Promise<void> => {
+    const detail =
+      item.childCount > 0
+        ? `\n\n其中包含的 ${item.childCount} 个${item.kind === 'category' ? '' : '子'}条目也会一起删除。`
+        : ''
+    if (
+      !confirm(
+        `确定要永久删除${KIND_LABELS[item.kind]}"${item.title}"吗？${detail}\n\n永久删除后无法恢复。`
+      )
+    ) {
+      return
+    }
+
+    try {
+      setBusyKey(`${item.kind}:${item.id}`)
+      await purgeRecycleBinItem(item.kind, item.id)
+      await loadItems()
+    } catch (error) {
+      console.error('[RecycleBin] Failed to purge item:', error)
+      alert('永久删除失败，请重试')
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const handleEmpty = async (): Promise<void> => {
+    if (!confirm('确定要清空回收站吗？\n\n回收站中的所有内容将被永久删除，无法恢复。')) {
+      return
+    }
+
+    try {
+      setBusyKey('empty')
+      await emptyRecycleBin()
+      await loadItems()
+    } catch (error) {
+      console.error('[RecycleBin] Failed to empty recycle bin:', error)
+      alert('清空回收站失败，请重试')
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const countByKind = (kind: RecycleBinKind): number =>
+    items.filter((item) => item.kind === kind).length
+  const visibleItems = filter === 'all' ? items : items.filter((item) => item.kind === filter)
+  const filters: { value: KindFilter; label: string; count: number }[] = [
+    { value: 'all', label: '全部', count: items.length },
+    { value: 'category', label: '类别', count: countByKind('category') },
+    { value: 'entry', label: '条目', count: countByKind('entry') },
+    { value: 'question', label: '题目', count: countByKind('question') }
+  ]
+
+  return (
+    <div
+      ref={setScrollContainerRef}
+      className="flex flex-col w-full relative z-10 h-screen overflow-y-auto"
+    >
+      <div className="w-full">
+        {/* Header */}
+        <div
+          className={cn(
+            'sticky top-0 py-8 px-36 backdrop-blur-lg z-20 transition-colors duration-200',
+            {
+              'bg-red-600/80 backdrop-blur-xs': isScrolled
+            }
+          )}
+        >
+          <div className="flex items-center gap-4">
+            {/* Page Back Button - Left of Title */}
+            <button
+              onClick={handleBack}
+              className="shrink-0 p-2 hover:opacity-80 transition-opacity"
+              title="返回管理后台"
+            >
+              <Icon icon={arrowLeftIcon} className="text-3xl text-white" />
+            </button>
+            <div>
+              <h1 className="text-4xl md:text-5xl font-bold text-white mb-2">回收站</h1>
+              <p className="text-lg text-red-100">恢复或永久删除已删除的类别、条目和题目</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="px-36 pb-12">
+          {/* Retention */}
+          <div
+            className="p-8 rounded-2xl shadow-xl border-2 border-yellow-300 mb-8"
+            style={{ backgroundColor: '#fbfdba' }}
+          >
+            <label className="block text-2xl font-bold text-gray-800 mb-4">自动清理</label>
+            <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+              <div className="flex flex-wrap gap-3 flex-1">
+                {RETENTION_OPTIONS.map((option) => (
+                  <button
+                    key={option.days}
+                    onClick={() => handleRetentionChange(option.days)}
+                    disabled={busyKey !== null || retentionDays === null}
+                    className={cn(
+                      'px-6 py-3 text-lg font-semibold rounded-xl border-2 transition-colors disabled:cursor-not-allowed',
+                      retentionDays === option.days
+                        ? 'bg-red-600 border-red-600 text-white'
+                        : 'bg-white border-yellow-300 text-gray-800 hover:border-yellow-400'
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={handleEmpty}
+                disabled={busyKey !== null || items.length === 0}
+                className="flex items-center justify-center gap-2 px-8 py-4 text-xl font-semibold rounded-xl bg-red-600 text-white shadow-lg hover:bg-red-700 hover:-translate-y-1 hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Icon icon={deleteEmptyIcon} className="text-2xl" />
+                {busyKey === 'empty' ? '清空中...' : '清空回收站'}
+              </button>
+            </div>
+            <p className="mt-4 text-lg text-gray-700">
+              {retentionDays === 0
+                ? '删除的内容会一直保留在回收站中，直到手动永久删除。'
+                : `删除的内容在回收站中保留 ${retentionDays ?? '-'} 天，过期后在下次启动时自动永久删除。`}
+            </p>
+          </div>
+
+          {/* Kind Filter */}
+          <div className="flex gap-3 mb-6">
+            {filters.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setFilter(option.value)}
+                className={cn(
+                  'px-5 py-2 rounded-full text-lg font-semibold shadow transition-colors',
+                  filter === option.value
+                    ? 'bg-white text-red-600'
+                    : 'bg-red-700/60 text-white hover:bg-red-700'
+                )}
+              >
+                {option.label}（{option.count}）
+              </button>
+            ))}
+          </div>
+
+          {/* Item List */}
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="lg" variant="ring" text="加载中..." fullScreen={false} />
+            </div>
+          ) : visibleItems.length === 0 ? (
+            <div className="text-center py-12 text-red-100">
+              <p className="text-2xl">回收站是空的</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {visibleItems.map((item) => {
+                const key = `${item.kind}:${item.id}`
+                const detail = describeItem(item)
+                return (
+                  <div
+                    key={key}
+                    className="flex items-center gap-6 p-6 rounded-xl shadow-lg border-2 border-yellow-300"
+                    style={{ backgroundColor: '#fbfdba' }}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-3 mb-2">
+                        <span className="shrink-0 px-3 py-0.5 rounded-full text-sm font-semibold bg-yellow-200 text-gray-700">
+                          {KIND_LABELS[item.kind]}
+                        </span>
+                        <span className="text-xl font-bold text-gray-800 truncate">
+                          {item.title}
+                        </span>
+                      </div>
+                      {detail && <p className="text-lg text-gray-700 truncate mb-1">{detail}</p>}
+                      <p className="text-sm text-gray-500">
+                        删除于 {new Date(item.deletedAt).toLocaleString('zh-CN')}
+                        {!!retentionDays &&
+                          ` · 将于 ${new Date(item.deletedAt + retentionDays * DAY_MS).toLocaleDateString('zh-CN')} 后自动永久删除`}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleRestore(item)}
+                      disabled={busyKey !== null}
+                      className="flex items-center gap-2 px-6 py-3 rounded-lg bg-red-600 text-white font-semibold shadow-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Icon icon={restoreIcon} className="text-xl" />
+                      {busyKey === key ? '处理中...' : '恢复'}
+                    </button>
+                    <button
+                      onClick={() => handlePurge(item)}
+                      disabled={busyKey !== null}
+                      className="flex items-center gap-2 px-6 py-3 rounded-lg bg-gray-300 text-gray-800 font-semibold shadow-lg hover:bg-gray-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Icon icon={deleteForeverIcon} className="text-xl" />
+                      永久删除
+                    </button>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
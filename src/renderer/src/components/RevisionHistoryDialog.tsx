@@ -0,0 +1,235 @@
+/**
+ * Revision History Dialog Component
+ * Lists the kept versions of an entry or question, shows what changed and restores a version
+ */
+
+import { useState } from 'react'
+import { Icon } from '@iconify/react'
+import closeIcon from '@iconify-icons/mdi/close'
+import restoreIcon from '@iconify-icons/mdi/restore'
+import { LoadingSpinner } from './LoadingSpinner'
+import { diffLines } from '@renderer/utils/textDiff'
+import { cn } from '@renderer/utils/cn'
+import type { RevisionAction } from '../types/revision'
+
+/**
+ * One compared field of a version, e.g. the title or the options
+ */
+export interface RevisionField {
+  label: string
+  lines: string[]
+}
+
+export interface RevisionItem<S> {
+  id: number
+  action: RevisionAction
+  createdAt: number
+  snapshot: S
+}
+
+interface RevisionHistoryDialogProps<S> {
+  isOpen: boolean
+  title: string
+  isLoading: boolean
+  /** Kept versions, newest first */
+  revisions: RevisionItem<S>[]
+  /** The saved version, null if the row is deleted */
+  current: S | null
+  /** Split a version into the fields to compare */
+  describe: (snapshot: S) => RevisionField[]
+  onRestore: (revisionId: number) => Promise<void>
+  onClose: () => void
+}
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  update: '修改前的版本',
+  delete: '删除前的版本'
+}
+
+// current: compare with the saved version; next: with the version that replaced this one
+type CompareMode = 'current' | 'next'
+
+export function RevisionHistoryDialog<S>({
+  isOpen,
+  title,
+  isLoading,
+  revisions,
+  current,
+  describe,
+  onRestore,
+  onClose
+}: RevisionHistoryDialogProps<S>): React.JSX.Element | null {
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [compareMode, setCompareMode] = useState<CompareMode>('current')
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  if (!isOpen) return null
+
+  // Fall back to the newest version until one is picked (or after the list is reloaded)
+  const pickedIndex = revisions.findIndex((r) => r.id === selectedId)
+  const selectedIndex = pickedIndex >= 0 ? pickedIndex : revisions.length > 0 ? 0 : -1
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null
+  const after =
+    compareMode === 'current' || selectedIndex <= 0
+      ? current
+      : revisions[selectedIndex - 1].snapshot
+
+  const handleRestore = async (): Promise<void> => {
+    if (!selected) return
+    const time = new Date(selected.createdAt).toLocaleString('zh-CN')
+    if (
+      !confirm(
+        `确定要恢复到 ${time} 的${ACTION_LABELS[selected.action]}吗？` +
+          (current ? '\n\n当前内容会保留为一个历史版本。' : '')
+      )
+    ) {
+      return
+    }
+    setIsRestoring(true)
+    try {
+      await onRestore(selected.id)
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const renderComparison = (): React.JSX.Element => {
+    if (!selected) {
+      return <p className="py-12 text-center text-lg text-gray-600">请选择一个历史版本</p>
+    }
+    const beforeFields = describe(selected.snapshot)
+    const afterFields = after ? describe(after) : null
+
+    return (
+      <div className="space-y-4">
+        {beforeFields.map((field, index) => {
+          // Without a newer version to compare with, just show the kept one
+          const lines = afterFields
+            ? diffLines(field.lines, afterFields[index]?.lines ?? [])
+            : field.lines.map((text) => ({ type: 'same' as const, text }))
+          const unchanged = lines.every((line) => line.type === 'same')
+          return (
+            <div key={field.label}>
+              <div className="flex items-center gap-2 mb-1">
+                <h4 className="text-base font-bold text-gray-800">{field.label}</h4>
+                {afterFields && unchanged && <span className="text-sm text-gray-500">无变化</span>}
+              </div>
+              {(!afterFields || !unchanged) && (
+                <div className="rounded-lg bg-white border border-yellow-300 p-3 space-y-1 text-sm">
+                  {lines.length === 0 && <p className="text-gray-400">（空）</p>}
+                  {lines.map((line, lineIndex) => (
+                    <p
+                      key={lineIndex}
+                      className={cn('px-2 py-0.5 rounded whitespace-pre-wrap break-words', {
+                        'text-gray-700': line.type === 'same',
+                        'bg-red-100 text-red-800 line-through': line.type === 'removed',
+                        'bg-green-100 text-green-800': line.type === 'added'
+                      })}
+                    >
+                      {line.type === 'removed' ? '− ' : line.type === 'added' ? '+ ' : ''}
+                      {line.text}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-5xl p-6 rounded-xl shadow-2xl border-2 border-yellow-300 max-h-[90vh] flex flex-col"
+        style={{ backgroundColor: '#fbfdba' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-gray-800 truncate">{title}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-800 hover:text-red-600 transition-colors"
+            title="关闭"
+          >
+            <Icon icon={closeIcon} className="text-2xl" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" variant="ring" text="加载中..." fullScreen={false} />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="py-12 text-center text-lg text-gray-600">
+            暂无历史版本，保存修改后会在这里保留之前的内容
+          </p>
+        ) : (
+          <div className="flex gap-4 min-h-0 flex-1">
+            {/* Version list */}
+            <div className="w-64 shrink-0 overflow-y-auto space-y-2 pr-1">
+              {revisions.map((revision) => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={cn(
+                    'w-full text-left p-3 rounded-lg border-2 transition-colors',
+                    revision.id === selected?.id
+                      ? 'border-red-600 bg-white'
+                      : 'border-yellow-300 hover:bg-yellow-100'
+                  )}
+                >
+                  <p className="text-sm font-semibold text-gray-800">
+                    {new Date(revision.createdAt).toLocaleString('zh-CN')}
+                  </p>
+                  <p
+                    className={cn('text-xs', {
+                      'text-red-600': revision.action === 'delete',
+                      'text-gray-600': revision.action === 'update'
+                    })}
+                  >
+                    {ACTION_LABELS[revision.action]}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            {/* Comparison */}
+            <div className="flex-1 min-w-0 flex flex-col">
+              <div className="flex items-center justify-between gap-4 mb-3">
+                <div className="flex items-center gap-2 text-sm text-gray-700">
+                  <span>对比：</span>
+                  <select
+                    value={compareMode}
+                    onChange={(e) => setCompareMode(e.target.value as CompareMode)}
+                    className="px-2 py-1 border border-gray-300 rounded bg-white text-gray-900"
+                  >
+                    <option value="current">{current ? '当前内容' : '当前内容（已删除）'}</option>
+                    <option value="next">后一个版本</option>
+                  </select>
+                  <span className="text-gray-500">
+                    <span className="text-red-700">− 此版本有</span>，
+                    <span className="text-green-700">+ 对比版本有</span>
+                  </span>
+                </div>
+                <button
+                  onClick={handleRestore}
+                  disabled={!selected || isRestoring}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg bg-red-600 hover:bg-red-700 text-white font-semibold transition-colors disabled:opacity-50"
+                >
+                  <Icon icon={restoreIcon} className="text-lg" />
+                  {isRestoring ? '恢复中...' : '恢复此版本'}
+                </button>
+              </div>
+              <div className="flex-1 overflow-y-auto pr-1">{renderComparison()}</div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,177 @@
+/**
+ * Search Screen Component
+ * Full-text search across all categories with highlighted snippets
+ */
+
+import { useState, useEffect, useRef } from 'react'
+import { useNavigate, useSearchParams } from 'react-router'
+import { Icon } from '@iconify/react'
+import arrowLeftIcon from '@iconify-icons/mdi/arrow-left'
+import magnifyIcon from '@iconify-icons/mdi/magnify'
+import closeIcon from '@iconify-icons/mdi/close'
+import { LoadingSpinner } from './LoadingSpinner'
+import { searchEntries } from '../services/adminStorage'
+import type { EntrySearchResult } from '../types/admin'
+
+const SEARCH_DEBOUNCE_MS = 300
+
+/**
+ * Render text with \u0002...\u0003 highlight markers as <mark> elements
+ */
+function renderHighlighted(text: string): React.ReactNode[] {
+  return text.split('\u0002').map((part, index) => {
+    if (index === 0) return part
+    const [match, rest = ''] = part.split('\u0003')
+    return (
+      <span key={index}>
+        <mark className="bg-yellow-300 text-red-700 rounded px-0.5">{match}</mark>
+        {rest}
+      </span>
+    )
+  })
+}
+
+export function SearchScreen(): React.JSX.Element {
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [query, setQuery] = useState(searchParams.get('q') ?? '')
+  const [results, setResults] = useState<EntrySearchResult[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [hasSearched, setHasSearched] = useState(false)
+  const requestIdRef = useRef(0)
+
+  // Debounced search as the visitor types
+  useEffect(() => {
+    const trimmed = query.trim()
+    const timer = window.setTimeout(async () => {
+      if (!trimmed) {
+        setResults([])
+        setHasSearched(false)
+        return
+      }
+
+      const requestId = ++requestIdRef.current
+      try {
+        setIsSearching(true)
+        const hits = await searchEntries(trimmed)
+        // Ignore responses for outdated queries
+        if (requestId === requestIdRef.current) {
+          setResults(hits)
+          setHasSearched(true)
+        }
+      } catch (error) {
+        console.error('[SearchScreen] Failed to search entries:', error)
+        if (requestId === requestIdRef.current) {
+          setResults([])
+          setHasSearched(true)
+        }
+      } finally {
+        if (requestId === requestIdRef.current) {
+          setIsSearching(false)
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => window.clearTimeout(timer)
+  }, [query])
+
+  const handleBack = (): void => {
+    navigate('/query')
+  }
+
+  const handleResultClick = (result: EntrySearchResult): void => {
+    // Keep the query in this page's URL so "back" from the hit restores the results
+    setSearchParams({ q: query.trim() }, { replace: true })
+    const params = new URLSearchParams({ entryId: result.entryId, q: query.trim() })
+    navigate(`/category/${result.categoryId}?${params.toString()}`)
+  }
+
+  return (
+    <div className="flex flex-col items-center h-screen w-full relative z-10 px-8 py-16 overflow-y-auto">
+      {/* Page Title */}
+      <div className="flex items-center gap-4 mb-10 max-w-5xl w-full">
+        <button
+          onClick={handleBack}
+          className="shrink-0 p-2 hover:opacity-80 transition-opacity"
+          title="返回查询目录"
+        >
+          <Icon icon={arrowLeftIcon} className="text-3xl text-white" />
+        </button>
+        <div>
+          <h1 className="text-4xl md:text-4xl lg:text-5xl font-bold text-white mb-2">制度检索</h1>
+          <p className="text-xl text-red-100">输入关键词，检索全部类别的制度条文</p>
+        </div>
+      </div>
+
+      {/* Search Input */}
+      <div
+        className="flex items-center gap-3 max-w-5xl w-full px-6 py-4 rounded-xl shadow-lg border-2 border-yellow-300 mb-8"
+        style={{ backgroundColor: '#fbfdba' }}
+      >
+        <Icon icon={magnifyIcon} className="text-3xl text-red-600 shrink-0" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="flex-1 bg-transparent text-2xl text-gray-800 placeholder-gray-500 outline-none"
+          placeholder="例如：廉洁自律、党员义务"
+          autoFocus
+        />
+        {query && (
+          <button
+            onClick={() => setQuery('')}
+            className="p-1 rounded hover:bg-yellow-200 transition-colors"
+            title="清除"
+          >
+            <Icon icon={closeIcon} className="text-2xl text-gray-600" />
+          </button>
+        )}
+      </div>
+
+      {/* Results */}
+      <div className="max-w-5xl w-full space-y-4">
+        {isSearching && results.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" variant="ring" text="检索中..." fullScreen={false} />
+          </div>
+        ) : hasSearched && results.length === 0 ? (
+          <div className="text-center py-12 text-red-100">
+            <p className="text-2xl mb-2">未找到相关条目</p>
+            <p className="text-lg">请尝试更换或缩短关键词</p>
+          </div>
+        ) : (
+          <>
+            {hasSearched && (
+              <p className="text-lg text-red-100">共找到 {results.length} 条相关结果</p>
+            )}
+            {results.map((result) => (
+              <button
+                key={result.entryId}
+                onClick={() => handleResultClick(result)}
+                className="w-full text-left p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 border-2 border-transparent hover:border-yellow-300"
+                style={{ backgroundColor: '#fbfdba' }}
+              >
+                <div className="flex items-center gap-2 mb-2 text-sm">
+                  <span className="px-2 py-0.5 rounded-full bg-red-600 text-white font-semibold">
+                    {result.categoryName}
+                  </span>
+                  {result.parentTitle && (
+                    <span className="text-gray-600 truncate">{result.parentTitle}</span>
+                  )}
+                </div>
+                <h3 className="text-2xl font-bold text-gray-800 mb-2">
+                  {renderHighlighted(result.titleHighlight)}
+                </h3>
+                {result.snippet && (
+                  <p className="text-lg text-gray-700 leading-relaxed">
+                    {renderHighlighted(result.snippet)}
+                  </p>
+                )}
+              </button>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
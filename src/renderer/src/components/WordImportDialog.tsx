@@ -1,6 +1,7 @@
 /**
  * Word Import Dialog Component
  * Allows users to choose import method and import Word documents
+ * The split method previews the chapter/article tree so titles and sections can be adjusted first
  */
 
 import { useState } from 'react'
@@ -8,27 +9,116 @@ import { Icon } from '@iconify/react'
 import closeIcon from '@iconify-icons/mdi/close'
 import fileDocumentIcon from '@iconify-icons/mdi/file-document'
 import folderIcon from '@iconify-icons/mdi/folder'
+import fileTreeIcon from '@iconify-icons/mdi/file-tree'
+import {
+  sectionsToEntryRows,
+  splitWordDocument,
+  type WordSection,
+  type WordSplitDepth,
+  type WordSplitRule
+} from '../services/wordParser'
+import type { ParsedEntryWithParent } from '../types/admin'
 
-export type ImportMethod = 'direct' | 'parent-child'
+export type ImportMethod = 'direct' | 'parent-child' | 'split'
 
 interface WordImportDialogProps {
   isOpen: boolean
   onClose: () => void
   onImport: (method: ImportMethod, files: File[], parentTitle?: string) => Promise<void>
+  /** Import the entry rows produced by the split method */
+  onImportSections: (rows: ParsedEntryWithParent[]) => Promise<void>
 }
 
 export function WordImportDialog({
   isOpen,
   onClose,
-  onImport
+  onImport,
+  onImportSections
 }: WordImportDialogProps): React.JSX.Element | null {
   const [importMethod, setImportMethod] = useState<ImportMethod>('direct')
   const [selectedFiles, setSelectedFiles] = useState<File[]>([])
   const [parentTitle, setParentTitle] = useState('')
   const [isImporting, setIsImporting] = useState(false)
+  // Split method state: rule, depth and the previewed tree
+  const [splitRule, setSplitRule] = useState<WordSplitRule>('auto')
+  const [splitDepth, setSplitDepth] = useState<WordSplitDepth>('chapter-article')
+  const [sections, setSections] = useState<WordSection[]>([])
+  // Sections left out of the import, keyed "chapter" or "chapter.article" by index
+  const [excluded, setExcluded] = useState<Set<string>>(new Set())
+  const [isParsing, setIsParsing] = useState(false)
 
   if (!isOpen) return null
 
+  const loadSections = async (
+    files: File[],
+    rule: WordSplitRule,
+    depth: WordSplitDepth
+  ): Promise<void> => {
+    setSections([])
+    setExcluded(new Set())
+    if (files.length === 0) return
+    try {
+      setIsParsing(true)
+      const parsed: WordSection[] = []
+      for (const file of files) {
+        parsed.push(...(await splitWordDocument(file, rule, depth)))
+      }
+      setSections(parsed)
+    } catch (error) {
+      console.error('[WordImportDialog] Failed to split document:', error)
+      alert(error instanceof Error ? error.message : '解析失败')
+    } finally {
+      setIsParsing(false)
+    }
+  }
+
+  const handleMethodChange = (method: ImportMethod): void => {
+    setImportMethod(method)
+    if (method === 'split' && sections.length === 0) {
+      loadSections(selectedFiles, splitRule, splitDepth)
+    }
+  }
+
+  const toggleSection = (key: string): void => {
+    const next = new Set(excluded)
+    if (next.has(key)) {
+      next.delete(key)
+    } else {
+      next.add(key)
+    }
+    setExcluded(next)
+  }
+
+  const renameSection = (index: number, childIndex: number | null, title: string): void => {
+    setSections(
+      sections.map((section, i) => {
+        if (i !== index) return section
+        if (childIndex === null) return { ...section, title }
+        return {
+          ...section,
+          children: section.children.map((child, j) =>
+            j === childIndex ? { ...child, title } : child
+          )
+        }
+      })
+    )
+  }
+
+  // Sections that will be imported; a chapter whose articles are all left out becomes a plain entry
+  const includedSections = sections.flatMap((section, i) =>
+    excluded.has(String(i))
+      ? []
+      : [
+          {
+            ...section,
+            children: section.children.filter((_child, j) => !excluded.has(`${i}.${j}`))
+          }
+        ]
+  )
+  const hasEmptyTitle = includedSections.some(
+    (section) => !section.title.trim() || section.children.some((child) => !child.title.trim())
+  )
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>): void => {
     const files = Array.from(e.target.files || [])
     // Filter only Word documents
@@ -40,6 +130,9 @@ export function WordImportDialog({
         file.type === 'application/msword'
     )
     setSelectedFiles(wordFiles)
+    if (importMethod === 'split') {
+      loadSections(wordFiles, splitRule, splitDepth)
+    }
   }
 
   const handleImport = async (): Promise<void> => {
@@ -53,13 +146,24 @@ export function WordImportDialog({
       return
     }
 
+    if (importMethod === 'split' && includedSections.length === 0) {
+      alert('没有可导入的章节')
+      return
+    }
+
     try {
       setIsImporting(true)
-      await onImport(importMethod, selectedFiles, importMethod === 'parent-child' ? parentTitle : undefined)
+      if (importMethod === 'split') {
+        await onImportSections(sectionsToEntryRows(includedSections))
+      } else {
+        await onImport(
+          importMethod,
+          selectedFiles,
+          importMethod === 'parent-child' ? parentTitle : undefined
+        )
+      }
       // Reset form
-      setSelectedFiles([])
-      setParentTitle('')
-      setImportMethod('direct')
+      resetForm()
       onClose()
     } catch (error) {
       console.error('[WordImportDialog] Import failed:', error)
@@ -69,11 +173,17 @@ export function WordImportDialog({
     }
   }
 
+  const resetForm = (): void => {
+    setSelectedFiles([])
+    setParentTitle('')
+    setImportMethod('direct')
+    setSections([])
+    setExcluded(new Set())
+  }
+
   const handleClose = (): void => {
     if (!isImporting) {
-      setSelectedFiles([])
-      setParentTitle('')
-      setImportMethod('direct')
+      resetForm()
       onClose()
     }
   }
@@ -98,7 +208,7 @@ export function WordImportDialog({
         </div>
 
         {/* Content */}
-        <div className="p-6 space-y-6">
+        <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
           {/* Import Method Selection */}
           <div>
             <label className="block text-lg font-semibold text-gray-800 mb-3">选择导入方式：</label>
@@ -109,7 +219,7 @@ export function WordImportDialog({
                   name="importMethod"
                   value="direct"
                   checked={importMethod === 'direct'}
-                  onChange={(e) => setImportMethod(e.target.value as ImportMethod)}
+                  onChange={(e) => handleMethodChange(e.target.value as ImportMethod)}
                   disabled={isImporting}
                   className="w-5 h-5 text-red-600"
                 />
@@ -130,7 +240,7 @@ export function WordImportDialog({
                   name="importMethod"
                   value="parent-child"
                   checked={importMethod === 'parent-child'}
-                  onChange={(e) => setImportMethod(e.target.value as ImportMethod)}
+                  onChange={(e) => handleMethodChange(e.target.value as ImportMethod)}
                   disabled={isImporting}
                   className="w-5 h-5 text-red-600"
                 />
@@ -144,6 +254,27 @@ export function WordImportDialog({
                   </p>
                 </div>
               </label>
+
+              <label className="flex items-center gap-3 p-4 rounded-xl border-2 border-yellow-300 cursor-pointer hover:bg-yellow-300/20 transition-colors">
+                <input
+                  type="radio"
+                  name="importMethod"
+                  value="split"
+                  checked={importMethod === 'split'}
+                  onChange={(e) => handleMethodChange(e.target.value as ImportMethod)}
+                  disabled={isImporting}
+                  className="w-5 h-5 text-red-600"
+                />
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-1">
+                    <Icon icon={fileTreeIcon} className="text-xl text-red-600" />
+                    <span className="font-semibold text-gray-800">按章节拆分</span>
+                  </div>
+                  <p className="text-sm text-gray-600 ml-7">
+                    按标题样式或“第X章/第X条”将长文档拆成父条目和子条目，导入前可预览调整
+                  </p>
+                </div>
+              </label>
             </div>
           </div>
 
@@ -195,6 +326,120 @@ export function WordImportDialog({
               </div>
             )}
           </div>
+
+          {/* Split Preview (only for split method) */}
+          {importMethod === 'split' && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <label className="text-sm font-semibold text-gray-800">
+                  拆分依据：
+                  <select
+                    value={splitRule}
+                    onChange={(e) => {
+                      const rule = e.target.value as WordSplitRule
+                      setSplitRule(rule)
+                      loadSections(selectedFiles, rule, splitDepth)
+                    }}
+                    disabled={isImporting || isParsing}
+                    className="mt-1 w-full px-3 py-2 rounded-xl border-2 border-yellow-300 bg-white text-gray-800"
+                  >
+                    <option value="auto">自动识别</option>
+                    <option value="headings">标题 1 / 标题 2 样式</option>
+                    <option value="numbering">“第X章 / 第X条”文字</option>
+                  </select>
+                </label>
+                <label className="text-sm font-semibold text-gray-800">
+                  拆分层级：
+                  <select
+                    value={splitDepth}
+                    onChange={(e) => {
+                      const depth = e.target.value as WordSplitDepth
+                      setSplitDepth(depth)
+                      loadSections(selectedFiles, splitRule, depth)
+                    }}
+                    disabled={isImporting || isParsing}
+                    className="mt-1 w-full px-3 py-2 rounded-xl border-2 border-yellow-300 bg-white text-gray-800"
+                  >
+                    <option value="chapter-article">章为父条目，条为子条目</option>
+                    <option value="chapter">只按章拆分</option>
+                  </select>
+                </label>
+              </div>
+
+              <div
+                className="p-4 rounded-xl border-2 border-yellow-300 max-h-72 overflow-y-auto"
+                style={{ backgroundColor: '#fff' }}
+              >
+                {isParsing ? (
+                  <p className="text-sm text-gray-600 text-center py-4">解析中...</p>
+                ) : sections.length === 0 ? (
+                  <p className="text-sm text-gray-600 text-center py-4">
+                    {selectedFiles.length === 0 ? '请选择 Word 文档' : '未识别到章节'}
+                  </p>
+                ) : (
+                  <ul className="space-y-2">
+                    {sections.map((section, i) => (
+                      <li key={i}>
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={!excluded.has(String(i))}
+                            onChange={() => toggleSection(String(i))}
+                            disabled={isImporting}
+                            className="w-4 h-4"
+                          />
+                          <span className="shrink-0 text-xs font-semibold text-red-600">
+                            {section.children.length > 0 ? '父条目' : '普通条目'}
+                          </span>
+                          <input
+                            type="text"
+                            value={section.title}
+                            onChange={(e) => renameSection(i, null, e.target.value)}
+                            disabled={isImporting || excluded.has(String(i))}
+                            className="flex-1 min-w-0 px-2 py-1 rounded border border-yellow-300 text-sm text-gray-800 disabled:opacity-50"
+                          />
+                        </div>
+                        {section.children.length > 0 && (
+                          <ul className="mt-1 ml-8 space-y-1">
+                            {section.children.map((child, j) => (
+                              <li key={j} className="flex items-center gap-2">
+                                <input
+                                  type="checkbox"
+                                  checked={!excluded.has(`${i}.${j}`)}
+                                  onChange={() => toggleSection(`${i}.${j}`)}
+                                  disabled={isImporting || excluded.has(String(i))}
+                                  className="w-4 h-4"
+                                />
+                                <span className="shrink-0 text-xs text-gray-500">子条目</span>
+                                <input
+                                  type="text"
+                                  value={child.title}
+                                  onChange={(e) => renameSection(i, j, e.target.value)}
+                                  disabled={
+                                    isImporting ||
+                                    excluded.has(String(i)) ||
+                                    excluded.has(`${i}.${j}`)
+                                  }
+                                  className="flex-1 min-w-0 px-2 py-1 rounded border border-yellow-300 text-sm text-gray-800 disabled:opacity-50"
+                                />
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              {sections.length > 0 && (
+                <p className="text-sm text-gray-600">
+                  将导入 {includedSections.length} 个顶级条目、
+                  {includedSections.reduce((sum, section) => sum + section.children.length, 0)}{' '}
+                  个子条目；下一步会与已有条目比对，同名条目可选择更新或跳过
+                </p>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Footer */}
@@ -209,11 +454,17 @@ export function WordImportDialog({
           </button>
           <button
             onClick={handleImport}
-            disabled={isImporting || selectedFiles.length === 0 || (importMethod === 'parent-child' && !parentTitle.trim())}
+            disabled={
+              isImporting ||
+              selectedFiles.length === 0 ||
+              (importMethod === 'parent-child' && !parentTitle.trim()) ||
+              (importMethod === 'split' &&
+                (isParsing || includedSections.length === 0 || hasEmptyTitle))
+            }
             className="px-6 py-3 rounded-xl border-2 border-yellow-300 text-gray-800 font-semibold hover:bg-yellow-300/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             style={{ backgroundColor: '#fbfdba' }}
           >
-            {isImporting ? '导入中...' : '开始导入'}
+            {isImporting ? '导入中...' : importMethod === 'split' ? '下一步：比对导入' : '开始导入'}
           </button>
         </div>
       </div>
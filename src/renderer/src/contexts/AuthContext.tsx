@@ -3,38 +3,74 @@
  * Provides global authentication state and methods
  */
 
-import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react'
+import {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  type ReactNode
+} from 'react'
 import { useNavigate, useLocation } from 'react-router'
 import * as authService from '../services/authService'
+import type { LoginResult } from '../types/auth'
 
 interface AuthContextType {
   isAuthenticated: boolean
-  login: (password: string) => Promise<boolean>
+  /** The default password must be replaced before the admin pages can be used */
+  mustChangePassword: boolean
+  login: (password: string) => Promise<LoginResult>
   logout: () => void
-  checkAuth: () => boolean
+  checkAuth: () => Promise<boolean>
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
+// Activity pushes the session expiry back at most this often
+const EXTEND_INTERVAL = 60000
+
 export function AuthProvider({ children }: { children: ReactNode }): React.JSX.Element {
-  const [isAuthenticated, setIsAuthenticated] = useState(() => authService.isAuthenticated())
+  const [isAuthenticated, setIsAuthenticated] = useState(false)
+  const [mustChangePassword, setMustChangePassword] = useState(false)
+  const lastExtendRef = useRef(0)
   const navigate = useNavigate()
   const location = useLocation()
 
+  const checkAuth = useCallback(async (): Promise<boolean> => {
+    const session = await authService.getAuthSession()
+    setIsAuthenticated(session.authenticated)
+    setMustChangePassword(session.mustChangePassword)
+    return session.authenticated
+  }, [])
+
+  // Restore a session that survived a renderer reload
+  useEffect(() => {
+    authService.clearLegacyAuthStorage()
+    authService.getAuthSession().then((session) => {
+      setIsAuthenticated(session.authenticated)
+      setMustChangePassword(session.mustChangePassword)
+    })
+  }, [])
+
   // Check authentication status periodically
   useEffect(() => {
     const checkInterval = setInterval(() => {
-      const authenticated = authService.isAuthenticated()
-      setIsAuthenticated(authenticated)
-
-      // If session expired while on admin page, redirect to login
-      if (!authenticated && location.pathname.startsWith('/admin')) {
-        navigate('/admin/login', { replace: true })
-      }
+      void checkAuth().then((authenticated) => {
+        // If session expired while on admin page, redirect to login
+        if (
+          !authenticated &&
+          location.pathname.startsWith('/admin') &&
+          location.pathname !== '/admin/login'
+        ) {
+          navigate('/admin/login', { replace: true })
+        }
+      })
     }, 60000) // Check every minute
 
     return () => clearInterval(checkInterval)
-  }, [navigate, location.pathname])
+  }, [navigate, location.pathname, checkAuth])
 
   // Extend session on user activity
   useEffect(() => {
@@ -43,7 +79,10 @@ export function AuthProvider({ children }: { children: ReactNode }): React.JSX.E
     }
 
     const handleActivity = (): void => {
-      authService.extendSession()
+      const now = Date.now()
+      if (now - lastExtendRef.current < EXTEND_INTERVAL) return
+      lastExtendRef.current = now
+      void authService.extendSession()
     }
 
     // Listen to various user activities
@@ -59,19 +98,27 @@ export function AuthProvider({ children }: { children: ReactNode }): React.JSX.E
     }
   }, [isAuthenticated])
 
-  const login = useCallback(async (password: string): Promise<boolean> => {
-    const success = authService.login(password)
-    if (success) {
+  const login = useCallback(async (password: string): Promise<LoginResult> => {
+    const result = await authService.login(password)
+    if (result.success) {
       setIsAuthenticated(true)
-      // Extend session on login
-      authService.extendSession()
+      setMustChangePassword(result.mustChangePassword)
     }
-    return success
+    return result
   }, [])
 
+  const changePassword = useCallback(
+    async (currentPassword: string, newPassword: string): Promise<void> => {
+      await authService.changePassword(currentPassword, newPassword)
+      setMustChangePassword(false)
+    },
+    []
+  )
+
   const logout = useCallback(() => {
-    authService.logout()
+    void authService.logout()
     setIsAuthenticated(false)
+    setMustChangePassword(false)
     // Redirect to login if on admin page
     if (location.pathname.startsWith('/admin')) {
       navigate('/admin/login', { replace: true })
@@ -89,14 +136,10 @@ export function AuthProvider({ children }: { children: ReactNode }): React.JSX.E
     }
   }, [navigate, location.pathname])
 
-  const checkAuth = useCallback((): boolean => {
-    const authenticated = authService.isAuthenticated()
-    setIsAuthenticated(authenticated)
-    return authenticated
-  }, [])
-
   return (
-    <AuthContext.Provider value={{ isAuthenticated, login, logout, checkAuth }}>
+    <AuthContext.Provider
+      value={{ isAuthenticated, mustChangePassword, login, logout, checkAuth, changePassword }}
+    >
       {children}
     </AuthContext.Provider>
   )
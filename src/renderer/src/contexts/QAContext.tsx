@@ -3,15 +3,24 @@
  * Provides state machine context and dispatch to all components
  */
 
-import { createContext, useContext, useReducer, useEffect, useRef, type ReactNode } from 'react'
+import {
+  createContext,
+  useContext,
+  useReducer,
+  useEffect,
+  useRef,
+  useState,
+  type ReactNode
+} from 'react'
 import {
   qaStateMachineReducer,
   createInitialContext,
   QAState,
+  getQuestionPoints,
   type QAStateMachineContext,
   type QAAction
 } from '../store/qaStateMachine'
-import { getQuestions } from '../services/questionStorage'
+import { getQuestions, recordAnswerEvents } from '../services/questionStorage'
 import { formatErrorForDisplay } from '../utils/errors'
 import { saveState, loadState, restoreContext, clearState } from '../services/statePersistence'
 import {
@@ -20,6 +29,8 @@ import {
   getQuestionCount,
   type QuestionPool
 } from '../services/questionSelector'
+import { getScoringPolicy, getTimeLimits } from '../services/qaSettings'
+import { shuffleQuestionOptions, toStoredAnswer } from '../utils/questionOptions'
 import type { Question } from '../types/question'
 
 /**
@@ -48,6 +59,12 @@ interface QAContextValue {
   questionError: string | null
   /** Check if question pool has available questions */
   checkQuestionPool: () => Promise<{ hasAvailable: boolean; message: string }>
+  /** Category IDs the current quiz is limited to, null for all questions */
+  quizScope: string[] | null
+  /** Start a new session limited to the given categories (null for all questions) */
+  startQuiz: (categoryIds: string[] | null) => void
+  /** Whether a visitor has started answering the current session */
+  hasSessionProgress: boolean
 }
 
 const QAContext = createContext<QAContextValue | null>(null)
@@ -73,6 +90,11 @@ export function QAProvider({ children }: { children: ReactNode }) {
   const isInitializedRef = useRef(false)
   const isLoadingRef = useRef(false)
   const questionPoolRef = useRef<QuestionPool | null>(null)
+  // Read by the loader, which may run before a state update lands
+  const quizScopeRef = useRef<string[] | null>(null)
+  const [quizScope, setQuizScope] = useState<string[] | null>(null)
+  // Answers of the current session already sent to the answer_events table
+  const recordedAnswersRef = useRef({ sessionId: '', count: 0 })
 
   // Load or create question pool
   const loadQuestionPool = (allQuestions: Question[]): QuestionPool => {
@@ -147,6 +169,35 @@ export function QAProvider({ children }: { children: ReactNode }) {
         return
       }
 
+      const scope = quizScopeRef.current
+      if (scope) {
+        const scopedQuestions = allQuestions.filter((q) =>
+          (q.categoryIds ?? []).some((id) => scope.includes(id))
+        )
+        if (scopedQuestions.length === 0) {
+          dispatch({
+            type: 'ERROR',
+            message: '所选专题下暂时没有题目，请前往答题管理页面为题目设置分类。'
+          })
+          return
+        }
+
+        // Topic quizzes draw from their own pool so the shared no-repeat pool is left alone
+        const selection = selectRandomQuestions(
+          createQuestionPool(scopedQuestions),
+          getQuestionCount()
+        )
+        console.log('[QAContext] Selected', selection.questions.length, 'questions in scope')
+        clearState()
+        dispatch({
+          type: 'START_SESSION',
+          questions: selection.questions.map(shuffleQuestionOptions),
+          timeLimits: getTimeLimits(),
+          scoring: getScoringPolicy()
+        })
+        return
+      }
+
       // Load or create question pool
       questionPoolRef.current = loadQuestionPool(allQuestions)
 
@@ -217,8 +268,7 @@ export function QAProvider({ children }: { children: ReactNode }) {
               type: 'RESTORE_STATE',
               restoredContext: {
                 ...createInitialContext(),
-                ...restoredContext,
-                questions: selectedQuestions
+                ...restoredContext
               }
             })
             return
@@ -233,7 +283,12 @@ export function QAProvider({ children }: { children: ReactNode }) {
       }
 
       // No saved state or restore failed - start new session
-      dispatch({ type: 'START_SESSION', questions: selectedQuestions })
+      dispatch({
+        type: 'START_SESSION',
+        questions: selectedQuestions.map(shuffleQuestionOptions),
+        timeLimits: getTimeLimits(),
+        scoring: getScoringPolicy()
+      })
     } catch (error) {
       console.error('[QAContext] Failed to load questions:', error)
       const errorInfo = formatErrorForDisplay(error)
@@ -257,6 +312,11 @@ export function QAProvider({ children }: { children: ReactNode }) {
         }
       }
 
+      // Topic quizzes always draw from every question in scope
+      if (quizScopeRef.current) {
+        return { hasAvailable: true, message: '' }
+      }
+
       // Load current pool
       const pool = loadQuestionPool(allQuestions)
       const available = pool.available.filter((q) => !pool.used.has(q.id))
@@ -283,16 +343,26 @@ export function QAProvider({ children }: { children: ReactNode }) {
 
   // Reload questions function (for getting new questions)
   const reloadQuestions = async (): Promise<void> => {
-    // Clear question pool when reloading
-    try {
-      localStorage.removeItem(QUESTION_POOL_KEY)
-    } catch (error) {
-      console.error('[QAContext] Failed to clear question pool:', error)
+    // Clear question pool when reloading (topic quizzes never touch it)
+    if (!quizScopeRef.current) {
+      try {
+        localStorage.removeItem(QUESTION_POOL_KEY)
+      } catch (error) {
+        console.error('[QAContext] Failed to clear question pool:', error)
+      }
+      questionPoolRef.current = null
     }
-    questionPoolRef.current = null
     await loadQuestionsAndStartSession(false)
   }
 
+  // Start a fresh session for a scope; the reset effect below loads the questions
+  const startQuiz = (categoryIds: string[] | null): void => {
+    const scope = categoryIds && categoryIds.length > 0 ? categoryIds : null
+    quizScopeRef.current = scope
+    setQuizScope(scope)
+    dispatch({ type: 'RESET_SESSION' })
+  }
+
   // Load questions and restore state on mount
   useEffect(() => {
     if (isInitializedRef.current) return
@@ -321,6 +391,41 @@ export function QAProvider({ children }: { children: ReactNode }) {
     }
   }, [context])
 
+  // Record each new answer for analytics; the main process ignores duplicates,
+  // so answers of a restored session may be sent again safely
+  useEffect(() => {
+    const { sessionId, answers } = context.results
+    if (!sessionId) return
+    if (recordedAnswersRef.current.sessionId !== sessionId) {
+      recordedAnswersRef.current = { sessionId, count: 0 }
+    }
+    const newAnswers = answers.slice(recordedAnswersRef.current.count)
+    if (newAnswers.length === 0) return
+    recordedAnswersRef.current.count = answers.length
+
+    const questionsById = new Map(context.questions.map((q) => [q.id, q]))
+    recordAnswerEvents(
+      newAnswers.map((answer) => {
+        const question = questionsById.get(answer.questionId)
+        return {
+          sessionId,
+          questionId: answer.questionId,
+          // Shuffled questions are answered by display position; analytics uses stored indexes
+          selectedAnswer: question
+            ? toStoredAnswer(question, answer.selectedAnswer)
+            : answer.selectedAnswer,
+          isCorrect: answer.isCorrect,
+          outcome: answer.outcome,
+          attempt: answer.attempt,
+          timeSpent: answer.timeSpent,
+          pointsEarned: answer.pointsEarned,
+          points: question ? getQuestionPoints(question) : 1,
+          answeredAt: answer.timestamp
+        }
+      })
+    ).catch((error) => console.error('[QAContext] Failed to record answers:', error))
+  }, [context.results, context.questions])
+
   // Calculate derived values
   const isLastQuestion = context.currentQuestionIndex >= context.questions.length - 1
   const isFirstQuestion = context.currentQuestionIndex === 0
@@ -334,6 +439,12 @@ export function QAProvider({ children }: { children: ReactNode }) {
   const hasEnoughQuestionsValue = context.questions.length > 0
   const questionError = context.error && context.error.includes('题目') ? context.error : null
 
+  // A freshly loaded session waits on its first question with nothing answered
+  const hasSessionProgress =
+    context.results.answers.length > 0 ||
+    context.currentQuestionIndex > 0 ||
+    (context.state !== QAState.IDLE && context.state !== QAState.QUESTION_DISPLAY)
+
   const value: QAContextValue = {
     context,
     dispatch,
@@ -344,7 +455,10 @@ export function QAProvider({ children }: { children: ReactNode }) {
     reloadQuestions,
     hasEnoughQuestions: hasEnoughQuestionsValue,
     questionError,
-    checkQuestionPool
+    checkQuestionPool,
+    quizScope,
+    startQuiz,
+    hasSessionProgress
   }
 
   return <QAContext.Provider value={value}>{children}</QAContext.Provider>
@@ -0,0 +1,42 @@
+/**
+ * React hook for counting down to a deadline
+ */
+
+import { useEffect, useRef, useState } from 'react'
+
+const TICK_MS = 200
+
+/**
+ * Count down to an absolute deadline and fire once when it passes
+ * @param deadline Absolute time in ms, or null to stop counting
+ * @param onExpire Called once when the deadline is reached
+ * @returns Remaining milliseconds, or null when there is no deadline
+ */
+export function useCountdown(deadline: number | null, onExpire: () => void): number | null {
+  const [now, setNow] = useState(() => Date.now())
+  const onExpireRef = useRef(onExpire)
+
+  useEffect(() => {
+    onExpireRef.current = onExpire
+  }, [onExpire])
+
+  useEffect(() => {
+    if (deadline === null) {
+      return undefined
+    }
+
+    const tick = (): void => {
+      const current = Date.now()
+      setNow(current)
+      if (current >= deadline) {
+        window.clearInterval(timer)
+        onExpireRef.current()
+      }
+    }
+
+    const timer = window.setInterval(tick, TICK_MS)
+    return () => window.clearInterval(timer)
+  }, [deadline])
+
+  return deadline === null ? null : Math.max(0, deadline - now)
+}
@@ -0,0 +1,44 @@
+/**
+ * React hook for detecting when nobody is using the screen
+ */
+
+import { useEffect, useRef } from 'react'
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'touchstart', 'keydown', 'wheel'] as const
+
+/**
+ * Fire once after a period without touch, mouse or keyboard input
+ * Any input restarts the timeout, so it can fire again after the next idle period
+ * @param timeoutMs Idle time in ms, or null to stop watching
+ * @param onIdle Called when the timeout passes without input
+ */
+export function useIdleTimer(timeoutMs: number | null, onIdle: () => void): void {
+  const onIdleRef = useRef(onIdle)
+
+  useEffect(() => {
+    onIdleRef.current = onIdle
+  }, [onIdle])
+
+  useEffect(() => {
+    if (timeoutMs === null) {
+      return undefined
+    }
+
+    let timer = window.setTimeout(() => onIdleRef.current(), timeoutMs)
+    const handleActivity = (): void => {
+      window.clearTimeout(timer)
+      timer = window.setTimeout(() => onIdleRef.current(), timeoutMs)
+    }
+
+    // Capture phase so inputs that stop propagation still count
+    for (const type of ACTIVITY_EVENTS) {
+      window.addEventListener(type, handleActivity, { capture: true, passive: true })
+    }
+    return () => {
+      window.clearTimeout(timer)
+      for (const type of ACTIVITY_EVENTS) {
+        window.removeEventListener(type, handleActivity, { capture: true })
+      }
+    }
+  }, [timeoutMs])
+}
@@ -5,9 +5,13 @@
 import { useEffect, useRef } from 'react'
 import {
   keyboardEventToCommand,
+  keyboardEventToPlayerCommand,
+  keyboardEventToTeamBuzz,
   createDebouncer,
+  isEditableElement,
   type KeyboardInputEvent,
   type InputCommand,
+  type PlayerInputCommand,
   DEFAULT_INPUT_CONFIG
 } from '../services/inputHandler'
 
@@ -30,6 +34,11 @@ export function useKeyboardInput(
     }
 
     const handleKeyboardInput = (_event: unknown, data: KeyboardInputEvent) => {
+      // Keys typed into a text field (physical or on-screen keyboard) are not answers
+      if (isEditableElement(document.activeElement)) {
+        return
+      }
+
       // Debounce rapid inputs
       if (!debouncer.current()) {
         console.log('[KeyboardInput] Debounced input:', data.key)
@@ -53,3 +62,92 @@ export function useKeyboardInput(
   }, [onCommand, enabled, debounceMs])
 }
 
+/**
+ * Hook to listen for the key blocks of the head-to-head mode
+ * Each player is debounced separately so simultaneous answers all get through
+ * @param onCommand Callback when a player's key is pressed
+ * @param playerCount Number of players (key blocks in use)
+ * @param enabled Whether input handling is enabled
+ * @param debounceMs Debounce delay per player (default: 300ms)
+ */
+export function usePlayerKeyboardInput(
+  onCommand: (command: PlayerInputCommand) => void,
+  playerCount: number,
+  enabled = true,
+  debounceMs = DEFAULT_INPUT_CONFIG.debounceMs
+): void {
+  const debouncers = useRef(new Map<number, () => boolean>())
+
+  useEffect(() => {
+    if (!enabled) {
+      return
+    }
+
+    const handleKeyboardInput = (_event: unknown, data: KeyboardInputEvent): void => {
+      if (isEditableElement(document.activeElement)) {
+        return
+      }
+
+      const command = keyboardEventToPlayerCommand(data, playerCount)
+      if (!command) {
+        return
+      }
+      let debouncer = debouncers.current.get(command.player)
+      if (!debouncer) {
+        debouncer = createDebouncer(debounceMs)
+        debouncers.current.set(command.player, debouncer)
+      }
+      if (!debouncer()) {
+        console.log('[KeyboardInput] Debounced input for player', command.player, data.code)
+        return
+      }
+
+      console.log('[KeyboardInput] Player command:', command, 'from key:', data.code)
+      onCommand(command)
+    }
+
+    window.electron.ipcRenderer.on('keyboard-input', handleKeyboardInput)
+
+    return () => {
+      window.electron.ipcRenderer.removeListener('keyboard-input', handleKeyboardInput)
+    }
+  }, [onCommand, playerCount, enabled, debounceMs])
+}
+
+/**
+ * Hook to listen for the team buzzer keys of the host mode, pressed on this window's keyboard
+ * or on the buzzer window's (the main process forwards those here)
+ * Buzzes are not debounced: the first one wins and the host screen ignores the rest
+ * @param onBuzz Callback with the team whose key was pressed
+ * @param teamCount Number of teams (buzzer keys in use)
+ * @param enabled Whether input handling is enabled
+ */
+export function useTeamBuzzerInput(
+  onBuzz: (team: number) => void,
+  teamCount: number,
+  enabled = true
+): void {
+  useEffect(() => {
+    if (!enabled) {
+      return
+    }
+
+    const handleKeyboardInput = (_event: unknown, data: KeyboardInputEvent): void => {
+      if (isEditableElement(document.activeElement)) {
+        return
+      }
+
+      const team = keyboardEventToTeamBuzz(data, teamCount)
+      if (team !== null) {
+        console.log('[KeyboardInput] Team buzzer:', team, 'from key:', data.code)
+        onBuzz(team)
+      }
+    }
+
+    window.electron.ipcRenderer.on('keyboard-input', handleKeyboardInput)
+
+    return () => {
+      window.electron.ipcRenderer.removeListener('keyboard-input', handleKeyboardInput)
+    }
+  }, [onBuzz, teamCount, enabled])
+}
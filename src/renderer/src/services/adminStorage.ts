@@ -3,7 +3,22 @@
  * Manages categories and entries using SQLite via IPC
  */
 
-import type { Category, Entry } from '../types/admin'
+import type {
+  Category,
+  Entry,
+  EntrySearchResult,
+  BackupInfo,
+  ParsedEntryWithParent
+} from '../types/admin'
+import type { ImportAction, ImportPreview, ImportSummary } from '../types/importPlan'
+import type {
+  PackageExportResult,
+  PackageImportOptions,
+  PackageImportResult,
+  PackagePreview
+} from '../types/contentPackage'
+import type { EntryRevision } from '../types/revision'
+import type { RecycleBinItem, RecycleBinKind } from '../types/recycleBin'
 
 /**
  * Wait for API to be available
@@ -133,6 +148,22 @@ export async function getEntriesByCategory(categoryId: string): Promise<Entry[]>
   }
 }
 
+/**
+ * Get a single entry by ID, null if it does not exist
+ */
+export async function getEntry(id: string): Promise<Entry | null> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.getEntry(id)
+  } catch (error) {
+    console.error('[adminStorage] Failed to get entry:', error)
+    throw error
+  }
+}
+
 /**
  * Save entries (not needed with SQLite, but kept for compatibility)
  */
@@ -190,21 +221,321 @@ export async function deleteEntry(id: string, categoryId: string): Promise<boole
 }
 
 /**
- * Import entries for a category
+ * Compare an entry tree parsed from Excel with a category's entries (dry run)
+ */
+export async function previewEntryImport(
+  categoryId: string,
+  entries: ParsedEntryWithParent[]
+): Promise<ImportPreview> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.previewEntryImport(categoryId, entries)
+  } catch (error) {
+    console.error('[adminStorage] Failed to preview entry import:', error)
+    throw error
+  }
+}
+
+/**
+ * Import an entry tree with one insert/update/skip action per row
+ */
+export async function applyEntryImport(
+  categoryId: string,
+  entries: ParsedEntryWithParent[],
+  actions: ImportAction[]
+): Promise<ImportSummary> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.applyEntryImport(categoryId, entries, actions)
+  } catch (error) {
+    console.error('[adminStorage] Failed to apply entry import:', error)
+    throw error
+  }
+}
+
+/**
+ * Get the kept versions of an entry, newest first
+ */
+export async function getEntryRevisions(entryId: string): Promise<EntryRevision[]> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.getEntryRevisions(entryId)
+  } catch (error) {
+    console.error('[adminStorage] Failed to get entry revisions:', error)
+    throw error
+  }
+}
+
+/**
+ * Restore an entry to a kept version
+ */
+export async function restoreEntryRevision(revisionId: number): Promise<Entry> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.restoreEntryRevision(revisionId)
+  } catch (error) {
+    console.error('[adminStorage] Failed to restore entry revision:', error)
+    throw error
+  }
+}
+
+/**
+ * Store an image, video or lottie animation in the media library
+ * @returns app-media:// URL to use in entry HTML or kiosk settings
+ */
+export async function storeMedia(data: ArrayBuffer | Uint8Array, mimeType: string): Promise<string> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.storeMedia(new Uint8Array(data), mimeType)
+  } catch (error) {
+    console.error('[adminStorage] Failed to store media:', error)
+    throw error
+  }
+}
+
+/**
+ * Full-text search across all entries
+ */
+export async function searchEntries(query: string, limit?: number): Promise<EntrySearchResult[]> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.searchEntries(query, limit)
+  } catch (error) {
+    console.error('[adminStorage] Failed to search entries:', error)
+    throw error
+  }
+}
+
+/**
+ * Create a manual database snapshot
+ */
+export async function createBackup(label?: string): Promise<BackupInfo> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.createBackup(label)
+  } catch (error) {
+    console.error('[adminStorage] Failed to create backup:', error)
+    throw error
+  }
+}
+
+/**
+ * List database snapshots, newest first
+ */
+export async function listBackups(): Promise<BackupInfo[]> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.listBackups()
+  } catch (error) {
+    console.error('[adminStorage] Failed to list backups:', error)
+    throw error
+  }
+}
+
+/**
+ * Restore a database snapshot
+ * Resolves with the safety snapshot taken of the state being replaced
+ */
+export async function restoreBackup(id: string): Promise<BackupInfo> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.restoreBackup(id)
+  } catch (error) {
+    console.error('[adminStorage] Failed to restore backup:', error)
+    throw error
+  }
+}
+
+/**
+ * Delete a database snapshot
+ */
+export async function deleteBackup(id: string): Promise<boolean> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.deleteBackup(id)
+  } catch (error) {
+    console.error('[adminStorage] Failed to delete backup:', error)
+    throw error
+  }
+}
+
+/**
+ * Export all content to a .qapkg file chosen by the admin
+ * Resolves with null when the save dialog is cancelled
+ */
+export async function exportPackage(
+  qaSettings: Record<string, unknown> | null
+): Promise<PackageExportResult | null> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.exportPackage(qaSettings)
+  } catch (error) {
+    console.error('[adminStorage] Failed to export content package:', error)
+    throw error
+  }
+}
+
+/**
+ * Pick a .qapkg file and compare it with local content
+ * Resolves with null when the open dialog is cancelled
+ */
+export async function previewPackage(): Promise<PackagePreview | null> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.previewPackage()
+  } catch (error) {
+    console.error('[adminStorage] Failed to preview content package:', error)
+    throw error
+  }
+}
+
+/**
+ * Import a previewed .qapkg file
+ */
+export async function importPackage(
+  filePath: string,
+  options: PackageImportOptions
+): Promise<PackageImportResult> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.importPackage(filePath, options)
+  } catch (error) {
+    console.error('[adminStorage] Failed to import content package:', error)
+    throw error
+  }
+}
+
+/**
+ * Get everything in the recycle bin, most recently deleted first
  */
-export async function importEntries(categoryId: string, entries: Array<Omit<Entry, 'id' | 'categoryId' | 'createdAt' | 'updatedAt'>>): Promise<number> {
+export async function getRecycleBin(): Promise<RecycleBinItem[]> {
   try {
     await waitForAPI()
     if (!window.api?.db) {
       throw new Error('Database API not available')
     }
-    return await window.api.db.importEntries(categoryId, entries)
+    return await window.api.db.getRecycleBin()
   } catch (error) {
-    console.error('[adminStorage] Failed to import entries:', error)
+    console.error('[adminStorage] Failed to get recycle bin:', error)
     throw error
   }
 }
 
+/**
+ * Restore an item from the recycle bin, with everything deleted along with it
+ */
+export async function restoreRecycleBinItem(kind: RecycleBinKind, id: string): Promise<void> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    await window.api.db.restoreRecycleBinItem(kind, id)
+  } catch (error) {
+    console.error('[adminStorage] Failed to restore recycle bin item:', error)
+    throw error
+  }
+}
+
+/**
+ * Permanently delete an item in the recycle bin
+ */
+export async function purgeRecycleBinItem(kind: RecycleBinKind, id: string): Promise<boolean> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.purgeRecycleBinItem(kind, id)
+  } catch (error) {
+    console.error('[adminStorage] Failed to purge recycle bin item:', error)
+    throw error
+  }
+}
 
+/**
+ * Permanently delete everything in the recycle bin
+ */
+export async function emptyRecycleBin(): Promise<number> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.emptyRecycleBin()
+  } catch (error) {
+    console.error('[adminStorage] Failed to empty recycle bin:', error)
+    throw error
+  }
+}
 
+/**
+ * Get the number of days deleted items are kept (0 = until purged by hand)
+ */
+export async function getRecycleBinRetention(): Promise<number> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.getRecycleBinRetention()
+  } catch (error) {
+    console.error('[adminStorage] Failed to get recycle bin retention:', error)
+    throw error
+  }
+}
 
+/**
+ * Set the number of days deleted items are kept; items older than that are purged right away
+ */
+export async function setRecycleBinRetention(days: number): Promise<void> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    await window.api.db.setRecycleBinRetention(days)
+  } catch (error) {
+    console.error('[adminStorage] Failed to set recycle bin retention:', error)
+    throw error
+  }
+}
@@ -1,139 +1,95 @@
 /**
  * Authentication Service
  * Handles login/logout and session management for admin access
+ * The password hash and sessions are kept in the main process; this only talks to it over IPC
  */
 
-const AUTH_STORAGE_KEY = 'admin_auth_session'
-const SESSION_DURATION = 24 * 60 * 60 * 1000 // 24 hours in milliseconds
+import type { AuthSessionStatus, LoginResult } from '../types/auth'
 
-// Default admin password (can be changed in production)
-// In a real application, this should be configurable or stored securely
-const DEFAULT_ADMIN_PASSWORD = 'admin123'
+// Left behind by the old localStorage login, which kept the password in plain text
+const LEGACY_STORAGE_KEYS = ['admin_auth_session', 'admin_password']
 
-interface AuthSession {
-  isAuthenticated: boolean
-  loginTime: number
-  expiresAt: number
-}
-
-/**
- * Get stored admin password from localStorage or use default
- */
-function getAdminPassword(): string {
-  try {
-    const stored = localStorage.getItem('admin_password')
-    return stored || DEFAULT_ADMIN_PASSWORD
-  } catch {
-    return DEFAULT_ADMIN_PASSWORD
+function getAuthAPI(): Window['api']['auth'] {
+  if (!window.api?.auth) {
+    throw new Error('Auth API not available')
   }
+  return window.api.auth
 }
 
 /**
- * Set admin password (for future use if needed)
+ * Remove credentials stored by earlier versions
  */
-export function setAdminPassword(password: string): void {
+export function clearLegacyAuthStorage(): void {
   try {
-    localStorage.setItem('admin_password', password)
+    LEGACY_STORAGE_KEYS.forEach((key) => localStorage.removeItem(key))
   } catch (error) {
-    console.error('[authService] Failed to set admin password:', error)
+    console.error('[authService] Failed to clear legacy auth storage:', error)
   }
 }
 
 /**
  * Get current authentication session
  */
-export function getAuthSession(): AuthSession | null {
+export async function getAuthSession(): Promise<AuthSessionStatus> {
   try {
-    const stored = localStorage.getItem(AUTH_STORAGE_KEY)
-    if (!stored) {
-      return null
-    }
-
-    const session: AuthSession = JSON.parse(stored)
-    const now = Date.now()
-
-    // Check if session is expired
-    if (now > session.expiresAt) {
-      // Session expired, clear it
-      clearAuthSession()
-      return null
-    }
-
-    return session
+    return await getAuthAPI().getSession()
   } catch (error) {
     console.error('[authService] Failed to get auth session:', error)
-    return null
+    return { authenticated: false, mustChangePassword: false, expiresAt: null }
   }
 }
 
 /**
- * Check if user is currently authenticated
+ * Authenticate user with password
  */
-export function isAuthenticated(): boolean {
-  const session = getAuthSession()
-  return session?.isAuthenticated === true
+export async function login(password: string): Promise<LoginResult> {
+  return getAuthAPI().login(password)
 }
 
 /**
- * Authenticate user with password
+ * Logout user
  */
-export function login(password: string): boolean {
-  const adminPassword = getAdminPassword()
-
-  if (password === adminPassword) {
-    const now = Date.now()
-    const session: AuthSession = {
-      isAuthenticated: true,
-      loginTime: now,
-      expiresAt: now + SESSION_DURATION
-    }
-
-    try {
-      localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(session))
-      return true
-    } catch (error) {
-      console.error('[authService] Failed to save auth session:', error)
-      return false
-    }
+export async function logout(): Promise<void> {
+  try {
+    await getAuthAPI().logout()
+  } catch (error) {
+    console.error('[authService] Failed to log out:', error)
   }
-
-  return false
 }
 
 /**
- * Logout user
+ * Extend session (called on activity)
  */
-export function logout(): void {
-  clearAuthSession()
+export async function extendSession(): Promise<void> {
+  try {
+    await getAuthAPI().extendSession()
+  } catch (error) {
+    console.error('[authService] Failed to extend session:', error)
+  }
 }
 
 /**
- * Clear authentication session
+ * Time the login stays locked after too many wrong passwords, null if it is not locked
  */
-function clearAuthSession(): void {
+export async function getLoginLockedUntil(): Promise<number | null> {
   try {
-    localStorage.removeItem(AUTH_STORAGE_KEY)
+    return await getAuthAPI().getLockedUntil()
   } catch (error) {
-    console.error('[authService] Failed to clear auth session:', error)
+    console.error('[authService] Failed to get login lockout:', error)
+    return null
   }
 }
 
 /**
- * Extend session (called on activity)
+ * Replace the admin password; throws with a message to show when it is rejected
  */
-export function extendSession(): void {
-  const session = getAuthSession()
-  if (session?.isAuthenticated) {
-    const now = Date.now()
-    const updatedSession: AuthSession = {
-      ...session,
-      expiresAt: now + SESSION_DURATION
-    }
-
-    try {
-      localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(updatedSession))
-    } catch (error) {
-      console.error('[authService] Failed to extend session:', error)
-    }
+export async function changePassword(currentPassword: string, newPassword: string): Promise<void> {
+  try {
+    await getAuthAPI().changePassword(currentPassword, newPassword)
+  } catch (error) {
+    console.error('[authService] Failed to change password:', error)
+    // Drop the "Error invoking remote method ..." prefix IPC adds to main process errors
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(message.replace(/^Error invoking remote method '[^']+': (Error: )?/, ''))
   }
 }
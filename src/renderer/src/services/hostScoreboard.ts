@@ -0,0 +1,87 @@
+/**
+ * Host Scoreboard Service
+ * Keeps the host mode teams and their scores in localStorage, so a contest carries on
+ * across rounds and survives a reload or restart of the app
+ */
+
+import type { HostBuzzRecord, HostContext, HostTeam } from '../store/hostStateMachine'
+
+const STORAGE_KEY = 'host-scoreboard'
+const STORAGE_VERSION = 1
+
+/**
+ * Persisted scoreboard structure
+ */
+export interface HostScoreboard {
+  teams: HostTeam[]
+  round: number
+  history: HostBuzzRecord[]
+  askedQuestionIds: string[]
+}
+
+interface PersistedScoreboard extends HostScoreboard {
+  version: number
+  savedAt: number
+}
+
+/**
+ * Save the teams, scores and buzz history of a contest
+ */
+export function saveHostScoreboard(context: HostContext): void {
+  try {
+    if (context.teams.length === 0) {
+      return
+    }
+
+    const persisted: PersistedScoreboard = {
+      version: STORAGE_VERSION,
+      teams: context.teams,
+      round: context.round,
+      history: context.history,
+      askedQuestionIds: context.askedQuestionIds,
+      savedAt: Date.now()
+    }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(persisted))
+  } catch (error) {
+    console.error('[HostScoreboard] Failed to save scoreboard:', error)
+  }
+}
+
+/**
+ * Load the saved scoreboard, null if there is none
+ */
+export function loadHostScoreboard(): HostScoreboard | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) {
+      return null
+    }
+
+    const parsed = JSON.parse(stored) as PersistedScoreboard
+    if (parsed.version !== STORAGE_VERSION || !Array.isArray(parsed.teams)) {
+      console.warn('[HostScoreboard] Discarding incompatible scoreboard')
+      clearHostScoreboard()
+      return null
+    }
+    return {
+      teams: parsed.teams,
+      round: parsed.round,
+      history: parsed.history ?? [],
+      askedQuestionIds: parsed.askedQuestionIds ?? []
+    }
+  } catch (error) {
+    console.error('[HostScoreboard] Failed to load scoreboard:', error)
+    return null
+  }
+}
+
+/**
+ * Clear the saved scoreboard (a new contest starts)
+ */
+export function clearHostScoreboard(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY)
+  } catch (error) {
+    console.error('[HostScoreboard] Failed to clear scoreboard:', error)
+  }
+}
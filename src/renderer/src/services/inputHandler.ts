@@ -11,6 +11,10 @@ export enum InputCommand {
   SELECT_B = 'SELECT_B',
   SELECT_C = 'SELECT_C',
   SELECT_D = 'SELECT_D',
+  SELECT_E = 'SELECT_E',
+  SELECT_F = 'SELECT_F',
+  SELECT_G = 'SELECT_G',
+  SELECT_H = 'SELECT_H',
   CONFIRM = 'CONFIRM'
   // Note: NEXT removed - animation auto-advances after 2 seconds
 }
@@ -28,13 +32,21 @@ export function commandToAnswerIndex(command: InputCommand): number | null {
       return 2
     case InputCommand.SELECT_D:
       return 3
+    case InputCommand.SELECT_E:
+      return 4
+    case InputCommand.SELECT_F:
+      return 5
+    case InputCommand.SELECT_G:
+      return 6
+    case InputCommand.SELECT_H:
+      return 7
     default:
       return null
   }
 }
 
 /**
- * Default keyboard mappings
+ * Default keyboard mappings: 1-8 and A-H select options A-H
  * Can be overridden via configuration
  */
 export const DEFAULT_KEY_MAPPINGS: Record<string, InputCommand> = {
@@ -42,18 +54,58 @@ export const DEFAULT_KEY_MAPPINGS: Record<string, InputCommand> = {
   '2': InputCommand.SELECT_B,
   '3': InputCommand.SELECT_C,
   '4': InputCommand.SELECT_D,
+  '5': InputCommand.SELECT_E,
+  '6': InputCommand.SELECT_F,
+  '7': InputCommand.SELECT_G,
+  '8': InputCommand.SELECT_H,
   a: InputCommand.SELECT_A,
   b: InputCommand.SELECT_B,
   c: InputCommand.SELECT_C,
   d: InputCommand.SELECT_D,
+  e: InputCommand.SELECT_E,
+  f: InputCommand.SELECT_F,
+  g: InputCommand.SELECT_G,
+  h: InputCommand.SELECT_H,
   A: InputCommand.SELECT_A,
   B: InputCommand.SELECT_B,
   C: InputCommand.SELECT_C,
   D: InputCommand.SELECT_D,
+  E: InputCommand.SELECT_E,
+  F: InputCommand.SELECT_F,
+  G: InputCommand.SELECT_G,
+  H: InputCommand.SELECT_H,
   Enter: InputCommand.CONFIRM
   // Spacebar and Arrow keys removed - animation auto-advances
 }
 
+/**
+ * Key blocks of the head-to-head mode, one per player, by key code so they work with any
+ * keyboard layout (buzzer boxes that emulate a keyboard can be set to send these keys)
+ * Four keys pick options A-D and a fifth confirms a multiple choice answer
+ */
+export const PLAYER_KEY_BLOCKS: { options: string[]; confirm: string; label: string }[] = [
+  { options: ['KeyQ', 'KeyW', 'KeyE', 'KeyR'], confirm: 'KeyT', label: 'Q W E R，T 确认' },
+  { options: ['KeyY', 'KeyU', 'KeyI', 'KeyO'], confirm: 'KeyP', label: 'Y U I O，P 确认' },
+  { options: ['KeyA', 'KeyS', 'KeyD', 'KeyF'], confirm: 'KeyG', label: 'A S D F，G 确认' },
+  { options: ['KeyH', 'KeyJ', 'KeyK', 'KeyL'], confirm: 'Semicolon', label: 'H J K L，; 确认' }
+]
+
+const OPTION_COMMANDS = [
+  InputCommand.SELECT_A,
+  InputCommand.SELECT_B,
+  InputCommand.SELECT_C,
+  InputCommand.SELECT_D
+]
+
+/**
+ * Command from one player's key block
+ */
+export interface PlayerInputCommand {
+  /** Player index (0-based) */
+  player: number
+  command: InputCommand
+}
+
 /**
  * Keyboard input data from main process
  */
@@ -77,6 +129,73 @@ export function keyboardEventToCommand(
   return mappings[key] ?? null
 }
 
+/**
+ * Map keyboard event to the command of the player whose key block it belongs to
+ */
+export function keyboardEventToPlayerCommand(
+  event: KeyboardInputEvent,
+  playerCount: number
+): PlayerInputCommand | null {
+  // Shortcuts such as Ctrl+A are not answers
+  if (event.control || event.alt || event.meta) {
+    return null
+  }
+  for (const [player, block] of PLAYER_KEY_BLOCKS.slice(0, playerCount).entries()) {
+    const option = block.options.indexOf(event.code)
+    if (option !== -1) {
+      return { player, command: OPTION_COMMANDS[option] }
+    }
+    if (event.code === block.confirm) {
+      return { player, command: InputCommand.CONFIRM }
+    }
+  }
+  return null
+}
+
+/**
+ * Buzzer keys of the host mode, one per team: number keys 1-6 on the main row or the keypad
+ * (buzzer boxes that emulate a keyboard can be set to send these keys)
+ */
+export const TEAM_BUZZER_KEYS: { codes: string[]; label: string }[] = [1, 2, 3, 4, 5, 6].map(
+  (digit) => ({ codes: [`Digit${digit}`, `Numpad${digit}`], label: String(digit) })
+)
+
+/**
+ * Map keyboard event to the team whose buzzer key it is, null for other keys
+ */
+export function keyboardEventToTeamBuzz(
+  event: KeyboardInputEvent,
+  teamCount: number
+): number | null {
+  if (event.control || event.alt || event.meta) {
+    return null
+  }
+  const team = TEAM_BUZZER_KEYS.slice(0, teamCount).findIndex((keys) =>
+    keys.codes.includes(event.code)
+  )
+  return team === -1 ? null : team
+}
+
+/**
+ * Input types that accept typed text (and therefore must not trigger answer shortcuts)
+ */
+const TEXT_INPUT_TYPES = ['text', 'search', 'password', 'number', 'tel', 'email', 'url']
+
+/**
+ * Check whether an element accepts typed text
+ */
+export function isEditableElement(
+  element: Element | null
+): element is HTMLInputElement | HTMLTextAreaElement {
+  if (element instanceof HTMLTextAreaElement) {
+    return !element.readOnly && !element.disabled
+  }
+  if (element instanceof HTMLInputElement) {
+    return TEXT_INPUT_TYPES.includes(element.type) && !element.readOnly && !element.disabled
+  }
+  return false
+}
+
 /**
  * Debounce utility for preventing rapid inputs
  */
@@ -110,4 +229,3 @@ export const DEFAULT_INPUT_CONFIG: InputConfig = {
   debounceMs: 300,
   keyMappings: DEFAULT_KEY_MAPPINGS
 }
-
@@ -0,0 +1,79 @@
+/**
+ * Kiosk Settings Service
+ * Manages idle timeout and attract loop settings
+ */
+
+const SETTINGS_KEY = 'kiosk-settings'
+
+/**
+ * What plays on the home page while nobody is using the kiosk
+ */
+export type AttractMode = 'none' | 'slideshow' | 'animation' | 'video'
+
+export interface KioskSettings {
+  /** Seconds without input before the kiosk returns home, 0 to never return */
+  idleTimeout: number
+  /** Seconds the countdown overlay is shown before the kiosk returns home */
+  idleCountdown: number
+  /** Attract loop played after returning home */
+  attractMode: AttractMode
+  /** Seconds each category is shown in the slideshow */
+  slideInterval: number
+  /** app-media:// URL of the lottie animation (JSON) for the animation mode */
+  attractAnimationUrl: string | null
+  /** app-media:// URL of the video for the video mode */
+  attractVideoUrl: string | null
+}
+
+const DEFAULT_SETTINGS: KioskSettings = {
+  idleTimeout: 120,
+  idleCountdown: 10,
+  attractMode: 'slideshow',
+  slideInterval: 8,
+  attractAnimationUrl: null,
+  attractVideoUrl: null
+}
+
+/**
+ * Get kiosk settings
+ */
+export function getKioskSettings(): KioskSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY)
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<KioskSettings>
+      return {
+        ...DEFAULT_SETTINGS,
+        ...parsed
+      }
+    }
+  } catch (error) {
+    console.error('[KioskSettings] Failed to load settings:', error)
+  }
+  return { ...DEFAULT_SETTINGS }
+}
+
+/**
+ * Save kiosk settings
+ */
+export function saveKioskSettings(settings: Partial<KioskSettings>): void {
+  try {
+    const current = getKioskSettings()
+    const updated = { ...current, ...settings }
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(updated))
+  } catch (error) {
+    console.error('[KioskSettings] Failed to save settings:', error)
+    throw error
+  }
+}
+
+/**
+ * Reset settings to default
+ */
+export function resetKioskSettings(): void {
+  try {
+    localStorage.removeItem(SETTINGS_KEY)
+  } catch (error) {
+    console.error('[KioskSettings] Failed to reset settings:', error)
+  }
+}
@@ -0,0 +1,560 @@
+/**
+ * Offline Pinyin Dictionary
+ * Syllable -> common characters (most frequent first) and a phrase list
+ * used by the on-screen keyboard; `v` stands for ü
+ */
+
+export const PINYIN_CHARS: Record<string, string> = {
+  a: '啊阿呵',
+  ai: '爱哎唉埃挨矮碍艾癌隘',
+  an: '安按案岸暗俺鞍氨庵',
+  ang: '昂肮盎',
+  ao: '奥澳傲熬凹袄遨',
+  ba: '把吧八巴爸拔霸罢坝芭扒疤',
+  bai: '白百败摆拜柏佰掰',
+  ban: '办半班般版伴板搬扮颁斑瓣',
+  bang: '帮邦榜棒绑磅傍膀',
+  bao: '报保包宝暴抱薄饱爆胞堡豹',
+  bei: '被北备背倍悲杯贝辈碑卑',
+  ben: '本奔笨苯',
+  beng: '崩绷泵蹦甭',
+  bi: '比必笔避闭彼鼻币壁毕逼碧弊蔽臂毙',
+  bian: '变边便编遍辩鞭扁辨贬',
+  biao: '表标彪膘',
+  bie: '别憋瘪',
+  bin: '宾滨彬斌濒',
+  bing: '并病兵冰饼丙秉柄',
+  bo: '波博播拨伯薄泊玻剥脖驳搏勃',
+  bu: '不部步布补捕卜埔',
+  ca: '擦',
+  cai: '才采财材菜彩裁猜踩',
+  can: '参残餐惨灿蚕',
+  cang: '藏仓苍舱',
+  cao: '草操曹槽糙',
+  ce: '策测册侧厕',
+  cen: '参岑',
+  ceng: '曾层蹭',
+  cha: '查差察茶插叉刹诧',
+  chai: '拆柴差',
+  chan: '产缠馋铲颤阐蝉',
+  chang: '长场常厂唱尝肠昌畅倡偿',
+  chao: '超朝潮炒抄吵巢钞',
+  che: '车彻撤扯澈',
+  chen: '陈沉晨称臣尘趁衬辰',
+  cheng: '成城程称承诚呈乘惩橙撑秤',
+  chi: '持吃池迟尺赤齿耻斥驰痴翅',
+  chong: '重冲充崇虫宠',
+  chou: '抽愁筹丑臭仇酬',
+  chu: '出处初除础储触楚厨畜',
+  chuai: '揣踹',
+  chuan: '传川船穿串喘',
+  chuang: '创窗床闯疮',
+  chui: '吹垂锤炊',
+  chun: '春纯唇醇蠢',
+  chuo: '戳绰',
+  ci: '此次词辞刺瓷磁慈雌赐',
+  cong: '从聪丛匆葱',
+  cou: '凑',
+  cu: '促粗醋簇',
+  cuan: '窜篡',
+  cui: '催脆翠摧粹',
+  cun: '存村寸',
+  cuo: '错措挫搓',
+  da: '大打达答搭',
+  dai: '代带待袋戴贷逮呆',
+  dan: '但单担胆淡蛋弹旦丹耽',
+  dang: '党当档荡挡',
+  dao: '到道导倒岛刀盗稻蹈悼',
+  de: '的得德地',
+  dei: '得',
+  deng: '等登灯邓凳瞪',
+  di: '地第低底帝敌弟递滴笛抵堤',
+  dian: '点电店典殿垫颠淀',
+  diao: '调掉吊钓雕',
+  die: '跌爹叠碟蝶',
+  ding: '定顶订丁钉盯鼎',
+  diu: '丢',
+  dong: '动东懂洞冬董冻栋',
+  dou: '都斗豆抖逗陡',
+  du: '度都读独督毒渡杜肚堵赌',
+  duan: '段断短端锻',
+  dui: '对队堆兑',
+  dun: '顿吨盾蹲敦墩',
+  duo: '多夺朵躲舵堕',
+  e: '额恶饿俄鹅扼',
+  en: '恩',
+  er: '而二儿耳尔',
+  fa: '发法罚乏伐阀',
+  fan: '反范犯饭烦翻凡繁返泛番帆',
+  fang: '方放防房访仿芳妨纺',
+  fei: '非费飞废肥肺匪沸菲',
+  fen: '分份纷奋粉愤坟芬',
+  feng: '风丰封峰锋奉逢疯缝蜂',
+  fo: '佛',
+  fou: '否',
+  fu: '服府复富负副福付附父夫妇扶浮符辅腐抚赋',
+  ga: '嘎尬',
+  gai: '改该概盖丐钙',
+  gan: '干感敢赶甘肝杆',
+  gang: '刚岗港钢纲缸',
+  gao: '高告搞稿糕',
+  ge: '个各格革哥歌割隔阁',
+  gei: '给',
+  gen: '根跟',
+  geng: '更耕庚',
+  gong: '工公共功供攻宫恭巩贡',
+  gou: '够构购沟狗勾',
+  gu: '古故固顾股骨鼓谷孤姑估雇',
+  gua: '挂瓜刮寡',
+  guai: '怪乖拐',
+  guan: '关管观官馆惯冠贯灌罐',
+  guang: '光广逛',
+  gui: '规贵归轨鬼柜跪桂',
+  gun: '滚棍',
+  guo: '国过果锅郭裹',
+  ha: '哈',
+  hai: '还海害孩亥骇',
+  han: '含汉寒喊汗韩旱函',
+  hang: '行航杭',
+  hao: '好号毫豪耗浩',
+  he: '和合何河核荷贺喝盒赫',
+  hei: '黑嘿',
+  hen: '很恨狠痕',
+  heng: '横恒衡哼',
+  hong: '红宏洪轰虹鸿',
+  hou: '后候厚猴吼',
+  hu: '护户互湖呼胡虎忽乎壶糊',
+  hua: '化话华画花划滑',
+  huai: '坏怀淮',
+  huan: '环换还欢缓患唤幻',
+  huang: '黄皇荒慌晃谎',
+  hui: '会回汇挥辉毁灰惠慧恢悔绘贿',
+  hun: '婚混魂昏',
+  huo: '或活火获货伙祸惑',
+  ji: '及机记级基技积集纪济极际计即急既继击激籍绩季寄鸡吉疾挤',
+  jia: '家加价假架甲佳夹嘉驾',
+  jian: '见建件间检简坚监减键健剑渐鉴荐肩艰尖',
+  jiang: '将讲江奖降强疆浆',
+  jiao: '教交较叫脚角焦骄郊胶',
+  jie: '结解接界节阶届街借姐洁揭戒杰',
+  jin: '进今金近尽紧禁仅劲津锦',
+  jing: '经精京境警竞静景井晶敬镜净',
+  jiong: '窘迥',
+  jiu: '就究九酒久旧救纠',
+  ju: '局举据具居巨聚拒剧距句菊',
+  juan: '卷捐倦圈',
+  jue: '决觉绝角掘',
+  jun: '军均君俊菌',
+  ka: '卡咖',
+  kai: '开凯慨',
+  kan: '看刊堪砍',
+  kang: '抗康扛',
+  kao: '考靠烤',
+  ke: '可科克客刻课颗渴壳',
+  ken: '肯恳啃',
+  keng: '坑',
+  kong: '空控孔恐',
+  kou: '口扣寇',
+  ku: '库苦哭酷裤',
+  kua: '跨夸垮',
+  kuai: '快块筷会',
+  kuan: '宽款',
+  kuang: '况矿狂框旷',
+  kui: '亏愧溃奎',
+  kun: '困昆捆',
+  kuo: '扩括阔',
+  la: '拉啦辣蜡',
+  lai: '来赖',
+  lan: '蓝兰烂拦栏懒览滥',
+  lang: '浪朗郎狼廊',
+  lao: '老劳牢捞',
+  le: '了乐勒',
+  lei: '类累雷泪',
+  leng: '冷愣',
+  li: '理里力利立例历离李礼丽励厉粒梨',
+  lia: '俩',
+  lian: '联连练廉恋脸怜莲炼',
+  liang: '两量良亮粮梁凉谅',
+  liao: '了料疗辽聊',
+  lie: '列烈裂劣猎',
+  lin: '林临邻淋',
+  ling: '领令另零灵龄铃岭凌',
+  liu: '流留六刘柳',
+  long: '龙隆笼垄',
+  lou: '楼漏露搂',
+  lu: '路录陆露鲁炉卢',
+  lv: '律率绿旅虑履',
+  lve: '略掠',
+  luan: '乱卵',
+  lun: '论轮伦',
+  luo: '落罗络逻萝洛',
+  ma: '吗马妈码骂麻',
+  mai: '买卖麦迈埋',
+  man: '满慢漫曼蛮',
+  mang: '忙盲茫',
+  mao: '毛贸冒帽矛茂猫',
+  me: '么',
+  mei: '没每美妹梅媒煤',
+  men: '们门闷',
+  meng: '梦蒙猛盟',
+  mi: '密米秘迷蜜',
+  mian: '面免棉眠绵',
+  miao: '秒妙苗描',
+  mie: '灭',
+  min: '民敏',
+  ming: '明名命鸣',
+  miu: '谬',
+  mo: '么末模磨摸莫默',
+  mou: '某谋',
+  mu: '目木母幕牧墓慕',
+  na: '那拿哪纳',
+  nai: '乃奶耐',
+  nan: '南难男',
+  nang: '囊',
+  nao: '脑闹恼',
+  ne: '呢',
+  nei: '内',
+  nen: '嫩',
+  neng: '能',
+  ni: '你泥尼逆拟',
+  nian: '年念粘',
+  niang: '娘',
+  niao: '鸟尿',
+  nie: '捏',
+  nin: '您',
+  ning: '宁凝',
+  niu: '牛扭纽',
+  nong: '农浓弄',
+  nu: '努怒奴',
+  nv: '女',
+  nve: '虐',
+  nuan: '暖',
+  nuo: '诺挪',
+  o: '哦噢',
+  ou: '欧偶',
+  pa: '怕爬',
+  pai: '派排拍牌',
+  pan: '判盘盼攀',
+  pang: '旁胖',
+  pao: '跑炮泡抛',
+  pei: '配培陪赔',
+  pen: '盆喷',
+  peng: '朋碰鹏',
+  pi: '批皮否疲匹披',
+  pian: '片篇偏骗',
+  piao: '票漂飘',
+  pin: '品贫频拼',
+  ping: '平评凭瓶屏',
+  po: '破迫坡颇',
+  pu: '普铺朴扑',
+  qi: '其起期企气器齐奇骑启旗七妻欺弃',
+  qia: '恰洽',
+  qian: '前钱千签潜欠浅迁谦',
+  qiang: '强墙枪抢',
+  qiao: '桥巧敲瞧',
+  qie: '切且窃',
+  qin: '亲勤侵琴秦',
+  qing: '情清请轻青庆倾晴',
+  qiong: '穷',
+  qiu: '求球秋丘',
+  qu: '去区取曲趋渠',
+  quan: '全权劝泉圈券',
+  que: '确却缺',
+  qun: '群裙',
+  ran: '然染燃',
+  rang: '让',
+  rao: '绕扰',
+  re: '热惹',
+  ren: '人任认仁忍',
+  reng: '仍扔',
+  ri: '日',
+  rong: '容荣融溶',
+  rou: '肉柔',
+  ru: '如入乳儒',
+  ruan: '软',
+  rui: '锐瑞',
+  run: '润',
+  ruo: '若弱',
+  sa: '撒洒萨',
+  sai: '赛塞腮',
+  san: '三散伞',
+  sang: '桑丧',
+  sao: '扫嫂骚',
+  se: '色塞涩',
+  sen: '森',
+  seng: '僧',
+  sha: '杀沙傻纱',
+  shai: '晒筛',
+  shan: '山善闪扇衫删',
+  shang: '上商伤尚赏',
+  shao: '少烧稍绍哨',
+  she: '社设涉射舍',
+  shei: '谁',
+  shen: '身深神审甚申伸肾慎',
+  sheng: '生省声胜升圣剩绳',
+  shi: '是时事实市使式示始施室史世石识十师视试适释士势',
+  shou: '手受收首守授售瘦',
+  shu: '书数术属输树述熟叔署鼠',
+  shua: '刷',
+  shuai: '率帅衰',
+  shuan: '拴',
+  shuang: '双爽',
+  shui: '水税谁睡',
+  shun: '顺',
+  shuo: '说',
+  si: '四思死司私丝斯寺似',
+  song: '送松宋颂',
+  sou: '搜',
+  su: '素速诉苏俗宿塑',
+  suan: '算酸蒜',
+  sui: '随虽岁碎遂',
+  sun: '损孙笋',
+  suo: '所索锁缩',
+  ta: '他她它塔踏',
+  tai: '太台态泰抬胎',
+  tan: '谈探叹坦贪弹摊滩',
+  tang: '堂唐糖汤躺趟塘',
+  tao: '套讨逃陶桃涛淘',
+  te: '特',
+  teng: '腾疼藤',
+  ti: '提体题替梯踢蹄',
+  tian: '天田填甜添',
+  tiao: '条调跳挑',
+  tie: '铁贴帖',
+  ting: '听停庭厅挺亭',
+  tong: '同通统童痛铜桶筒',
+  tou: '头投透偷',
+  tu: '图土突途徒涂吐兔',
+  tuan: '团',
+  tui: '推退腿',
+  tun: '吞屯',
+  tuo: '脱托拖妥拓驼',
+  wa: '挖娃瓦袜蛙',
+  wai: '外歪',
+  wan: '完万晚玩湾弯碗挽',
+  wang: '往网王望忘旺亡',
+  wei: '为位委维未违卫伟危威围微',
+  wen: '问文闻稳温纹吻',
+  weng: '翁',
+  wo: '我握卧窝沃',
+  wu: '无务物五武误午',
+  xi: '系习西息希细席析喜洗戏吸惜悉',
+  xia: '下夏吓峡辖霞虾',
+  xian: '现先县线限宪显险鲜献闲陷',
+  xiang: '项相想向乡响象详享箱',
+  xiao: '小效消校晓笑孝销',
+  xie: '写协些谢鞋械斜携',
+  xin: '新心信欣辛薪',
+  xing: '行性形型刑兴星醒幸姓',
+  xiong: '雄兄胸凶熊',
+  xiu: '修休秀袖绣',
+  xu: '需许续序须叙徐虚蓄',
+  xuan: '选宣悬旋玄',
+  xue: '学雪血穴',
+  xun: '训寻讯迅询旬巡',
+  ya: '压呀牙亚雅押鸭',
+  yan: '严研言验沿延眼烟颜盐宴',
+  yang: '样央阳养洋扬仰',
+  yao: '要药摇腰遥邀咬',
+  ye: '也业夜叶页野爷',
+  yi: '一以意义已议依医易移艺疑亿益异忆宜',
+  yin: '因引印银音饮隐阴',
+  ying: '应营影英迎硬赢',
+  yong: '用永拥勇涌',
+  you: '有由又友优油游右幼忧',
+  yu: '于与育语域预遇余鱼雨玉愈欲誉',
+  yuan: '员原院元园远源援愿',
+  yue: '月越约阅跃乐',
+  yun: '运云允孕',
+  za: '杂砸',
+  zai: '在再灾载栽',
+  zan: '咱赞暂',
+  zang: '脏',
+  zao: '早造遭糟燥',
+  ze: '则责择泽',
+  zei: '贼',
+  zen: '怎',
+  zeng: '增赠曾',
+  zha: '扎炸眨渣诈',
+  zhai: '债摘宅窄',
+  zhan: '战展站占沾斩',
+  zhang: '长张章掌涨账障',
+  zhao: '照找招召赵兆',
+  zhe: '这者着折哲',
+  zhen: '真针镇阵振诊侦',
+  zheng: '政正证整争征郑症',
+  zhi: '制之治只知职指直至值支止质执纸智致置',
+  zhong: '中重种众终钟忠',
+  zhou: '周州洲轴皱',
+  zhu: '主注住助著驻逐竹朱珠',
+  zhua: '抓',
+  zhuai: '拽',
+  zhuan: '专转赚砖',
+  zhuang: '装状庄壮撞',
+  zhui: '追坠',
+  zhun: '准',
+  zhuo: '着桌捉卓',
+  zi: '自子资字紫姿',
+  zong: '总宗综纵踪',
+  zou: '走奏',
+  zu: '组族足阻祖租',
+  zuan: '钻',
+  zui: '最罪醉嘴',
+  zun: '遵尊',
+  zuo: '作做坐座左昨'
+}
+
+/**
+ * Multi-syllable phrases keyed by toneless pinyin (syllables joined without separators)
+ * Focused on the vocabulary of the policy entries shown at the kiosk
+ */
+export const PINYIN_PHRASES: Record<string, string[]> = {
+  dangyuan: ['党员'],
+  dangzhang: ['党章'],
+  dangjian: ['党建'],
+  dangxing: ['党性'],
+  dangfeng: ['党风'],
+  dangji: ['党纪'],
+  dangzuzhi: ['党组织'],
+  dangwei: ['党委'],
+  dangzhibu: ['党支部'],
+  dangdechengzhang: ['党的章程'],
+  zhongguogongchandang: ['中国共产党'],
+  gongchandang: ['共产党'],
+  zhongyang: ['中央'],
+  zhongguo: ['中国'],
+  shehuizhuyi: ['社会主义'],
+  makesizhuyi: ['马克思主义'],
+  xiaokang: ['小康'],
+  renmin: ['人民'],
+  qunzhong: ['群众'],
+  ganbu: ['干部'],
+  lingdao: ['领导'],
+  lingdaoganbu: ['领导干部'],
+  jilv: ['纪律'],
+  jilvchufen: ['纪律处分'],
+  weiji: ['违纪'],
+  weifa: ['违法'],
+  weiguiweiji: ['违规违纪'],
+  chufen: ['处分'],
+  chuli: ['处理'],
+  jingao: ['警告'],
+  yanzhongjingao: ['严重警告'],
+  kaichu: ['开除'],
+  kaichudangji: ['开除党籍'],
+  liudangchakan: ['留党察看'],
+  chexiao: ['撤销'],
+  lianjie: ['廉洁'],
+  lianjiezilv: ['廉洁自律'],
+  lianzheng: ['廉政'],
+  fanfu: ['反腐'],
+  fubai: ['腐败'],
+  fanfubai: ['反腐败'],
+  jiandu: ['监督'],
+  jiancha: ['监察'],
+  jiandujiancha: ['监督检查', '监督监察'],
+  jijian: ['纪检'],
+  jijianjiancha: ['纪检监察'],
+  zhiji: ['执纪'],
+  zhifa: ['执法'],
+  zhijizhifa: ['执纪执法'],
+  zuofeng: ['作风'],
+  zuofengjianshe: ['作风建设'],
+  jianshe: ['建设'],
+  quanli: ['权力', '权利'],
+  quanliyunxing: ['权力运行'],
+  yunxing: ['运行'],
+  zhidu: ['制度'],
+  guiding: ['规定'],
+  tiaoli: ['条例'],
+  zhunze: ['准则'],
+  banfa: ['办法'],
+  xize: ['细则'],
+  falv: ['法律'],
+  fagui: ['法规'],
+  xianfa: ['宪法'],
+  baxiangguiding: ['八项规定'],
+  zhongyangbaxiangguiding: ['中央八项规定'],
+  sifeng: ['四风'],
+  xingshizhuyi: ['形式主义'],
+  guanliaozhuyi: ['官僚主义'],
+  xianglezhuyi: ['享乐主义'],
+  shemizhifeng: ['奢靡之风'],
+  gongkuan: ['公款'],
+  gongwu: ['公务'],
+  gongwuyuan: ['公务员'],
+  gongche: ['公车'],
+  shouhui: ['受贿'],
+  xinghui: ['行贿'],
+  huilu: ['贿赂'],
+  tanwu: ['贪污'],
+  nuoyong: ['挪用'],
+  liyong: ['利用'],
+  zhiwu: ['职务'],
+  zhiquan: ['职权'],
+  yiwu: ['义务'],
+  dangyuanyiwu: ['党员义务'],
+  dangyuanquanli: ['党员权利'],
+  xuexi: ['学习'],
+  jiaoyu: ['教育'],
+  zhengzhi: ['政治'],
+  zhengzhijilv: ['政治纪律'],
+  zuzhijilv: ['组织纪律'],
+  lianjiejilv: ['廉洁纪律'],
+  qunzhongjilv: ['群众纪律'],
+  gongzuojilv: ['工作纪律'],
+  shenghuojilv: ['生活纪律'],
+  zuzhi: ['组织'],
+  gongzuo: ['工作'],
+  shenghuo: ['生活'],
+  zeren: ['责任'],
+  wenze: ['问责'],
+  xunshi: ['巡视'],
+  xuncha: ['巡察'],
+  shencha: ['审查'],
+  diaocha: ['调查'],
+  jubao: ['举报'],
+  xinfang: ['信访'],
+  tanhua: ['谈话'],
+  hanxun: ['函询'],
+  liuzhi: ['留置'],
+  zhengce: ['政策'],
+  guojia: ['国家'],
+  difang: ['地方'],
+  danwei: ['单位'],
+  bumen: ['部门'],
+  guanli: ['管理'],
+  fuwu: ['服务'],
+  wenti: ['问题'],
+  qingkuang: ['情况'],
+  yaoqiu: ['要求'],
+  neirong: ['内容'],
+  diyi: ['第一'],
+  dier: ['第二'],
+  disan: ['第三'],
+  dishi: ['第十'],
+  zhang: ['章'],
+  tiao: ['条'],
+  zonggang: ['总纲'],
+  zongze: ['总则'],
+  fuze: ['附则'],
+  women: ['我们'],
+  nimen: ['你们'],
+  tamen: ['他们'],
+  shenme: ['什么'],
+  zenme: ['怎么'],
+  weishenme: ['为什么'],
+  keyi: ['可以'],
+  bixu: ['必须'],
+  yinggai: ['应该'],
+  buneng: ['不能'],
+  bude: ['不得'],
+  yanjin: ['严禁'],
+  jinzhi: ['禁止'],
+  yange: ['严格'],
+  shishi: ['实施', '事实'],
+  zhixing: ['执行'],
+  luoshi: ['落实'],
+  guanche: ['贯彻'],
+  guancheluoshi: ['贯彻落实']
+}
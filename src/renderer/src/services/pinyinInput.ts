@@ -0,0 +1,117 @@
+/**
+ * Pinyin Input Engine
+ * Turns a toneless pinyin buffer into Chinese candidates using the offline dictionary
+ */
+
+import { PINYIN_CHARS, PINYIN_PHRASES } from './pinyinDictionary'
+
+/**
+ * A candidate and how many letters of the buffer it replaces
+ */
+export interface PinyinCandidate {
+  text: string
+  consumed: number
+}
+
+const MAX_CANDIDATES = 60
+
+const SYLLABLES = Object.keys(PINYIN_CHARS)
+const MAX_SYLLABLE_LENGTH = Math.max(...SYLLABLES.map((s) => s.length))
+
+/**
+ * Split a string into complete syllables, preferring longer syllables first;
+ * null when no full segmentation exists
+ */
+function segmentComplete(input: string): string[] | null {
+  const memo = new Map<number, string[] | null>()
+
+  const segmentFrom = (start: number): string[] | null => {
+    if (start === input.length) return []
+    if (memo.has(start)) return memo.get(start) ?? null
+    let result: string[] | null = null
+    for (let len = Math.min(MAX_SYLLABLE_LENGTH, input.length - start); len > 0; len--) {
+      const syllable = input.slice(start, start + len)
+      if (!PINYIN_CHARS[syllable]) continue
+      const tail = segmentFrom(start + len)
+      if (tail) {
+        result = [syllable, ...tail]
+        break
+      }
+    }
+    memo.set(start, result)
+    return result
+  }
+
+  return segmentFrom(0)
+}
+
+/**
+ * Split a buffer into the longest cleanly segmentable head and the unmatched tail
+ * e.g. "dangy" -> ["dang"] + "y"
+ */
+export function segmentPinyin(input: string): { syllables: string[]; rest: string } {
+  for (let end = input.length; end > 0; end--) {
+    const syllables = segmentComplete(input.slice(0, end))
+    if (syllables) {
+      return { syllables, rest: input.slice(end) }
+    }
+  }
+  return { syllables: [], rest: input }
+}
+
+/**
+ * Get candidates for the current buffer, phrases covering the most letters first
+ */
+export function getPinyinCandidates(buffer: string): PinyinCandidate[] {
+  const input = buffer.toLowerCase().replace(/ü/g, 'v')
+  if (!input) return []
+
+  const candidates: PinyinCandidate[] = []
+  const seen = new Set<string>()
+  const push = (text: string, consumed: number): void => {
+    if (seen.has(text)) return
+    seen.add(text)
+    candidates.push({ text, consumed })
+  }
+
+  const { syllables, rest } = segmentPinyin(input)
+
+  // Phrases matching the longest run of leading syllables
+  for (let count = syllables.length; count >= 2; count--) {
+    const key = syllables.slice(0, count).join('')
+    PINYIN_PHRASES[key]?.forEach((phrase) => push(phrase, key.length))
+  }
+
+  // Phrases the buffer is a prefix of (typing "dangy" already offers 党员)
+  if (input.length >= 3) {
+    Object.entries(PINYIN_PHRASES).forEach(([key, phrases]) => {
+      if (key.length > input.length && key.startsWith(input)) {
+        phrases.forEach((phrase) => push(phrase, input.length))
+      }
+    })
+  }
+
+  if (syllables.length > 0) {
+    const first = syllables[0]
+    for (const char of PINYIN_CHARS[first]) {
+      push(char, first.length)
+    }
+  } else {
+    // Incomplete single syllable ("zh", "x"): offer characters of every syllable it starts
+    SYLLABLES.filter((s) => s.startsWith(rest)).forEach((syllable) => {
+      for (const char of PINYIN_CHARS[syllable].slice(0, 4)) {
+        push(char, rest.length)
+      }
+    })
+  }
+
+  return candidates.slice(0, MAX_CANDIDATES)
+}
+
+/**
+ * Format the buffer for display with syllable separators, e.g. "dang'yuan"
+ */
+export function formatPinyinBuffer(buffer: string): string {
+  const { syllables, rest } = segmentPinyin(buffer.toLowerCase())
+  return [...syllables, ...(rest ? [rest] : [])].join("'")
+}
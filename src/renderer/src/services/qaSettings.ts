@@ -3,6 +3,10 @@
  * Manages Q&A system settings (question count, etc.)
  */
 
+import type { QAScoringPolicy, QATimeLimits, RetryMode } from '../store/qaStateMachine'
+import type { MatchRules } from '../store/matchStateMachine'
+import type { HostRules } from '../store/hostStateMachine'
+
 const SETTINGS_KEY = 'qa-settings'
 
 export interface QASettings {
@@ -12,12 +16,54 @@ export interface QASettings {
   minQuestionCount: number
   /** Maximum number of questions allowed per session */
   maxQuestionCount: number
+  /** Seconds allowed per question, 0 for no limit */
+  questionTimeLimit: number
+  /** Seconds allowed for the whole session, 0 for no limit */
+  sessionTimeLimit: number
+  /** What happens after a wrong answer */
+  retryMode: RetryMode
+  /** Attempts per question before the answer is revealed (limited retry mode) */
+  maxAttempts: number
+  /** Partial credit for multiple choice answers */
+  partialCredit: boolean
+  /** Categories the home page quiz is limited to, empty for all questions */
+  presetCategoryIds: string[]
+  /** Offer the head-to-head mode on the home page */
+  matchEnabled: boolean
+  /** Number of questions per head-to-head match */
+  matchQuestionCount: number
+  /** Seconds allowed per question in a head-to-head match */
+  matchQuestionTimeLimit: number
+  /** Faster correct answers earn more points in a head-to-head match */
+  matchSpeedBonus: boolean
+  /** Number of questions per host mode round */
+  hostQuestionCount: number
+  /** Seconds teams have to buzz in per question in host mode */
+  hostQuestionTimeLimit: number
+  /** Points a correct answer earns a team in host mode, times the question's points */
+  hostCorrectPoints: number
+  /** Points a wrong answer costs a team in host mode */
+  hostWrongPenalty: number
 }
 
 const DEFAULT_SETTINGS: QASettings = {
   questionCount: 10,
   minQuestionCount: 5,
-  maxQuestionCount: 50
+  maxQuestionCount: 50,
+  questionTimeLimit: 0,
+  sessionTimeLimit: 0,
+  retryMode: 'unlimited',
+  maxAttempts: 3,
+  partialCredit: false,
+  presetCategoryIds: [],
+  matchEnabled: true,
+  matchQuestionCount: 5,
+  matchQuestionTimeLimit: 20,
+  matchSpeedBonus: true,
+  hostQuestionCount: 10,
+  hostQuestionTimeLimit: 30,
+  hostCorrectPoints: 10,
+  hostWrongPenalty: 0
 }
 
 /**
@@ -63,3 +109,57 @@ export function resetQASettings(): void {
     console.error('[QASettings] Failed to reset settings:', error)
   }
 }
+
+/**
+ * Get the time limits for a new session
+ */
+export function getTimeLimits(): QATimeLimits {
+  const settings = getQASettings()
+  return {
+    questionSeconds: Math.max(0, settings.questionTimeLimit),
+    sessionSeconds: Math.max(0, settings.sessionTimeLimit)
+  }
+}
+
+/**
+ * Get the scoring and retry policy for a new session
+ */
+export function getScoringPolicy(): QAScoringPolicy {
+  const settings = getQASettings()
+  return {
+    retryMode: settings.retryMode,
+    maxAttempts: Math.max(1, settings.maxAttempts),
+    partialCredit: settings.partialCredit
+  }
+}
+
+/**
+ * Get the admin preset quiz scope, or null to draw from all questions
+ */
+export function getPresetCategoryIds(): string[] | null {
+  const { presetCategoryIds } = getQASettings()
+  return presetCategoryIds.length > 0 ? presetCategoryIds : null
+}
+
+/**
+ * Get the rules for a new head-to-head match
+ */
+export function getMatchRules(): MatchRules {
+  const settings = getQASettings()
+  return {
+    questionSeconds: Math.max(5, settings.matchQuestionTimeLimit),
+    speedBonus: settings.matchSpeedBonus
+  }
+}
+
+/**
+ * Get the rules for a new host mode round
+ */
+export function getHostRules(): HostRules {
+  const settings = getQASettings()
+  return {
+    questionSeconds: Math.max(5, settings.hostQuestionTimeLimit),
+    correctPoints: Math.max(0, settings.hostCorrectPoints),
+    wrongPenalty: Math.max(0, settings.hostWrongPenalty)
+  }
+}
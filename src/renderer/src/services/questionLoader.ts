@@ -5,6 +5,12 @@
 
 import type { QuestionBank, ValidationResult } from '../types/question'
 import { QuestionLoadError, QuestionDataMissingError, QuestionValidationError } from '../utils/errors'
+import {
+  MAX_OPTIONS,
+  MIN_OPTIONS,
+  getOptionLetter,
+  isValidOptionIndex
+} from '../utils/questionOptions'
 
 /**
  * Load questions from main process via IPC
@@ -89,23 +95,28 @@ export function validateQuestionBank(data: unknown): ValidationResult {
     // Validate options
     if (!Array.isArray(question.options)) {
       errors.push(`Question ${index + 1}: options must be an array`)
-    } else if (question.options.length !== 4) {
-      errors.push(`Question ${index + 1}: options must have exactly 4 elements (A, B, C, D)`)
+    } else if (question.options.length < MIN_OPTIONS || question.options.length > MAX_OPTIONS) {
+      errors.push(
+        `Question ${index + 1}: options must have ${MIN_OPTIONS} to ${MAX_OPTIONS} elements (A-H)`
+      )
     } else {
       question.options.forEach((opt, optIndex) => {
         if (typeof opt !== 'string' || opt.trim() === '') {
           errors.push(
-            `Question ${index + 1}, Option ${String.fromCharCode(65 + optIndex)}: must be a non-empty string`
+            `Question ${index + 1}, Option ${getOptionLetter(optIndex)}: must be a non-empty string`
           )
         }
       })
     }
 
     // Validate correctAnswer
+    const optionCount = Array.isArray(question.options) ? question.options.length : 0
     if (typeof question.correctAnswer !== 'number') {
       errors.push(`Question ${index + 1}: correctAnswer must be a number`)
-    } else if (![0, 1, 2, 3].includes(question.correctAnswer)) {
-      errors.push(`Question ${index + 1}: correctAnswer must be 0, 1, 2, or 3`)
+    } else if (!isValidOptionIndex(question.correctAnswer, optionCount)) {
+      errors.push(
+        `Question ${index + 1}: correctAnswer must be an option index from 0 to ${optionCount - 1}`
+      )
     }
   })
 
@@ -3,7 +3,10 @@
  * Manages questions using SQLite via IPC
  */
 
-import type { Question } from '../types/question'
+import type { ParsedQuestion, Question, QuestionMediaFiles } from '../types/question'
+import type { ImportAction, ImportPreview, ImportSummary } from '../types/importPlan'
+import type { AnswerAnalytics, AnswerEvent } from '../types/analytics'
+import type { QuestionRevision } from '../types/revision'
 
 /**
  * Wait for API to be available
@@ -89,17 +92,118 @@ export async function deleteQuestion(id: string): Promise<boolean> {
 }
 
 /**
- * Import questions from array
+ * Get the kept versions of a question, newest first
  */
-export async function importQuestions(questions: Question[]): Promise<number> {
+export async function getQuestionRevisions(questionId: string): Promise<QuestionRevision[]> {
   try {
     await waitForAPI()
     if (!window.api?.db) {
       throw new Error('Database API not available')
     }
-    return await window.api.db.importQuestions(questions)
+    return await window.api.db.getQuestionRevisions(questionId)
   } catch (error) {
-    console.error('[questionStorage] Failed to import questions:', error)
+    console.error('[questionStorage] Failed to get question revisions:', error)
+    throw error
+  }
+}
+
+/**
+ * Restore a question to a kept version
+ */
+export async function restoreQuestionRevision(revisionId: number): Promise<Question> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.restoreQuestionRevision(revisionId)
+  } catch (error) {
+    console.error('[questionStorage] Failed to restore question revision:', error)
+    throw error
+  }
+}
+
+/**
+ * Compare parsed questions with the question bank (dry run)
+ */
+export async function previewQuestionImport(questions: ParsedQuestion[]): Promise<ImportPreview> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.previewQuestionImport(questions)
+  } catch (error) {
+    console.error('[questionStorage] Failed to preview question import:', error)
+    throw error
+  }
+}
+
+/**
+ * Ask for the folder or zip holding the image and video files an import references,
+ * and store the files in the media library
+ * @returns The stored files, or null if the user cancelled
+ */
+export async function importQuestionMedia(fileNames: string[]): Promise<QuestionMediaFiles | null> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.importQuestionMedia(fileNames)
+  } catch (error) {
+    console.error('[questionStorage] Failed to import question media:', error)
+    throw error
+  }
+}
+
+/**
+ * Import parsed questions with one insert/update/skip action per question
+ */
+export async function applyQuestionImport(
+  questions: ParsedQuestion[],
+  actions: ImportAction[]
+): Promise<ImportSummary> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.applyQuestionImport(questions, actions)
+  } catch (error) {
+    console.error('[questionStorage] Failed to apply question import:', error)
+    throw error
+  }
+}
+
+/**
+ * Record answer events for analytics
+ */
+export async function recordAnswerEvents(events: AnswerEvent[]): Promise<number> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.recordAnswerEvents(events)
+  } catch (error) {
+    console.error('[questionStorage] Failed to record answer events:', error)
+    throw error
+  }
+}
+
+/**
+ * Get answer statistics for the analytics page
+ */
+export async function getAnswerAnalytics(): Promise<AnswerAnalytics> {
+  try {
+    await waitForAPI()
+    if (!window.api?.db) {
+      throw new Error('Database API not available')
+    }
+    return await window.api.db.getAnswerAnalytics()
+  } catch (error) {
+    console.error('[questionStorage] Failed to get answer analytics:', error)
     throw error
   }
 }
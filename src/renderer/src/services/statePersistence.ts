@@ -3,11 +3,13 @@
  * Saves and loads Q&A session state to/from localStorage
  */
 
-import type { QAStateMachineContext } from '../store/qaStateMachine'
+import type { QAScoringPolicy, QAStateMachineContext, QATimeLimits } from '../store/qaStateMachine'
 import { QAState } from '../store/qaStateMachine'
+import type { AnswerOutcome, SessionResults } from '../types/question'
+import { applyOptionOrder, isOptionOrderValid } from '../utils/questionOptions'
 
 const STORAGE_KEY = 'qa-session-state'
-const STORAGE_VERSION = 1
+const STORAGE_VERSION = 5
 
 /**
  * Persisted state structure (simplified for storage)
@@ -19,20 +21,17 @@ interface PersistedState {
   selectedAnswer: number | number[] | null
   isAnswerLocked: boolean
   lastAnswerCorrect: boolean | null
-  results: {
-    answers: Array<{
-      questionId: string
-      selectedAnswer: number | number[]
-      isCorrect: boolean
-      timestamp: number
-    }>
-    correctCount: number
-    totalAnswered: number
-    startTime: number
-    endTime?: number
-  }
+  lastOutcome: AnswerOutcome | null
+  timeLimits: QATimeLimits
+  scoring: QAScoringPolicy
+  questionClosed: boolean
+  questionElapsed: number
+  sessionDeadline: number | null
+  results: SessionResults
   // Store question IDs only to save space
   questionIds: string[]
+  // Display order of shuffled options per question, null when not shuffled
+  optionOrders: (number[] | null)[]
   // Store timestamp to detect stale data
   savedAt: number
 }
@@ -59,8 +58,15 @@ export function saveState(context: QAStateMachineContext): void {
       selectedAnswer: context.selectedAnswer,
       isAnswerLocked: context.isAnswerLocked,
       lastAnswerCorrect: context.lastAnswerCorrect,
+      lastOutcome: context.lastOutcome,
+      timeLimits: context.timeLimits,
+      scoring: context.scoring,
+      questionClosed: context.questionClosed,
+      questionElapsed: context.questionElapsed,
+      sessionDeadline: context.sessionDeadline,
       results: context.results,
       questionIds: context.questions.map((q) => q.id),
+      optionOrders: context.questions.map((q) => q.optionOrder ?? null),
       savedAt: Date.now()
     }
 
@@ -144,6 +150,20 @@ export function restoreContext(
       return null
     }
 
+    // Saved answers refer to the shuffled options, so the same order has to come back
+    if (
+      persistedState.optionOrders.some(
+        (order, index) => order && !isOptionOrderValid(questions[index], order)
+      )
+    ) {
+      console.warn('[StatePersistence] Options changed since the state was saved, cannot restore')
+      return null
+    }
+    const orderedQuestions = questions.map((question, index) => {
+      const order = persistedState.optionOrders[index]
+      return order ? applyOptionOrder(question, order) : question
+    })
+
     // Restore context
     return {
       state: persistedState.state,
@@ -151,8 +171,16 @@ export function restoreContext(
       selectedAnswer: persistedState.selectedAnswer,
       isAnswerLocked: persistedState.isAnswerLocked,
       lastAnswerCorrect: persistedState.lastAnswerCorrect,
+      lastOutcome: persistedState.lastOutcome,
+      timeLimits: persistedState.timeLimits,
+      scoring: persistedState.scoring,
+      questionClosed: persistedState.questionClosed,
+      // The current attempt restarts on restore; earlier attempts stay counted in questionElapsed
+      questionStartedAt: Date.now(),
+      questionElapsed: persistedState.questionElapsed,
+      sessionDeadline: persistedState.sessionDeadline,
       results: persistedState.results,
-      questions, // Use provided questions array
+      questions: orderedQuestions, // Provided questions, with saved option orders applied
       error: null
     }
   } catch (error) {
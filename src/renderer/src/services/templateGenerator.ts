@@ -4,12 +4,68 @@
  */
 
 import ExcelJS from 'exceljs'
-import type { Entry } from '../types/admin'
+import type { Entry, ParsedEntryWithParent } from '../types/admin'
 import type { Category } from '../types/admin'
+import type {
+  ParsedQuestion,
+  ParsedQuestionWithMedia,
+  Question,
+  QuestionMediaFiles
+} from '../types/question'
+import { plainTextToHtml } from '../utils/htmlUtils'
+import {
+  MAX_OPTIONS,
+  MIN_OPTIONS,
+  OPTION_LETTERS,
+  describeAnswerRange,
+  getOptionLetter,
+  isValidOptionIndex
+} from '../utils/questionOptions'
+import { QUESTION_TYPE_LABELS, getSequenceQuestionError } from '../utils/questionTypes'
+
+export type { ParsedEntryWithParent } from '../types/admin'
+export type { ParsedQuestion } from '../types/question'
+
+/**
+ * Optional trailing column of the entries template holding the entry ID (filled in by exports)
+ */
+const ENTRY_ROW_ID_HEADER = '条目ID（勿改）'
+
+/**
+ * Trigger a browser download of a workbook
+ */
+async function downloadWorkbook(workbook: ExcelJS.Workbook, fileName: string): Promise<void> {
+  const buffer = await workbook.xlsx.writeBuffer()
+  const blob = new Blob([buffer], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Style the header row the way all templates do
+ */
+function styleHeaderRow(worksheet: ExcelJS.Worksheet, argb: string): void {
+  const headerRow = worksheet.getRow(1)
+  headerRow.fill = {
+    type: 'pattern',
+    pattern: 'solid',
+    fgColor: { argb }
+  }
+  headerRow.font = { bold: true }
+  headerRow.alignment = { horizontal: 'center', vertical: 'middle' }
+}
 
 /**
  * Generate entries import Excel template for a single category
- * Format: 类型(普通条目/父条目/子条目), 标题, 内容(父条目为空), 章节顺序(可选)
+ * Format: 类型(普通条目/父条目/子条目), 标题, 内容(父条目为空), 章节顺序(可选), 条目ID(可选)
  *
  * Entry types:
  * - 普通条目: Standalone article, no parent, has content (independent article)
@@ -23,7 +79,7 @@ export async function generateEntriesTemplateForCategory(categoryName: string):
   const worksheet = workbook.addWorksheet('条目数据')
 
   // Add header row
-  worksheet.addRow(['类型', '标题', '内容(父条目为空)', '章节顺序(可选)'])
+  worksheet.addRow(['类型', '标题', '内容(父条目为空)', '章节顺序(可选)', ENTRY_ROW_ID_HEADER])
 
   // Add example rows showing all entry types
   // Standalone entry (普通条目) - independent article
@@ -51,6 +107,7 @@ export async function generateEntriesTemplateForCategory(categoryName: string):
   worksheet.getColumn(2).width = 30 // 标题
   worksheet.getColumn(3).width = 50 // 内容
   worksheet.getColumn(4).width = 15 // 章节顺序
+  worksheet.getColumn(5).width = 30 // 条目ID（导出时填写，新条目留空）
 
   // Add data validation for type column (普通条目/父条目/子条目)
   const typeListString = '"普通条目,父条目,子条目"'
@@ -95,6 +152,56 @@ export async function generateEntriesTemplateForCategory(categoryName: string):
   URL.revokeObjectURL(url)
 }
 
+/**
+ * Export a category's entries in the single-category template format, with entry IDs
+ * Parents are followed by their children, both in chapter order, so the file re-imports as the same tree
+ */
+export async function exportEntriesToExcel(category: Category, entries: Entry[]): Promise<void> {
+  const workbook = new ExcelJS.Workbook()
+  const worksheet = workbook.addWorksheet('条目数据')
+  worksheet.addRow(['类型', '标题', '内容(父条目为空)', '章节顺序(可选)', ENTRY_ROW_ID_HEADER])
+
+  const byOrder = (a: Entry, b: Entry): number => (a.chapterOrder || 0) - (b.chapterOrder || 0)
+  const ids = new Set(entries.map((e) => e.id))
+  const children = new Map<string, Entry[]>()
+  for (const entry of entries) {
+    if (entry.parentEntryId && ids.has(entry.parentEntryId)) {
+      const siblings = children.get(entry.parentEntryId) ?? []
+      siblings.push(entry)
+      children.set(entry.parentEntryId, siblings)
+    }
+  }
+  const topLevel = entries
+    .filter((e) => !e.parentEntryId || !ids.has(e.parentEntryId))
+    .sort(byOrder)
+
+  for (const entry of topLevel) {
+    const entryChildren = (children.get(entry.id) ?? []).sort(byOrder)
+    // Entries with children (or with no content at all) are chapters; their content is not exported
+    const isEmpty = !htmlToPlainText(entry.content) && !/<img\b/i.test(entry.content)
+    const isParent = entryChildren.length > 0 || isEmpty
+    worksheet.addRow([
+      isParent ? '父条目' : '普通条目',
+      entry.title,
+      isParent ? '' : entry.content,
+      entry.chapterOrder || 0,
+      entry.id
+    ])
+    for (const child of entryChildren) {
+      worksheet.addRow(['子条目', child.title, child.content, child.chapterOrder || 0, child.id])
+    }
+  }
+
+  worksheet.getColumn(1).width = 15 // 类型
+  worksheet.getColumn(2).width = 30 // 标题
+  worksheet.getColumn(3).width = 50 // 内容
+  worksheet.getColumn(4).width = 15 // 章节顺序
+  worksheet.getColumn(5).width = 30 // 条目ID
+  styleHeaderRow(worksheet, 'FFABB8C3')
+
+  await downloadWorkbook(workbook, `entries-${category.name}.xlsx`)
+}
+
 /**
  * Generate entries import Excel template with category dropdown
  */
@@ -190,6 +297,271 @@ export async function generateEntriesTemplate(categories: Category[]): Promise<v
   URL.revokeObjectURL(url)
 }
 
+/**
+ * Optional trailing columns of the newest questions template
+ */
+const EXPLANATION_HEADER = '答案解析'
+const ENTRY_ID_HEADER = '关联条目ID'
+const CATEGORY_NAMES_HEADER = '所属分类'
+const POINTS_HEADER = '分值'
+const SHUFFLE_OPTIONS_HEADER = '打乱选项（是/否）'
+const ACCEPTED_ANSWERS_HEADER = '可接受答案（填空题）'
+const QUESTION_ID_HEADER = '题目ID（勿改）'
+const OPTIONAL_QUESTION_HEADERS = [
+  EXPLANATION_HEADER,
+  ENTRY_ID_HEADER,
+  CATEGORY_NAMES_HEADER,
+  POINTS_HEADER,
+  SHUFFLE_OPTIONS_HEADER,
+  ACCEPTED_ANSWERS_HEADER,
+  QUESTION_ID_HEADER
+]
+
+/**
+ * Optional media columns of the questions template, holding image or video file names that
+ * are resolved against a folder or zip chosen at import. Exports leave them out, so an
+ * exported bank imports again without touching its media
+ */
+const STEM_MEDIA_HEADER = '题目图片/视频文件'
+const OPTION_MEDIA_HEADER = '选项图片/视频文件'
+const MEDIA_QUESTION_HEADERS = [STEM_MEDIA_HEADER, OPTION_MEDIA_HEADER]
+
+/**
+ * Option columns 选项A-选项H; templates from before 8 options only have 选项A-选项D
+ */
+const OPTION_HEADERS = OPTION_LETTERS.split('').map((letter) => `选项${letter}`)
+
+/**
+ * Base columns of the newest questions template
+ */
+const QUESTION_HEADERS = [
+  '题目',
+  '题型（单选题/多选题）',
+  '选项类型（对错题/选项题）',
+  ...OPTION_HEADERS,
+  '正确答案'
+]
+
+/**
+ * Number of consecutive option headers (选项A, 选项B, ...) starting at a header index
+ */
+function countOptionHeaders(headers: string[], start: number): number {
+  let count = 0
+  while (count < MAX_OPTIONS && headers[start + count] === OPTION_HEADERS[count]) {
+    count++
+  }
+  return count
+}
+
+/**
+ * Option texts of a row; trailing empty cells are unused option slots
+ */
+function readOptionCells(row: ExcelJS.Row, firstCol: number, count: number): string[] {
+  const options: string[] = []
+  for (let col = firstCol; col < firstCol + count; col++) {
+    options.push(String(row.getCell(col).value || '').trim())
+  }
+  while (options.length > 0 && !options[options.length - 1]) {
+    options.pop()
+  }
+  return options
+}
+
+/**
+ * Fill-blank or ordering type of a 题型 cell, or null for single and multiple choice
+ */
+function readSequenceType(label: string): 'fill-blank' | 'ordering' | null {
+  if (label === QUESTION_TYPE_LABELS['fill-blank']) return 'fill-blank'
+  if (label === QUESTION_TYPE_LABELS.ordering) return 'ordering'
+  return null
+}
+
+/**
+ * Accepted answers cell: blanks separated by "；", variants of a blank by "/"
+ */
+function parseAcceptedAnswers(value: string): string[][] {
+  const acceptedAnswers = value.split(/[;；]/).map((blank) =>
+    blank
+      .split(/[/／]/)
+      .map((variant) => variant.trim())
+      .filter((variant) => variant)
+  )
+  while (acceptedAnswers.length > 0 && acceptedAnswers[acceptedAnswers.length - 1].length === 0) {
+    acceptedAnswers.pop()
+  }
+  return acceptedAnswers
+}
+
+function formatAcceptedAnswers(acceptedAnswers: string[][] = []): string {
+  return acceptedAnswers.map((variants) => variants.join('/')).join('；')
+}
+
+/**
+ * Option media cell: one file name per option separated by "；", empty for an option without
+ */
+function parseOptionMediaFiles(value: string): string[] {
+  const fileNames = value.split(/[;；]/).map((fileName) => fileName.trim())
+  while (fileNames.length > 0 && !fileNames[fileNames.length - 1]) {
+    fileNames.pop()
+  }
+  return fileNames
+}
+
+/**
+ * Read the tiles or steps of a fill-blank or ordering row. The answer lists option numbers
+ * in blank order, or the steps in their correct order (an ordering row may leave it empty
+ * when the steps are already listed in order); steps are stored in the correct order
+ * @param acceptedValue Accepted answers cell, undefined when the file has no such column
+ * @param optionMediaFiles Media file name of each step, moved along with the steps
+ * @returns The question fields, or an error message
+ */
+function readSequenceRow(
+  text: string,
+  questionType: 'fill-blank' | 'ordering',
+  options: string[],
+  answerValue: string,
+  acceptedValue: string | undefined,
+  optionMediaFiles: string[] = []
+):
+  | Pick<
+      ParsedQuestionWithMedia,
+      | 'questionType'
+      | 'optionType'
+      | 'options'
+      | 'correctAnswer'
+      | 'acceptedAnswers'
+      | 'optionMediaFiles'
+    >
+  | string {
+  const answer = answerValue
+    ? answerValue
+        .split(/[,，、]/)
+        .map((s) => s.trim())
+        .filter((s) => s)
+        .map((s) => Number(s))
+    : questionType === 'ordering'
+      ? options.map((_, index) => index)
+      : []
+  if (answer.some((n) => isNaN(n))) {
+    return `正确答案只能填写选项序号，用逗号分隔，当前为"${answerValue}"`
+  }
+  const acceptedAnswers =
+    questionType === 'fill-blank' && acceptedValue !== undefined
+      ? parseAcceptedAnswers(acceptedValue)
+      : undefined
+  const error = getSequenceQuestionError({
+    text,
+    questionType,
+    options,
+    correctAnswer: answer,
+    acceptedAnswers
+  })
+  if (error) return error
+  if (questionType === 'fill-blank' && optionMediaFiles.length > 0) {
+    return '填空题的词块不支持图片或视频'
+  }
+
+  if (questionType === 'ordering') {
+    return {
+      questionType,
+      optionType: 'letter-options',
+      options: answer.map((index) => options[index]),
+      correctAnswer: options.map((_, index) => index),
+      ...(optionMediaFiles.length > 0
+        ? { optionMediaFiles: answer.map((index) => optionMediaFiles[index] ?? '') }
+        : {})
+    }
+  }
+  return {
+    questionType,
+    optionType: 'letter-options',
+    options,
+    correctAnswer: answer,
+    // A missing column keeps the current accepted answers when the import updates a question
+    ...(acceptedAnswers ? { acceptedAnswers } : {})
+  }
+}
+
+/**
+ * Text content of HTML, one line per paragraph (the reverse of plainTextToHtml)
+ */
+function htmlToPlainText(html: string): string {
+  const container = document.createElement('div')
+  const withBreaks = html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+  container.innerHTML = withBreaks
+  return (container.textContent || '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line)
+    .join('\n')
+}
+
+/**
+ * Column widths of the newest questions template
+ */
+function setQuestionColumnWidths(worksheet: ExcelJS.Worksheet): void {
+  worksheet.getColumn(1).width = 40 // 题目
+  worksheet.getColumn(2).width = 18 // 题型
+  worksheet.getColumn(3).width = 20 // 选项类型
+  for (let col = 4; col < 4 + MAX_OPTIONS; col++) {
+    worksheet.getColumn(col).width = 25 // 选项A-H
+  }
+  const answerCol = QUESTION_HEADERS.length
+  worksheet.getColumn(answerCol).width = 20 // 正确答案
+  worksheet.getColumn(answerCol + 1).width = 40 // 答案解析
+  worksheet.getColumn(answerCol + 2).width = 30 // 关联条目ID
+  worksheet.getColumn(answerCol + 3).width = 30 // 所属分类
+  worksheet.getColumn(answerCol + 4).width = 10 // 分值
+  worksheet.getColumn(answerCol + 5).width = 18 // 打乱选项
+  worksheet.getColumn(answerCol + 6).width = 30 // 可接受答案
+  worksheet.getColumn(answerCol + 7).width = 30 // 题目ID
+  worksheet.getColumn(answerCol + 8).width = 25 // 题目图片/视频文件
+  worksheet.getColumn(answerCol + 9).width = 30 // 选项图片/视频文件
+}
+
+/**
+ * Export the question bank in the newest questions template format, with question IDs
+ * Explanations are exported as plain text, one paragraph per line
+ */
+export async function exportQuestionsToExcel(
+  questions: Question[],
+  categories: Category[]
+): Promise<void> {
+  const workbook = new ExcelJS.Workbook()
+  const worksheet = workbook.addWorksheet('题目数据')
+  worksheet.addRow([...QUESTION_HEADERS, ...OPTIONAL_QUESTION_HEADERS])
+
+  const categoryNames = new Map(categories.map((c) => [c.id, c.name]))
+  for (const q of questions) {
+    const isTrueFalse = q.optionType === 'true-false'
+    const options = isTrueFalse ? ['正确', '错误'] : q.options
+    worksheet.addRow([
+      q.text,
+      QUESTION_TYPE_LABELS[q.questionType],
+      isTrueFalse ? '对错题' : '选项题',
+      ...OPTION_HEADERS.map((_, index) => options[index] ?? ''),
+      Array.isArray(q.correctAnswer) ? q.correctAnswer.join(',') : String(q.correctAnswer),
+      q.explanation ? htmlToPlainText(q.explanation) : '',
+      q.entryId || '',
+      (q.categoryIds ?? [])
+        .map((id) => categoryNames.get(id))
+        .filter((name) => name)
+        .join('、'),
+      q.points ?? 1,
+      q.shuffleOptions ? '是' : '否',
+      formatAcceptedAnswers(q.acceptedAnswers),
+      q.id
+    ])
+  }
+
+  setQuestionColumnWidths(worksheet)
+  // Keep the answer column as text so "0,1,2" is not read back as a number
+  worksheet.getColumn(QUESTION_HEADERS.length).numFmt = '@'
+  styleHeaderRow(worksheet, 'FFE9E9E9')
+
+  await downloadWorkbook(workbook, `questions-${new Date().toISOString().slice(0, 10)}.xlsx`)
+}
+
 /**
  * Generate questions import Excel template
  */
@@ -198,42 +570,44 @@ export async function generateQuestionsTemplate(): Promise<void> {
   const worksheet = workbook.addWorksheet('题目数据')
 
   // Add header row
-  // 题型：单选题 或 多选题
+  // 题型：单选题、多选题、填空题 或 排序题
   // 选项类型：对错题 或 选项题
-  // 对错题：正确答案为 0（正确）或 1（错误），选项A/B/C/D可为空
-  // 选项题：正确答案为 0-3（对应A/B/C/D），选项A/B/C/D必须填写
+  // 对错题：正确答案为 0（正确）或 1（错误），选项列可为空
+  // 选项题：2-8 个选项，从选项A起连续填写，用不到的选项列留空；正确答案为选项序号 0-7（对应A-H）
   // 单选题：正确答案填写单个数字，如 0 或 1
   // 多选题：正确答案填写多个数字，用逗号分隔，如 0,1,2 或 0、1、2
-  worksheet.addRow([
-    '题目',
-    '题型（单选题/多选题）',
-    '选项类型（对错题/选项题）',
-    '选项A',
-    '选项B',
-    '选项C',
-    '选项D',
-    '正确答案'
-  ])
+  // 填空题：题目中用 ____（至少三个下划线）标出空格，选项列填写词块，选项类型填选项题；
+  //   正确答案按空格顺序填写词块序号，如 1,0；可接受答案：可选，各空格用"；"分隔，同一空格的多个写法用"/"分隔
+  // 排序题：选项列填写步骤，选项类型填选项题；正确答案按正确顺序填写步骤序号，步骤已按正确顺序填写时可留空
+  // 答案解析、关联条目ID：可选，答题结束后展示解析，并可跳转到关联条目
+  // 所属分类：可选，填写分类名称，多个分类用逗号或顿号分隔，如 宪法、民法典
+  // 分值：可选，默认 1 分；打乱选项：可选，填"是"则每次答题随机排列选项
+  // 题目ID：导出的题库才有，重新导入时按ID更新原题，新题留空
+  // 题目图片/视频文件：可选，填写文件名（如 图1.jpg、视频/演示.mp4），导入时选择存放文件的文件夹或 zip 压缩包
+  // 选项图片/视频文件：可选，按选项顺序填写文件名，用"；"分隔，没有图片的选项留空，如 a.png；；c.png
+  //   支持 jpg、png、gif、webp、bmp、svg 图片和 mp4、webm 视频；填空题的词块和对错题的选项不支持
+  worksheet.addRow([...QUESTION_HEADERS, ...OPTIONAL_QUESTION_HEADERS, ...MEDIA_QUESTION_HEADERS])
+
+  // Pad example options to the option columns
+  const exampleOptions = (...options: string[]): string[] =>
+    OPTION_HEADERS.map((_, index) => options[index] ?? '')
 
   // Add example rows - 单选题示例
   worksheet.addRow([
     '示例题目（单选题-选项题）：这是第一道题？',
     '单选题',
     '选项题',
-    '选项A内容',
-    '选项B内容',
-    '选项C内容',
-    '选项D内容',
-    '0'
+    ...exampleOptions('选项A内容', '选项B内容', '选项C内容', '选项D内容'),
+    '0',
+    '示例解析：说明为什么选项A正确（可选）',
+    '',
+    ''
   ])
   worksheet.addRow([
     '示例题目（单选题-对错题）：这是第二道题？',
     '单选题',
     '对错题',
-    '正确',
-    '错误',
-    '',
-    '',
+    ...exampleOptions('正确', '错误'),
     '0'
   ])
 
@@ -242,35 +616,63 @@ export async function generateQuestionsTemplate(): Promise<void> {
     '示例题目（多选题-选项题）：这是第三道题？',
     '多选题',
     '选项题',
-    '选项A内容',
-    '选项B内容',
-    '选项C内容',
-    '选项D内容',
+    ...exampleOptions('选项A内容', '选项B内容', '选项C内容', '选项D内容'),
     '0,1,2'
   ])
   worksheet.addRow([
-    '示例题目（多选题-选项题）：这是第四道题？',
+    '示例题目（多选题-选项题，6个选项并打乱顺序）：这是第四道题？',
     '多选题',
     '选项题',
-    '选项A内容',
-    '选项B内容',
-    '选项C内容',
-    '选项D内容',
-    '1,3'
+    ...exampleOptions('选项A内容', '选项B内容', '选项C内容', '选项D内容', '选项E内容', '选项F内容'),
+    '1,3,5',
+    '',
+    '',
+    '',
+    '',
+    '是'
+  ])
+
+  // Add example rows - 填空题、排序题示例
+  worksheet.addRow([
+    '示例题目（填空题）：____是国家的根本法，具有最高的____。',
+    '填空题',
+    '选项题',
+    ...exampleOptions('法律效力', '宪法', '行政效力', '中华人民共和国宪法'),
+    '1,0',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '中华人民共和国宪法'
+  ])
+  worksheet.addRow([
+    '示例题目（排序题）：请按先后顺序排列以下步骤',
+    '排序题',
+    '选项题',
+    ...exampleOptions('第一步', '第二步', '第三步', '第四步'),
+    ''
+  ])
+
+  // Add example row - 带图片的题目
+  worksheet.addRow([
+    '示例题目（带图片）：下图中的标志是哪一个？',
+    '单选题',
+    '选项题',
+    ...exampleOptions('选项A内容', '选项B内容', '选项C内容'),
+    '1',
+    ...OPTIONAL_QUESTION_HEADERS.map(() => ''),
+    '标志.jpg',
+    'A.png；B.png；C.png'
   ])
 
   // Set column widths
-  worksheet.getColumn(1).width = 40 // 题目
-  worksheet.getColumn(2).width = 18 // 题型
-  worksheet.getColumn(3).width = 20 // 选项类型
-  worksheet.getColumn(4).width = 25 // 选项A
-  worksheet.getColumn(5).width = 25 // 选项B
-  worksheet.getColumn(6).width = 25 // 选项C
-  worksheet.getColumn(7).width = 25 // 选项D
-  worksheet.getColumn(8).width = 20 // 正确答案
+  setQuestionColumnWidths(worksheet)
+  // Keep the answer column as text so "0,1,2" is not read back as a number
+  worksheet.getColumn(QUESTION_HEADERS.length).numFmt = '@'
 
   // Add data validation for question type column
-  const questionTypeListString = '"单选题,多选题"'
+  const questionTypeListString = '"单选题,多选题,填空题,排序题"'
   for (let row = 2; row <= 1000; row++) {
     worksheet.getCell(`B${row}`).dataValidation = {
       type: 'list',
@@ -279,11 +681,11 @@ export async function generateQuestionsTemplate(): Promise<void> {
       showInputMessage: true,
       promptTitle: '选择题型',
       prompt:
-        '请选择：单选题（正确答案填写单个数字）| 多选题（正确答案填写多个数字，用逗号分隔，如 0,1,2）',
+        '请选择：单选题（正确答案填写单个数字）| 多选题（正确答案填写多个数字，用逗号分隔，如 0,1,2）| 填空题（按空格顺序填写词块序号）| 排序题（按正确顺序填写步骤序号）',
       showErrorMessage: true,
       errorStyle: 'error',
       errorTitle: '无效的题型',
-      error: '请从下拉列表中选择"单选题"或"多选题"'
+      error: '请从下拉列表中选择"单选题"、"多选题"、"填空题"或"排序题"'
     }
   }
 
@@ -296,7 +698,7 @@ export async function generateQuestionsTemplate(): Promise<void> {
       formulae: [optionTypeListString],
       showInputMessage: true,
       promptTitle: '选择选项类型',
-      prompt: '请选择：对错题（正确答案为0或1）| 选项题（正确答案为0-3，对应A/B/C/D）',
+      prompt: '请选择：对错题（正确答案为0或1）| 选项题（2-8个选项，正确答案为0-7，对应A-H）',
       showErrorMessage: true,
       errorStyle: 'error',
       errorTitle: '无效的选项类型',
@@ -329,16 +731,6 @@ export async function generateQuestionsTemplate(): Promise<void> {
   URL.revokeObjectURL(url)
 }
 
-/**
- * Parsed entry with parent row index (to be resolved during import)
- */
-export interface ParsedEntryWithParent {
-  title: string
-  content: string
-  chapterOrder: number
-  parentRowIndex: number | null // Index of parent entry in the parsed array, null if top-level
-}
-
 /**
  * Parse Excel file to entries array for a single category
  * Format: 层级(0=顶级), 类型(父条目/子条目), 标题, 内容(父条目为空), 章节顺序(可选)
@@ -365,6 +757,10 @@ export function parseEntriesFromExcelForCategory(
           return
         }
 
+        // Exported files carry the entry ID in an extra column
+        const hasIdColumn =
+          String(worksheet.getRow(1).getCell(5).value || '').trim() === ENTRY_ROW_ID_HEADER
+
         // Parse all rows
         interface ParsedRow {
           type: '普通条目' | '父条目' | '子条目'
@@ -372,6 +768,7 @@ export function parseEntriesFromExcelForCategory(
           content: string
           chapterOrder: number
           rowNumber: number
+          id?: string
         }
 
         const parsedRows: ParsedRow[] = []
@@ -383,6 +780,7 @@ export function parseEntriesFromExcelForCategory(
           const title = String(row.getCell(2).value || '').trim()
           const content = String(row.getCell(3).value || '').trim()
           const chapterOrder = row.getCell(4).value ? Number(row.getCell(4).value) || 0 : 0
+          const id = hasIdColumn ? String(row.getCell(5).value || '').trim() : ''
 
           if (!title) return // Skip empty rows
 
@@ -417,7 +815,8 @@ export function parseEntriesFromExcelForCategory(
             title,
             content: type === '父条目' ? '' : content || '<p></p>',
             chapterOrder,
-            rowNumber
+            rowNumber,
+            ...(id ? { id } : {})
           })
         })
 
@@ -435,6 +834,7 @@ export function parseEntriesFromExcelForCategory(
             // Standalone entry - no parent, has content
             currentParentRowIndex = null // Reset parent (standalone entries don't affect parent chain)
             result.push({
+              id: row.id,
               title: row.title,
               content: row.content,
               chapterOrder: row.chapterOrder,
@@ -444,6 +844,7 @@ export function parseEntriesFromExcelForCategory(
             // Parent entry - update current parent, no parent itself
             currentParentRowIndex = i
             result.push({
+              id: row.id,
               title: row.title,
               content: row.content,
               chapterOrder: row.chapterOrder,
@@ -460,6 +861,7 @@ export function parseEntriesFromExcelForCategory(
               return
             }
             result.push({
+              id: row.id,
               title: row.title,
               content: row.content,
               chapterOrder: row.chapterOrder,
@@ -600,16 +1002,6 @@ export async function validateQuestionsExcelFormat(file: File): Promise<Question
 
         // Check header row - support multiple formats
         const headerRow = worksheet.getRow(1)
-        const expectedHeadersNew = [
-          '题目',
-          '题型（单选题/多选题）',
-          '选项类型（对错题/选项题）',
-          '选项A',
-          '选项B',
-          '选项C',
-          '选项D',
-          '正确答案'
-        ]
         const expectedHeadersOld7 = [
           '题目',
           '选项类型（对错题/选项题）',
@@ -622,8 +1014,15 @@ export async function validateQuestionsExcelFormat(file: File): Promise<Question
         const expectedHeadersOld6 = ['题目', '选项A', '选项B', '选项C', '选项D', '正确答案（0-3）']
         const actualHeaders: string[] = []
 
-        // Read all header cells (up to 10 columns)
-        for (let col = 1; col <= 10; col++) {
+        // Read all header cells (8 option columns plus the optional columns)
+        for (
+          let col = 1;
+          col <=
+          QUESTION_HEADERS.length +
+            OPTIONAL_QUESTION_HEADERS.length +
+            MEDIA_QUESTION_HEADERS.length;
+          col++
+        ) {
           const cellValue = String(headerRow.getCell(col).value || '').trim()
           actualHeaders.push(cellValue)
         }
@@ -631,10 +1030,19 @@ export async function validateQuestionsExcelFormat(file: File): Promise<Question
         // Determine format by checking column content
         const col2Value = actualHeaders[1] || ''
         let expectedHeaders: string[] = []
+        // The newest format has as many option columns as the file carries (A-D in older templates)
+        let isNewestFormat = false
+        let optionColumnCount = 4
 
         if (col2Value.includes('题型') || col2Value === '题型（单选题/多选题）') {
-          // Newest format (8 columns with question type)
-          expectedHeaders = expectedHeadersNew
+          // Newest format (with question type)
+          isNewestFormat = true
+          optionColumnCount = countOptionHeaders(actualHeaders, 3)
+          expectedHeaders = [
+            ...QUESTION_HEADERS.slice(0, 3),
+            ...OPTION_HEADERS.slice(0, Math.max(optionColumnCount, MIN_OPTIONS)),
+            '正确答案'
+          ]
         } else if (col2Value.includes('选项类型') || col2Value === '选项类型（对错题/选项题）') {
           // Old format (7 columns without question type)
           expectedHeaders = expectedHeadersOld7
@@ -679,8 +1087,18 @@ export async function validateQuestionsExcelFormat(file: File): Promise<Question
         }
 
         // Check for extra columns (warn but don't fail)
+        // The newest format may carry the optional explanation/entry/category columns
         if (actualHeaders.length > expectedHeaders.length) {
-          const extraColumns = actualHeaders.slice(expectedHeaders.length).filter((h) => h)
+          const extraColumns = actualHeaders
+            .slice(expectedHeaders.length)
+            .filter(
+              (h) =>
+                h &&
+                !(
+                  isNewestFormat &&
+                  (OPTIONAL_QUESTION_HEADERS.includes(h) || MEDIA_QUESTION_HEADERS.includes(h))
+                )
+            )
           if (extraColumns.length > 0) {
             warnings.push({
               row: 1,
@@ -694,6 +1112,17 @@ export async function validateQuestionsExcelFormat(file: File): Promise<Question
           return
         }
 
+        // Column layout: options start after the type columns, the answer follows the options
+        const isOldestFormat = expectedHeaders === expectedHeadersOld6
+        const optionCol = isNewestFormat ? 4 : isOldestFormat ? 2 : 3
+        const answerCol = optionCol + optionColumnCount
+        const shuffleOptionsCol = isNewestFormat
+          ? actualHeaders.indexOf(SHUFFLE_OPTIONS_HEADER) + 1
+          : 0
+        const acceptedAnswersCol = isNewestFormat
+          ? actualHeaders.indexOf(ACCEPTED_ANSWERS_HEADER) + 1
+          : 0
+
         // Validate data rows
         let hasData = false
         worksheet.eachRow((row, rowNumber) => {
@@ -702,41 +1131,23 @@ export async function validateQuestionsExcelFormat(file: File): Promise<Question
           const text = String(row.getCell(1).value || '').trim()
           let questionType: '单选题' | '多选题' | '' = ''
           let optionType: '对错题' | '选项题' | '' = ''
-          let optionA = ''
-          let optionB = ''
-          let optionC = ''
-          let optionD = ''
-          let correctAnswerCell
 
           // Determine column positions based on format
-          if (expectedHeaders.length === 8) {
-            // Newest format (8 columns): 题目, 题型, 选项类型, 选项A, 选项B, 选项C, 选项D, 正确答案
+          if (isNewestFormat) {
+            // Newest format: 题目, 题型, 选项类型, 选项A-H (A-D in older templates), 正确答案
             questionType = String(row.getCell(2).value || '').trim() as '单选题' | '多选题' | ''
             optionType = String(row.getCell(3).value || '').trim() as '对错题' | '选项题' | ''
-            optionA = String(row.getCell(4).value || '').trim()
-            optionB = String(row.getCell(5).value || '').trim()
-            optionC = String(row.getCell(6).value || '').trim()
-            optionD = String(row.getCell(7).value || '').trim()
-            correctAnswerCell = row.getCell(8)
-          } else if (expectedHeaders.length === 7) {
+          } else if (!isOldestFormat) {
             // Old format (7 columns): 题目, 选项类型, 选项A, 选项B, 选项C, 选项D, 正确答案
             questionType = '单选题' // Default to 单选题 for old format
             optionType = String(row.getCell(2).value || '').trim() as '对错题' | '选项题' | ''
-            optionA = String(row.getCell(3).value || '').trim()
-            optionB = String(row.getCell(4).value || '').trim()
-            optionC = String(row.getCell(5).value || '').trim()
-            optionD = String(row.getCell(6).value || '').trim()
-            correctAnswerCell = row.getCell(7)
           } else {
             // Oldest format (6 columns): 题目, 选项A, 选项B, 选项C, 选项D, 正确答案
             questionType = '单选题' // Default to 单选题 for oldest format
             optionType = '选项题' // Default to 选项题 for oldest format
-            optionA = String(row.getCell(2).value || '').trim()
-            optionB = String(row.getCell(3).value || '').trim()
-            optionC = String(row.getCell(4).value || '').trim()
-            optionD = String(row.getCell(5).value || '').trim()
-            correctAnswerCell = row.getCell(6)
           }
+          const options = readOptionCells(row, optionCol, optionColumnCount)
+          const correctAnswerCell = row.getCell(answerCol)
 
           // Get correct answer value - handle both string and number types
           // IMPORTANT: Preserve the original value type to detect comma-separated values
@@ -754,15 +1165,7 @@ export async function validateQuestionsExcelFormat(file: File): Promise<Question
           }
 
           // Skip completely empty rows
-          if (
-            !text &&
-            !optionA &&
-            !optionB &&
-            !optionC &&
-            !optionD &&
-            !correctAnswerValue &&
-            !optionType
-          ) {
+          if (!text && options.length === 0 && !correctAnswerValue && !optionType) {
             return
           }
 
@@ -773,8 +1176,27 @@ export async function validateQuestionsExcelFormat(file: File): Promise<Question
             errors.push({ row: rowNumber, message: '题目内容不能为空' })
           }
 
+          // Fill-blank and ordering rows only use the tiles or steps, the answer and the
+          // accepted answers; their options are always shuffled
+          const sequenceType = isNewestFormat ? readSequenceType(questionType) : null
+          if (sequenceType) {
+            const result = readSequenceRow(
+              text,
+              sequenceType,
+              options,
+              String(correctAnswerValue),
+              acceptedAnswersCol
+                ? String(row.getCell(acceptedAnswersCol).value || '').trim()
+                : undefined
+            )
+            if (typeof result === 'string') {
+              errors.push({ row: rowNumber, message: result })
+            }
+            return
+          }
+
           // Validate question type (for newest format)
-          if (expectedHeaders.length === 8) {
+          if (isNewestFormat) {
             // Normalize questionType - handle potential whitespace or case issues
             const normalizedQuestionType = questionType.trim()
             if (
@@ -794,7 +1216,7 @@ export async function validateQuestionsExcelFormat(file: File): Promise<Question
               } else {
                 errors.push({
                   row: rowNumber,
-                  message: `题型必须为"单选题"或"多选题"，当前为"${questionType || '(空)'}"`
+                  message: `题型必须为"单选题"、"多选题"、"填空题"或"排序题"，当前为"${questionType || '(空)'}"`
                 })
               }
             } else {
@@ -804,7 +1226,7 @@ export async function validateQuestionsExcelFormat(file: File): Promise<Question
           }
 
           // Validate option type (for formats with option type column)
-          if (expectedHeaders.length >= 7) {
+          if (!isOldestFormat) {
             if (!optionType || (optionType !== '对错题' && optionType !== '选项题')) {
               errors.push({
                 row: rowNumber,
@@ -825,17 +1247,11 @@ export async function validateQuestionsExcelFormat(file: File): Promise<Question
           // Validate options based on option type
           if (optionType === '对错题') {
             // For true-false questions, optionA and optionB are recommended but can be auto-filled
-            // OptionC and optionD should be empty
-            if (optionC && optionC.trim() !== '') {
+            // The other option columns should be empty
+            if (options.length > 2) {
               warnings.push({
                 row: rowNumber,
-                message: '对错题的选项C应为空（系统会自动忽略）'
-              })
-            }
-            if (optionD && optionD.trim() !== '') {
-              warnings.push({
-                row: rowNumber,
-                message: '对错题的选项D应为空（系统会自动忽略）'
+                message: '对错题只使用选项A、选项B，其余选项列应为空（系统会自动忽略）'
               })
             }
             // Validate correct answer for true-false
@@ -893,19 +1309,22 @@ export async function validateQuestionsExcelFormat(file: File): Promise<Question
               }
             }
           } else {
-            // For letter-options questions, all options must be filled
-            if (!optionA || optionA.trim() === '') {
-              errors.push({ row: rowNumber, message: '选项A不能为空' })
-            }
-            if (!optionB || optionB.trim() === '') {
-              errors.push({ row: rowNumber, message: '选项B不能为空' })
-            }
-            if (!optionC || optionC.trim() === '') {
-              errors.push({ row: rowNumber, message: '选项C不能为空' })
-            }
-            if (!optionD || optionD.trim() === '') {
-              errors.push({ row: rowNumber, message: '选项D不能为空' })
+            // For letter-options questions, options are filled from 选项A without gaps
+            if (options.length < MIN_OPTIONS) {
+              errors.push({
+                row: rowNumber,
+                message: `选项题至少需要 ${MIN_OPTIONS} 个选项（选项A、选项B不能为空）`
+              })
             }
+            options.forEach((option, index) => {
+              if (!option) {
+                errors.push({
+                  row: rowNumber,
+                  message: `选项${getOptionLetter(index)}不能为空（选项需从选项A起连续填写）`
+                })
+              }
+            })
+            const answerRange = describeAnswerRange(options.length)
             // Validate correct answer for letter-options
             console.log(
               `[Validate Row ${rowNumber}] Starting validation for letter-options question`
@@ -988,11 +1407,11 @@ export async function validateQuestionsExcelFormat(file: File): Promise<Question
                   })
                 } else {
                   console.log(
-                    `[Validate Row ${rowNumber}] Validating ${numbers.length} numbers against range [0, 1, 2, 3]`
+                    `[Validate Row ${rowNumber}] Validating ${numbers.length} numbers against range ${answerRange}`
                   )
-                  // Validate each number is in range 0-3
+                  // Validate each number points at one of the options
                   const invalidNumbers = numbers.filter((n) => {
-                    const isValid = [0, 1, 2, 3].includes(n)
+                    const isValid = isValidOptionIndex(n, options.length)
                     console.log(
                       `[Validate Row ${rowNumber}] Number ${n} (type: ${typeof n}): isValid=${isValid}`
                     )
@@ -1005,7 +1424,7 @@ export async function validateQuestionsExcelFormat(file: File): Promise<Question
                     )
                     errors.push({
                       row: rowNumber,
-                      message: `选项题的正确答案必须为 0、1、2 或 3（对应A/B/C/D），当前包含无效数字：${invalidNumbers.join(', ')}。原始答案："${correctAnswerStr}"，解析后的数字：[${numbers.join(', ')}]`
+                      message: `选项题的正确答案必须为 ${answerRange}，当前包含无效数字：${invalidNumbers.join(', ')}。原始答案："${correctAnswerStr}"，解析后的数字：[${numbers.join(', ')}]`
                     })
                   } else {
                     console.log(`[Validate Row ${rowNumber}] All numbers are valid`)
@@ -1034,13 +1453,13 @@ export async function validateQuestionsExcelFormat(file: File): Promise<Question
                     row: rowNumber,
                     message: `单选题的正确答案必须是单个数字，当前为"${correctAnswerStr}"。如果是多选题，请在"题型"列选择"多选题"，并在"正确答案"列填写多个数字，用逗号分隔（如：0,1,2）`
                   })
-                } else if (![0, 1, 2, 3].includes(correctAnswer)) {
+                } else if (!isValidOptionIndex(correctAnswer, options.length)) {
                   console.log(
-                    `[Validate Row ${rowNumber}] ERROR: Number ${correctAnswer} not in range [0, 1, 2, 3]`
+                    `[Validate Row ${rowNumber}] ERROR: Number ${correctAnswer} not in range ${answerRange}`
                   )
                   errors.push({
                     row: rowNumber,
-                    message: `选项题的正确答案必须是 0、1、2 或 3（对应A/B/C/D），当前为 ${correctAnswer}`
+                    message: `选项题的正确答案必须是 ${answerRange}，当前为 ${correctAnswer}`
                   })
                 } else {
                   console.log(`[Validate Row ${rowNumber}] Single answer is valid`)
@@ -1052,13 +1471,28 @@ export async function validateQuestionsExcelFormat(file: File): Promise<Question
             )
           }
 
+          if (shuffleOptionsCol) {
+            const shuffleValue = String(row.getCell(shuffleOptionsCol).value || '').trim()
+            if (shuffleValue && shuffleValue !== '是' && shuffleValue !== '否') {
+              errors.push({
+                row: rowNumber,
+                message: `打乱选项只能填写"是"或"否"，当前为"${shuffleValue}"`
+              })
+            }
+          }
+
           // Warnings for potential issues
           if (text && text.length > 200) {
             warnings.push({ row: rowNumber, message: '题目内容较长，建议控制在200字以内' })
           }
-          if (optionA && optionA.length > 100) {
-            warnings.push({ row: rowNumber, message: '选项A内容较长，建议控制在100字以内' })
-          }
+          options.forEach((option, index) => {
+            if (option.length > 100) {
+              warnings.push({
+                row: rowNumber,
+                message: `选项${getOptionLetter(index)}内容较长，建议控制在100字以内`
+              })
+            }
+          })
         })
 
         if (!hasData) {
@@ -1088,8 +1522,9 @@ export async function validateQuestionsExcelFormat(file: File): Promise<Question
 }
 
 export function parseQuestionsFromExcel(
-  file: File
-): Promise<Array<Omit<import('../types/question').Question, 'id' | 'createdAt' | 'updatedAt'>>> {
+  file: File,
+  categories: Category[] = []
+): Promise<ParsedQuestionWithMedia[]> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader()
     reader.onload = async (e) => {
@@ -1105,9 +1540,7 @@ export function parseQuestionsFromExcel(
           return
         }
 
-        const questions: Array<
-          Omit<import('../types/question').Question, 'id' | 'createdAt' | 'updatedAt'>
-        > = []
+        const questions: ParsedQuestionWithMedia[] = []
 
         // Detect format by checking header row
         const headerRow = worksheet.getRow(1)
@@ -1117,6 +1550,40 @@ export function parseQuestionsFromExcel(
           headerCol2.includes('题型') || headerCol2 === '题型（单选题/多选题）'
         const hasOptionType = headerCol2.includes('选项类型') || headerCol3.includes('选项类型')
 
+        // Optional explanation/entry/category columns (newest format only), located by header
+        let explanationCol = 0
+        let entryIdCol = 0
+        let categoryNamesCol = 0
+        let pointsCol = 0
+        let shuffleOptionsCol = 0
+        let acceptedAnswersCol = 0
+        let questionIdCol = 0
+        let stemMediaCol = 0
+        let optionMediaCol = 0
+        const headers: string[] = []
+        headerRow.eachCell((cell, colNumber) => {
+          headers[colNumber - 1] = String(cell.value || '').trim()
+        })
+        if (hasQuestionType) {
+          headers.forEach((header, index) => {
+            const colNumber = index + 1
+            if (header === EXPLANATION_HEADER) explanationCol = colNumber
+            if (header === ENTRY_ID_HEADER) entryIdCol = colNumber
+            if (header === CATEGORY_NAMES_HEADER) categoryNamesCol = colNumber
+            if (header === POINTS_HEADER) pointsCol = colNumber
+            if (header === SHUFFLE_OPTIONS_HEADER) shuffleOptionsCol = colNumber
+            if (header === ACCEPTED_ANSWERS_HEADER) acceptedAnswersCol = colNumber
+            if (header === QUESTION_ID_HEADER) questionIdCol = colNumber
+            if (header === STEM_MEDIA_HEADER) stemMediaCol = colNumber
+            if (header === OPTION_MEDIA_HEADER) optionMediaCol = colNumber
+          })
+        }
+        // The newest format has as many option columns as the file carries (A-D in older templates)
+        const optionColumnCount = hasQuestionType ? countOptionHeaders(headers, 3) : 4
+        const optionCol = hasQuestionType ? 4 : hasOptionType ? 3 : 2
+        const answerCol = optionCol + optionColumnCount
+        const categoryIdsByName = new Map(categories.map((c) => [c.name.trim(), c.id]))
+
         // Read rows starting from row 2 (skip header)
         worksheet.eachRow((row, rowNumber) => {
           if (rowNumber === 1) return // Skip header row
@@ -1124,53 +1591,101 @@ export function parseQuestionsFromExcel(
           const text = String(row.getCell(1).value || '').trim()
           let questionType: '单选题' | '多选题' = '单选题'
           let optionType: '对错题' | '选项题' = '选项题'
-          let optionA = ''
-          let optionB = ''
-          let optionC = ''
-          let optionD = ''
-          let correctAnswerValue: string | number = ''
 
           // Determine column positions based on format
           if (hasQuestionType) {
-            // Newest format (8 columns): 题目, 题型, 选项类型, 选项A, 选项B, 选项C, 选项D, 正确答案
+            // Newest format: 题目, 题型, 选项类型, 选项A-H (A-D in older templates), 正确答案
             questionType =
               (String(row.getCell(2).value || '').trim() as '单选题' | '多选题') || '单选题'
             optionType =
               (String(row.getCell(3).value || '').trim() as '对错题' | '选项题') || '选项题'
-            optionA = String(row.getCell(4).value || '').trim()
-            optionB = String(row.getCell(5).value || '').trim()
-            optionC = String(row.getCell(6).value || '').trim()
-            optionD = String(row.getCell(7).value || '').trim()
-            const cellValue8 = row.getCell(8).value
-            correctAnswerValue =
-              cellValue8 !== null && cellValue8 !== undefined ? String(cellValue8) : ''
           } else if (hasOptionType) {
             // Old format (7 columns): 题目, 选项类型, 选项A, 选项B, 选项C, 选项D, 正确答案
             questionType = '单选题' // Default to 单选题
             optionType =
               (String(row.getCell(2).value || '').trim() as '对错题' | '选项题') || '选项题'
-            optionA = String(row.getCell(3).value || '').trim()
-            optionB = String(row.getCell(4).value || '').trim()
-            optionC = String(row.getCell(5).value || '').trim()
-            optionD = String(row.getCell(6).value || '').trim()
-            const cellValue7 = row.getCell(7).value
-            correctAnswerValue =
-              cellValue7 !== null && cellValue7 !== undefined ? String(cellValue7) : ''
           } else {
             // Oldest format (6 columns): 题目, 选项A, 选项B, 选项C, 选项D, 正确答案
             questionType = '单选题' // Default to 单选题
             optionType = '选项题' // Default to 选项题
-            optionA = String(row.getCell(2).value || '').trim()
-            optionB = String(row.getCell(3).value || '').trim()
-            optionC = String(row.getCell(4).value || '').trim()
-            optionD = String(row.getCell(5).value || '').trim()
-            const cellValue6 = row.getCell(6).value
-            correctAnswerValue =
-              cellValue6 !== null && cellValue6 !== undefined ? String(cellValue6) : ''
           }
+          const options = readOptionCells(row, optionCol, optionColumnCount)
+          const answerCellValue = row.getCell(answerCol).value
+          const correctAnswerValue =
+            answerCellValue !== null && answerCellValue !== undefined ? String(answerCellValue) : ''
 
           if (!text) return // Skip empty rows
 
+          const explanation = explanationCol
+            ? plainTextToHtml(String(row.getCell(explanationCol).value || ''))
+            : ''
+          const entryId = entryIdCol ? String(row.getCell(entryIdCol).value || '').trim() : ''
+          const categoryNames = categoryNamesCol
+            ? String(row.getCell(categoryNamesCol).value || '')
+                .split(/[,，、]/)
+                .map((name) => name.trim())
+                .filter((name) => name)
+            : []
+          const categoryIds = categoryNames.map((name) => {
+            const categoryId = categoryIdsByName.get(name)
+            if (!categoryId) {
+              throw new Error(`第 ${rowNumber} 行：找不到分类"${name}"，请先在分类管理中创建`)
+            }
+            return categoryId
+          })
+          const pointsValue = pointsCol ? String(row.getCell(pointsCol).value ?? '').trim() : ''
+          const points = pointsValue ? Number(pointsValue) : undefined
+          if (points !== undefined && (!Number.isInteger(points) || points < 0)) {
+            throw new Error(`第 ${rowNumber} 行：分值必须是不小于 0 的整数`)
+          }
+          const shuffleValue = shuffleOptionsCol
+            ? String(row.getCell(shuffleOptionsCol).value || '').trim()
+            : ''
+          if (shuffleValue && shuffleValue !== '是' && shuffleValue !== '否') {
+            throw new Error(`第 ${rowNumber} 行：打乱选项只能填写"是"或"否"`)
+          }
+          const questionId = questionIdCol
+            ? String(row.getCell(questionIdCol).value || '').trim()
+            : ''
+          const mediaFile = stemMediaCol ? String(row.getCell(stemMediaCol).value || '').trim() : ''
+          const optionMediaFiles = optionMediaCol
+            ? parseOptionMediaFiles(String(row.getCell(optionMediaCol).value || ''))
+            : []
+          if (optionMediaFiles.length > options.length) {
+            throw new Error(`第 ${rowNumber} 行：选项图片/视频文件的数量多于选项数量`)
+          }
+          // Columns missing from the file stay undefined so an update keeps the existing value
+          const reference = {
+            ...(explanationCol ? { explanation } : {}),
+            ...(entryIdCol ? { entryId: entryId || null } : {}),
+            ...(categoryNamesCol ? { categoryIds: [...new Set(categoryIds)] } : {}),
+            ...(points !== undefined ? { points } : {}),
+            ...(questionId ? { id: questionId } : {}),
+            // Empty media cells keep the current attachments when the import updates a question
+            ...(mediaFile ? { mediaFile } : {})
+          }
+
+          const sequenceType = hasQuestionType
+            ? readSequenceType(String(row.getCell(2).value || '').trim())
+            : null
+          if (sequenceType) {
+            const result = readSequenceRow(
+              text,
+              sequenceType,
+              options,
+              correctAnswerValue.trim(),
+              acceptedAnswersCol
+                ? String(row.getCell(acceptedAnswersCol).value || '').trim()
+                : undefined,
+              optionMediaFiles
+            )
+            if (typeof result === 'string') {
+              throw new Error(`第 ${rowNumber} 行：${result}`)
+            }
+            questions.push({ text, ...result, ...reference })
+            return
+          }
+
           // Validate: 多选题只能选择选项题，不能选择对错题
           if (questionType === '多选题' && optionType === '对错题') {
             throw new Error(
@@ -1217,7 +1732,7 @@ export function parseQuestionsFromExcel(
               .map((s) => s.trim())
               .filter((s) => s)
               .map((s) => Number(s))
-              .filter((n) => !isNaN(n) && [0, 1, 2, 3].includes(n))
+              .filter((n) => !isNaN(n) && isValidOptionIndex(n, MAX_OPTIONS))
 
             console.log(
               `[Parse Row ${rowNumber}] Parsed numbers (after filter):`,
@@ -1263,28 +1778,33 @@ export function parseQuestionsFromExcel(
             if (![0, 1].includes(correctAnswer as number)) {
               throw new Error(`第 ${rowNumber} 行：对错题的正确答案必须是 0（正确）或 1（错误）`)
             }
+            if (optionMediaFiles.length > 0) {
+              throw new Error(`第 ${rowNumber} 行：对错题的选项不支持图片或视频`)
+            }
 
             questions.push({
               text,
               questionType: 'single' as const,
               optionType: 'true-false' as const,
               options: ['正确', '错误'],
-              correctAnswer
+              correctAnswer,
+              ...reference
             })
           } else {
             // Letter-options questions: use provided options
             console.log(`[Parse Row ${rowNumber}] Processing letter-options question`)
-            console.log(
-              `[Parse Row ${rowNumber}] Options: A="${optionA}", B="${optionB}", C="${optionC}", D="${optionD}"`
-            )
+            console.log(`[Parse Row ${rowNumber}] Options:`, options)
 
-            // Validate all options are filled
-            if (!optionA || !optionB || !optionC || !optionD) {
-              console.log(`[Parse Row ${rowNumber}] ERROR: Some options are empty`)
-              throw new Error(`第 ${rowNumber} 行：选项题的所有选项（A/B/C/D）都不能为空`)
+            // Validate options are filled from 选项A without gaps
+            if (options.length < MIN_OPTIONS || options.some((option) => !option)) {
+              console.log(`[Parse Row ${rowNumber}] ERROR: Too few options or empty options`)
+              throw new Error(
+                `第 ${rowNumber} 行：选项题需要 ${MIN_OPTIONS}-${MAX_OPTIONS} 个选项，从选项A起连续填写，中间不能有空选项`
+              )
             }
 
-            // Validate correct answer (0-3 for single, array of 0-3 for multiple)
+            // Validate correct answer (option indexes for single and multiple choice)
+            const answerRange = describeAnswerRange(options.length)
             console.log(
               `[Parse Row ${rowNumber}] Validating correct answer. isMultiple: ${isMultiple}, correctAnswer:`,
               correctAnswer
@@ -1294,7 +1814,7 @@ export function parseQuestionsFromExcel(
               const answers = correctAnswer as number[]
               console.log(`[Parse Row ${rowNumber}] Validating multiple choice answers:`, answers)
               const invalid = answers.filter((a) => {
-                const isValid = [0, 1, 2, 3].includes(a)
+                const isValid = isValidOptionIndex(a, options.length)
                 console.log(
                   `[Parse Row ${rowNumber}] Answer ${a} (type: ${typeof a}): isValid=${isValid}`
                 )
@@ -1303,20 +1823,18 @@ export function parseQuestionsFromExcel(
               if (invalid.length > 0) {
                 console.log(`[Parse Row ${rowNumber}] ERROR: Invalid answers found:`, invalid)
                 throw new Error(
-                  `第 ${rowNumber} 行：选项题的正确答案必须为 0、1、2 或 3（对应A/B/C/D），当前包含无效数字：${invalid.join(', ')}`
+                  `第 ${rowNumber} 行：选项题的正确答案必须为 ${answerRange}，当前包含无效数字：${invalid.join(', ')}`
                 )
               }
               console.log(`[Parse Row ${rowNumber}] All multiple choice answers are valid`)
             } else {
               const singleAnswer = correctAnswer as number
               console.log(`[Parse Row ${rowNumber}] Validating single choice answer:`, singleAnswer)
-              if (![0, 1, 2, 3].includes(singleAnswer)) {
+              if (!isValidOptionIndex(singleAnswer, options.length)) {
                 console.log(
-                  `[Parse Row ${rowNumber}] ERROR: Single answer ${singleAnswer} not in range [0, 1, 2, 3]`
-                )
-                throw new Error(
-                  `第 ${rowNumber} 行：选项题的正确答案必须是 0、1、2 或 3（对应A/B/C/D）`
+                  `[Parse Row ${rowNumber}] ERROR: Single answer ${singleAnswer} not in range ${answerRange}`
                 )
+                throw new Error(`第 ${rowNumber} 行：选项题的正确答案必须是 ${answerRange}`)
               }
               console.log(`[Parse Row ${rowNumber}] Single answer is valid`)
             }
@@ -1325,8 +1843,12 @@ export function parseQuestionsFromExcel(
               text,
               questionType: isMultiple ? 'multiple' : 'single',
               optionType: 'letter-options' as const,
-              options: [optionA, optionB, optionC, optionD],
-              correctAnswer
+              options,
+              correctAnswer,
+              // A missing column keeps the current setting when the import updates a question
+              ...(shuffleOptionsCol ? { shuffleOptions: shuffleValue === '是' } : {}),
+              ...(optionMediaFiles.length > 0 ? { optionMediaFiles } : {}),
+              ...reference
             })
             console.log(
               `[Parse Row ${rowNumber}] Question added successfully. questionType: ${isMultiple ? 'multiple' : 'single'}`
@@ -1343,3 +1865,43 @@ export function parseQuestionsFromExcel(
     reader.readAsArrayBuffer(file)
   })
 }
+
+/**
+ * Image and video file names referenced by parsed questions
+ */
+export function getQuestionMediaFileNames(questions: ParsedQuestionWithMedia[]): string[] {
+  const fileNames = questions.flatMap((question) => [
+    question.mediaFile ?? '',
+    ...(question.optionMediaFiles ?? [])
+  ])
+  return [...new Set(fileNames.filter((fileName) => fileName))]
+}
+
+/**
+ * Replace the file names of a parsed question with the stored media
+ * @returns The question, or an error message naming the files that could not be used
+ */
+export function attachQuestionMedia(
+  question: ParsedQuestionWithMedia,
+  files: QuestionMediaFiles
+): ParsedQuestion | string {
+  const { mediaFile, optionMediaFiles, ...parsed } = question
+  const missing = [mediaFile ?? '', ...(optionMediaFiles ?? [])].filter(
+    (fileName) => fileName && !files.found[fileName]
+  )
+  if (missing.length > 0) {
+    return `找不到或不支持的图片、视频文件：${[...new Set(missing)].join('、')}`
+  }
+
+  return {
+    ...parsed,
+    ...(mediaFile ? { media: files.found[mediaFile] } : {}),
+    ...(optionMediaFiles
+      ? {
+          optionMedia: parsed.options.map((_, index) =>
+            optionMediaFiles[index] ? files.found[optionMediaFiles[index]] : null
+          )
+        }
+      : {})
+  }
+}
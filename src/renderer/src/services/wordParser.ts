@@ -1,9 +1,15 @@
 /**
  * Word Document Parser Service
  * Parses Word documents (.docx) to extract title and content
+ * Long documents can also be split into chapter/article sections by headings or 第X章/第X条 numbering,
+ * and exam papers can be read as questions
  */
 
 import * as mammoth from 'mammoth'
+import type { ParsedEntryWithParent } from '../types/admin'
+import type { ParsedQuestion } from '../types/question'
+import { plainTextToHtml } from '../utils/htmlUtils'
+import { MIN_OPTIONS } from '../utils/questionOptions'
 
 export interface ParsedWordDocument {
   /** Document title (extracted from first heading or filename) */
@@ -16,6 +22,76 @@ export interface ParsedWordDocument {
   error?: string
 }
 
+/**
+ * How a document is split into sections
+ * auto: Heading 1/2 styles when the document uses them, otherwise 第X章/第X条 numbering
+ */
+export type WordSplitRule = 'auto' | 'headings' | 'numbering'
+
+/**
+ * chapter-article: chapters become parent entries with one child entry per article
+ * chapter: one entry per chapter, articles stay inside its content
+ */
+export type WordSplitDepth = 'chapter-article' | 'chapter'
+
+/**
+ * A section of a split document
+ * Chapters with articles carry them in `children` and have no content of their own
+ */
+export interface WordSection {
+  title: string
+  /** Section content as HTML */
+  content: string
+  children: WordSection[]
+}
+
+/**
+ * Convert a Word document to HTML, keeping headings, inline formatting, tables and images
+ * Images stay inline; the main process moves them to the media library only when the
+ * content is saved, so a cancelled import leaves no files behind
+ * @param keepImages Keep images; when false they are dropped
+ */
+async function convertToHtml(file: File, keepImages = true): Promise<string> {
+  // Read file as array buffer
+  const arrayBuffer = await file.arrayBuffer()
+
+  // Configure style mapping to preserve formatting
+  // This maps Word styles to HTML with inline styles
+  const styleMap = [
+    // Preserve heading styles
+    "p[style-name='Heading 1'] => h1:fresh",
+    "p[style-name='Heading 2'] => h2:fresh",
+    "p[style-name='Heading 3'] => h3:fresh",
+    "p[style-name='Heading 4'] => h4:fresh",
+    "p[style-name='Heading 5'] => h5:fresh",
+    "p[style-name='Heading 6'] => h6:fresh",
+    // Preserve paragraph styles (this will preserve alignment, indentation, etc.)
+    "p => p",
+    // Preserve runs (text formatting)
+    "r[style-name='Strong'] => strong",
+    "r[style-name='Emphasis'] => em",
+    // Preserve tables
+    "table => table",
+    "tr => tr",
+    "td => td",
+    "th => th"
+  ]
+
+  // Convert Word document to HTML with style preservation
+  // mammoth will preserve inline styles like text-align, font-size, color, etc.
+  const result = await mammoth.convertToHtml(
+    { arrayBuffer },
+    {
+      styleMap,
+      // Preserve empty paragraphs
+      includeDefaultStyleMap: true,
+      // mammoth inlines images as base64 by default
+      ...(!keepImages && { convertImage: mammoth.images.imgElement(async () => ({ src: '' })) })
+    }
+  )
+  return result.value
+}
+
 /**
  * Parse a Word document to extract title and content
  * @param file Word document file (.docx)
@@ -23,50 +99,7 @@ export interface ParsedWordDocument {
  */
 export async function parseWordDocument(file: File): Promise<ParsedWordDocument> {
   try {
-    // Read file as array buffer
-    const arrayBuffer = await file.arrayBuffer()
-
-    // Configure style mapping to preserve formatting
-    // This maps Word styles to HTML with inline styles
-    const styleMap = [
-      // Preserve heading styles
-      "p[style-name='Heading 1'] => h1:fresh",
-      "p[style-name='Heading 2'] => h2:fresh",
-      "p[style-name='Heading 3'] => h3:fresh",
-      "p[style-name='Heading 4'] => h4:fresh",
-      "p[style-name='Heading 5'] => h5:fresh",
-      "p[style-name='Heading 6'] => h6:fresh",
-      // Preserve paragraph styles (this will preserve alignment, indentation, etc.)
-      "p => p",
-      // Preserve runs (text formatting)
-      "r[style-name='Strong'] => strong",
-      "r[style-name='Emphasis'] => em",
-      // Preserve tables
-      "table => table",
-      "tr => tr",
-      "td => td",
-      "th => th"
-    ]
-
-    // Convert Word document to HTML with style preservation
-    // mammoth will preserve inline styles like text-align, font-size, color, etc.
-    const result = await mammoth.convertToHtml(
-      { arrayBuffer },
-      {
-        styleMap,
-        // Preserve empty paragraphs
-        includeDefaultStyleMap: true,
-        // Convert images to base64 (if needed)
-        convertImage: mammoth.images.imgElement((image) => {
-          return image.read('base64').then((imageBuffer) => {
-            return {
-              src: `data:${image.contentType};base64,${imageBuffer}`
-            }
-          })
-        })
-      }
-    )
-    const html = result.value
+    const html = await convertToHtml(file)
 
     // mammoth should preserve inline styles including:
     // - text-align (center, left, right, justify)
@@ -126,3 +159,438 @@ export async function parseWordDocuments(files: File[]): Promise<ParsedWordDocum
 
   return results
 }
+
+// Chinese or Arabic numerals used in 第X章 / 第X条 numbering
+const NUMERAL = '[一二三四五六七八九十百千零〇两0-9０-９]+'
+const CHAPTER_PATTERN = new RegExp(`^第${NUMERAL}章`)
+const ARTICLE_PATTERN = new RegExp(`^第${NUMERAL}条`)
+
+type BlockLevel = 'chapter' | 'article' | null
+
+function hasVisibleContent(html: string): boolean {
+  if (/<img\b/i.test(html)) return true
+  return !!new DOMParser().parseFromString(html, 'text/html').body.textContent?.trim()
+}
+
+function blockText(element: Element): string {
+  // trim() also removes the full-width spaces common in Chinese documents
+  return (element.textContent || '').trim()
+}
+
+/**
+ * Remove the first `length` characters of text (after leading whitespace) from an element,
+ * keeping the formatting of the rest of the paragraph
+ */
+function stripLeadingText(element: Element, length: number): void {
+  const walker = element.ownerDocument.createTreeWalker(element, NodeFilter.SHOW_TEXT)
+  let remaining = length
+  let leading = true
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text
+    let text = node.data
+    if (leading) {
+      text = text.replace(/^\s+/, '')
+      leading = text.length === 0
+    }
+    const removed = Math.min(remaining, text.length)
+    remaining -= removed
+    // Drop the separator between the article number and its text as well
+    node.data = remaining === 0 ? text.slice(removed).replace(/^\s+/, '') : ''
+    if (remaining === 0 && node.data.length > 0) return
+  }
+}
+
+/**
+ * Split converted HTML into sections
+ * Content before the first chapter or article becomes a section titled `fallbackTitle`
+ */
+export function splitWordHtml(
+  html: string,
+  fallbackTitle: string,
+  rule: WordSplitRule,
+  depth: WordSplitDepth
+): WordSection[] {
+  const body = new DOMParser().parseFromString(html, 'text/html').body
+  const blocks = Array.from(body.children)
+
+  const hasHeadings = blocks.some((block) => block.tagName === 'H1' || block.tagName === 'H2')
+  const useHeadings = rule === 'headings' || (rule === 'auto' && hasHeadings)
+  // With a single heading level every heading is an article
+  const headingLevels = new Set(blocks.map((block) => block.tagName))
+  const chapterTag = headingLevels.has('H1') && headingLevels.has('H2') ? 'H1' : null
+
+  const levelOf = (block: Element): BlockLevel => {
+    if (useHeadings) {
+      if (block.tagName === chapterTag) return 'chapter'
+      if (block.tagName === 'H1' || block.tagName === 'H2') return 'article'
+      return null
+    }
+    const text = blockText(block)
+    if (CHAPTER_PATTERN.test(text)) return 'chapter'
+    if (ARTICLE_PATTERN.test(text)) return 'article'
+    return null
+  }
+
+  const sections: WordSection[] = []
+  let chapter: WordSection | null = null
+  // Section that following paragraphs are appended to
+  let current: WordSection | null = null
+
+  for (const block of blocks) {
+    const level = levelOf(block)
+    if (level === 'chapter') {
+      chapter = { title: blockText(block), content: '', children: [] }
+      sections.push(chapter)
+      current = chapter
+    } else if (level === 'article' && depth === 'chapter-article') {
+      let title = blockText(block)
+      if (!useHeadings) {
+        // "第一条 为了……" keeps the number as the title and the sentence as content
+        title = title.match(ARTICLE_PATTERN)![0]
+        stripLeadingText(block, title.length)
+      }
+      const article: WordSection = { title, content: '', children: [] }
+      if (chapter) {
+        chapter.children.push(article)
+      } else {
+        sections.push(article)
+      }
+      current = article
+      if (!useHeadings && blockText(block)) {
+        article.content += block.outerHTML
+      }
+    } else {
+      if (!current) {
+        current = { title: fallbackTitle, content: '', children: [] }
+        sections.push(current)
+      }
+      current.content += block.outerHTML
+    }
+  }
+
+  // Text between a chapter heading and its first article gets its own child entry,
+  // since parent entries have no content
+  for (const section of sections) {
+    if (section.children.length > 0 && hasVisibleContent(section.content)) {
+      section.children.unshift({ title: '本章说明', content: section.content, children: [] })
+    }
+    if (section.children.length > 0) {
+      section.content = ''
+    }
+  }
+  return sections.filter(
+    (section) =>
+      section.children.length > 0 ||
+      section.title !== fallbackTitle ||
+      hasVisibleContent(section.content)
+  )
+}
+
+/**
+ * Parse a Word document and split it into sections
+ */
+export async function splitWordDocument(
+  file: File,
+  rule: WordSplitRule,
+  depth: WordSplitDepth
+): Promise<WordSection[]> {
+  try {
+    const html = await convertToHtml(file)
+    return splitWordHtml(html, file.name.replace(/\.(docx?|doc)$/i, ''), rule, depth)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : '未知错误'
+    throw new Error(`解析 Word 文档 "${file.name}" 失败：${errorMessage}`)
+  }
+}
+
+/**
+ * Flatten sections into entry rows for import, numbering chapterOrder within each level
+ */
+export function sectionsToEntryRows(sections: WordSection[]): ParsedEntryWithParent[] {
+  const rows: ParsedEntryWithParent[] = []
+  sections.forEach((section, index) => {
+    const parentRowIndex = rows.length
+    rows.push({
+      title: section.title,
+      content: section.children.length > 0 ? '' : section.content || '<p></p>',
+      chapterOrder: index + 1,
+      parentRowIndex: null
+    })
+    section.children.forEach((child, childIndex) => {
+      rows.push({
+        title: child.title,
+        content: child.content || '<p></p>',
+        chapterOrder: childIndex + 1,
+        parentRowIndex
+      })
+    })
+  })
+  return rows
+}
+
+/**
+ * A numbered question read from an exam paper
+ * Either `question` or `error` is set
+ */
+export interface WordQuestionBlock {
+  /** Question number as written in the document */
+  number: number
+  question: ParsedQuestion | null
+  /** Why the block could not be read as a question */
+  error: string | null
+}
+
+type WordQuestionKind = 'single' | 'multiple' | 'true-false'
+
+interface QuestionDraft {
+  number: number
+  stem: string[]
+  options: string[]
+  answer: string | null
+  explanation: string[]
+  /** Kind from a marker in the stem, e.g. （多选） */
+  marker: WordQuestionKind | null
+  /** Kind from the section heading, e.g. 二、多选题 */
+  section: WordQuestionKind | null
+}
+
+const QUESTION_START = /^(\d+)\s*[.．、)）]\s*(.*)$/
+const OPTION_LABEL = /(^|\s)([A-HＡ-Ｈ])\s*[.．、)）]\s*/g
+const ANSWER_LINE = /(?:正确答案|参考答案|答案)\s*[:：]\s*(.*)$/
+const EXPLANATION_LINE = /^(?:答案解析|解析)\s*[:：]\s*(.*)$/
+const SECTION_HEADING =
+  /^(?:[一二三四五六七八九十]+\s*[、.．]\s*)?[【[]?(单选|单项选择|多选|多项选择|判断)题/
+const KIND_MARKER = /[（(【[]\s*(单选|单项选择|多选|多项选择|判断)题?\s*[）)】\]]/
+// Judgement answers written at the end of the stem, e.g. "……。（√）"
+const TRAILING_JUDGEMENT = /[（(]\s*(√|×|✓|✗|对|错)\s*[）)]\s*$/
+const TRUE_ANSWERS = ['对', '正确', '√', '✓', 'T', 'TRUE', '是']
+const FALSE_ANSWERS = ['错', '错误', '×', '✗', 'X', 'F', 'FALSE', '否']
+
+function kindOf(label: string): WordQuestionKind {
+  if (label.startsWith('多')) return 'multiple'
+  if (label.startsWith('判断')) return 'true-false'
+  return 'single'
+}
+
+/**
+ * Section headings such as "二、多选题" or "判断题（每题 1 分）"
+ */
+function sectionKind(line: string): WordQuestionKind | null {
+  const match = line.match(SECTION_HEADING)
+  return match && line.length <= 30 ? kindOf(match[1]) : null
+}
+
+/**
+ * Flatten converted HTML into text lines
+ * Numbered lists lose their numbers in the HTML, so list items get them back:
+ * top-level items are numbered like questions, nested items lettered like options
+ */
+function htmlToLines(html: string): string[] {
+  // Soft line breaks often separate options inside one paragraph
+  const body = new DOMParser().parseFromString(html.replace(/<br\s*\/?>/gi, '\n'), 'text/html').body
+  const lines: string[] = []
+  let questionCounter = 0
+
+  const visitList = (list: Element, nested: boolean): void => {
+    let optionIndex = 0
+    for (const item of Array.from(list.children)) {
+      if (item.tagName !== 'LI') continue
+      const text = Array.from(item.childNodes)
+        .filter((node) => !(node instanceof Element && /^(OL|UL)$/.test(node.tagName)))
+        .map((node) => node.textContent || '')
+        .join('')
+        .trim()
+      if (nested) {
+        lines.push(`${String.fromCharCode(65 + optionIndex++)}. ${text}`)
+      } else if (QUESTION_START.test(text) || !text) {
+        lines.push(text)
+      } else {
+        lines.push(`${++questionCounter}. ${text}`)
+      }
+      for (const child of Array.from(item.children)) {
+        if (child.tagName === 'OL' || child.tagName === 'UL') visitList(child, true)
+      }
+    }
+  }
+
+  for (const block of Array.from(body.children)) {
+    if (block.tagName === 'OL' || block.tagName === 'UL') {
+      visitList(block, false)
+    } else {
+      lines.push(...(block.textContent || '').split('\n'))
+    }
+  }
+  return lines.map((line) => line.trim()).filter((line) => line)
+}
+
+/**
+ * Split a line holding one or more options ("A. 甲 B. 乙") into option texts
+ */
+function splitOptions(line: string): string[] {
+  const labels = Array.from(line.matchAll(OPTION_LABEL))
+  return labels.map((label, i) => {
+    const start = label.index! + label[0].length
+    const end = i + 1 < labels.length ? labels[i + 1].index! : line.length
+    return line.slice(start, end).trim()
+  })
+}
+
+function buildQuestion(draft: QuestionDraft): WordQuestionBlock {
+  const fail = (error: string): WordQuestionBlock => ({
+    number: draft.number,
+    question: null,
+    error
+  })
+
+  let text = draft.stem.join('\n').replace(KIND_MARKER, '').trim()
+  let answer = draft.answer?.trim() ?? ''
+  let kind = draft.marker ?? draft.section ?? (draft.options.length === 0 ? 'true-false' : null)
+  // Lettered options under a 判断题 heading still make a choice question
+  if (kind === 'true-false' && draft.options.length > 2) kind = null
+
+  if (kind === 'true-false' && draft.options.length === 0) {
+    const trailing = text.match(TRAILING_JUDGEMENT)
+    if (trailing) {
+      answer = answer || trailing[1]
+      text = text.slice(0, trailing.index).trim()
+    }
+  }
+  // Blank answer brackets at the end of a stem are only a placeholder
+  text = text.replace(/[（(]\s*[）)]\s*$/, '').trim()
+  if (!text) return fail('题干为空')
+  if (!answer) return fail('未找到答案（如“答案：B”）')
+
+  const explanation = draft.explanation.length
+    ? { explanation: plainTextToHtml(draft.explanation.join('\n')) }
+    : {}
+
+  if (kind === 'true-false') {
+    const normalized = answer.normalize('NFKC').toUpperCase()
+    let correctAnswer: number
+    if (TRUE_ANSWERS.includes(normalized) || normalized === 'A') {
+      correctAnswer = 0
+    } else if (FALSE_ANSWERS.includes(normalized) || normalized === 'B') {
+      correctAnswer = 1
+    } else {
+      return fail(`判断题答案"${answer}"无法识别，请写“对”或“错”`)
+    }
+    return {
+      number: draft.number,
+      question: {
+        text,
+        questionType: 'single',
+        optionType: 'true-false',
+        options: ['正确', '错误'],
+        correctAnswer,
+        ...explanation
+      },
+      error: null
+    }
+  }
+
+  if (draft.options.length === 0) return fail('未找到选项（A. … B. …）')
+  if (draft.options.length < MIN_OPTIONS) return fail(`至少需要 ${MIN_OPTIONS} 个选项`)
+  const letters = [...new Set(answer.normalize('NFKC').toUpperCase().match(/[A-Z]/g) ?? [])]
+  if (letters.length === 0) return fail(`答案"${answer}"无法识别，请写选项字母`)
+  const indexes = letters.map((letter) => letter.charCodeAt(0) - 65).sort((a, b) => a - b)
+  const outOfRange = letters.find((letter) => letter.charCodeAt(0) - 65 >= draft.options.length)
+  if (outOfRange) return fail(`答案 ${outOfRange} 超出了选项范围`)
+
+  // Several answer letters make a multiple choice question even without a marker
+  const isMultiple = kind === 'multiple' || indexes.length > 1
+  return {
+    number: draft.number,
+    question: {
+      text,
+      questionType: isMultiple ? 'multiple' : 'single',
+      optionType: 'letter-options',
+      options: draft.options,
+      correctAnswer: isMultiple ? indexes : indexes[0],
+      ...explanation
+    },
+    error: null
+  }
+}
+
+/**
+ * Read questions from an exam paper
+ * Recognizes numbered stems ("1. 题干"), A–H options (one per line or several on a line),
+ * 答案/正确答案 lines, optional 解析 lines, and 单选/多选/判断 section headings or stem markers
+ */
+export async function parseQuestionsFromWord(file: File): Promise<WordQuestionBlock[]> {
+  let lines: string[]
+  try {
+    lines = htmlToLines(await convertToHtml(file, false))
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : '未知错误'
+    throw new Error(`解析 Word 文档 "${file.name}" 失败：${errorMessage}`)
+  }
+
+  const blocks: WordQuestionBlock[] = []
+  let section: WordQuestionKind | null = null
+  let draft: QuestionDraft | null = null
+  // Explanations run until the next question
+  let inExplanation = false
+
+  for (const rawLine of lines) {
+    let line = rawLine
+    const start = line.match(QUESTION_START)
+    if (start) {
+      if (draft) blocks.push(buildQuestion(draft))
+      const marker = start[2].match(KIND_MARKER)
+      draft = {
+        number: Number(start[1]),
+        stem: [],
+        options: [],
+        answer: null,
+        explanation: [],
+        marker: marker ? kindOf(marker[1]) : null,
+        section
+      }
+      inExplanation = false
+      line = start[2]
+      if (!line) continue
+    } else if (!draft || draft.answer !== null) {
+      // Headings between questions
+      const kind = sectionKind(line)
+      if (kind) {
+        if (draft) blocks.push(buildQuestion(draft))
+        draft = null
+        section = kind
+        continue
+      }
+      if (!draft) continue
+    }
+
+    const explanationMatch = line.match(EXPLANATION_LINE)
+    if (explanationMatch) {
+      inExplanation = true
+      if (explanationMatch[1]) draft.explanation.push(explanationMatch[1])
+      continue
+    }
+    if (inExplanation) {
+      draft.explanation.push(line)
+      continue
+    }
+
+    // The answer may follow the options on the same line
+    const answerMatch = line.match(ANSWER_LINE)
+    if (answerMatch) {
+      draft.answer = answerMatch[1]
+      line = line.slice(0, answerMatch.index).trim()
+      if (!line) continue
+    }
+
+    const options = splitOptions(line)
+    if (options.length > 0 && line.search(OPTION_LABEL) === 0) {
+      draft.options.push(...options)
+    } else if (draft.options.length > 0) {
+      // Wrapped option text
+      draft.options[draft.options.length - 1] += line
+    } else {
+      draft.stem.push(line)
+    }
+  }
+  if (draft) blocks.push(buildQuestion(draft))
+  return blocks
+}
@@ -0,0 +1,400 @@
+/**
+ * Host Mode State Machine
+ * A presenter runs a team contest on the big screen: the presenter advances the questions,
+ * reveals the options one by one and starts the countdown; teams buzz in and the presenter
+ * judges the answer. Team scores carry over from round to round
+ * Flow: Idle → Question (options revealed one by one) → Countdown (buzzers open)
+ *       → Buzzed (clock paused) → Countdown again after a wrong answer, or Answer Revealed
+ *       → Next question / Round Over
+ *
+ * Kept apart from qaStateMachineReducer on purpose: that machine models one visitor picking
+ * and confirming an answer on screen, with attempts, grading and a persisted kiosk session.
+ * Here nobody answers on screen (teams answer aloud and the presenter judges), and the score
+ * belongs to teams across rounds. The question points rule is shared with the kiosk quiz
+ */
+
+import type { Question } from '../types/question'
+import { getQuestionPoints } from './qaStateMachine'
+
+/**
+ * State machine states
+ */
+export enum HostState {
+  /** Teams set up, no round running */
+  IDLE = 'IDLE',
+  /** Question on screen, the presenter reveals the options; buzzers are closed */
+  QUESTION = 'QUESTION',
+  /** Countdown running, buzzers open */
+  COUNTDOWN = 'COUNTDOWN',
+  /** A team buzzed in and answers; the clock is paused until the presenter judges */
+  BUZZED = 'BUZZED',
+  /** Correct answer shown */
+  ANSWER_REVEALED = 'ANSWER_REVEALED',
+  /** Last question of the round done, standings shown */
+  ROUND_OVER = 'ROUND_OVER'
+}
+
+export const MIN_TEAMS = 2
+export const MAX_TEAMS = 6
+
+/**
+ * Scoring and timing rules for a contest
+ */
+export interface HostRules {
+  /** Time allowed per question in seconds, counted only while buzzers are open */
+  questionSeconds: number
+  /** Points a correct answer earns, times the question's points */
+  correctPoints: number
+  /** Points a wrong answer loses (0 for no penalty) */
+  wrongPenalty: number
+}
+
+export const DEFAULT_HOST_RULES: HostRules = {
+  questionSeconds: 30,
+  correctPoints: 10,
+  wrongPenalty: 0
+}
+
+export interface HostTeam {
+  name: string
+  score: number
+}
+
+/**
+ * One buzz: which team buzzed in on which question and how the presenter judged it
+ */
+export interface HostBuzzRecord {
+  round: number
+  questionId: string
+  team: number
+  isCorrect: boolean
+  /** Points added to (or taken from) the team */
+  points: number
+  timestamp: number
+}
+
+/**
+ * Complete state machine context
+ */
+export interface HostContext {
+  state: HostState
+  teams: HostTeam[]
+  rules: HostRules
+  /** Number of the current (or last) round, 0 before the first */
+  round: number
+  questions: Question[]
+  currentQuestionIndex: number
+  /** Number of options of the current question shown so far */
+  revealedOptions: number
+  /** Countdown time left in milliseconds, kept while the clock is paused */
+  remainingMs: number
+  /** Absolute time the countdown runs out, null while it is not running */
+  countdownDeadline: number | null
+  /** Team that has the floor */
+  buzzedTeam: number | null
+  /** Teams that answered the current question wrong and may not buzz again */
+  lockedOutTeams: number[]
+  /** Team that answered the current question correctly */
+  winningTeam: number | null
+  /** Every judged buzz of the contest */
+  history: HostBuzzRecord[]
+  /** Questions put on screen so far, so a contest does not ask a question twice */
+  askedQuestionIds: string[]
+}
+
+/**
+ * State machine actions
+ */
+export type HostAction =
+  | { type: 'SET_TEAMS'; names: string[] }
+  | { type: 'START_ROUND'; questions: Question[]; rules?: HostRules }
+  | { type: 'REVEAL_OPTION' }
+  | { type: 'START_COUNTDOWN' }
+  | { type: 'BUZZ'; team: number }
+  | { type: 'JUDGE_ANSWER'; isCorrect: boolean }
+  | { type: 'TIMEOUT' }
+  | { type: 'REVEAL_ANSWER' }
+  | { type: 'NEXT_QUESTION' }
+  | { type: 'END_ROUND' }
+  | { type: 'ADJUST_SCORE'; team: number; delta: number }
+  | { type: 'RESET_CONTEST' }
+
+/**
+ * Initialize state machine context
+ */
+export function createInitialHostContext(): HostContext {
+  return {
+    state: HostState.IDLE,
+    teams: [],
+    rules: DEFAULT_HOST_RULES,
+    round: 0,
+    questions: [],
+    currentQuestionIndex: 0,
+    revealedOptions: 0,
+    remainingMs: 0,
+    countdownDeadline: null,
+    buzzedTeam: null,
+    lockedOutTeams: [],
+    winningTeam: null,
+    history: [],
+    askedQuestionIds: []
+  }
+}
+
+/**
+ * Whether buzzers are open for a team
+ */
+export function canTeamBuzz(context: HostContext, team: number): boolean {
+  return (
+    context.state === HostState.COUNTDOWN &&
+    team >= 0 &&
+    team < context.teams.length &&
+    !context.lockedOutTeams.includes(team)
+  )
+}
+
+/**
+ * Fields reset when moving to a question; the question counts as asked from here on
+ */
+function enterQuestion(
+  context: HostContext,
+  questions: Question[],
+  index: number,
+  rules: HostRules
+): Partial<HostContext> {
+  return {
+    state: HostState.QUESTION,
+    questions,
+    currentQuestionIndex: index,
+    askedQuestionIds: [...context.askedQuestionIds, questions[index].id],
+    revealedOptions: 0,
+    remainingMs: rules.questionSeconds * 1000,
+    countdownDeadline: null,
+    buzzedTeam: null,
+    lockedOutTeams: [],
+    winningTeam: null
+  }
+}
+
+/**
+ * Show the correct answer and every option; the clock stops
+ */
+function revealAnswer(context: HostContext, winningTeam: number | null): HostContext {
+  const question = context.questions[context.currentQuestionIndex]
+  return {
+    ...context,
+    state: HostState.ANSWER_REVEALED,
+    revealedOptions: question.options.length,
+    countdownDeadline: null,
+    buzzedTeam: null,
+    winningTeam
+  }
+}
+
+/**
+ * State machine reducer
+ * Handles state transitions based on actions
+ */
+export function hostStateMachineReducer(context: HostContext, action: HostAction): HostContext {
+  console.log(`[HostStateMachine] State: ${context.state}, Action: ${action.type}`)
+
+  switch (action.type) {
+    case 'SET_TEAMS': {
+      if (context.state !== HostState.IDLE && context.state !== HostState.ROUND_OVER) {
+        console.warn('[HostStateMachine] Cannot change teams during a round')
+        return context
+      }
+      if (action.names.length < MIN_TEAMS || action.names.length > MAX_TEAMS) {
+        console.error('[HostStateMachine] Invalid team count:', action.names.length)
+        return context
+      }
+
+      // Teams keep their score when only renamed; new teams start at zero
+      return {
+        ...context,
+        teams: action.names.map((name, index) => ({
+          name,
+          score: context.teams[index]?.score ?? 0
+        }))
+      }
+    }
+
+    case 'START_ROUND': {
+      if (context.state !== HostState.IDLE && context.state !== HostState.ROUND_OVER) {
+        console.warn('[HostStateMachine] Cannot start a round from current state')
+        return context
+      }
+      if (context.teams.length < MIN_TEAMS || action.questions.length === 0) {
+        console.error('[HostStateMachine] A round needs teams and questions')
+        return context
+      }
+
+      const rules = action.rules ?? context.rules
+      return {
+        ...context,
+        ...enterQuestion(context, action.questions, 0, rules),
+        rules,
+        round: context.round + 1
+      }
+    }
+
+    case 'REVEAL_OPTION': {
+      if (context.state !== HostState.QUESTION) {
+        console.warn('[HostStateMachine] Cannot reveal options in current state')
+        return context
+      }
+      const question = context.questions[context.currentQuestionIndex]
+      return {
+        ...context,
+        revealedOptions: Math.min(question.options.length, context.revealedOptions + 1)
+      }
+    }
+
+    case 'START_COUNTDOWN': {
+      if (context.state !== HostState.QUESTION) {
+        console.warn('[HostStateMachine] Cannot start countdown in current state')
+        return context
+      }
+      // Teams answer with every option in view
+      const question = context.questions[context.currentQuestionIndex]
+      return {
+        ...context,
+        state: HostState.COUNTDOWN,
+        revealedOptions: question.options.length,
+        countdownDeadline: Date.now() + context.remainingMs
+      }
+    }
+
+    case 'BUZZ': {
+      // Only the first buzz counts; later ones land in BUZZED and are ignored
+      if (!canTeamBuzz(context, action.team)) {
+        console.warn('[HostStateMachine] Buzz ignored for team:', action.team)
+        return context
+      }
+      return {
+        ...context,
+        state: HostState.BUZZED,
+        buzzedTeam: action.team,
+        remainingMs: Math.max(0, (context.countdownDeadline ?? Date.now()) - Date.now()),
+        countdownDeadline: null
+      }
+    }
+
+    case 'JUDGE_ANSWER': {
+      if (context.state !== HostState.BUZZED || context.buzzedTeam === null) {
+        console.warn('[HostStateMachine] Cannot judge an answer in current state')
+        return context
+      }
+
+      const team = context.buzzedTeam
+      const question = context.questions[context.currentQuestionIndex]
+      const points = action.isCorrect
+        ? context.rules.correctPoints * getQuestionPoints(question)
+        : -context.rules.wrongPenalty
+      const judged: HostContext = {
+        ...context,
+        teams: context.teams.map((other, index) =>
+          index === team ? { ...other, score: other.score + points } : other
+        ),
+        history: [
+          ...context.history,
+          {
+            round: context.round,
+            questionId: question.id,
+            team,
+            isCorrect: action.isCorrect,
+            points,
+            timestamp: Date.now()
+          }
+        ]
+      }
+
+      if (action.isCorrect) {
+        return revealAnswer(judged, team)
+      }
+
+      // Wrong: the team sits out the rest of the question and the others may buzz again
+      const lockedOutTeams = [...context.lockedOutTeams, team]
+      if (lockedOutTeams.length >= context.teams.length || context.remainingMs <= 0) {
+        return revealAnswer({ ...judged, lockedOutTeams }, null)
+      }
+      return {
+        ...judged,
+        state: HostState.COUNTDOWN,
+        buzzedTeam: null,
+        lockedOutTeams,
+        countdownDeadline: Date.now() + context.remainingMs
+      }
+    }
+
+    case 'TIMEOUT': {
+      if (context.state !== HostState.COUNTDOWN) {
+        console.warn('[HostStateMachine] Cannot time out in current state')
+        return context
+      }
+      return revealAnswer({ ...context, remainingMs: 0 }, null)
+    }
+
+    case 'REVEAL_ANSWER': {
+      // The presenter may skip to the answer, e.g. when no team wants to buzz
+      if (
+        context.state !== HostState.QUESTION &&
+        context.state !== HostState.COUNTDOWN &&
+        context.state !== HostState.BUZZED
+      ) {
+        console.warn('[HostStateMachine] Cannot reveal the answer in current state')
+        return context
+      }
+      return revealAnswer(context, null)
+    }
+
+    case 'NEXT_QUESTION': {
+      if (context.state !== HostState.ANSWER_REVEALED) {
+        console.warn('[HostStateMachine] Cannot advance to next question in current state')
+        return context
+      }
+
+      const nextIndex = context.currentQuestionIndex + 1
+      if (nextIndex >= context.questions.length) {
+        return { ...context, state: HostState.ROUND_OVER }
+      }
+      return { ...context, ...enterQuestion(context, context.questions, nextIndex, context.rules) }
+    }
+
+    case 'END_ROUND': {
+      // The presenter may stop a round early; the questions not reached stay available
+      // to later rounds
+      if (context.state === HostState.IDLE || context.state === HostState.ROUND_OVER) {
+        console.warn('[HostStateMachine] No round to end')
+        return context
+      }
+      return {
+        ...context,
+        state: HostState.ROUND_OVER,
+        countdownDeadline: null,
+        buzzedTeam: null
+      }
+    }
+
+    case 'ADJUST_SCORE': {
+      // Manual correction by the presenter, allowed at any time
+      if (action.team < 0 || action.team >= context.teams.length) {
+        console.error('[HostStateMachine] Invalid team:', action.team)
+        return context
+      }
+      return {
+        ...context,
+        teams: context.teams.map((team, index) =>
+          index === action.team ? { ...team, score: team.score + action.delta } : team
+        )
+      }
+    }
+
+    case 'RESET_CONTEST': {
+      return createInitialHostContext()
+    }
+
+    default:
+      return context
+  }
+}
@@ -0,0 +1,377 @@
+/**
+ * Head-to-Head Match State Machine
+ * 2-4 players answer the same questions on one screen
+ * Flow: Idle → Question (everyone answers) → Reveal (all answers at once) → Scoreboard → Next/Finished
+ */
+
+import type { Question } from '../types/question'
+import { isAnswerCorrect } from './qaStateMachine'
+
+/**
+ * State machine states
+ */
+export enum MatchState {
+  /** Before the match starts */
+  IDLE = 'IDLE',
+  /** Question on screen, players answering */
+  QUESTION = 'QUESTION',
+  /** Every player has answered or time ran out; answers and the correct answer are shown */
+  REVEAL = 'REVEAL',
+  /** Standings between questions */
+  SCOREBOARD = 'SCOREBOARD',
+  /** Last question done, winner screen */
+  FINISHED = 'FINISHED'
+}
+
+export const MIN_PLAYERS = 2
+export const MAX_PLAYERS = 4
+
+/**
+ * Most options a match question can have: every player answers with a block of four keys
+ */
+export const MATCH_MAX_OPTIONS = 4
+
+/**
+ * Points for a correct answer, and the most a fast answer earns on top of them
+ * (the bonus shrinks with the time used; wrong and missing answers earn nothing)
+ */
+export const MATCH_CORRECT_POINTS = 100
+export const MATCH_SPEED_POINTS = 100
+
+/**
+ * Rules for a match
+ */
+export interface MatchRules {
+  /** Time allowed per question in seconds */
+  questionSeconds: number
+  /** Reward faster correct answers with extra points */
+  speedBonus: boolean
+}
+
+export const DEFAULT_MATCH_RULES: MatchRules = { questionSeconds: 20, speedBonus: true }
+
+/**
+ * A player's answer to the current question
+ */
+export interface MatchPlayerAnswer {
+  /** Option picked (single choice) or options picked so far (multiple choice), null if none */
+  selectedAnswer: number | number[] | null
+  /** When the answer was locked in, null while the player is still answering */
+  lockedAt: number | null
+}
+
+/**
+ * A player's outcome for the current question, set at the reveal
+ */
+export interface MatchRoundResult {
+  /** Locked in answer, null if the player did not answer in time */
+  selectedAnswer: number | number[] | null
+  isCorrect: boolean
+  pointsEarned: number
+  /** Milliseconds from the question appearing to the answer being locked in */
+  timeSpent: number | null
+}
+
+/**
+ * A player's standing over the whole match
+ */
+export interface MatchPlayer {
+  score: number
+  correctCount: number
+  /** Total time of the correct answers in milliseconds; the faster player wins a tie */
+  correctTime: number
+}
+
+/**
+ * Complete state machine context
+ */
+export interface MatchContext {
+  state: MatchState
+  questions: Question[]
+  currentQuestionIndex: number
+  rules: MatchRules
+  players: MatchPlayer[]
+  /** Answers to the current question, by player */
+  answers: MatchPlayerAnswer[]
+  /** Outcome of the current question by player, empty until the reveal */
+  roundResults: MatchRoundResult[]
+  /** When the current question appeared */
+  questionStartedAt: number
+}
+
+/**
+ * State machine actions
+ */
+export type MatchAction =
+  | { type: 'START_MATCH'; questions: Question[]; playerCount: number; rules?: MatchRules }
+  | { type: 'SELECT_ANSWER'; player: number; answerIndex: number }
+  | { type: 'CONFIRM_ANSWER'; player: number }
+  | { type: 'TIMEOUT' }
+  | { type: 'SHOW_SCOREBOARD' }
+  | { type: 'NEXT_QUESTION' }
+  | { type: 'RESET_MATCH' }
+
+/**
+ * Initialize state machine context
+ */
+export function createInitialMatchContext(): MatchContext {
+  return {
+    state: MatchState.IDLE,
+    questions: [],
+    currentQuestionIndex: 0,
+    rules: DEFAULT_MATCH_RULES,
+    players: [],
+    answers: [],
+    roundResults: [],
+    questionStartedAt: 0
+  }
+}
+
+/**
+ * Whether a question can be played in a match: single or multiple choice
+ * with no more options than a key block has keys
+ */
+export function isMatchQuestion(question: Question): boolean {
+  return (
+    (question.questionType === 'single' || question.questionType === 'multiple') &&
+    question.options.length <= MATCH_MAX_OPTIONS
+  )
+}
+
+/**
+ * Absolute time the current question runs out
+ */
+export function getMatchDeadline(context: MatchContext): number {
+  return context.questionStartedAt + context.rules.questionSeconds * 1000
+}
+
+/**
+ * Player order for the scoreboard: by score, then by the time taken for the correct answers
+ * Players level on both share a rank
+ */
+export function getMatchStandings(
+  context: MatchContext
+): { player: number; rank: number; standing: MatchPlayer }[] {
+  const sorted = context.players
+    .map((standing, player) => ({ player, standing }))
+    .sort(
+      (a, b) =>
+        b.standing.score - a.standing.score || a.standing.correctTime - b.standing.correctTime
+    )
+  return sorted.map((entry) => ({
+    ...entry,
+    rank:
+      sorted.findIndex(
+        (other) =>
+          other.standing.score === entry.standing.score &&
+          other.standing.correctTime === entry.standing.correctTime
+      ) + 1
+  }))
+}
+
+/**
+ * Points a correct answer earns after the given time
+ */
+function getAnswerPoints(rules: MatchRules, timeSpent: number): number {
+  if (!rules.speedBonus) {
+    return MATCH_CORRECT_POINTS
+  }
+  const remaining = Math.max(0, 1 - timeSpent / (rules.questionSeconds * 1000))
+  return MATCH_CORRECT_POINTS + Math.round(MATCH_SPEED_POINTS * remaining)
+}
+
+/**
+ * Fields reset when moving to a question
+ */
+function enterQuestion(index: number, playerCount: number, now: number): Partial<MatchContext> {
+  return {
+    state: MatchState.QUESTION,
+    currentQuestionIndex: index,
+    answers: Array.from({ length: playerCount }, () => ({ selectedAnswer: null, lockedAt: null })),
+    roundResults: [],
+    questionStartedAt: now
+  }
+}
+
+/**
+ * Score the locked in answers and reveal them all at once
+ * Answers not locked in by the reveal (e.g. unconfirmed multiple choice picks) do not count
+ */
+function reveal(context: MatchContext): MatchContext {
+  const question = context.questions[context.currentQuestionIndex]
+  const roundResults = context.answers.map((answer): MatchRoundResult => {
+    if (answer.lockedAt === null || answer.selectedAnswer === null) {
+      return { selectedAnswer: null, isCorrect: false, pointsEarned: 0, timeSpent: null }
+    }
+    const timeSpent = answer.lockedAt - context.questionStartedAt
+    const isCorrect = isAnswerCorrect(question, answer.selectedAnswer)
+    return {
+      selectedAnswer: answer.selectedAnswer,
+      isCorrect,
+      pointsEarned: isCorrect ? getAnswerPoints(context.rules, timeSpent) : 0,
+      timeSpent
+    }
+  })
+
+  return {
+    ...context,
+    state: MatchState.REVEAL,
+    roundResults,
+    players: context.players.map((player, index) => {
+      const result = roundResults[index]
+      return result.isCorrect
+        ? {
+            score: player.score + result.pointsEarned,
+            correctCount: player.correctCount + 1,
+            correctTime: player.correctTime + (result.timeSpent ?? 0)
+          }
+        : player
+    })
+  }
+}
+
+/**
+ * Lock in a player's answer; the last player to answer triggers the reveal
+ */
+function lockAnswer(
+  context: MatchContext,
+  player: number,
+  selectedAnswer: number | number[],
+  now: number
+): MatchContext {
+  const answers = context.answers.map((answer, index) =>
+    index === player ? { selectedAnswer, lockedAt: now } : answer
+  )
+  const next = { ...context, answers }
+  return answers.every((answer) => answer.lockedAt !== null) ? reveal(next) : next
+}
+
+/**
+ * State machine reducer
+ * Handles state transitions based on actions
+ */
+export function matchStateMachineReducer(context: MatchContext, action: MatchAction): MatchContext {
+  console.log(`[MatchStateMachine] State: ${context.state}, Action: ${action.type}`)
+
+  switch (action.type) {
+    case 'START_MATCH': {
+      if (context.state !== MatchState.IDLE) {
+        console.warn('[MatchStateMachine] Cannot start match from current state')
+        return context
+      }
+      if (action.questions.length === 0) {
+        console.error('[MatchStateMachine] Cannot start a match without questions')
+        return context
+      }
+
+      const playerCount = Math.min(MAX_PLAYERS, Math.max(MIN_PLAYERS, action.playerCount))
+      return {
+        ...context,
+        ...enterQuestion(0, playerCount, Date.now()),
+        questions: action.questions,
+        rules: action.rules ?? DEFAULT_MATCH_RULES,
+        players: Array.from({ length: playerCount }, () => ({
+          score: 0,
+          correctCount: 0,
+          correctTime: 0
+        }))
+      }
+    }
+
+    case 'SELECT_ANSWER': {
+      if (context.state !== MatchState.QUESTION) {
+        console.warn('[MatchStateMachine] Cannot select answer in current state')
+        return context
+      }
+
+      const answer = context.answers[action.player]
+      if (!answer || answer.lockedAt !== null) {
+        console.warn('[MatchStateMachine] Player cannot answer:', action.player)
+        return context
+      }
+
+      const question = context.questions[context.currentQuestionIndex]
+      if (
+        !Number.isInteger(action.answerIndex) ||
+        action.answerIndex < 0 ||
+        action.answerIndex >= question.options.length
+      ) {
+        console.error('[MatchStateMachine] Invalid answer index:', action.answerIndex)
+        return context
+      }
+
+      // Single choice: the first pick is final, so speed counts
+      if (question.questionType !== 'multiple') {
+        return lockAnswer(context, action.player, action.answerIndex, Date.now())
+      }
+
+      // Multiple choice: toggle the option; the player confirms when done
+      const selected = Array.isArray(answer.selectedAnswer) ? answer.selectedAnswer : []
+      const next = selected.includes(action.answerIndex)
+        ? selected.filter((index) => index !== action.answerIndex)
+        : [...selected, action.answerIndex].sort()
+      return {
+        ...context,
+        answers: context.answers.map((other, index) =>
+          index === action.player
+            ? { ...other, selectedAnswer: next.length > 0 ? next : null }
+            : other
+        )
+      }
+    }
+
+    case 'CONFIRM_ANSWER': {
+      if (context.state !== MatchState.QUESTION) {
+        console.warn('[MatchStateMachine] Cannot confirm answer in current state')
+        return context
+      }
+
+      const answer = context.answers[action.player]
+      if (!answer || answer.lockedAt !== null || answer.selectedAnswer === null) {
+        console.warn('[MatchStateMachine] Player has no answer to confirm:', action.player)
+        return context
+      }
+
+      return lockAnswer(context, action.player, answer.selectedAnswer, Date.now())
+    }
+
+    case 'TIMEOUT': {
+      if (context.state !== MatchState.QUESTION) {
+        console.warn('[MatchStateMachine] Cannot time out in current state')
+        return context
+      }
+      return reveal(context)
+    }
+
+    case 'SHOW_SCOREBOARD': {
+      if (context.state !== MatchState.REVEAL) {
+        console.warn('[MatchStateMachine] Cannot show scoreboard in current state')
+        return context
+      }
+
+      const isLastQuestion = context.currentQuestionIndex >= context.questions.length - 1
+      return {
+        ...context,
+        state: isLastQuestion ? MatchState.FINISHED : MatchState.SCOREBOARD
+      }
+    }
+
+    case 'NEXT_QUESTION': {
+      if (context.state !== MatchState.SCOREBOARD) {
+        console.warn('[MatchStateMachine] Cannot advance to next question in current state')
+        return context
+      }
+      return {
+        ...context,
+        ...enterQuestion(context.currentQuestionIndex + 1, context.players.length, Date.now())
+      }
+    }
+
+    case 'RESET_MATCH': {
+      return createInitialMatchContext()
+    }
+
+    default:
+      return context
+  }
+}
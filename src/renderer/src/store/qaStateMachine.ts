@@ -3,7 +3,9 @@
  * Manages the flow: Idle → Question Display → Answer Selected → Confirmed → Animation → Next/Complete
  */
 
-import type { Question, Answer, SessionResults } from '../types/question'
+import type { Question, Answer, AnswerOutcome, Grade, SessionResults } from '../types/question'
+import { isValidOptionIndex } from '../utils/questionOptions'
+import { countBlanks, isBlankAnswerAccepted } from '../utils/questionTypes'
 
 /**
  * State machine states
@@ -23,6 +25,47 @@ export enum QAState {
   COMPLETED = 'COMPLETED'
 }
 
+/**
+ * Time limits in seconds, 0 disables the limit
+ */
+export interface QATimeLimits {
+  /** Time allowed per question (shared by retries of the same question) */
+  questionSeconds: number
+  /** Time allowed for the whole session */
+  sessionSeconds: number
+}
+
+export const NO_TIME_LIMITS: QATimeLimits = { questionSeconds: 0, sessionSeconds: 0 }
+
+/**
+ * What happens after a wrong answer
+ * - unlimited: retry the question until it is answered correctly
+ * - limited: retry up to maxAttempts, then reveal the correct answer and move on
+ * - exam: every question is answered exactly once
+ */
+export type RetryMode = 'unlimited' | 'limited' | 'exam'
+
+/**
+ * Scoring and retry policy for a session
+ * Only the first attempt at a question is scored; retries are for practice
+ */
+export interface QAScoringPolicy {
+  retryMode: RetryMode
+  /** Attempts allowed per question in limited mode */
+  maxAttempts: number
+  /**
+   * Award a share of the points for multiple choice answers that pick only correct options,
+   * and for fill-blank and ordering answers that are partly right
+   */
+  partialCredit: boolean
+}
+
+export const DEFAULT_SCORING_POLICY: QAScoringPolicy = {
+  retryMode: 'unlimited',
+  maxAttempts: 3,
+  partialCredit: false
+}
+
 /**
  * Complete state machine context
  */
@@ -33,12 +76,29 @@ export interface QAStateMachineContext {
   questions: Question[]
   /** Current question index */
   currentQuestionIndex: number
-  /** Currently selected answer(s) - single number for single choice, array for multiple choice, null if none selected */
+  /**
+   * Currently selected answer(s) - single number for single choice, array for multiple choice,
+   * tiles placed so far for fill-blank, the arranged options for ordering; null if none selected
+   */
   selectedAnswer: number | number[] | null
   /** Whether current answer is locked (cannot change after confirmation) */
   isAnswerLocked: boolean
   /** Whether last confirmed answer was correct (used for animation routing) */
   lastAnswerCorrect: boolean | null
+  /** Outcome of the last confirmed/timed out attempt (used for animation routing) */
+  lastOutcome: AnswerOutcome | null
+  /** Time limits for this session */
+  timeLimits: QATimeLimits
+  /** Scoring and retry policy for this session */
+  scoring: QAScoringPolicy
+  /** Whether the last attempt ended the current question (no retry follows) */
+  questionClosed: boolean
+  /** When the current attempt at the current question started */
+  questionStartedAt: number
+  /** Time already used on the current question by earlier (wrong) attempts, in milliseconds */
+  questionElapsed: number
+  /** Absolute time the session runs out, null without a session limit */
+  sessionDeadline: number | null
   /** Session results */
   results: SessionResults
   /** Error message if any */
@@ -49,10 +109,17 @@ export interface QAStateMachineContext {
  * State machine actions
  */
 export type QAAction =
-  | { type: 'START_SESSION'; questions: Question[] }
+  | {
+      type: 'START_SESSION'
+      questions: Question[]
+      timeLimits?: QATimeLimits
+      scoring?: QAScoringPolicy
+    }
   | { type: 'RESTORE_STATE'; restoredContext: QAStateMachineContext }
   | { type: 'SELECT_ANSWER'; answerIndex: number }
+  | { type: 'ARRANGE_ANSWER'; order: number[] }
   | { type: 'CONFIRM_ANSWER' }
+  | { type: 'TIMEOUT' }
   | { type: 'START_ANIMATION' }
   | { type: 'ANIMATION_COMPLETE' }
   | { type: 'NEXT_QUESTION' }
@@ -72,16 +139,136 @@ export function createInitialContext(): QAStateMachineContext {
     selectedAnswer: null,
     isAnswerLocked: false,
     lastAnswerCorrect: null,
-    results: {
-      answers: [],
-      correctCount: 0,
-      totalAnswered: 0,
-      startTime: 0
-    },
+    lastOutcome: null,
+    timeLimits: NO_TIME_LIMITS,
+    scoring: DEFAULT_SCORING_POLICY,
+    questionClosed: false,
+    questionStartedAt: 0,
+    questionElapsed: 0,
+    sessionDeadline: null,
+    results: createEmptyResults(0),
     error: null
   }
 }
 
+function createEmptyResults(startTime: number, maxScore = 0, sessionId = ''): SessionResults {
+  return {
+    sessionId,
+    answers: [],
+    correctCount: 0,
+    totalAnswered: 0,
+    score: 0,
+    maxScore,
+    timedOutCount: 0,
+    unansweredCount: 0,
+    totalAnswerTime: 0,
+    startTime
+  }
+}
+
+/**
+ * Absolute time the current question runs out, null without a question limit
+ * Only meaningful while the question is displayed (the clock pauses during feedback)
+ */
+export function getQuestionDeadline(context: QAStateMachineContext): number | null {
+  if (context.timeLimits.questionSeconds <= 0) {
+    return null
+  }
+  return (
+    context.questionStartedAt + context.timeLimits.questionSeconds * 1000 - context.questionElapsed
+  )
+}
+
+function isSessionExpired(context: QAStateMachineContext, now: number): boolean {
+  return context.sessionDeadline !== null && now >= context.sessionDeadline
+}
+
+/**
+ * Fields reset when moving to a (different) question
+ */
+function enterQuestion(index: number, now: number): Partial<QAStateMachineContext> {
+  return {
+    state: QAState.QUESTION_DISPLAY,
+    currentQuestionIndex: index,
+    selectedAnswer: null,
+    isAnswerLocked: false,
+    lastAnswerCorrect: null,
+    lastOutcome: null,
+    questionClosed: false,
+    questionStartedAt: now,
+    questionElapsed: 0
+  }
+}
+
+/**
+ * Finalize results: record never-attempted questions as unanswered and compute timing stats
+ */
+function completeResults(context: QAStateMachineContext, now: number): SessionResults {
+  const attempted = new Set(context.results.answers.map((a) => a.questionId))
+  const unanswered: Answer[] = context.questions
+    .filter((q) => !attempted.has(q.id))
+    .map((q) => ({
+      questionId: q.id,
+      selectedAnswer: null,
+      isCorrect: false,
+      outcome: 'unanswered',
+      attempt: 0,
+      credit: 0,
+      pointsEarned: 0,
+      timeSpent: 0,
+      timestamp: now
+    }))
+
+  const timedAttempts = context.results.answers.filter((a) => a.outcome !== 'unanswered').length
+
+  return {
+    ...context.results,
+    answers: [...context.results.answers, ...unanswered],
+    unansweredCount: context.results.unansweredCount + unanswered.length,
+    averageAnswerTime:
+      timedAttempts > 0 ? Math.round(context.results.totalAnswerTime / timedAttempts) : undefined,
+    grade: getGrade(context.results.score, context.results.maxScore),
+    endTime: now
+  }
+}
+
+/**
+ * Grade for a score, undefined when the session carries no points
+ */
+export function getGrade(score: number, maxScore: number): Grade | undefined {
+  if (maxScore <= 0) {
+    return undefined
+  }
+  const ratio = score / maxScore
+  if (ratio >= 0.9) return 'excellent'
+  if (ratio >= 0.75) return 'good'
+  if (ratio >= 0.6) return 'pass'
+  return 'fail'
+}
+
+/**
+ * Whether the feedback for the last attempt should show the correct answer
+ * (the question ended without a correct answer and the policy is not exam mode)
+ */
+export function shouldRevealAnswer(context: QAStateMachineContext): boolean {
+  return (
+    context.questionClosed &&
+    context.lastAnswerCorrect === false &&
+    context.scoring.retryMode !== 'exam'
+  )
+}
+
+/**
+ * Points a question is worth (defaults to 1)
+ */
+export function getQuestionPoints(question: Question): number {
+  return Math.max(0, question.points ?? 1)
+}
+
+function countAttempts(context: QAStateMachineContext, questionId: string): number {
+  return context.results.answers.filter((a) => a.questionId === questionId).length
+}
+
 /**
  * Get current question
  */
@@ -89,12 +276,41 @@ function getCurrentQuestion(context: QAStateMachineContext): Question | undefine
   return context.questions[context.currentQuestionIndex]
 }
 
+/**
+ * Number of blanks or positions of a fill-blank or ordering answer that are right
+ */
+function countCorrectPositions(question: Question, selectedAnswer: number[]): number {
+  if (question.questionType === 'fill-blank') {
+    return selectedAnswer.filter((tile, blank) => isBlankAnswerAccepted(question, blank, tile))
+      .length
+  }
+  const correctOrder = Array.isArray(question.correctAnswer) ? question.correctAnswer : []
+  return selectedAnswer.filter((index, position) => index === correctOrder[position]).length
+}
+
+/**
+ * Number of blanks or positions a fill-blank or ordering answer has to fill
+ */
+function getAnswerLength(question: Question): number {
+  return question.questionType === 'fill-blank'
+    ? countBlanks(question.text)
+    : question.options.length
+}
+
 /**
  * Check if answer is correct
- * Supports both single choice (number) and multiple choice (number[])
+ * Supports single choice (number), multiple choice (number[], any order)
+ * and fill-blank/ordering (number[], in order)
  */
-function isAnswerCorrect(question: Question, selectedAnswer: number | number[]): boolean {
-  if (question.questionType === 'multiple') {
+export function isAnswerCorrect(question: Question, selectedAnswer: number | number[]): boolean {
+  if (question.questionType === 'fill-blank' || question.questionType === 'ordering') {
+    const selectedAnswers = Array.isArray(selectedAnswer) ? selectedAnswer : [selectedAnswer]
+    const length = getAnswerLength(question)
+    return (
+      selectedAnswers.length === length &&
+      countCorrectPositions(question, selectedAnswers) === length
+    )
+  } else if (question.questionType === 'multiple') {
     // Multiple choice: compare arrays (order doesn't matter)
     const correctAnswers = Array.isArray(question.correctAnswer)
       ? question.correctAnswer
@@ -121,6 +337,38 @@ function isAnswerCorrect(question: Question, selectedAnswer: number | number[]):
   }
 }
 
+/**
+ * Share of the points an answer deserves
+ * With partial credit, a multiple choice answer that picks only correct options
+ * earns the fraction of correct options picked; any wrong pick earns nothing.
+ * Fill-blank and ordering answers earn the fraction of blanks or positions that are right
+ */
+function getAnswerCredit(
+  question: Question,
+  selectedAnswer: number | number[],
+  partialCredit: boolean
+): number {
+  if (isAnswerCorrect(question, selectedAnswer)) {
+    return 1
+  }
+  if (!partialCredit || question.questionType === 'single') {
+    return 0
+  }
+  if (question.questionType === 'fill-blank' || question.questionType === 'ordering') {
+    const selectedAnswers = Array.isArray(selectedAnswer) ? selectedAnswer : [selectedAnswer]
+    return countCorrectPositions(question, selectedAnswers) / getAnswerLength(question)
+  }
+
+  const correctAnswers = Array.isArray(question.correctAnswer)
+    ? question.correctAnswer
+    : [question.correctAnswer]
+  const selectedAnswers = Array.isArray(selectedAnswer) ? selectedAnswer : [selectedAnswer]
+  if (selectedAnswers.some((idx) => !correctAnswers.includes(idx))) {
+    return 0
+  }
+  return selectedAnswers.length / correctAnswers.length
+}
+
 /**
  * State machine reducer
  * Handles state transitions based on actions
@@ -138,20 +386,22 @@ export function qaStateMachineReducer(
         return context
       }
 
+      const now = Date.now()
+      const timeLimits = action.timeLimits ?? NO_TIME_LIMITS
+      const maxScore = action.questions.reduce((sum, q) => sum + getQuestionPoints(q), 0)
       return {
         ...context,
-        state: QAState.QUESTION_DISPLAY,
+        ...enterQuestion(0, now),
         questions: action.questions,
-        currentQuestionIndex: 0,
-        selectedAnswer: null,
-        isAnswerLocked: false,
-        lastAnswerCorrect: null,
-        results: {
-          answers: [],
-          correctCount: 0,
-          totalAnswered: 0,
-          startTime: Date.now()
-        },
+        timeLimits,
+        scoring: action.scoring ?? DEFAULT_SCORING_POLICY,
+        sessionDeadline:
+          timeLimits.sessionSeconds > 0 ? now + timeLimits.sessionSeconds * 1000 : null,
+        results: createEmptyResults(
+          now,
+          maxScore,
+          `session_${now}_${Math.random().toString(36).slice(2, 11)}`
+        ),
         error: null
       }
     }
@@ -174,22 +424,40 @@ export function qaStateMachineReducer(
         return context
       }
 
-      // Validate answer index
-      if (![0, 1, 2, 3].includes(action.answerIndex)) {
-        console.error('[StateMachine] Invalid answer index:', action.answerIndex)
-        return context
-      }
-
       const currentQuestion = getCurrentQuestion(context)
       if (!currentQuestion) {
         console.error('[StateMachine] No current question')
         return context
       }
 
+      // Validate answer index
+      if (!isValidOptionIndex(action.answerIndex, currentQuestion.options.length)) {
+        console.error('[StateMachine] Invalid answer index:', action.answerIndex)
+        return context
+      }
+
       // Handle selection based on question type
       let newSelectedAnswer: number | number[] | null
 
-      if (currentQuestion.questionType === 'multiple') {
+      if (currentQuestion.questionType === 'ordering') {
+        console.warn('[StateMachine] Ordering questions are answered with ARRANGE_ANSWER')
+        return context
+      } else if (currentQuestion.questionType === 'fill-blank') {
+        // Fill-blank: a tile goes into the next empty blank; picking a placed tile takes it back
+        // and moves the tiles after it up one blank
+        const placed = Array.isArray(context.selectedAnswer) ? context.selectedAnswer : []
+        if (placed.includes(action.answerIndex)) {
+          newSelectedAnswer = placed.filter((idx) => idx !== action.answerIndex)
+        } else if (placed.length < countBlanks(currentQuestion.text)) {
+          newSelectedAnswer = [...placed, action.answerIndex]
+        } else {
+          console.warn('[StateMachine] All blanks are already filled')
+          return context
+        }
+        if (newSelectedAnswer.length === 0) {
+          newSelectedAnswer = null
+        }
+      } else if (currentQuestion.questionType === 'multiple') {
         // Multiple choice: toggle selection
         const currentSelected = Array.isArray(context.selectedAnswer)
           ? context.selectedAnswer
@@ -220,6 +488,41 @@ export function qaStateMachineReducer(
       }
     }
 
+    case 'ARRANGE_ANSWER': {
+      if (context.state !== QAState.QUESTION_DISPLAY && context.state !== QAState.ANSWER_SELECTED) {
+        console.warn('[StateMachine] Cannot arrange answer in current state')
+        return context
+      }
+
+      if (context.isAnswerLocked) {
+        console.warn('[StateMachine] Answer is locked, cannot change')
+        return context
+      }
+
+      const currentQuestion = getCurrentQuestion(context)
+      if (!currentQuestion || currentQuestion.questionType !== 'ordering') {
+        console.error('[StateMachine] Current question is not an ordering question')
+        return context
+      }
+
+      // The arrangement must use every option exactly once
+      const optionCount = currentQuestion.options.length
+      const isPermutation =
+        action.order.length === optionCount &&
+        new Set(action.order).size === optionCount &&
+        action.order.every((index) => isValidOptionIndex(index, optionCount))
+      if (!isPermutation) {
+        console.error('[StateMachine] Invalid arrangement:', action.order)
+        return context
+      }
+
+      return {
+        ...context,
+        state: QAState.ANSWER_SELECTED,
+        selectedAnswer: action.order
+      }
+    }
+
     case 'CONFIRM_ANSWER': {
       if (context.state !== QAState.ANSWER_SELECTED) {
         console.warn('[StateMachine] Cannot confirm answer in current state')
@@ -248,22 +551,47 @@ export function qaStateMachineReducer(
         }
       }
 
-      const isCorrect = isAnswerCorrect(currentQuestion, context.selectedAnswer)
+      // Fill-blank answers need a tile in every blank
+      if (
+        currentQuestion.questionType === 'fill-blank' &&
+        (!Array.isArray(context.selectedAnswer) ||
+          context.selectedAnswer.length !== countBlanks(currentQuestion.text))
+      ) {
+        console.error('[StateMachine] Fill-blank question requires every blank to be filled')
+        return context
+      }
+
+      const { scoring } = context
+      const credit = getAnswerCredit(currentQuestion, context.selectedAnswer, scoring.partialCredit)
+      const isCorrect = credit === 1
+      const attempt = countAttempts(context, currentQuestion.id) + 1
+      // Only the first attempt counts towards the score; keep two decimals for partial credit
+      const pointsEarned =
+        attempt === 1 ? Math.round(credit * getQuestionPoints(currentQuestion) * 100) / 100 : 0
+      const now = Date.now()
+      const timeSpent = now - context.questionStartedAt
 
       // Create answer record
       const answer: Answer = {
         questionId: currentQuestion.id,
         selectedAnswer: context.selectedAnswer,
         isCorrect,
-        timestamp: Date.now()
+        outcome: 'answered',
+        attempt,
+        credit,
+        pointsEarned,
+        timeSpent,
+        timestamp: now
       }
 
       // Update results
       const newResults: SessionResults = {
+        ...context.results,
         answers: [...context.results.answers, answer],
-        correctCount: context.results.correctCount + (isCorrect ? 1 : 0),
+        correctCount: context.results.correctCount + (isCorrect && attempt === 1 ? 1 : 0),
         totalAnswered: context.results.totalAnswered + 1,
-        startTime: context.results.startTime
+        score: context.results.score + pointsEarned,
+        totalAnswerTime: context.results.totalAnswerTime + timeSpent
       }
 
       return {
@@ -271,10 +599,64 @@ export function qaStateMachineReducer(
         state: QAState.CONFIRMED,
         isAnswerLocked: true,
         lastAnswerCorrect: isCorrect, // Save whether answer was correct
+        lastOutcome: 'answered',
+        questionClosed:
+          isCorrect ||
+          scoring.retryMode === 'exam' ||
+          (scoring.retryMode === 'limited' && attempt >= scoring.maxAttempts),
+        // Pause the question clock during feedback
+        questionElapsed: context.questionElapsed + timeSpent,
         results: newResults
       }
     }
 
+    case 'TIMEOUT': {
+      // Question or session time ran out while the question was on screen
+      if (context.state !== QAState.QUESTION_DISPLAY && context.state !== QAState.ANSWER_SELECTED) {
+        console.warn('[StateMachine] Cannot time out in current state')
+        return context
+      }
+
+      const currentQuestion = getCurrentQuestion(context)
+      if (!currentQuestion) {
+        console.error('[StateMachine] No current question')
+        return context
+      }
+
+      const now = Date.now()
+      const timeSpent = now - context.questionStartedAt
+      const answer: Answer = {
+        questionId: currentQuestion.id,
+        selectedAnswer: context.selectedAnswer,
+        isCorrect: false,
+        outcome: 'timed-out',
+        attempt: countAttempts(context, currentQuestion.id) + 1,
+        credit: 0,
+        pointsEarned: 0,
+        timeSpent,
+        timestamp: now
+      }
+
+      // Goes through CONFIRMED so the wrong-answer feedback plays
+      return {
+        ...context,
+        state: QAState.CONFIRMED,
+        isAnswerLocked: true,
+        lastAnswerCorrect: false,
+        lastOutcome: 'timed-out',
+        // A timed out question is not retried
+        questionClosed: true,
+        questionElapsed: context.questionElapsed + timeSpent,
+        results: {
+          ...context.results,
+          answers: [...context.results.answers, answer],
+          totalAnswered: context.results.totalAnswered + 1,
+          timedOutCount: context.results.timedOutCount + 1,
+          totalAnswerTime: context.results.totalAnswerTime + timeSpent
+        }
+      }
+    }
+
     case 'START_ANIMATION': {
       if (context.state !== QAState.CONFIRMED) {
         console.warn('[StateMachine] Cannot start animation in current state')
@@ -293,32 +675,39 @@ export function qaStateMachineReducer(
         return context
       }
 
-      // If answer was correct, advance to next question or completion
-      if (context.lastAnswerCorrect === true) {
+      const now = Date.now()
+
+      // Session time is up - no further questions or retries
+      if (isSessionExpired(context, now)) {
+        console.log('[StateMachine] Session time limit reached - completing session')
+        return {
+          ...context,
+          state: QAState.COMPLETED,
+          lastAnswerCorrect: null,
+          lastOutcome: null,
+          results: completeResults(context, now)
+        }
+      }
+
+      // Correct, timed out, out of attempts or exam mode - advance to next question or completion
+      if (context.questionClosed) {
         const isLastQuestion = context.currentQuestionIndex >= context.questions.length - 1
 
         if (isLastQuestion) {
-          // Last question answered correctly - go to completion screen
+          // Last question done - go to completion screen
           return {
             ...context,
             state: QAState.COMPLETED,
             lastAnswerCorrect: null,
-            results: {
-              ...context.results,
-              endTime: Date.now()
-            }
+            lastOutcome: null,
+            results: completeResults(context, now)
           }
         }
 
         // More questions remain - advance to next question
-        const nextIndex = context.currentQuestionIndex + 1
         return {
           ...context,
-          state: QAState.QUESTION_DISPLAY,
-          currentQuestionIndex: nextIndex,
-          selectedAnswer: null,
-          isAnswerLocked: false,
-          lastAnswerCorrect: null
+          ...enterQuestion(context.currentQuestionIndex + 1, now)
         }
       }
 
@@ -329,7 +718,11 @@ export function qaStateMachineReducer(
         state: QAState.QUESTION_DISPLAY,
         selectedAnswer: null,
         isAnswerLocked: false,
-        lastAnswerCorrect: null
+        lastAnswerCorrect: null,
+        lastOutcome: null,
+        questionClosed: false,
+        // Resume the question clock; time used so far stays in questionElapsed
+        questionStartedAt: now
         // Keep currentQuestionIndex unchanged - retry same question
       }
     }
@@ -352,11 +745,7 @@ export function qaStateMachineReducer(
       // Advance to next question
       return {
         ...context,
-        state: QAState.QUESTION_DISPLAY,
-        currentQuestionIndex: nextIndex,
-        selectedAnswer: null,
-        isAnswerLocked: false,
-        lastAnswerCorrect: null
+        ...enterQuestion(nextIndex, Date.now())
       }
     }
 
@@ -367,6 +756,12 @@ export function qaStateMachineReducer(
         return context
       }
 
+      // Exam mode answers every question once, so there is no going back
+      if (context.scoring.retryMode === 'exam') {
+        console.warn('[StateMachine] Cannot go back in exam mode')
+        return context
+      }
+
       const prevIndex = context.currentQuestionIndex - 1
 
       if (prevIndex < 0) {
@@ -378,11 +773,7 @@ export function qaStateMachineReducer(
       // Go to previous question
       return {
         ...context,
-        state: QAState.QUESTION_DISPLAY,
-        currentQuestionIndex: prevIndex,
-        selectedAnswer: null,
-        isAnswerLocked: false,
-        lastAnswerCorrect: null
+        ...enterQuestion(prevIndex, Date.now())
       }
     }
 
@@ -390,10 +781,7 @@ export function qaStateMachineReducer(
       return {
         ...context,
         state: QAState.COMPLETED,
-        results: {
-          ...context.results,
-          endTime: Date.now()
-        }
+        results: completeResults(context, Date.now())
       }
     }
 
@@ -427,8 +815,8 @@ export function qaStateMachineReducer(
 export function isActionAllowed(state: QAState, actionType: QAAction['type']): boolean {
   const transitions: Record<QAState, QAAction['type'][]> = {
     [QAState.IDLE]: ['START_SESSION'],
-    [QAState.QUESTION_DISPLAY]: ['SELECT_ANSWER'],
-    [QAState.ANSWER_SELECTED]: ['SELECT_ANSWER', 'CONFIRM_ANSWER'],
+    [QAState.QUESTION_DISPLAY]: ['SELECT_ANSWER', 'ARRANGE_ANSWER', 'TIMEOUT'],
+    [QAState.ANSWER_SELECTED]: ['SELECT_ANSWER', 'ARRANGE_ANSWER', 'CONFIRM_ANSWER', 'TIMEOUT'],
     [QAState.CONFIRMED]: ['START_ANIMATION'],
     [QAState.ANIMATION_FEEDBACK]: ['ANIMATION_COMPLETE', 'NEXT_QUESTION'],
     [QAState.COMPLETED]: ['RESET_SESSION']
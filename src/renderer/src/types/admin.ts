@@ -22,6 +22,57 @@ export interface Entry {
   updatedAt: number
 }
 
+/**
+ * Entry row parsed from the category entries Excel file, with its parent given as a row index
+ */
+export interface ParsedEntryWithParent {
+  /** Existing entry ID from an exported file; rows without one are matched by title */
+  id?: string
+  title: string
+  content: string
+  chapterOrder: number
+  parentRowIndex: number | null // Index of parent entry in the parsed array, null if top-level
+}
+
+/**
+ * Full-text search hit
+ * titleHighlight/snippet mark matches with \u0002 ... \u0003
+ */
+export interface EntrySearchResult {
+  entryId: string
+  categoryId: string
+  categoryName: string
+  parentEntryId: string | null
+  parentTitle: string | null
+  title: string
+  titleHighlight: string
+  snippet: string
+}
+
+/**
+ * Why a database snapshot was taken
+ * Everything except 'manual' is automatic and subject to rotation
+ */
+export type BackupReason =
+  | 'manual'
+  | 'startup'
+  | 'before-import-questions'
+  | 'before-import-entries'
+  | 'before-import-package'
+  | 'before-restore'
+
+/**
+ * A snapshot of admin.db in the userData backups folder
+ */
+export interface BackupInfo {
+  id: string
+  reason: BackupReason
+  label: string | null
+  createdAt: number
+  size: number
+  schemaVersion: number | null
+}
+
 export interface AdminState {
   categories: Category[]
   entries: Record<string, Entry[]> // categoryId -> entries
@@ -0,0 +1,67 @@
+/**
+ * Answer Analytics Type Definitions
+ * Answer events recorded during Q&A sessions and the statistics built from them
+ */
+
+import type { AnswerOutcome, OptionType } from './question'
+
+/**
+ * One attempt at a question, as stored in the answer_events table
+ */
+export interface AnswerEvent {
+  /** Session the attempt belongs to */
+  sessionId: string
+  questionId: string
+  /** Selected option index(es), null if nothing was selected */
+  selectedAnswer: number | number[] | null
+  isCorrect: boolean
+  outcome: AnswerOutcome
+  /** 1-based attempt number (0 for unanswered) */
+  attempt: number
+  /** Time spent on the attempt in milliseconds */
+  timeSpent: number
+  pointsEarned: number
+  /** Points the question was worth when answered */
+  points: number
+  answeredAt: number
+}
+
+/**
+ * Statistics for a single question
+ * Rates use first attempts only, so retries in practice mode do not flatter hard questions
+ */
+export interface QuestionStats {
+  questionId: string
+  text: string
+  optionType: OptionType
+  options: string[]
+  /** Times the question was attempted for the first time */
+  firstAttempts: number
+  /** First attempts that were correct */
+  firstAttemptCorrect: number
+  /** Share of first attempts that were correct, null if never attempted */
+  correctRate: number | null
+  /** Attempts that ran out of time */
+  timedOutCount: number
+  /** Sessions that ended before the question was attempted */
+  unansweredCount: number
+  /** Average time per answered attempt in milliseconds, null if never answered */
+  averageTimeSpent: number | null
+  /** Wrong option picked most often in wrong answers, null if none */
+  topWrongOption: { index: number; count: number } | null
+}
+
+export interface AnswerAnalytics {
+  totalSessions: number
+  totalAttempts: number
+  /** Average points per session */
+  averageScore: number | null
+  /** Average share of available points earned per session, 0-1 */
+  averageScoreRate: number | null
+  /** Questions still in the bank, hardest (lowest correct rate) first */
+  questions: QuestionStats[]
+  /** Sessions started per local day (YYYY-MM-DD), most recent last */
+  sessionsByDay: { day: string; count: number }[]
+  /** Sessions started per local hour of day, index 0-23 */
+  sessionsByHour: number[]
+}
@@ -0,0 +1,28 @@
+/**
+ * Authentication Type Definitions
+ * Admin credentials and sessions live in the main process; these are what it reports back
+ */
+
+export interface AuthSessionStatus {
+  authenticated: boolean
+  /** The default password (or a reset one) must be replaced before using the admin pages */
+  mustChangePassword: boolean
+  expiresAt: number | null
+}
+
+export interface LoginResult {
+  success: boolean
+  mustChangePassword: boolean
+  /** Set when too many failed attempts locked the login, until this time */
+  lockedUntil: number | null
+  /** Failed attempts left before the login is locked, null once lockouts have started */
+  remainingAttempts: number | null
+}
+
+export interface OperatorPinResult {
+  success: boolean
+  /** Set when too many wrong PINs locked the operator console, until this time */
+  lockedUntil: number | null
+  /** Wrong PINs left before the console is locked, null once lockouts have started */
+  remainingAttempts: number | null
+}
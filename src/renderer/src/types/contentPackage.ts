@@ -0,0 +1,106 @@
+/**
+ * Content Package Type Definitions
+ * A .qapkg file carries categories, entries, questions and QA settings between kiosks
+ */
+
+import type { Category, Entry } from './admin'
+import type { Question } from './question'
+
+export type ContentKind = 'category' | 'entry' | 'question'
+
+export interface ContentCounts {
+  categories: number
+  entries: number
+  questions: number
+}
+
+/**
+ * Manifest stored at the head of every package
+ * Section checksums are SHA-256 of the section JSON; images are keyed by their own SHA-256
+ */
+export interface ContentPackageManifest {
+  format: 'qapkg'
+  version: number
+  appVersion: string
+  schemaVersion: number
+  createdAt: number
+  counts: ContentCounts & { images: number }
+  checksums: {
+    categories: string
+    entries: string
+    questions: string
+    qaSettings: string
+    images: string[]
+  }
+}
+
+export interface PackagedImage {
+  mimeType: string
+  /** base64 encoded bytes */
+  data: string
+}
+
+/**
+ * Decoded package contents
+ * Entry images and question attachments (images or videos) are replaced by
+ * qapkg-image:<sha256> references into `images`
+ */
+export interface ContentPackage {
+  manifest: ContentPackageManifest
+  categories: Category[]
+  entries: Entry[]
+  questions: Question[]
+  /** Opaque QA settings object from the exporting kiosk */
+  qaSettings: Record<string, unknown> | null
+  images: Record<string, PackagedImage>
+}
+
+/**
+ * An incoming row whose ID already exists on this kiosk
+ */
+export interface PackageConflict {
+  kind: ContentKind
+  id: string
+  localTitle: string
+  incomingTitle: string
+  /** Content is the same apart from timestamps */
+  identical: boolean
+}
+
+export interface PackagePreview {
+  filePath: string
+  fileName: string
+  manifest: ContentPackageManifest
+  /** Rows currently on this kiosk (removed by a replace import) */
+  localCounts: ContentCounts
+  /** Incoming rows with IDs not yet on this kiosk */
+  newCounts: ContentCounts
+  conflicts: PackageConflict[]
+  hasQASettings: boolean
+}
+
+/**
+ * merge: keep local content and add the package on top
+ * replace: move all local content to the recycle bin first
+ */
+export type PackageImportMode = 'merge' | 'replace'
+
+export interface PackageImportOptions {
+  mode: PackageImportMode
+  /** Merge only: overwrite conflicting rows with the package version (otherwise keep local) */
+  overwriteConflicts: boolean
+}
+
+export interface PackageImportResult {
+  imported: ContentCounts
+  /** Conflicting rows left untouched in merge mode */
+  skipped: number
+  /** Snapshot taken before the import, for undo from the backup page */
+  backupId: string
+  qaSettings: Record<string, unknown> | null
+}
+
+export interface PackageExportResult {
+  filePath: string
+  counts: ContentCounts & { images: number }
+}
@@ -0,0 +1,14 @@
+/**
+ * Host Mode Type Definitions
+ * What the presenter's screen shows on the buzzer window (relayed by the main process)
+ */
+
+export interface BuzzerPanel {
+  teams: string[]
+  /** Buzzers are open: the countdown is running */
+  open: boolean
+  /** Team that has the floor */
+  buzzedTeam: number | null
+  /** Teams that answered the current question wrong */
+  lockedOutTeams: number[]
+}
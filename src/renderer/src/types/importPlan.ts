@@ -0,0 +1,46 @@
+/**
+ * Spreadsheet Import Plan Type Definitions
+ * Dry-run comparison of imported question/entry rows against the rows already in the database
+ */
+
+/**
+ * new: no existing row matches
+ * changed: matches an existing row that differs
+ * unchanged: matches an existing row with the same content
+ * conflict: the match is ambiguous (several candidates, or the ID and the text point at different rows)
+ */
+export type ImportRowStatus = 'new' | 'changed' | 'unchanged' | 'conflict'
+
+export type ImportAction = 'insert' | 'update' | 'skip'
+
+/**
+ * Comparison result for one imported row, in file order
+ */
+export interface ImportRowPreview {
+  /** Index into the rows sent for preview */
+  index: number
+  status: ImportRowStatus
+  /** Question text or entry title from the file */
+  title: string
+  /** Existing row that an update would overwrite, null if there is none */
+  matchedId: string | null
+  matchedBy: 'id' | 'text' | null
+  localTitle: string | null
+  /** Fields that differ from the matched row */
+  changedFields: string[]
+  /** Why the row is a conflict */
+  message: string | null
+  /** Action applied unless the user picks another one */
+  defaultAction: ImportAction
+}
+
+export interface ImportPreview {
+  rows: ImportRowPreview[]
+  counts: Record<ImportRowStatus, number>
+}
+
+export interface ImportSummary {
+  inserted: number
+  updated: number
+  skipped: number
+}
@@ -3,15 +3,27 @@
  */
 
 /**
- * Question type: single choice or multiple choice
+ * Question type
+ * - single / multiple: pick one or several options
+ * - fill-blank: fill the ___ blanks in the text from a bank of word tiles (the options)
+ * - ordering: put the options, stored in the correct order, back in order
  */
-export type QuestionType = 'single' | 'multiple'
+export type QuestionType = 'single' | 'multiple' | 'fill-blank' | 'ordering'
 
 /**
- * Option type: true/false (✅/❌) or letter options (A/B/C/D)
+ * Option type: true/false (✅/❌) or letter options (2-8 options, A-H)
  */
 export type OptionType = 'true-false' | 'letter-options'
 
+/**
+ * Image or short video attached to a question stem or option, kept in the media library
+ */
+export interface QuestionMedia {
+  /** app-media:// URL of the file */
+  url: string
+  kind: 'image' | 'video'
+}
+
 /**
  * Single question with multiple choice options
  */
@@ -26,14 +38,62 @@ export interface Question {
   optionType: OptionType
   /** Array of answer options */
   options: string[]
-  /** Index(es) of correct answer(s) - single number for single choice, array for multiple choice */
+  /**
+   * Index(es) of correct answer(s) - single number for single choice, array for multiple choice,
+   * the tile for each blank in order for fill-blank, the options in order for ordering
+   */
   correctAnswer: number | number[]
+  /** Fill-blank only: other tile texts accepted for each blank, in blank order */
+  acceptedAnswers?: string[][]
+  /** Image or video shown with the question text */
+  media?: QuestionMedia | null
+  /** Image or video shown with each option, by option index (null for none) */
+  optionMedia?: (QuestionMedia | null)[]
+  /** Show the options in a new random order each session (letter options only) */
+  shuffleOptions?: boolean
+  /**
+   * Set on the session copy of a question whose options were shuffled:
+   * the stored index of each displayed option
+   */
+  optionOrder?: number[]
+  /** Points awarded for a correct answer (defaults to 1) */
+  points?: number
+  /** Why the answer is right, as HTML; shown after the question is finished */
+  explanation?: string
+  /** ID of the entry (clause) the question is based on */
+  entryId?: string | null
+  /** IDs of the categories (topics) the question is tagged with */
+  categoryIds?: string[]
   /** Created timestamp */
   createdAt: number
   /** Updated timestamp */
   updatedAt: number
 }
 
+/**
+ * Question parsed from an import file; carries the ID when the row came from an export
+ */
+export type ParsedQuestion = Omit<Question, 'id' | 'createdAt' | 'updatedAt'> & { id?: string }
+
+/**
+ * Question parsed from the Excel template with the image or video file names its row
+ * references; they are resolved against a folder or zip chosen when importing
+ */
+export type ParsedQuestionWithMedia = ParsedQuestion & {
+  mediaFile?: string
+  /** File name for each option, by option index ('' for none) */
+  optionMediaFiles?: string[]
+}
+
+/**
+ * Media files of an import stored in the media library, by the file name used in the sheet
+ */
+export interface QuestionMediaFiles {
+  found: Record<string, QuestionMedia>
+  /** Names that were not found or are not an image or video */
+  missing: string[]
+}
+
 /**
  * Question bank metadata
  */
@@ -62,34 +122,74 @@ export interface QuestionBank {
 export interface LegacyQuestion {
   id: number
   text: string
-  options: [string, string, string, string]
-  correctAnswer: 0 | 1 | 2 | 3
+  /** 2-8 options, A-H */
+  options: string[]
+  correctAnswer: number
 }
 
+/**
+ * How a question attempt ended
+ * - answered: the visitor confirmed an answer
+ * - timed-out: the question or session time limit ran out on this question
+ * - unanswered: the session ended before the question was attempted
+ */
+export type AnswerOutcome = 'answered' | 'timed-out' | 'unanswered'
+
 /**
  * User's answer to a question
  */
 export interface Answer {
   /** Question ID this answer is for */
   questionId: string
-  /** Selected answer index(es) */
-  selectedAnswer: number | number[]
+  /** Selected answer index(es), null if nothing was selected before time ran out */
+  selectedAnswer: number | number[] | null
   /** Whether the answer was correct */
   isCorrect: boolean
+  /** How the attempt ended */
+  outcome: AnswerOutcome
+  /** 1-based attempt number for this question (0 for unanswered) */
+  attempt: number
+  /** Share of the question's points this answer deserves, 0-1 (partial credit for multiple choice) */
+  credit: number
+  /** Points added to the session score; only the first attempt at a question is scored */
+  pointsEarned: number
+  /** Time spent on this attempt in milliseconds (0 for unanswered) */
+  timeSpent: number
   /** Timestamp when answer was submitted */
   timestamp: number
 }
 
+/**
+ * Grade derived from the share of points earned
+ */
+export type Grade = 'excellent' | 'good' | 'pass' | 'fail'
+
 /**
  * Session results tracking all answers
  */
 export interface SessionResults {
+  /** Unique ID of the session, used to group recorded answer events (empty before a session starts) */
+  sessionId: string
   /** Array of all submitted answers */
   answers: Answer[]
-  /** Total number of correct answers */
+  /** Number of questions answered correctly at the first attempt */
   correctCount: number
-  /** Total number of questions answered */
+  /** Total number of attempts (including retries and timed out attempts) */
   totalAnswered: number
+  /** Points earned so far */
+  score: number
+  /** Points available in the session */
+  maxScore: number
+  /** Grade for the final score (set on completion) */
+  grade?: Grade
+  /** Number of attempts that ran out of time */
+  timedOutCount: number
+  /** Number of questions never attempted before the session ended */
+  unansweredCount: number
+  /** Sum of time spent on answered and timed out attempts, in milliseconds */
+  totalAnswerTime: number
+  /** Average time per answered or timed out attempt in milliseconds (set on completion) */
+  averageAnswerTime?: number
   /** Session start time */
   startTime: number
   /** Session end time (if completed) */
@@ -0,0 +1,22 @@
+/**
+ * Recycle Bin Type Definitions
+ * Soft-deleted categories, entries and questions waiting to be restored or purged
+ */
+
+export type RecycleBinKind = 'category' | 'entry' | 'question'
+
+/**
+ * A deleted item as listed in the recycle bin
+ * Entries deleted along with their category or parent entry are counted, not listed
+ */
+export interface RecycleBinItem {
+  kind: RecycleBinKind
+  id: string
+  /** Category name, entry title or question text */
+  title: string
+  /** Category of an entry; null for categories and questions */
+  categoryName: string | null
+  /** Entries deleted along with this category or entry */
+  childCount: number
+  deletedAt: number
+}
@@ -0,0 +1,34 @@
+/**
+ * Revision History Type Definitions
+ * Earlier versions of entries and questions, kept on every update
+ */
+
+import type { Entry } from './admin'
+import type { Question } from './question'
+
+/**
+ * update: the version replaced by an edit (or by restoring another revision)
+ * delete: the last version before the row was deleted, written before deleted rows
+ * went to the recycle bin
+ */
+export type RevisionAction = 'update' | 'delete'
+
+export interface EntryRevision {
+  id: number
+  entryId: string
+  action: RevisionAction
+  /** The entry as it was before the change */
+  snapshot: Entry
+  /** Shared by a parent and the children deleted along with it (delete revisions only) */
+  batchId: string | null
+  createdAt: number
+}
+
+export interface QuestionRevision {
+  id: number
+  questionId: string
+  action: RevisionAction
+  /** The question (with its category tags) as it was before the change */
+  snapshot: Question
+  createdAt: number
+}
@@ -10,9 +10,9 @@ import * as authService from '../services/authService'
  * Returns true if authenticated, false otherwise
  * Shows alert if not authenticated
  */
-export function requireAuth(): boolean {
-  const isAuthenticated = authService.isAuthenticated()
-  if (!isAuthenticated) {
+export async function requireAuth(): Promise<boolean> {
+  const { authenticated } = await authService.getAuthSession()
+  if (!authenticated) {
     alert('请先登录后再进行操作')
     return false
   }
@@ -24,10 +24,10 @@ export function requireAuth(): boolean {
  */
 export function withAuth<T extends unknown[]>(
   callback: (...args: T) => void | Promise<void>
-): (...args: T) => void | Promise<void> {
-  return (...args: T) => {
-    if (requireAuth()) {
-      return callback(...args)
+): (...args: T) => Promise<void> {
+  return async (...args: T) => {
+    if (await requireAuth()) {
+      await callback(...args)
     }
   }
 }
@@ -27,3 +27,35 @@ export function getHtmlPreview(html: string, maxLength = 100): string {
   }
   return text.substring(0, maxLength) + '...'
 }
+
+/**
+ * Turn plain text into HTML paragraphs, one per non-empty line
+ * @param text Plain text, e.g. an explanation typed into a spreadsheet cell
+ * @returns Escaped HTML
+ */
+export function plainTextToHtml(text: string): string {
+  const escape = (line: string): string =>
+    line.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line)
+    .map((line) => `<p>${escape(line)}</p>`)
+    .join('')
+}
+
+/**
+ * Split HTML into plain-text lines, one per paragraph, heading, list item or table row
+ * Images become a [图片] placeholder so added or removed images show up in comparisons
+ * @param html HTML string
+ * @returns Non-empty trimmed lines
+ */
+export function htmlToTextLines(html: string): string[] {
+  const marked = html
+    .replace(/<img\b[^>]*>/gi, '[图片]')
+    .replace(/<br\s*\/?>|<\/(p|h[1-6]|li|tr|div|blockquote)>/gi, (tag) => `${tag}\n`)
+  return stripHtmlTags(marked)
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line)
+}
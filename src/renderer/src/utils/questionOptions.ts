@@ -0,0 +1,113 @@
+/**
+ * Question option helpers
+ * Letter-option questions carry 2-8 options labelled A-H. A question can ask for its options
+ * to be shuffled; the session then works on a copy with the options and answer remapped and
+ * remembers the order so answers can be reported against the stored option indexes.
+ * Fill-blank tiles and ordering steps are always shuffled
+ */
+
+import type { Question } from '../types/question'
+import { isSequenceType } from './questionTypes'
+
+export const MIN_OPTIONS = 2
+export const MAX_OPTIONS = 8
+
+/**
+ * Labels of the option slots, A-H
+ */
+export const OPTION_LETTERS = 'ABCDEFGH'
+
+export function getOptionLetter(index: number): string {
+  return OPTION_LETTERS[index] ?? '?'
+}
+
+/**
+ * Whether an answer index points at one of the question's options
+ */
+export function isValidOptionIndex(index: unknown, optionCount: number): index is number {
+  return typeof index === 'number' && Number.isInteger(index) && index >= 0 && index < optionCount
+}
+
+/**
+ * Valid answer numbers for a number of options, e.g. "0-3（对应A-D）"
+ */
+export function describeAnswerRange(optionCount: number): string {
+  const last = Math.max(optionCount, 1) - 1
+  return `0-${last}（对应A-${getOptionLetter(last)}）`
+}
+
+/**
+ * Put a question's options in the given display order (display index -> stored index)
+ */
+export function applyOptionOrder(question: Question, order: number[]): Question {
+  const toDisplayIndex = (index: number): number => order.indexOf(index)
+  const isSequence = isSequenceType(question.questionType)
+  return {
+    ...question,
+    options: order.map((index) => question.options[index]),
+    ...(question.optionMedia
+      ? { optionMedia: order.map((index) => question.optionMedia?.[index] ?? null) }
+      : {}),
+    correctAnswer: Array.isArray(question.correctAnswer)
+      ? isSequence
+        ? question.correctAnswer.map(toDisplayIndex)
+        : question.correctAnswer.map(toDisplayIndex).sort((a, b) => a - b)
+      : toDisplayIndex(question.correctAnswer),
+    optionOrder: order
+  }
+}
+
+/**
+ * Whether an order saved with a session still fits the question, i.e. is a permutation of its options
+ */
+export function isOptionOrderValid(question: Question, order: number[]): boolean {
+  return (
+    order.length === question.options.length &&
+    [...order].sort((a, b) => a - b).every((index, position) => index === position)
+  )
+}
+
+function shuffleOrder(length: number): number[] {
+  const order = Array.from({ length }, (_, index) => index)
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    const swapped = order[i]
+    order[i] = order[j]
+    order[j] = swapped
+  }
+  return order
+}
+
+/**
+ * Session copy of a question, with its options shuffled when the question asks for it
+ * Ordering questions never start in the stored (correct) order
+ */
+export function shuffleQuestionOptions(question: Question): Question {
+  const isSequence = isSequenceType(question.questionType)
+  if (!isSequence && (!question.shuffleOptions || question.optionType !== 'letter-options')) {
+    return question
+  }
+  let order = shuffleOrder(question.options.length)
+  while (
+    question.questionType === 'ordering' &&
+    question.options.length > 1 &&
+    order.every((index, position) => index === position)
+  ) {
+    order = shuffleOrder(question.options.length)
+  }
+  return applyOptionOrder(question, order)
+}
+
+/**
+ * Map an answer given on a shuffled session copy back to the stored option indexes
+ */
+export function toStoredAnswer(
+  question: Question,
+  answer: number | number[] | null
+): number | number[] | null {
+  const order = question.optionOrder
+  if (!order || answer === null) return answer
+  if (!Array.isArray(answer)) return order[answer]
+  const stored = answer.map((index) => order[index])
+  return isSequenceType(question.questionType) ? stored : stored.sort((a, b) => a - b)
+}
@@ -0,0 +1,146 @@
+/**
+ * Question type helpers
+ * Fill-blank questions mark each blank in the text with three or more underscores and use the
+ * options as word tiles; ordering questions store their options in the correct order. Both
+ * answer with a list of option indexes whose order matters
+ */
+
+import type { Question, QuestionType } from '../types/question'
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single: '单选题',
+  multiple: '多选题',
+  'fill-blank': '填空题',
+  ordering: '排序题'
+}
+
+/**
+ * Marker for a blank in the text of a fill-blank question
+ */
+export const BLANK_MARKER = '____'
+
+const BLANK_PATTERN = /_{3,}/g
+
+/**
+ * Most word tiles or ordering steps a question can have (they share the A-H option slots)
+ */
+export const MAX_TILES = 8
+
+/**
+ * Number of blanks marked in a question text
+ */
+export function countBlanks(text: string): number {
+  return text.match(BLANK_PATTERN)?.length ?? 0
+}
+
+/**
+ * Split a question text at its blanks; a text with n blanks gives n + 1 parts
+ */
+export function splitAtBlanks(text: string): string[] {
+  return text.split(BLANK_PATTERN)
+}
+
+/**
+ * Whether the answer is an ordered list of option indexes (fill-blank and ordering)
+ */
+export function isSequenceType(questionType: QuestionType): boolean {
+  return questionType === 'fill-blank' || questionType === 'ordering'
+}
+
+function normalizeBlankAnswer(text: string): string {
+  return text.replace(/\s+/g, '').toLowerCase()
+}
+
+/**
+ * Whether a tile fills a blank correctly: its text matches the correct tile or one of
+ * the accepted variants for the blank (ignoring whitespace and case)
+ */
+export function isBlankAnswerAccepted(question: Question, blank: number, tile: number): boolean {
+  const correctTiles = Array.isArray(question.correctAnswer)
+    ? question.correctAnswer
+    : [question.correctAnswer]
+  const tileText = question.options[tile]
+  if (tileText === undefined || correctTiles[blank] === undefined) return false
+  if (tile === correctTiles[blank]) return true
+
+  const accepted = [
+    question.options[correctTiles[blank]],
+    ...(question.acceptedAnswers?.[blank] ?? [])
+  ]
+  return accepted.some((text) => normalizeBlankAnswer(text) === normalizeBlankAnswer(tileText))
+}
+
+/**
+ * Check the tiles or steps and the answer of a fill-blank or ordering question
+ * @returns Error message, or null if the question is valid
+ */
+export function getSequenceQuestionError(
+  question: Pick<
+    Question,
+    'text' | 'questionType' | 'options' | 'correctAnswer' | 'acceptedAnswers'
+  >
+): string | null {
+  const { options, correctAnswer } = question
+  const answer = Array.isArray(correctAnswer) ? correctAnswer : [correctAnswer]
+  const isOptionIndex = (index: number): boolean =>
+    Number.isInteger(index) && index >= 0 && index < options.length
+
+  if (options.some((option) => !option || option.trim() === '')) {
+    return question.questionType === 'fill-blank' ? '词块不能为空' : '排序步骤不能为空'
+  }
+
+  if (question.questionType === 'fill-blank') {
+    const blanks = countBlanks(question.text)
+    if (blanks === 0) {
+      return `填空题需要在题目中用 ${BLANK_MARKER}（至少三个下划线）标出空格`
+    }
+    const minTiles = Math.max(blanks, 2)
+    if (options.length < minTiles || options.length > MAX_TILES) {
+      return `填空题的词块数量必须为 ${minTiles} 到 ${MAX_TILES} 个（不少于空格数）`
+    }
+    if (answer.length !== blanks || !answer.every(isOptionIndex)) {
+      return `填空题需要为 ${blanks} 个空格各指定一个正确词块`
+    }
+    if (new Set(answer).size !== answer.length) {
+      return '填空题的每个词块只能填入一个空格'
+    }
+    if ((question.acceptedAnswers?.length ?? 0) > blanks) {
+      return '可接受答案的空格数多于题目中的空格数'
+    }
+    return null
+  }
+
+  if (options.length < 2 || options.length > MAX_TILES) {
+    return `排序题的步骤数量必须为 2 到 ${MAX_TILES} 个`
+  }
+  if (
+    answer.length !== options.length ||
+    !answer.every(isOptionIndex) ||
+    new Set(answer).size !== answer.length
+  ) {
+    return '排序题的正确顺序必须包含每个步骤各一次'
+  }
+  return null
+}
+
+/**
+ * Describe the correct answer, e.g. "A、C", "✅ 正确", "“宪法”、“人民”" or "甲 → 乙 → 丙"
+ */
+export function formatCorrectAnswer(question: Question): string {
+  const indexes = Array.isArray(question.correctAnswer)
+    ? question.correctAnswer
+    : [question.correctAnswer]
+  if (question.questionType === 'fill-blank') {
+    return indexes.map((idx) => `“${question.options[idx]}”`).join('、')
+  }
+  if (question.questionType === 'ordering') {
+    return indexes.map((idx) => question.options[idx]).join(' → ')
+  }
+  if (question.optionType === 'true-false') {
+    return indexes[0] === 0 ? '✅ 正确' : '❌ 错误'
+  }
+  return [...indexes]
+    .sort((a, b) => a - b)
+    .map((idx) => String.fromCharCode(65 + idx))
+    .join('、')
+}
@@ -0,0 +1,36 @@
+/**
+ * Team colors of the host mode, shared by the presenter's screen and the buzzer window
+ */
+
+export const TEAM_STYLES = [
+  {
+    card: 'border-sky-400 bg-sky-500/20',
+    text: 'text-sky-300',
+    buzzer: 'bg-sky-500 hover:bg-sky-400 shadow-[0_0_40px_rgba(56,189,248,0.6)]'
+  },
+  {
+    card: 'border-emerald-400 bg-emerald-500/20',
+    text: 'text-emerald-300',
+    buzzer: 'bg-emerald-500 hover:bg-emerald-400 shadow-[0_0_40px_rgba(52,211,153,0.6)]'
+  },
+  {
+    card: 'border-violet-400 bg-violet-500/20',
+    text: 'text-violet-300',
+    buzzer: 'bg-violet-500 hover:bg-violet-400 shadow-[0_0_40px_rgba(167,139,250,0.6)]'
+  },
+  {
+    card: 'border-orange-400 bg-orange-500/20',
+    text: 'text-orange-300',
+    buzzer: 'bg-orange-500 hover:bg-orange-400 shadow-[0_0_40px_rgba(251,146,60,0.6)]'
+  },
+  {
+    card: 'border-pink-400 bg-pink-500/20',
+    text: 'text-pink-300',
+    buzzer: 'bg-pink-500 hover:bg-pink-400 shadow-[0_0_40px_rgba(244,114,182,0.6)]'
+  },
+  {
+    card: 'border-amber-400 bg-amber-500/20',
+    text: 'text-amber-300',
+    buzzer: 'bg-amber-500 hover:bg-amber-400 shadow-[0_0_40px_rgba(251,191,36,0.6)]'
+  }
+]
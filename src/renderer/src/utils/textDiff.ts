@@ -0,0 +1,48 @@
+/**
+ * Text Diff Utility
+ * Line-by-line comparison used to show what changed between two revisions
+ */
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+/**
+ * Diff two lists of lines using the longest common subsequence
+ * @param before Lines of the older version
+ * @param after Lines of the newer version
+ * @returns Lines in display order, removed lines before the lines that replaced them
+ */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  // lengths[i][j] = LCS length of before[i..] and after[j..]
+  const lengths = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  )
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const result: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      result.push({ type: 'same', text: before[i] })
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'removed', text: before[i++] })
+    } else {
+      result.push({ type: 'added', text: after[j++] })
+    }
+  }
+  while (i < before.length) result.push({ type: 'removed', text: before[i++] })
+  while (j < after.length) result.push({ type: 'added', text: after[j++] })
+  return result
+}